@@ -9,8 +9,11 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { StyleSheet, View } from 'react-native';
 import AppNavigator from './src/navigation/AppNavigator';
+import UndoSnackbar from './src/components/UndoSnackbar';
 import { useAppBootstrap } from './src/hooks/useAppBootstrap';
+import { useCountdownTimers } from './src/hooks/useCountdownTimers';
 import { useHabitReminderSync } from './src/hooks/useHabitReminderSync';
+import { useTimerSessionRecovery } from './src/hooks/useTimerSessionRecovery';
 import { useSettingsStore } from './src/store/settingsStore';
 import { getAppTheme } from './src/theme';
 
@@ -25,6 +28,8 @@ function ThemedApp() {
 
   useAppBootstrap();
   useHabitReminderSync();
+  useTimerSessionRecovery();
+  useCountdownTimers();
 
   if (!isLoaded) {
     return (
@@ -43,6 +48,7 @@ function ThemedApp() {
         <AppNavigator />
         <StatusBar style={themeMode === 'dark' ? 'light' : 'dark'} />
       </NavigationContainer>
+      <UndoSnackbar />
     </PaperProvider>
   );
 }
@@ -0,0 +1,129 @@
+import {
+  abstinenceCleanSince,
+  abstinenceStartDate,
+  AbstinenceConfigSchema,
+  currentCleanDays,
+  formatElapsed,
+  formatRelapseFrequency,
+  getDailyValueSemantics,
+  isElementDayComplete,
+  longestCleanStreakDays,
+  PROTOCOL_VERSION,
+  relapseDates,
+  relapseFrequency,
+  validateEventForElement,
+  type ElementDefinition,
+  type LifeEvent,
+} from '../src/protocol';
+
+const elementId = 'd4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f7a';
+
+const quit = (config: Record<string, unknown> = {}): ElementDefinition => ({
+  id: elementId,
+  kind: 'abstinence',
+  name: 'No smoking',
+  category: 'habit',
+  config,
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-03-01T12:00:00.000Z',
+  updatedAt: '2025-03-01T12:00:00.000Z',
+});
+
+const relapse = (date: string, value = 1): Pick<LifeEvent, 'date' | 'value'> => ({ date, value });
+
+describe('AbstinenceConfigSchema', () => {
+  it('accepts an optional YYYY-MM-DD quit date', () => {
+    expect(AbstinenceConfigSchema.parse({})).toEqual({});
+    expect(AbstinenceConfigSchema.safeParse({ startDate: '2025-03-01' }).success).toBe(true);
+    expect(AbstinenceConfigSchema.safeParse({ startDate: '1/3/2025' }).success).toBe(false);
+  });
+});
+
+describe('abstinence semantics', () => {
+  it('treats days without a relapse as complete', () => {
+    expect(isElementDayComplete(quit(), 0)).toBe(true);
+    expect(isElementDayComplete(quit(), 1)).toBe(false);
+    expect(getDailyValueSemantics(quit())).toEqual({
+      unit: 'count',
+      displayUnit: 'relapses',
+      aggregation: 'sum',
+    });
+  });
+
+  it('validates relapse event meta', () => {
+    const event: LifeEvent = {
+      id: 'e5f6a7b8-c9d0-4e1f-8a2b-3c4d5e6f7a8b',
+      elementId,
+      timestamp: '2025-03-05T21:00:00.000Z',
+      date: '2025-03-05',
+      value: 1,
+      meta: { source: 'relapse' },
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    expect(() => validateEventForElement(quit(), event)).not.toThrow();
+    expect(() =>
+      validateEventForElement(quit(), { ...event, meta: { source: 'habit_tick' } }),
+    ).toThrow();
+  });
+});
+
+describe('abstinence timing', () => {
+  it('starts from the quit date, else the creation day', () => {
+    expect(abstinenceStartDate({ startDate: '2025-02-20' }, quit().createdAt)).toBe('2025-02-20');
+    expect(abstinenceStartDate({}, quit().createdAt)).toBe('2025-03-01');
+  });
+
+  it('restarts the clean timer at the latest relapse', () => {
+    const since = abstinenceCleanSince({}, quit().createdAt, {
+      timestamp: '2025-03-05T21:00:00.000Z',
+    });
+    expect(since.toISOString()).toBe('2025-03-05T21:00:00.000Z');
+  });
+
+  it('formats elapsed time with seconds under a day', () => {
+    expect(formatElapsed((3 * 3600 + 5 * 60 + 9) * 1000)).toBe('3h 05m 09s');
+    expect(formatElapsed((2 * 86400 + 4 * 3600 + 30 * 60) * 1000)).toBe('2d 4h 30m');
+    expect(formatElapsed(-5000)).toBe('0h 00m 00s');
+  });
+});
+
+describe('clean streaks', () => {
+  const start = '2025-03-01';
+
+  it('counts every day since the start when there are no relapses', () => {
+    expect(currentCleanDays(start, [], '2025-03-10')).toBe(10);
+    expect(longestCleanStreakDays(start, [], '2025-03-10')).toBe(10);
+  });
+
+  it('finds the longest relapse-free run', () => {
+    const dates = relapseDates(
+      [relapse('2025-03-04'), relapse('2025-03-04'), relapse('2025-03-15'), relapse('2025-02-01')],
+      start,
+    );
+    expect(dates).toEqual(['2025-03-04', '2025-03-15']);
+    expect(currentCleanDays(start, dates, '2025-03-18')).toBe(3);
+    expect(longestCleanStreakDays(start, dates, '2025-03-18')).toBe(10);
+  });
+
+  it('restarts at zero on the day of a relapse', () => {
+    expect(currentCleanDays(start, ['2025-03-18'], '2025-03-18')).toBe(0);
+  });
+});
+
+describe('relapse frequency', () => {
+  it('reports relapses per month over the tracked period', () => {
+    const frequency = relapseFrequency(
+      [relapse('2025-03-04'), relapse('2025-03-15')],
+      '2025-03-01',
+      '2025-03-30',
+    );
+    expect(frequency).toEqual({ relapses: 2, trackedDays: 30, perMonth: 2 });
+    expect(formatRelapseFrequency(frequency)).toBe('2 relapses in 30 days · 2.0 per month');
+  });
+
+  it('says so when there are none', () => {
+    expect(formatRelapseFrequency(relapseFrequency([], '2025-03-01', '2025-03-01'))).toBe(
+      'No relapses in 1 day',
+    );
+  });
+});
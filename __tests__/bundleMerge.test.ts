@@ -0,0 +1,139 @@
+import {
+  activeElements,
+  createProtocolBundle,
+  HabitConfigSchema,
+  planBundleMerge,
+  PROTOCOL_VERSION,
+  type ElementDefinition,
+  type LifeEvent,
+  type LocalBundleData,
+} from '../src/protocol';
+
+const habit = (overrides: Partial<ElementDefinition> = {}): ElementDefinition => ({
+  id: '550e8400-e29b-41d4-a716-446655440200',
+  kind: 'habit',
+  name: 'Meditate',
+  category: 'habit',
+  config: HabitConfigSchema.parse({ timeSlot: 'anytime' }),
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const tick = (id: string, elementId = habit().id): LifeEvent => ({
+  id,
+  elementId,
+  timestamp: '2025-01-02T10:00:00.000Z',
+  date: '2025-01-02',
+  value: 1,
+  meta: { source: 'habit_tick' },
+  protocolVersion: PROTOCOL_VERSION,
+});
+
+const local = (overrides: Partial<LocalBundleData> = {}): LocalBundleData => ({
+  elements: [habit()],
+  dashboard: [],
+  events: [tick('550e8400-e29b-41d4-a716-446655440210')],
+  soundLibrary: [],
+  customCategories: [],
+  pausePeriods: [],
+  ...overrides,
+});
+
+describe('planBundleMerge', () => {
+  it('adds new elements and events, skipping ones already present', () => {
+    const other = habit({ id: '550e8400-e29b-41d4-a716-446655440201', name: 'Read' });
+    const incoming = createProtocolBundle({
+      elements: [habit(), other],
+      dashboard: [
+        { id: '550e8400-e29b-41d4-a716-446655440220', elementId: other.id, sortOrder: 0 },
+      ],
+      events: [
+        tick('550e8400-e29b-41d4-a716-446655440210'),
+        tick('550e8400-e29b-41d4-a716-446655440211', other.id),
+      ],
+    });
+
+    const pinned = { id: '550e8400-e29b-41d4-a716-446655440221', elementId: habit().id, sortOrder: 3 };
+    const plan = planBundleMerge(local({ dashboard: [pinned] }), incoming);
+
+    expect(plan.report.elements).toEqual({ added: 1, updated: 0, skipped: 1 });
+    expect(plan.report.events).toEqual({ added: 1, skipped: 1 });
+    expect(plan.dashboardToInsert).toEqual([{ ...incoming.dashboard[0], sortOrder: 4 }]);
+    expect(plan.report.conflicts).toHaveLength(0);
+  });
+
+  it('suggests the newer copy of a conflicting element', () => {
+    const edited = habit({ name: 'Meditate 20m', updatedAt: '2025-02-01T00:00:00.000Z' });
+    const incoming = createProtocolBundle({ elements: [edited], dashboard: [], events: [] });
+
+    const plan = planBundleMerge(local(), incoming);
+    expect(plan.report.conflicts[0].suggested).toBe('incoming');
+    expect(plan.elementsToReplace).toEqual([edited]);
+
+    const kept = planBundleMerge(local(), incoming, { [edited.id]: 'local' });
+    expect(kept.elementsToReplace).toHaveLength(0);
+    expect(kept.report.elements.skipped).toBe(1);
+  });
+
+  it('carries archiving across devices', () => {
+    const archived = habit({
+      archivedAt: '2025-02-01T00:00:00.000Z',
+      updatedAt: '2025-02-01T00:00:00.000Z',
+    });
+    const incoming = createProtocolBundle({ elements: [archived], dashboard: [], events: [] });
+
+    const plan = planBundleMerge(local(), incoming);
+    expect(plan.elementsToReplace).toEqual([archived]);
+    expect(activeElements([...local().elements, ...plan.elementsToReplace])).toEqual([habit()]);
+  });
+
+  it('drops incoming events that do not fit the element that is kept', () => {
+    const timer = habit({
+      config: HabitConfigSchema.parse({ timeSlot: 'anytime', trackingMode: 'timer' }),
+      updatedAt: '2025-02-01T00:00:00.000Z',
+    });
+    const session: LifeEvent = {
+      ...tick('550e8400-e29b-41d4-a716-446655440212'),
+      value: 60,
+      meta: {
+        source: 'timer_session',
+        startedAt: '2025-01-02T09:59:00.000Z',
+        endedAt: '2025-01-02T10:00:00.000Z',
+        durationSeconds: 60,
+      },
+    };
+    const incoming = createProtocolBundle({ elements: [timer], dashboard: [], events: [session] });
+
+    const plan = planBundleMerge(local(), incoming, { [timer.id]: 'local' });
+    expect(plan.eventsToInsert).toHaveLength(0);
+    expect(plan.report.events.skipped).toBe(1);
+  });
+
+  it('adds custom categories and pauses it does not have yet', () => {
+    const garden = { id: 'garden', label: 'Garden', color: '#10B981', icon: 'leaf' };
+    const reading = { id: 'reading', label: 'Reading', color: '#6366F1', icon: 'book-open-variant' };
+    const trip = {
+      id: '550e8400-e29b-41d4-a716-446655440230',
+      startDate: '2025-07-10',
+      endDate: '2025-07-12',
+      createdAt: '2025-07-01T08:00:00.000Z',
+    };
+    const incoming = createProtocolBundle({
+      elements: [habit({ category: 'reading' })],
+      dashboard: [],
+      events: [],
+      customCategories: [garden, reading],
+      pausePeriods: [trip],
+    });
+
+    const plan = planBundleMerge(local({ customCategories: [garden] }), incoming);
+    expect(plan.customCategories).toEqual([garden, reading]);
+    expect(plan.pausePeriodsToInsert).toEqual([trip]);
+    expect(plan.report.categories).toEqual({ added: 1 });
+
+    const again = planBundleMerge(local({ pausePeriods: [trip] }), incoming);
+    expect(again.report.pauses).toEqual({ added: 0 });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  describeBundleError,
+  parseProtocolBundle,
+  PROTOCOL_VERSION,
+  upgradeProtocolBundle,
+} from '../src/protocol';
+
+/** A bundle as written by protocol v1 builds: no `updatedAt`, version 1 throughout. */
+const v1Bundle = () => ({
+  protocolVersion: 1,
+  exportedAt: '2025-03-01T12:00:00.000Z',
+  elements: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440400',
+      kind: 'habit',
+      name: 'Meditate',
+      category: 'habit',
+      config: { timeSlot: 'anytime', trackingMode: 'timer', dailyTargetSeconds: 600 },
+      protocolVersion: 1,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440401',
+      kind: 'counter',
+      name: 'Push-ups',
+      category: 'exercise',
+      config: { unit: 'reps', quickIncrements: [5, 10] },
+      protocolVersion: 1,
+      createdAt: '2025-01-02T00:00:00.000Z',
+      updatedAt: '2025-02-01T00:00:00.000Z',
+    },
+  ],
+  dashboard: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440410',
+      elementId: '550e8400-e29b-41d4-a716-446655440401',
+      sortOrder: 0,
+    },
+  ],
+  events: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440420',
+      elementId: '550e8400-e29b-41d4-a716-446655440400',
+      timestamp: '2025-03-01T08:10:00.000Z',
+      date: '2025-03-01',
+      value: 600,
+      meta: {
+        source: 'timer_session',
+        startedAt: '2025-03-01T08:00:00.000Z',
+        endedAt: '2025-03-01T08:10:00.000Z',
+        durationSeconds: 600,
+      },
+      protocolVersion: 1,
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440421',
+      elementId: '550e8400-e29b-41d4-a716-446655440401',
+      timestamp: '2025-03-01T09:00:00.000Z',
+      date: '2025-03-01',
+      value: 10,
+      meta: { source: 'quick_button', increment: 10 },
+      protocolVersion: 1,
+    },
+  ],
+});
+
+describe('protocol bundle upgrades', () => {
+  it('imports v1 bundles as the current version', () => {
+    const bundle = parseProtocolBundle(v1Bundle());
+
+    expect(bundle.protocolVersion).toBe(PROTOCOL_VERSION);
+    expect(bundle.elements.map((element) => element.protocolVersion)).toEqual([
+      PROTOCOL_VERSION,
+      PROTOCOL_VERSION,
+    ]);
+    expect(bundle.events.every((event) => event.protocolVersion === PROTOCOL_VERSION)).toBe(true);
+    expect(bundle.dashboard).toEqual(v1Bundle().dashboard);
+    expect(bundle.events[0].meta).toEqual(v1Bundle().events[0].meta);
+  });
+
+  it('backfills element updatedAt from createdAt in v2', () => {
+    const bundle = parseProtocolBundle(v1Bundle());
+    expect(bundle.elements[0].updatedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(bundle.elements[1].updatedAt).toBe('2025-02-01T00:00:00.000Z');
+  });
+
+  it('does not mutate the input', () => {
+    const raw = v1Bundle();
+    upgradeProtocolBundle(raw);
+    expect(raw).toEqual(v1Bundle());
+  });
+
+  it('passes current and unknown versions through for validation', () => {
+    const current = { ...v1Bundle(), protocolVersion: PROTOCOL_VERSION };
+    expect(upgradeProtocolBundle(current)).toBe(current);
+
+    const future = { ...v1Bundle(), protocolVersion: PROTOCOL_VERSION + 1 };
+    expect(upgradeProtocolBundle(future)).toBe(future);
+    expect(() => parseProtocolBundle(future)).toThrow();
+    expect(describeBundleError(future, new Error('x'))[0]).toMatch(/update the app/);
+  });
+
+  it('still reports invalid v1 records after upgrading', () => {
+    const raw = v1Bundle();
+    raw.events[1].value = Number.NaN;
+    expect(() => parseProtocolBundle(raw)).toThrow();
+  });
+});
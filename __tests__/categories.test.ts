@@ -0,0 +1,183 @@
+import {
+  buildCustomCategory,
+  categoryCompletion,
+  defaultCategoryForKind,
+  filterByCategory,
+  formatCategoryCompletion,
+  parseCustomCategories,
+  parseElementDefinition,
+  resolveCategory,
+  usedCategories,
+  PROTOCOL_VERSION,
+  type CategoryDefinition,
+  type ElementDefinition,
+  type ElementKind,
+  type LifeEvent,
+} from '../src/protocol';
+
+const PUSHUPS = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const STRETCH = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+const WATER = 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f';
+
+const mindful: CategoryDefinition = {
+  id: 'd4e5f6a7-b8c9-4d0e-9f1a-2b3c4d5e6f7a',
+  label: 'Mindfulness',
+  color: '#A855F7',
+  icon: 'meditation',
+};
+
+const element = (
+  id: string,
+  kind: ElementKind,
+  category: string,
+  config: Record<string, unknown> = {},
+  createdAt = '2025-03-01T12:00:00.000Z',
+): ElementDefinition => ({
+  id,
+  kind,
+  name: id,
+  category,
+  config,
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const counterConfig = (extra: Record<string, unknown> = {}) => ({
+  unit: 'reps',
+  quickIncrements: [5],
+  ...extra,
+});
+
+const event = (elementId: string, date: string, value = 1): LifeEvent => ({
+  id: `${elementId.slice(0, 8)}-0000-4000-8000-${date.replace(/-/g, '')}0000`,
+  elementId,
+  timestamp: `${date}T09:00:00.000Z`,
+  date,
+  value,
+  protocolVersion: PROTOCOL_VERSION,
+});
+
+describe('category taxonomy', () => {
+  it('resolves built-in, custom and unknown ids', () => {
+    expect(resolveCategory('exercise', []).label).toBe('Exercise');
+    expect(resolveCategory(mindful.id, [mindful]).label).toBe('Mindfulness');
+    expect(resolveCategory('deleted-category', [mindful]).id).toBe('custom');
+  });
+
+  it('suggests a category per kind', () => {
+    expect(defaultCategoryForKind('counter')).toBe('exercise');
+    expect(defaultCategoryForKind('checklist')).toBe('habit');
+    expect(defaultCategoryForKind('measurement')).toBe('custom');
+  });
+
+  it('accepts custom category ids on elements', () => {
+    const parsed = parseElementDefinition(
+      element(PUSHUPS, 'counter', mindful.id, counterConfig()),
+    );
+    expect(parsed.category).toBe(mindful.id);
+  });
+
+  it('drops malformed and duplicate stored categories', () => {
+    expect(parseCustomCategories('not a list')).toEqual([]);
+    expect(parseCustomCategories([mindful, mindful, { ...mindful, id: 'food' }])).toEqual([
+      mindful,
+    ]);
+    expect(parseCustomCategories([{ ...mindful, color: 'purple' }])).toEqual([]);
+  });
+
+  it('rejects duplicate labels and built-in ids', () => {
+    expect(buildCustomCategory({ ...mindful, label: '  Mindfulness ' }, []).label).toBe(
+      'Mindfulness',
+    );
+    expect(() => buildCustomCategory({ ...mindful, label: 'exercise' }, [])).toThrow(
+      'already exists',
+    );
+    expect(() => buildCustomCategory({ ...mindful, id: 'task' }, [])).toThrow('Built-in');
+    expect(() => buildCustomCategory({ ...mindful, label: '' }, [])).toThrow();
+  });
+
+  it('lists used categories in order and filters by resolved id', () => {
+    const elements = [
+      element(WATER, 'counter', 'deleted-category'),
+      element(STRETCH, 'habit', mindful.id),
+      element(PUSHUPS, 'counter', 'exercise'),
+    ];
+    expect(usedCategories(elements, [mindful]).map((c) => c.id)).toEqual([
+      'exercise',
+      'custom',
+      mindful.id,
+    ]);
+    expect(filterByCategory(elements, 'custom', [mindful]).map((e) => e.id)).toEqual([WATER]);
+    expect(filterByCategory(elements, null, [mindful])).toHaveLength(3);
+  });
+});
+
+describe('categoryCompletion', () => {
+  const dates = ['2025-03-03', '2025-03-04', '2025-03-05'];
+
+  it('counts each element from its creation day and habits only when scheduled', () => {
+    const pushups = element(PUSHUPS, 'counter', 'exercise', counterConfig({ dailyTarget: 20 }));
+    const stretch = element(STRETCH, 'habit', 'exercise', {
+      trackingMode: 'boolean',
+      timeSlot: 'morning',
+      // Mondays and Wednesdays.
+      schedule: { type: 'weekdays', days: [1, 3] },
+    });
+    const water = element(
+      WATER,
+      'counter',
+      'exercise',
+      counterConfig(),
+      '2025-03-05T12:00:00.000Z',
+    );
+    const events = [
+      event(PUSHUPS, '2025-03-03', 25),
+      event(PUSHUPS, '2025-03-04', 10),
+      event(STRETCH, '2025-03-05'),
+      event(WATER, '2025-03-05'),
+    ];
+
+    const days = categoryCompletion([pushups, stretch, water], events, dates);
+    expect(days).toEqual([
+      { date: '2025-03-03', done: 1, total: 2 },
+      { date: '2025-03-04', done: 0, total: 1 },
+      { date: '2025-03-05', done: 2, total: 3 },
+    ]);
+    expect(formatCategoryCompletion(days)).toBe('3/6 done (50%)');
+  });
+
+  it('leaves out skipped and paused days unless the habit was done anyway', () => {
+    const stretch = element(STRETCH, 'habit', 'exercise', {
+      trackingMode: 'boolean',
+      timeSlot: 'morning',
+      schedule: { type: 'daily' },
+    });
+    const events = [
+      { ...event(STRETCH, '2025-03-03', 0), meta: { source: 'habit_skip' } },
+      event(STRETCH, '2025-03-05'),
+    ];
+    const pause = {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      startDate: '2025-03-04',
+      createdAt: '2025-03-01T08:00:00.000Z',
+    };
+
+    expect(categoryCompletion([stretch], events, dates, [pause])).toEqual([
+      { date: '2025-03-03', done: 0, total: 0 },
+      { date: '2025-03-04', done: 0, total: 0 },
+      { date: '2025-03-05', done: 1, total: 1 },
+    ]);
+  });
+
+  it('reports nothing when no element was due', () => {
+    const later = element(
+      PUSHUPS,
+      'counter',
+      'exercise',
+      counterConfig(),
+      '2025-04-01T12:00:00.000Z',
+    );
+    expect(formatCategoryCompletion(categoryCompletion([later], [], dates))).toBeNull();
+  });
+});
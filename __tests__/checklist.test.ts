@@ -0,0 +1,123 @@
+import {
+  buildChecklistConfig,
+  checkedChecklistItemIds,
+  ChecklistConfigSchema,
+  completedChecklistDates,
+  dailyViewTimeSlot,
+  filterHabitsForDailyView,
+  formatChecklistProgress,
+  isElementDayComplete,
+  PROTOCOL_VERSION,
+  type ElementDefinition,
+} from '../src/protocol';
+
+const items = [
+  { id: 'water', label: 'Drink water' },
+  { id: 'stretch', label: 'Stretch' },
+  { id: 'journal', label: 'Journal' },
+];
+
+const routine = (config: Record<string, unknown> = {}): ElementDefinition => ({
+  id: 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f',
+  kind: 'checklist',
+  name: 'Morning routine',
+  category: 'habit',
+  config: { items, ...config },
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+});
+
+describe('ChecklistConfigSchema', () => {
+  it('needs at least one step and defaults to the morning slot', () => {
+    expect(ChecklistConfigSchema.safeParse({ items: [] }).success).toBe(false);
+    expect(ChecklistConfigSchema.parse({ items }).timeSlot).toBe('morning');
+  });
+});
+
+describe('checklist completion', () => {
+  it('requires every step by default', () => {
+    expect(isElementDayComplete(routine(), 2)).toBe(false);
+    expect(isElementDayComplete(routine(), 3)).toBe(true);
+  });
+
+  it('supports N of M', () => {
+    expect(isElementDayComplete(routine({ requiredCount: 2 }), 2)).toBe(true);
+  });
+
+  it('formats progress with the required count when it is below the total', () => {
+    const config = ChecklistConfigSchema.parse({ items, requiredCount: 2 });
+    expect(formatChecklistProgress(1, config)).toBe('1/3 steps · 2 needed');
+    expect(formatChecklistProgress(1, ChecklistConfigSchema.parse({ items }))).toBe('1/3 steps');
+  });
+});
+
+describe('checkedChecklistItemIds', () => {
+  it('returns ticked steps in config order and ignores removed steps', () => {
+    const config = ChecklistConfigSchema.parse({ items });
+    const ids = checkedChecklistItemIds(
+      [
+        { meta: { source: 'checklist_tick', itemId: 'journal' } },
+        { meta: { source: 'checklist_tick', itemId: 'gone' } },
+        { meta: { source: 'checklist_tick', itemId: 'water' } },
+        { meta: undefined },
+      ],
+      config,
+    );
+    expect(ids).toEqual(['water', 'journal']);
+  });
+});
+
+describe('completedChecklistDates', () => {
+  it('counts distinct current steps per day, not raw ticks', () => {
+    const config = ChecklistConfigSchema.parse({ items, requiredCount: 2 });
+    const tick = (date: string, itemId: string) => ({
+      date,
+      meta: { source: 'checklist_tick', itemId },
+    });
+    const dates = completedChecklistDates(
+      [
+        tick('2025-03-01', 'water'),
+        tick('2025-03-01', 'stretch'),
+        tick('2025-03-02', 'water'),
+        tick('2025-03-02', 'gone'),
+        tick('2025-03-03', 'water'),
+        tick('2025-03-03', 'water'),
+      ],
+      config,
+    );
+    expect(dates).toEqual(['2025-03-01']);
+  });
+});
+
+describe('buildChecklistConfig', () => {
+  it('drops a required count that covers every step', () => {
+    expect(
+      buildChecklistConfig({ name: 'Routine', items, requiredCount: 3, timeSlot: 'evening' }),
+    ).toEqual({ items, timeSlot: 'evening' });
+  });
+});
+
+describe('checklists on the Daily tab', () => {
+  const context = {
+    now: new Date('2025-06-30T12:00:00'),
+    today: '2025-06-30',
+    habitDoneToday: {},
+  };
+
+  it('groups by the configured slot', () => {
+    expect(dailyViewTimeSlot(routine({ timeSlot: 'evening' }))).toBe('evening');
+  });
+
+  it('is due every day, hidden once done under Undone and never starting soon', () => {
+    const checklist = routine();
+    expect(filterHabitsForDailyView([checklist], 'all_due', context)).toHaveLength(1);
+    expect(filterHabitsForDailyView([checklist], 'starting_soon', context)).toHaveLength(0);
+    expect(
+      filterHabitsForDailyView([checklist], 'undone', {
+        ...context,
+        habitDoneToday: { [checklist.id]: true },
+      }),
+    ).toHaveLength(0);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  buildEventsFromCsv,
+  CounterConfigSchema,
+  dailyTotalsToCsvRows,
+  eventsToCsvRows,
+  guessCsvColumnMapping,
+  HabitConfigSchema,
+  PROTOCOL_VERSION,
+  type ElementDefinition,
+  type LifeEvent,
+} from '../src/protocol';
+import { parseCsv, parseCsvLines, toCsv } from '../src/utils/csv';
+
+const water: ElementDefinition = {
+  id: '550e8400-e29b-41d4-a716-446655440300',
+  kind: 'counter',
+  name: 'Water, glasses',
+  category: 'custom',
+  config: CounterConfigSchema.parse({ unit: 'glasses', quickIncrements: [1] }),
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const reading: ElementDefinition = {
+  id: '550e8400-e29b-41d4-a716-446655440301',
+  kind: 'habit',
+  name: 'Reading',
+  category: 'habit',
+  config: HabitConfigSchema.parse({ timeSlot: 'anytime', trackingMode: 'timer' }),
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const event = (overrides: Partial<LifeEvent>): LifeEvent => ({
+  id: '550e8400-e29b-41d4-a716-446655440310',
+  elementId: water.id,
+  timestamp: '2025-03-01T09:00:00.000Z',
+  date: '2025-03-01',
+  value: 1,
+  protocolVersion: PROTOCOL_VERSION,
+  ...overrides,
+});
+
+let idCounter = 0;
+const newId = () => `550e8400-e29b-41d4-a716-${String(++idCounter).padStart(12, '0')}`;
+
+describe('csv utils', () => {
+  it('round-trips quoted cells, commas and newlines', () => {
+    const rows = [
+      ['name', 'note'],
+      ['Water, glasses', 'said "hi"\nthen left'],
+    ];
+    const text = toCsv(rows);
+    expect(text).toBe('name,note\r\n"Water, glasses","said ""hi""\nthen left"\r\n');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it('keeps the file line of each row, across blank lines and quoted newlines', () => {
+    const lines = parseCsvLines('date,note\r\n\r\n2025-03-01,"two\nlines"\n\n2025-03-02,x\n');
+    expect(lines.map((row) => row.line)).toEqual([1, 3, 6]);
+  });
+
+  it('strips a BOM and drops blank lines', () => {
+    expect(parseCsv('\uFEFFdate,value\n\n2025-03-01,2\n')).toEqual([
+      ['date', 'value'],
+      ['2025-03-01', '2'],
+    ]);
+  });
+});
+
+describe('event CSV export', () => {
+  it('writes one row per event with source and duration', () => {
+    const rows = eventsToCsvRows(
+      [water, reading],
+      [
+        event({
+          id: '550e8400-e29b-41d4-a716-446655440311',
+          elementId: reading.id,
+          timestamp: '2025-03-01T20:00:00.000Z',
+          value: 600,
+          meta: { source: 'timer_session', durationSeconds: 600 },
+        }),
+        event({}),
+      ],
+    );
+    expect(rows).toEqual([
+      ['date', 'timestamp', 'element', 'kind', 'value', 'source', 'duration_seconds'],
+      ['2025-03-01', '2025-03-01T09:00:00.000Z', 'Water, glasses', 'counter', 1, '', ''],
+      ['2025-03-01', '2025-03-01T20:00:00.000Z', 'Reading', 'habit', 600, 'timer_session', 600],
+    ]);
+  });
+
+  it('sums daily totals per element', () => {
+    const rows = dailyTotalsToCsvRows(
+      [water],
+      [
+        event({ value: 2 }),
+        event({ id: '550e8400-e29b-41d4-a716-446655440312', value: 3 }),
+        event({ id: '550e8400-e29b-41d4-a716-446655440313', date: '2025-03-02', value: 1 }),
+      ],
+    );
+    expect(rows.slice(1)).toEqual([
+      ['2025-03-01', 'Water, glasses', 'counter', 5],
+      ['2025-03-02', 'Water, glasses', 'counter', 1],
+    ]);
+  });
+});
+
+describe('event CSV import', () => {
+  it('guesses columns from header names', () => {
+    expect(guessCsvColumnMapping(['Day', 'Note', 'Amount'])).toEqual({
+      date: 0,
+      timestamp: undefined,
+      value: 2,
+      hasHeader: true,
+    });
+    expect(guessCsvColumnMapping(['a', 'b'])).toBeNull();
+  });
+
+  it('builds events and reports bad rows by line', () => {
+    const rows = parseCsv('date,value\n2025-03-01,2\n03/02/2025,1\n2025-03-03,lots\n2025-03-04,-1\n');
+    const result = buildEventsFromCsv(rows, water, { date: 0, value: 1, hasHeader: true }, { newId });
+
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]).toMatchObject({ elementId: water.id, date: '2025-03-01', value: 2 });
+    expect(result.events[0].meta).toBeUndefined();
+    expect(result.errors.map((error) => error.line)).toEqual([3, 4, 5]);
+  });
+
+  it('reports file lines when blank lines were dropped', () => {
+    const lines = parseCsvLines('date,value\n\n2025-03-01,2\n\n2025-03-03,lots\n');
+    const result = buildEventsFromCsv(
+      lines.map((row) => row.cells),
+      water,
+      { date: 0, value: 1, hasHeader: true },
+      { newId, lineNumbers: lines.map((row) => row.line) },
+    );
+    expect(result.errors.map((error) => error.line)).toEqual([5]);
+  });
+
+  it('converts minutes to seconds for timer habits', () => {
+    const rows = [['2025-03-01T20:00:00.000Z', '25']];
+    const result = buildEventsFromCsv(
+      rows,
+      reading,
+      { timestamp: 0, value: 1, valueInMinutes: true, hasHeader: false },
+      { newId },
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.events[0]).toMatchObject({
+      timestamp: '2025-03-01T20:00:00.000Z',
+      value: 1500,
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import {
   filterHabitsForDailyView,
+  isHabitActiveOnDate,
   isHabitDueToday,
   PROTOCOL_VERSION,
   type ElementDefinition,
@@ -20,6 +21,7 @@ const habit = (
   },
   protocolVersion: PROTOCOL_VERSION,
   createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
 });
 
 describe('isHabitDueToday', () => {
@@ -35,6 +37,56 @@ describe('isHabitDueToday', () => {
     expect(isHabitDueToday(config, { now: monday, today: '2025-06-30' })).toBe(true);
     expect(isHabitDueToday(config, { now: tuesday, today: '2025-07-01' })).toBe(false);
   });
+
+  it('is never due on a paused day', () => {
+    const config = {
+      trackingMode: 'boolean' as const,
+      timeSlot: 'anytime' as const,
+      schedule: { type: 'daily' as const },
+    };
+    const pausePeriods = [
+      {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        startDate: '2025-06-30',
+        endDate: '2025-06-30',
+        createdAt: '2025-06-01T08:00:00.000Z',
+      },
+    ];
+    const monday = new Date('2025-06-30T12:00:00');
+    const tuesday = new Date('2025-07-01T12:00:00');
+
+    expect(isHabitDueToday(config, { now: monday, today: '2025-06-30', pausePeriods })).toBe(false);
+    expect(isHabitDueToday(config, { now: tuesday, today: '2025-07-01', pausePeriods })).toBe(
+      true,
+    );
+  });
+});
+
+describe('isHabitActiveOnDate', () => {
+  const base = {
+    trackingMode: 'boolean' as const,
+    timeSlot: 'anytime' as const,
+    schedule: { type: 'daily' as const },
+  };
+
+  it('respects start and end dates inclusively', () => {
+    const config = { ...base, startDate: '2025-07-01', endDate: '2025-07-30' };
+    expect(isHabitActiveOnDate(config, '2025-06-30')).toBe(false);
+    expect(isHabitActiveOnDate(config, '2025-07-01')).toBe(true);
+    expect(isHabitActiveOnDate(config, '2025-07-30')).toBe(true);
+    expect(isHabitActiveOnDate(config, '2025-07-31')).toBe(false);
+  });
+
+  it('repeats a season every year, wrapping over the new year', () => {
+    const summer = { ...base, season: { start: '06-01', end: '09-30' } };
+    expect(isHabitActiveOnDate(summer, '2026-06-15')).toBe(true);
+    expect(isHabitActiveOnDate(summer, '2026-10-01')).toBe(false);
+
+    const winter = { ...base, season: { start: '11-01', end: '02-28' } };
+    expect(isHabitActiveOnDate(winter, '2025-12-31')).toBe(true);
+    expect(isHabitActiveOnDate(winter, '2026-01-15')).toBe(true);
+    expect(isHabitActiveOnDate(winter, '2026-03-01')).toBe(false);
+  });
 });
 
 describe('filterHabitsForDailyView', () => {
@@ -54,12 +106,32 @@ describe('filterHabitsForDailyView', () => {
     expect(result.map((item) => item.id)).toEqual(['a']);
   });
 
+  it('all_due hides a quota habit once earlier days this week met it', () => {
+    // Week from Sunday 2025-06-29; a day completed today keeps its card showing.
+    const quota = { schedule: { type: 'quota', count: 1, period: 'week', weekStartsOn: 0 } };
+    const habits = [habit('met', quota), habit('open', quota)];
+    const result = filterHabitsForDailyView(habits, 'all_due', {
+      ...context,
+      habitPeriodDates: { met: ['2025-06-29'], open: ['2025-06-30'] },
+    });
+    expect(result.map((item) => item.id)).toEqual(['open']);
+  });
+
   it('undone filters completed habits', () => {
     const habits = [habit('a'), habit('b')];
     const result = filterHabitsForDailyView(habits, 'undone', context);
     expect(result.map((item) => item.id)).toEqual(['b']);
   });
 
+  it('undone leaves out habits skipped today', () => {
+    const habits = [habit('b'), habit('c')];
+    const result = filterHabitsForDailyView(habits, 'undone', {
+      ...context,
+      habitSkippedToday: { c: true },
+    });
+    expect(result.map((item) => item.id)).toEqual(['b']);
+  });
+
   it('starting_soon requires a time range starting within the window', () => {
     const habits = [
       habit('soon', { timeRange: { start: '08:30', end: '09:00' } }),
@@ -80,4 +152,18 @@ describe('filterHabitsForDailyView', () => {
     const result = filterHabitsForDailyView(habits, 'all', context);
     expect(result.map((item) => item.id)).toEqual(['visible']);
   });
+
+  it('hides habits outside their active dates, even under all', () => {
+    const habits = [
+      habit('ended', { endDate: '2025-06-29' }),
+      habit('winter', { season: { start: '11-01', end: '02-28' } }),
+      habit('summer', { season: { start: '06-01', end: '09-30' } }),
+    ];
+    expect(filterHabitsForDailyView(habits, 'all_due', context).map((item) => item.id)).toEqual([
+      'summer',
+    ]);
+    expect(filterHabitsForDailyView(habits, 'all', context).map((item) => item.id)).toEqual([
+      'summer',
+    ]);
+  });
 });
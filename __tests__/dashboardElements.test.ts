@@ -1,15 +1,26 @@
 import type { DashboardItem, ElementDefinition } from '../src/protocol';
 import { PROTOCOL_VERSION } from '../src/protocol';
-import { getPinnedElements } from '../src/utils/dashboardElements';
+import {
+  dashboardOrderAfterReorder,
+  getPinnedElements,
+  groupDashboardElements,
+  moveElementTo,
+} from '../src/utils/dashboardElements';
 
-const element = (id: string, kind: 'counter' | 'habit' = 'counter'): ElementDefinition => ({
+const element = (
+  id: string,
+  kind: 'counter' | 'habit' | 'group' = 'counter',
+  parentId?: string,
+): ElementDefinition => ({
   id,
   kind,
   name: id,
+  ...(parentId ? { parentId } : {}),
   category: kind === 'counter' ? 'exercise' : 'habit',
   config: {},
   protocolVersion: PROTOCOL_VERSION,
   createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
 });
 
 const dashboardItem = (elementId: string, sortOrder: number): DashboardItem => ({
@@ -30,4 +41,67 @@ describe('getPinnedElements', () => {
     const elements = [element('a'), element('b', 'habit')];
     expect(getPinnedElements(elements, [])).toEqual([]);
   });
+
+  it('keeps group members together at the first member', () => {
+    const elements = [element('a'), element('b', 'counter', 'g'), element('c', 'habit', 'g')];
+    const dashboard = [dashboardItem('b', 0), dashboardItem('a', 1), dashboardItem('c', 2)];
+
+    expect(getPinnedElements(elements, dashboard).map((item) => item.id)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('groupDashboardElements', () => {
+  it('wraps consecutive members in their group section', () => {
+    const group = element('g', 'group');
+    const ordered = [
+      element('b', 'counter', 'g'),
+      element('c', 'habit', 'g'),
+      element('a'),
+      element('d', 'counter', 'missing'),
+    ];
+
+    expect(
+      groupDashboardElements(ordered, [group]).map((section) => [
+        section.group?.id ?? null,
+        section.elements.map((item) => item.id),
+      ]),
+    ).toEqual([
+      ['g', ['b', 'c']],
+      [null, ['a']],
+      [null, ['d']],
+    ]);
+  });
+});
+
+describe('moveElementTo', () => {
+  it('lands after the target when moving down and before it when moving up', () => {
+    expect(moveElementTo(['a', 'b', 'c', 'd'], 'a', 'c')).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveElementTo(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('leaves the order alone for unknown ids', () => {
+    const ids = ['a', 'b'];
+    expect(moveElementTo(ids, 'x', 'a')).toBe(ids);
+    expect(moveElementTo(ids, 'a', 'a')).toBe(ids);
+  });
+});
+
+describe('dashboardOrderAfterReorder', () => {
+  it('reorders the given elements within their own slots', () => {
+    // Counters a, c and e are on the Counter tab; habits b and d stay where they are.
+    const dashboard = ['a', 'b', 'c', 'd', 'e'].map((id, index) => dashboardItem(id, index));
+
+    expect(dashboardOrderAfterReorder(dashboard, ['e', 'a', 'c'])).toEqual([
+      'dash-e',
+      'dash-b',
+      'dash-a',
+      'dash-d',
+      'dash-c',
+    ]);
+  });
+
+  it('follows sort order rather than array order', () => {
+    const dashboard = [dashboardItem('b', 5), dashboardItem('a', 1)];
+    expect(dashboardOrderAfterReorder(dashboard, ['b', 'a'])).toEqual(['dash-b', 'dash-a']);
+  });
 });
@@ -0,0 +1,89 @@
+import {
+  applyDashboardOverrides,
+  isElementDayComplete,
+  normalizeDashboardOverrides,
+  parseDashboardOverrides,
+  PROTOCOL_VERSION,
+  type DashboardItem,
+  type ElementDefinition,
+} from '../src/protocol';
+import {
+  dashboardOverridesByElement,
+  withDashboardOverrides,
+} from '../src/utils/dashboardElements';
+
+const counter: ElementDefinition = {
+  id: 'pushups',
+  kind: 'counter',
+  name: 'Push-ups',
+  category: 'exercise',
+  config: { unit: 'reps', quickIncrements: [1, 5, 10], dailyTarget: 50 },
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const habit: ElementDefinition = {
+  ...counter,
+  id: 'stretch',
+  kind: 'habit',
+  name: 'Stretch',
+  category: 'habit',
+  config: { trackingMode: 'boolean', timeSlot: 'morning' },
+};
+
+describe('dashboard overrides', () => {
+  it('ignores unreadable stored overrides', () => {
+    expect(parseDashboardOverrides(undefined)).toEqual({});
+    expect(parseDashboardOverrides({ accentColor: 'teal' })).toEqual({});
+    expect(parseDashboardOverrides({ label: 'Morning', size: 'compact' })).toEqual({
+      label: 'Morning',
+      size: 'compact',
+    });
+  });
+
+  it('stores only the fields that differ from the defaults', () => {
+    expect(
+      normalizeDashboardOverrides({
+        label: '  ',
+        size: 'expanded',
+        hiddenQuickIncrements: [],
+      }),
+    ).toBeUndefined();
+    expect(
+      normalizeDashboardOverrides({ label: ' Reps ', hiddenQuickIncrements: [10, 1, 10] }),
+    ).toEqual({ label: 'Reps', hiddenQuickIncrements: [1, 10] });
+  });
+
+  it('merges label, quick buttons and goal into a counter', () => {
+    const shown = applyDashboardOverrides(counter, {
+      label: 'Reps',
+      hiddenQuickIncrements: [1],
+      dailyTarget: 20,
+    });
+    expect(shown.name).toBe('Reps');
+    expect(shown.config).toMatchObject({ quickIncrements: [5, 10], dailyTarget: 20 });
+    expect(isElementDayComplete(shown, 25)).toBe(true);
+    expect(isElementDayComplete(counter, 25)).toBe(false);
+  });
+
+  it('keeps every quick button when all would be hidden', () => {
+    const shown = applyDashboardOverrides(counter, { hiddenQuickIncrements: [1, 5, 10] });
+    expect(shown.config).toMatchObject({ quickIncrements: [1, 5, 10] });
+  });
+
+  it('only relabels other kinds', () => {
+    const shown = applyDashboardOverrides(habit, { label: 'Morning stretch', dailyTarget: 3 });
+    expect(shown).toEqual({ ...habit, name: 'Morning stretch' });
+    expect(applyDashboardOverrides(habit, {})).toBe(habit);
+  });
+
+  it('looks up overrides by pinned element', () => {
+    const dashboard: DashboardItem[] = [
+      { id: 'dash-1', elementId: counter.id, sortOrder: 0, overrides: { label: 'Reps' } },
+    ];
+    const overridesById = dashboardOverridesByElement(dashboard);
+    expect(withDashboardOverrides(counter, overridesById).name).toBe('Reps');
+    expect(withDashboardOverrides(habit, overridesById)).toBe(habit);
+  });
+});
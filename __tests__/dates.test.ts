@@ -0,0 +1,81 @@
+import {
+  EventSchema,
+  localEventTime,
+  PROTOCOL_VERSION,
+  shiftDateString,
+  toDateString,
+} from '../src/protocol';
+import {
+  dateDaysAgo,
+  formatDayStartHour,
+  lastNDates,
+  setDayStartHour,
+  todayDate,
+} from '../src/utils/dates';
+
+describe('toDateString', () => {
+  it('uses the local calendar day, not UTC', () => {
+    expect(toDateString(new Date(2025, 0, 1, 23, 30))).toBe('2025-01-01');
+    expect(toDateString(new Date(2025, 0, 2, 0, 15))).toBe('2025-01-02');
+  });
+
+  it('counts times before the day start hour toward the previous day', () => {
+    expect(toDateString(new Date(2025, 2, 1, 3, 59), 4)).toBe('2025-02-28');
+    expect(toDateString(new Date(2025, 2, 1, 4, 0), 4)).toBe('2025-03-01');
+  });
+});
+
+describe('shiftDateString', () => {
+  it('moves across month and year boundaries', () => {
+    expect(shiftDateString('2025-03-01', -1)).toBe('2025-02-28');
+    expect(shiftDateString('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
+
+describe('localEventTime', () => {
+  it('records the device offset alongside the local date', () => {
+    const now = new Date(2025, 5, 30, 21, 0);
+    const time = localEventTime(now);
+    expect(time.date).toBe('2025-06-30');
+    expect(time.timestamp).toBe(now.toISOString());
+    expect(time.tzOffsetMinutes).toBe(0 - now.getTimezoneOffset());
+  });
+
+  it('produces fields accepted by EventSchema', () => {
+    const event = {
+      id: '550e8400-e29b-41d4-a716-446655440100',
+      elementId: '550e8400-e29b-41d4-a716-446655440101',
+      value: 1,
+      protocolVersion: PROTOCOL_VERSION,
+      ...localEventTime(new Date(2025, 5, 30, 21, 0)),
+    };
+    expect(() => EventSchema.parse(event)).not.toThrow();
+  });
+});
+
+describe('day start hour', () => {
+  afterEach(() => setDayStartHour(0));
+
+  it('shifts today and relative ranges', () => {
+    setDayStartHour(4);
+    expect(todayDate(new Date(2025, 0, 10, 2, 0))).toBe('2025-01-09');
+    expect(todayDate(new Date(2025, 0, 10, 5, 0))).toBe('2025-01-10');
+  });
+
+  it('keeps relative ranges anchored to today', () => {
+    const dates = lastNDates(3);
+    expect(dates).toHaveLength(3);
+    expect(dates[2]).toBe(todayDate());
+    expect(dates[0]).toBe(dateDaysAgo(2));
+  });
+
+  it('ignores out-of-range hours', () => {
+    setDayStartHour(30);
+    expect(todayDate(new Date(2025, 0, 10, 2, 0))).toBe('2025-01-10');
+  });
+
+  it('formats hours for settings', () => {
+    expect(formatDayStartHour(0)).toBe('Midnight');
+    expect(formatDayStartHour(4)).toBe('4:00 AM');
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  formatGroupProgress,
+  groupMembers,
+  groupProgress,
+  isGroupComplete,
+  parseProtocolBundle,
+  PROTOCOL_VERSION,
+  validateElementParents,
+  validateEventForElement,
+  type ElementDefinition,
+  type ElementKind,
+} from '../src/protocol';
+import { findDropTarget } from '../src/utils/dropTargets';
+
+const FITNESS = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const PUSHUPS = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+const RUN = 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f';
+
+const element = (
+  id: string,
+  kind: ElementKind,
+  parentId?: string,
+): ElementDefinition => ({
+  id,
+  kind,
+  name: id,
+  category: 'custom',
+  ...(parentId ? { parentId } : {}),
+  config: kind === 'habit' ? { trackingMode: 'boolean', timeSlot: 'morning' } : {},
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const fitness = element(FITNESS, 'group');
+const pushups = element(PUSHUPS, 'counter', FITNESS);
+const run = element(RUN, 'habit', FITNESS);
+
+describe('validateElementParents', () => {
+  it('accepts members of an existing group', () => {
+    expect(() => validateElementParents([fitness, pushups, run])).not.toThrow();
+    expect(groupMembers(FITNESS, [fitness, pushups, run]).map((e) => e.id)).toEqual([
+      PUSHUPS,
+      RUN,
+    ]);
+  });
+
+  it('rejects unknown parents, non-group parents and nested groups', () => {
+    expect(() => validateElementParents([pushups])).toThrow('unknown group');
+    expect(() =>
+      validateElementParents([element(PUSHUPS, 'counter'), element(RUN, 'habit', PUSHUPS)]),
+    ).toThrow('not a group');
+    expect(() =>
+      validateElementParents([fitness, element(RUN, 'group', FITNESS)]),
+    ).toThrow('cannot be nested');
+  });
+
+  it('runs when a bundle is parsed', () => {
+    const bundle = {
+      protocolVersion: PROTOCOL_VERSION,
+      exportedAt: '2025-01-02T00:00:00.000Z',
+      elements: [pushups],
+      dashboard: [],
+      events: [],
+    };
+    expect(() => parseProtocolBundle(bundle)).toThrow('unknown group');
+    expect(() => parseProtocolBundle({ ...bundle, elements: [fitness, pushups] })).not.toThrow();
+  });
+});
+
+describe('group events', () => {
+  it('rejects events logged against a group', () => {
+    expect(() =>
+      validateEventForElement(fitness, {
+        id: 'd4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f7a',
+        elementId: FITNESS,
+        timestamp: '2025-01-02T08:00:00.000Z',
+        date: '2025-01-02',
+        value: 1,
+        protocolVersion: PROTOCOL_VERSION,
+      }),
+    ).toThrow('logged against group');
+  });
+});
+
+describe('groupProgress', () => {
+  it('counts done members', () => {
+    const progress = groupProgress([pushups, run], (member) => member.id === RUN);
+    expect(progress).toEqual({ done: 1, total: 2 });
+    expect(formatGroupProgress(progress)).toBe('1/2 done');
+    expect(isGroupComplete(progress)).toBe(false);
+    expect(isGroupComplete({ done: 2, total: 2 })).toBe(true);
+    expect(isGroupComplete({ done: 0, total: 0 })).toBe(false);
+  });
+});
+
+describe('findDropTarget', () => {
+  it('returns the target under the point', () => {
+    const rects = new Map([
+      ['fitness', { x: 0, y: 0, width: 100, height: 40 }],
+      ['reading', { x: 110, y: 0, width: 100, height: 40 }],
+    ]);
+    expect(findDropTarget(rects, { x: 150, y: 20 })).toBe('reading');
+    expect(findDropTarget(rects, { x: 50, y: 80 })).toBeUndefined();
+  });
+});
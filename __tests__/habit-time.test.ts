@@ -3,7 +3,9 @@ import {
   shouldShowHabitOnHabitsPage,
 } from '../src/protocol';
 import {
+  formatDurationInput,
   isWithinTimeRange,
+  parseDurationSeconds,
   parseTimeHHmm,
 } from '../src/utils/time';
 
@@ -20,6 +22,16 @@ describe('parseTimeHHmm', () => {
   });
 });
 
+describe('parseDurationSeconds', () => {
+  it('reads minutes or minutes:seconds', () => {
+    expect(parseDurationSeconds('25')).toBe(1500);
+    expect(parseDurationSeconds('0:20')).toBe(20);
+    expect(parseDurationSeconds('1:5')).toBeNull();
+    expect(formatDurationInput(20)).toBe('0:20');
+    expect(formatDurationInput(1500)).toBe('25');
+  });
+});
+
 describe('isWithinTimeRange', () => {
   const at = (hours: number, minutes: number) => new Date(2025, 0, 1, hours, minutes);
 
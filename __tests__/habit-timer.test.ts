@@ -1,8 +1,20 @@
 import {
+  buildSegmentedTimerSessionPayload,
   buildTimerSessionPayload,
+  closeTimerSession,
+  countdownEndTime,
+  countdownTargetSeconds,
   formatHabitTimerDuration,
+  HabitEventMetaSchema,
+  HabitConfigSchema,
+  isTimerSessionStale,
   liveTimerTotalSeconds,
+  parseActiveTimerSessions,
+  pauseTimerSession,
+  resumeTimerSession,
   timerSessionDurationSeconds,
+  timerSessionRemainingSeconds,
+  trimmedTimerSessionEnd,
 } from '../src/protocol';
 
 describe('formatHabitTimerDuration', () => {
@@ -45,3 +57,132 @@ describe('liveTimerTotalSeconds', () => {
     expect(total).toBe(150);
   });
 });
+
+describe('persisted timer sessions', () => {
+  const session = { startedAt: '2025-01-01T10:00:00.000Z' };
+  const at = (iso: string) => new Date(iso).getTime();
+
+  it('parses stored sessions keyed by element id', () => {
+    const sessions = parseActiveTimerSessions({
+      '550e8400-e29b-41d4-a716-446655440000': session,
+    });
+    expect(Object.keys(sessions)).toHaveLength(1);
+    expect(() => parseActiveTimerSessions({ bad: session })).toThrow();
+  });
+
+  it('flags sessions past the stale bound', () => {
+    const config = HabitConfigSchema.parse({ timeSlot: 'anytime', trackingMode: 'timer' });
+    expect(isTimerSessionStale(session, config, at('2025-01-01T11:30:00.000Z'))).toBe(false);
+    expect(isTimerSessionStale(session, config, at('2025-01-01T13:00:00.000Z'))).toBe(true);
+  });
+
+  it('allows long goals before calling a session stale', () => {
+    const config = HabitConfigSchema.parse({
+      timeSlot: 'anytime',
+      trackingMode: 'timer',
+      dailyTargetSeconds: 2 * 60 * 60,
+    });
+    expect(isTimerSessionStale(session, config, at('2025-01-01T13:00:00.000Z'))).toBe(false);
+  });
+
+  it('trims to the daily goal length', () => {
+    const config = HabitConfigSchema.parse({
+      timeSlot: 'anytime',
+      trackingMode: 'timer',
+      dailyTargetSeconds: 900,
+    });
+    const end = trimmedTimerSessionEnd(session, config, at('2025-01-01T13:00:00.000Z'));
+    expect(end.toISOString()).toBe('2025-01-01T10:15:00.000Z');
+  });
+});
+
+describe('pause and resume', () => {
+  const start = new Date('2025-01-01T10:00:00.000Z');
+  const at = (iso: string) => new Date(iso);
+
+  it('counts only active time across segments', () => {
+    let session = { startedAt: start.toISOString() };
+    session = pauseTimerSession(session, at('2025-01-01T10:05:00.000Z'));
+    expect(liveTimerTotalSeconds(0, session, at('2025-01-01T10:30:00.000Z').getTime())).toBe(300);
+
+    session = resumeTimerSession(session, at('2025-01-01T10:20:00.000Z'));
+    expect(liveTimerTotalSeconds(60, session, at('2025-01-01T10:25:00.000Z').getTime())).toBe(660);
+  });
+
+  it('logs segments and active duration when stopped', () => {
+    const paused = pauseTimerSession({ startedAt: start.toISOString() }, at('2025-01-01T10:05:00.000Z'));
+    const resumed = resumeTimerSession(paused, at('2025-01-01T10:20:00.000Z'));
+    const payload = buildSegmentedTimerSessionPayload(
+      closeTimerSession(resumed, at('2025-01-01T10:30:00.000Z')),
+    );
+
+    expect(payload.value).toBe(900);
+    expect(payload.meta.segments).toHaveLength(2);
+    expect(payload.meta.startedAt).toBe('2025-01-01T10:00:00.000Z');
+    expect(payload.meta.endedAt).toBe('2025-01-01T10:30:00.000Z');
+    expect(() => HabitEventMetaSchema.parse(payload.meta)).not.toThrow();
+  });
+
+  it('keeps single-segment sessions in the original shape', () => {
+    const payload = buildSegmentedTimerSessionPayload(
+      closeTimerSession({ startedAt: start.toISOString() }, at('2025-01-01T10:15:00.000Z')),
+    );
+    expect(payload.meta.segments).toBeUndefined();
+    expect(payload.value).toBe(900);
+  });
+
+  it('trims across paused time by active seconds', () => {
+    const config = HabitConfigSchema.parse({
+      timeSlot: 'anytime',
+      trackingMode: 'timer',
+      dailyTargetSeconds: 600,
+    });
+    const paused = pauseTimerSession({ startedAt: start.toISOString() }, at('2025-01-01T10:05:00.000Z'));
+    const resumed = resumeTimerSession(paused, at('2025-01-01T11:00:00.000Z'));
+    const end = trimmedTimerSessionEnd(resumed, config, at('2025-01-01T15:00:00.000Z').getTime());
+    expect(end.toISOString()).toBe('2025-01-01T11:05:00.000Z');
+  });
+});
+
+describe('countdown', () => {
+  const start = new Date('2025-01-01T10:00:00.000Z');
+  const at = (iso: string) => new Date(iso);
+  const countdownConfig = (extra: Record<string, unknown> = {}) =>
+    HabitConfigSchema.parse({
+      timeSlot: 'anytime',
+      trackingMode: 'timer',
+      timerStyle: 'countdown',
+      ...extra,
+    });
+
+  it('runs the remaining daily goal unless a session length is set', () => {
+    expect(countdownTargetSeconds(countdownConfig({ dailyTargetSeconds: 1200 }), 300)).toBe(900);
+    expect(countdownTargetSeconds(countdownConfig({ dailyTargetSeconds: 1200 }), 1500)).toBe(0);
+    expect(
+      countdownTargetSeconds(countdownConfig({ dailyTargetSeconds: 1200, countdownSeconds: 600 }), 1500),
+    ).toBe(600);
+  });
+
+  it('counts up for stopwatch habits', () => {
+    const config = HabitConfigSchema.parse({
+      timeSlot: 'anytime',
+      trackingMode: 'timer',
+      dailyTargetSeconds: 1200,
+    });
+    expect(countdownTargetSeconds(config, 0)).toBe(0);
+    expect(timerSessionRemainingSeconds({ startedAt: start.toISOString() })).toBeNull();
+  });
+
+  it('pushes the end time back by paused time', () => {
+    const session = { startedAt: start.toISOString(), targetSeconds: 600 };
+    expect(countdownEndTime(session)?.toISOString()).toBe('2025-01-01T10:10:00.000Z');
+
+    const paused = pauseTimerSession(session, at('2025-01-01T10:04:00.000Z'));
+    expect(countdownEndTime(paused)).toBeNull();
+    expect(timerSessionRemainingSeconds(paused, at('2025-01-01T10:30:00.000Z').getTime())).toBe(360);
+
+    const resumed = resumeTimerSession(paused, at('2025-01-01T10:20:00.000Z'));
+    expect(resumed.targetSeconds).toBe(600);
+    expect(countdownEndTime(resumed)?.toISOString()).toBe('2025-01-01T10:26:00.000Z');
+  });
+});
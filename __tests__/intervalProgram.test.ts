@@ -0,0 +1,64 @@
+import {
+  buildIntervalTimerSessionPayload,
+  HabitEventMetaSchema,
+  intervalPositionAt,
+  intervalProgramPhases,
+  intervalProgramTotalSeconds,
+  intervalWorkSeconds,
+  liveTimerTotalSeconds,
+  type IntervalProgram,
+} from '../src/protocol';
+
+const pomodoro: IntervalProgram = {
+  workSeconds: 1500,
+  restSeconds: 300,
+  rounds: 4,
+  longBreakSeconds: 900,
+  longBreakEvery: 2,
+};
+
+describe('intervalProgramPhases', () => {
+  it('alternates work and rest with a long break every N rounds', () => {
+    const kinds = intervalProgramPhases(pomodoro).map((phase) => phase.kind);
+    expect(kinds).toEqual(['work', 'rest', 'work', 'long_break', 'work', 'rest', 'work']);
+    expect(intervalProgramTotalSeconds(pomodoro)).toBe(4 * 1500 + 2 * 300 + 900);
+  });
+
+  it('skips zero-length rests', () => {
+    const phases = intervalProgramPhases({ workSeconds: 60, restSeconds: 0, rounds: 3 });
+    expect(phases).toHaveLength(3);
+    expect(phases[2].startSeconds).toBe(120);
+  });
+});
+
+describe('intervalPositionAt', () => {
+  it('reports the phase, round and time left', () => {
+    const position = intervalPositionAt(pomodoro, 1500 + 60);
+    expect(position?.phase.kind).toBe('rest');
+    expect(position?.phase.round).toBe(1);
+    expect(position?.remainingSeconds).toBe(240);
+    expect(intervalPositionAt(pomodoro, intervalProgramTotalSeconds(pomodoro))).toBeNull();
+  });
+});
+
+describe('interval work time', () => {
+  const hiit: IntervalProgram = { workSeconds: 20, restSeconds: 10, rounds: 8 };
+
+  it('counts only work phases', () => {
+    expect(intervalWorkSeconds(hiit, 45)).toBe(35);
+    const session = { startedAt: '2025-01-01T10:00:00.000Z', intervalProgram: hiit };
+    expect(liveTimerTotalSeconds(100, session, Date.parse('2025-01-01T10:00:45.000Z'))).toBe(135);
+  });
+
+  it('logs work seconds as the value and keeps rest in meta', () => {
+    const payload = buildIntervalTimerSessionPayload(
+      [{ startedAt: '2025-01-01T10:00:00.000Z', endedAt: '2025-01-01T10:00:45.000Z' }],
+      hiit,
+    );
+    expect(payload.value).toBe(35);
+    expect(payload.meta.durationSeconds).toBe(45);
+    expect(payload.meta.restSeconds).toBe(10);
+    expect(payload.meta.roundsCompleted).toBe(1);
+    expect(() => HabitEventMetaSchema.parse(payload.meta)).not.toThrow();
+  });
+});
@@ -17,7 +17,7 @@ jest.mock('../src/hooks/useAppTheme', () => ({
 
 import { counterHandler } from '../src/kinds/registry';
 import { habitHandler, habitEventsComplete } from '../src/kinds/habit/handler';
-import { HabitConfigSchema } from '../src/protocol';
+import { HabitConfigSchema, PROTOCOL_VERSION } from '../src/protocol';
 
 describe('counterHandler', () => {
   it('sums event values for daily total', () => {
@@ -28,7 +28,7 @@ describe('counterHandler', () => {
         timestamp: '2025-01-01T10:00:00.000Z',
         date: '2025-01-01',
         value: 5,
-        protocolVersion: 1,
+        protocolVersion: PROTOCOL_VERSION,
       },
       {
         id: '2',
@@ -36,7 +36,7 @@ describe('counterHandler', () => {
         timestamp: '2025-01-01T11:00:00.000Z',
         date: '2025-01-01',
         value: 10,
-        protocolVersion: 1,
+        protocolVersion: PROTOCOL_VERSION,
       },
     ]);
 
@@ -56,7 +56,7 @@ describe('habitHandler', () => {
           timestamp: '2025-01-01T10:00:00.000Z',
           date: '2025-01-01',
           value: 1,
-          protocolVersion: 1,
+          protocolVersion: PROTOCOL_VERSION,
         },
       ],
       config,
@@ -72,7 +72,7 @@ describe('habitHandler', () => {
         timestamp: '2025-01-01T10:00:00.000Z',
         date: '2025-01-01',
         value: 300,
-        protocolVersion: 1,
+        protocolVersion: PROTOCOL_VERSION,
       },
       {
         id: '2',
@@ -80,7 +80,7 @@ describe('habitHandler', () => {
         timestamp: '2025-01-01T18:00:00.000Z',
         date: '2025-01-01',
         value: 600,
-        protocolVersion: 1,
+        protocolVersion: PROTOCOL_VERSION,
       },
     ]);
     expect(total).toBe(900);
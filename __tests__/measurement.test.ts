@@ -0,0 +1,124 @@
+import {
+  aggregateDailyValue,
+  aggregateMeasurements,
+  dailyMeasurementValues,
+  formatMeasurement,
+  isElementDayComplete,
+  isMeasurementInTarget,
+  linearTrend,
+  MeasurementConfigSchema,
+  PROTOCOL_VERSION,
+  type ElementDefinition,
+} from '../src/protocol';
+
+const readings = [
+  { timestamp: '2025-03-01T20:00:00.000Z', value: 72 },
+  { timestamp: '2025-03-01T07:00:00.000Z', value: 74 },
+  { timestamp: '2025-03-01T12:00:00.000Z', value: 73 },
+];
+
+const weight: ElementDefinition = {
+  id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+  kind: 'measurement',
+  name: 'Weight',
+  category: 'custom',
+  config: { unit: 'kg', aggregation: 'min', targetMax: 72.5 },
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+};
+
+describe('MeasurementConfigSchema', () => {
+  it('defaults to one decimal and the last reading', () => {
+    expect(MeasurementConfigSchema.parse({ unit: 'kg' })).toEqual({
+      unit: 'kg',
+      decimals: 1,
+      aggregation: 'last',
+    });
+  });
+});
+
+describe('aggregateMeasurements', () => {
+  it('picks the latest reading by timestamp, not insertion order', () => {
+    expect(aggregateMeasurements(readings, 'last')).toBe(72);
+  });
+
+  it('supports avg, min and max', () => {
+    expect(aggregateMeasurements(readings, 'avg')).toBe(73);
+    expect(aggregateMeasurements(readings, 'min')).toBe(72);
+    expect(aggregateMeasurements(readings, 'max')).toBe(74);
+  });
+
+  it('returns null without readings', () => {
+    expect(aggregateMeasurements([], 'avg')).toBeNull();
+  });
+});
+
+describe('dailyMeasurementValues', () => {
+  it('aggregates per date, oldest first', () => {
+    const config = MeasurementConfigSchema.parse({ unit: 'kg', aggregation: 'max' });
+    const events = [
+      { date: '2025-03-02', timestamp: '2025-03-02T08:00:00.000Z', value: 71 },
+      ...readings.map((r) => ({ ...r, date: '2025-03-01' })),
+    ];
+    expect(dailyMeasurementValues(events, config)).toEqual([
+      { date: '2025-03-01', value: 74 },
+      { date: '2025-03-02', value: 71 },
+    ]);
+  });
+});
+
+describe('measurement semantics', () => {
+  it('uses the configured aggregation instead of summing', () => {
+    expect(aggregateDailyValue(weight, readings)).toBe(72);
+  });
+
+  it('completes a day only when the reading is inside the target range', () => {
+    expect(isElementDayComplete(weight, 72)).toBe(true);
+    expect(isElementDayComplete(weight, 73)).toBe(false);
+    expect(isElementDayComplete(weight, 0)).toBe(false);
+  });
+});
+
+describe('measurement formatting and targets', () => {
+  const pressure = MeasurementConfigSchema.parse({
+    unit: 'mmHg',
+    decimals: 0,
+    targetMin: 90,
+    targetMax: 130,
+    secondaryLabel: 'Diastolic',
+  });
+
+  it('formats paired readings', () => {
+    expect(formatMeasurement(120, pressure, 80)).toBe('120/80 mmHg');
+    expect(formatMeasurement(120.4, pressure)).toBe('120 mmHg');
+  });
+
+  it('checks target bounds inclusively', () => {
+    expect(isMeasurementInTarget(90, pressure)).toBe(true);
+    expect(isMeasurementInTarget(130, pressure)).toBe(true);
+    expect(isMeasurementInTarget(131, pressure)).toBe(false);
+  });
+});
+
+describe('linearTrend', () => {
+  it('fits a least-squares line', () => {
+    const trend = linearTrend([
+      { x: 0, y: 80 },
+      { x: 1, y: 79.5 },
+      { x: 2, y: 79 },
+    ]);
+    expect(trend?.slope).toBeCloseTo(-0.5);
+    expect(trend?.intercept).toBeCloseTo(80);
+  });
+
+  it('returns null without two distinct x values', () => {
+    expect(linearTrend([{ x: 0, y: 1 }])).toBeNull();
+    expect(
+      linearTrend([
+        { x: 3, y: 1 },
+        { x: 3, y: 2 },
+      ]),
+    ).toBeNull();
+  });
+});
@@ -6,9 +6,19 @@ const habitSaveData = (
 ): Extract<ElementEditorSaveData, { mode: 'habit' }> => ({
   mode: 'habit',
   name: 'Meditation',
+  category: 'habit',
   targetLabel: '',
   habitTrackingMode: 'boolean',
   habitDailyGoalMinutes: '',
+  habitTimerStyle: 'stopwatch',
+  habitCountdownMinutes: '',
+  habitUseIntervals: false,
+  habitIntervalWork: '25',
+  habitIntervalRest: '5',
+  habitIntervalRounds: '4',
+  habitIntervalLongBreak: '15',
+  habitIntervalLongBreakEvery: '4',
+  habitCueSoundId: '',
   habitSoundId: '',
   timeSlot: 'morning',
   useTimeRange: false,
@@ -19,6 +29,18 @@ const habitSaveData = (
   scheduleWeekdays: [1, 2, 3, 4, 5],
   scheduleInterval: '2',
   scheduleAnchorDate: '2025-06-30',
+  scheduleQuotaCount: '3',
+  scheduleQuotaPeriod: 'week',
+  scheduleWeekStartsOn: 1,
+  scheduleRRule: 'FREQ=MONTHLY;BYDAY=1MO',
+  habitStartDate: '',
+  habitEndDate: '',
+  habitUseSeason: false,
+  habitSeasonStart: '06-01',
+  habitSeasonEnd: '09-30',
+  habitUseStreakFreezes: false,
+  habitFreezesPerMonth: '2',
+  habitFreezeEarnedAfter: '7',
   useReminder: false,
   remindMinutesBefore: '15',
   ...overrides,
@@ -29,6 +51,7 @@ describe('parseElementEditorSave', () => {
     const result = parseElementEditorSave({
       mode: 'counter',
       name: ' Pushups',
+      category: 'exercise',
       increments: '5, 10',
       dailyTarget: '50',
     });
@@ -60,14 +83,225 @@ describe('parseElementEditorSave', () => {
     expect(result.input.remindMinutesBefore).toBe(10);
   });
 
+  it('parses quota schedules and caps the count per period', () => {
+    const result = parseElementEditorSave(
+      habitSaveData({ scheduleType: 'quota', scheduleQuotaCount: '3', useReminder: true }),
+    );
+    expect(result.kind).toBe('habit');
+    if (result.kind !== 'habit') return;
+    expect(result.input.schedule).toEqual({
+      type: 'quota',
+      count: 3,
+      period: 'week',
+      weekStartsOn: 1,
+    });
+    expect(() =>
+      parseElementEditorSave(habitSaveData({ scheduleType: 'quota', scheduleQuotaCount: '8' })),
+    ).toThrow('Times per week must be 1 to 7');
+  });
+
+  it('normalizes custom repeat rules and reports bad ones', () => {
+    const result = parseElementEditorSave(
+      habitSaveData({
+        scheduleType: 'rrule',
+        scheduleRRule: 'rrule:freq=weekly;interval=2;byday=TU,TH',
+      }),
+    );
+    expect(result.kind).toBe('habit');
+    if (result.kind !== 'habit') return;
+    expect(result.input.schedule).toEqual({
+      type: 'rrule',
+      rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH',
+      anchorDate: '2025-06-30',
+    });
+    expect(() =>
+      parseElementEditorSave(
+        habitSaveData({ scheduleType: 'rrule', scheduleRRule: 'FREQ=WEEKLY;WKST=SU' }),
+      ),
+    ).toThrow('Custom repeat: WKST is not supported');
+  });
+
+  it('parses active dates and a yearly season', () => {
+    const result = parseElementEditorSave(
+      habitSaveData({ habitStartDate: '2025-07-01', habitUseSeason: true }),
+    );
+    expect(result.kind).toBe('habit');
+    if (result.kind !== 'habit') return;
+    expect(result.input.startDate).toBe('2025-07-01');
+    expect(result.input.endDate).toBeUndefined();
+    expect(result.input.season).toEqual({ start: '06-01', end: '09-30' });
+    expect(() =>
+      parseElementEditorSave(
+        habitSaveData({ habitStartDate: '2025-07-31', habitEndDate: '2025-07-01' }),
+      ),
+    ).toThrow('End date must be on or after the start date');
+    expect(() =>
+      parseElementEditorSave(habitSaveData({ habitUseSeason: true, habitSeasonEnd: '13-01' })),
+    ).toThrow('Season dates must be MM-DD');
+  });
+
+  it('parses streak freezes only when turned on', () => {
+    const off = parseElementEditorSave(habitSaveData());
+    expect(off.kind === 'habit' && off.input.streakFreezes).toBeUndefined();
+
+    const on = parseElementEditorSave(
+      habitSaveData({ habitUseStreakFreezes: true, habitFreezeEarnedAfter: '14' }),
+    );
+    expect(on.kind === 'habit' && on.input.streakFreezes).toEqual({
+      perMonth: 2,
+      earnedAfter: 14,
+    });
+    expect(() =>
+      parseElementEditorSave(
+        habitSaveData({ habitUseStreakFreezes: true, habitFreezesPerMonth: '0' }),
+      ),
+    ).toThrow('Freezes per month must be 1 to 10');
+  });
+
   it('rejects invalid increments', () => {
     expect(() =>
       parseElementEditorSave({
         mode: 'counter',
         name: 'Test',
+        category: 'exercise',
         increments: 'abc',
         dailyTarget: '',
       }),
     ).toThrow(/positive number/);
   });
+
+  it('requires a length for countdown timers', () => {
+    expect(() =>
+      parseElementEditorSave(
+        habitSaveData({ habitTrackingMode: 'timer', habitTimerStyle: 'countdown' }),
+      ),
+    ).toThrow(/Countdown needs/);
+
+    const result = parseElementEditorSave(
+      habitSaveData({
+        habitTrackingMode: 'timer',
+        habitTimerStyle: 'countdown',
+        habitCountdownMinutes: '25',
+      }),
+    );
+    expect(result.kind === 'habit' && result.input.countdownSeconds).toBe(1500);
+  });
+
+  it('parses interval programs and drops the countdown style', () => {
+    const result = parseElementEditorSave(
+      habitSaveData({
+        habitTrackingMode: 'timer',
+        habitTimerStyle: 'countdown',
+        habitUseIntervals: true,
+        habitIntervalWork: '0:20',
+        habitIntervalRest: '0:10',
+        habitIntervalRounds: '8',
+        habitIntervalLongBreak: '',
+      }),
+    );
+    expect(result.kind === 'habit' && result.input.intervalProgram).toEqual({
+      workSeconds: 20,
+      restSeconds: 10,
+      rounds: 8,
+    });
+    expect(result.kind === 'habit' && result.input.timerStyle).toBeUndefined();
+  });
+
+  it('parses measurement input and rejects an inverted target range', () => {
+    const data: Extract<ElementEditorSaveData, { mode: 'measurement' }> = {
+      mode: 'measurement',
+      name: 'Weight',
+      category: 'custom',
+      measurementUnit: ' kg ',
+      measurementDecimals: '1',
+      measurementAggregation: 'avg',
+      measurementTargetMin: '70',
+      measurementTargetMax: '75,5',
+      measurementSecondaryLabel: '',
+    };
+    expect(parseElementEditorSave(data)).toEqual({
+      kind: 'measurement',
+      input: {
+        name: 'Weight',
+        unit: 'kg',
+        decimals: 1,
+        aggregation: 'avg',
+        targetMin: 70,
+        targetMax: 75.5,
+        secondaryLabel: undefined,
+      },
+    });
+    expect(() =>
+      parseElementEditorSave({ ...data, measurementTargetMin: '80' }),
+    ).toThrow('Target min must not be above target max');
+  });
+
+  it('parses rating scales and rejects more labels than scores', () => {
+    const data: Extract<ElementEditorSaveData, { mode: 'rating' }> = {
+      mode: 'rating',
+      name: 'Energy',
+      category: 'custom',
+      ratingMin: '1',
+      ratingMax: '3',
+      ratingLabels: 'low, ok, high',
+    };
+    expect(parseElementEditorSave(data)).toEqual({
+      kind: 'rating',
+      input: { name: 'Energy', min: 1, max: 3, labels: ['low', ' ok', ' high'] },
+    });
+    expect(() => parseElementEditorSave({ ...data, ratingLabels: 'a, b, c, d' })).toThrow(
+      'Enter at most 3 labels',
+    );
+    expect(() => parseElementEditorSave({ ...data, ratingMax: '1' })).toThrow('Scale must run');
+  });
+
+  it('parses checklists, dropping blank steps', () => {
+    const data: Extract<ElementEditorSaveData, { mode: 'checklist' }> = {
+      mode: 'checklist',
+      name: 'Morning routine',
+      category: 'habit',
+      checklistItems: [
+        { id: 'a', label: ' Stretch ' },
+        { id: 'b', label: '  ' },
+        { id: 'c', label: 'Journal' },
+      ],
+      checklistRequiredCount: '',
+      checklistTimeSlot: 'morning',
+    };
+    expect(parseElementEditorSave(data)).toEqual({
+      kind: 'checklist',
+      input: {
+        name: 'Morning routine',
+        items: [
+          { id: 'a', label: 'Stretch' },
+          { id: 'c', label: 'Journal' },
+        ],
+        requiredCount: undefined,
+        timeSlot: 'morning',
+      },
+    });
+    expect(() => parseElementEditorSave({ ...data, checklistRequiredCount: '3' })).toThrow(
+      'Steps needed must be between 1 and 2',
+    );
+  });
+
+  it('parses abstinence trackers with an optional quit date', () => {
+    const data: Extract<ElementEditorSaveData, { mode: 'abstinence' }> = {
+      mode: 'abstinence',
+      name: 'No smoking',
+      category: 'habit',
+      abstinenceStartDate: ' ',
+    };
+    expect(parseElementEditorSave(data)).toEqual({
+      kind: 'abstinence',
+      input: { name: 'No smoking' },
+    });
+    expect(parseElementEditorSave({ ...data, abstinenceStartDate: '2025-03-01' })).toEqual({
+      kind: 'abstinence',
+      input: { name: 'No smoking', startDate: '2025-03-01' },
+    });
+    expect(() => parseElementEditorSave({ ...data, abstinenceStartDate: 'March 1' })).toThrow(
+      'Start date must be YYYY-MM-DD',
+    );
+  });
 });
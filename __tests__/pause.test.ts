@@ -0,0 +1,66 @@
+import {
+  currentAndUpcomingPauses,
+  formatPausePeriod,
+  isDatePaused,
+  pausedDatesBetween,
+  PausePeriodSchema,
+  type PausePeriod,
+} from '../src/protocol';
+import { computeStreak } from '../src/utils/streak';
+
+const pause = (id: string, startDate: string, endDate?: string): PausePeriod => ({
+  id: `550e8400-e29b-41d4-a716-44665544000${id}`,
+  startDate,
+  ...(endDate ? { endDate } : {}),
+  createdAt: '2025-07-01T08:00:00.000Z',
+});
+
+describe('pause periods', () => {
+  const trip = pause('1', '2025-07-10', '2025-07-12');
+  const sick = pause('2', '2025-07-20');
+
+  it('covers both ends of a range, and everything after an open-ended start', () => {
+    expect(isDatePaused([trip], '2025-07-09')).toBe(false);
+    expect(isDatePaused([trip], '2025-07-10')).toBe(true);
+    expect(isDatePaused([trip], '2025-07-12')).toBe(true);
+    expect(isDatePaused([trip], '2025-07-13')).toBe(false);
+    expect(isDatePaused([sick], '2026-01-01')).toBe(true);
+  });
+
+  it('lists paused dates between two days', () => {
+    expect(pausedDatesBetween([trip, sick], '2025-07-11', '2025-07-21')).toEqual([
+      '2025-07-11',
+      '2025-07-12',
+      '2025-07-20',
+      '2025-07-21',
+    ]);
+  });
+
+  it('keeps running and upcoming pauses, soonest first', () => {
+    const past = pause('3', '2025-06-01', '2025-06-05');
+    expect(currentAndUpcomingPauses([sick, past, trip], '2025-07-11')).toEqual([trip, sick]);
+  });
+
+  it('formats ranges and open-ended pauses', () => {
+    expect(formatPausePeriod(trip)).toBe('2025-07-10 – 2025-07-12');
+    expect(formatPausePeriod(pause('4', '2025-07-10', '2025-07-10'))).toBe('2025-07-10');
+    expect(formatPausePeriod(sick)).toBe('Since 2025-07-20');
+  });
+
+  it('rejects a reason over 200 characters', () => {
+    expect(() => PausePeriodSchema.parse({ ...trip, reason: 'x'.repeat(201) })).toThrow();
+  });
+
+  it('keeps a streak across the paused days', () => {
+    const completed = ['2025-07-08', '2025-07-09', '2025-07-13'];
+    const paused = pausedDatesBetween([trip], '2025-07-01', '2025-07-13');
+    expect(computeStreak(completed, '2025-07-13')).toBe(1);
+    expect(computeStreak(completed, '2025-07-13', undefined, { skippedDates: paused })).toBe(3);
+  });
+
+  it('still counts days done during a pause', () => {
+    const completed = ['2025-07-09', '2025-07-11', '2025-07-13'];
+    const paused = pausedDatesBetween([trip], '2025-07-01', '2025-07-13');
+    expect(computeStreak(completed, '2025-07-13', undefined, { skippedDates: paused })).toBe(3);
+  });
+});
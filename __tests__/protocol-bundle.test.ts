@@ -1,5 +1,7 @@
 import {
   createProtocolBundle,
+  describeBundleError,
+  summarizeProtocolBundle,
   HabitConfigSchema,
   parseProtocolBundle,
   PROTOCOL_VERSION,
@@ -22,6 +24,7 @@ describe('Life Protocol bundle', () => {
     }),
     protocolVersion: PROTOCOL_VERSION,
     createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
   };
 
   it('validates a complete export bundle', () => {
@@ -46,7 +49,7 @@ describe('Life Protocol bundle', () => {
       ],
     });
 
-    expect(bundle.protocolVersion).toBe(1);
+    expect(bundle.protocolVersion).toBe(PROTOCOL_VERSION);
     expect(parseProtocolBundle(bundle)).toEqual(bundle);
   });
 
@@ -105,6 +108,7 @@ describe('daily value semantics', () => {
       config: HabitConfigSchema.parse({ timeSlot: 'anytime', trackingMode: 'timer' }),
       protocolVersion: PROTOCOL_VERSION,
       createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
     });
     expect(semantics.unit).toBe('seconds');
   });
@@ -122,6 +126,7 @@ describe('daily value semantics', () => {
       }),
       protocolVersion: PROTOCOL_VERSION,
       createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
     };
     expect(isElementDayComplete(element, 900)).toBe(true);
     expect(isElementDayComplete(element, 899)).toBe(false);
@@ -138,6 +143,7 @@ describe('validateBundleEventLinks', () => {
       config: HabitConfigSchema.parse({ timeSlot: 'evening', trackingMode: 'boolean' }),
       protocolVersion: PROTOCOL_VERSION,
       createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
     };
 
     expect(() =>
@@ -155,3 +161,35 @@ describe('validateBundleEventLinks', () => {
     ).not.toThrow();
   });
 });
+
+describe('backup preview', () => {
+  it('summarizes counts and the event date range', () => {
+    const bundle = createProtocolBundle({ elements: [], dashboard: [], events: [] });
+    const summary = summarizeProtocolBundle(bundle);
+    expect(summary.elementCount).toBe(0);
+    expect(summary.firstDate).toBeNull();
+  });
+
+  it('explains validation failures in plain terms', () => {
+    const raw = {
+      protocolVersion: PROTOCOL_VERSION,
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      elements: [{ id: 'nope' }],
+      dashboard: [],
+      events: [],
+    };
+    let lines: string[] = [];
+    try {
+      parseProtocolBundle(raw);
+    } catch (error) {
+      lines = describeBundleError(raw, error, 2);
+    }
+    expect(lines[0]).toMatch(/^Element 1 \(id\): /);
+    expect(lines[lines.length - 1]).toMatch(/more problems$/);
+  });
+
+  it('names protocol version mismatches and bad JSON', () => {
+    expect(describeBundleError({ protocolVersion: 9 }, new Error('x'))[0]).toMatch(/version 9/);
+    expect(describeBundleError(null, new SyntaxError('bad'))).toEqual(['The file is not valid JSON.']);
+  });
+});
@@ -4,6 +4,7 @@ import {
   DEFAULT_HABIT_CONFIG,
   HabitConfigSchema,
   HabitEventMetaSchema,
+  habitSkipReasons,
   buildCounterConfig,
   buildHabitConfig,
   isHabitDayComplete,
@@ -117,6 +118,22 @@ describe('HabitEventMetaSchema', () => {
       expect(meta.durationSeconds).toBe(900);
     }
   });
+
+  it('accepts skip meta with an optional reason', () => {
+    expect(HabitEventMetaSchema.parse({ source: 'habit_skip', reason: 'Sick' })).toEqual({
+      source: 'habit_skip',
+      reason: 'Sick',
+    });
+    const skips = habitSkipReasons([
+      { date: '2025-01-01', meta: { source: 'habit_skip', reason: 'Sick' } },
+      { date: '2025-01-02', meta: { source: 'habit_skip' } },
+      { date: '2025-01-03', meta: { source: 'habit_tick' } },
+    ]);
+    expect([...skips]).toEqual([
+      ['2025-01-01', 'Sick'],
+      ['2025-01-02', undefined],
+    ]);
+  });
 });
 
 describe('isHabitDayComplete', () => {
@@ -147,6 +164,7 @@ describe('parseElementDefinition', () => {
       config: DEFAULT_HABIT_CONFIG,
       protocolVersion: PROTOCOL_VERSION,
       createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
     });
 
     expect(element.kind).toBe('habit');
@@ -161,6 +179,7 @@ describe('parseElementDefinition', () => {
       config: DEFAULT_COUNTER_CONFIG,
       protocolVersion: PROTOCOL_VERSION,
       createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
     });
 
     expect(element.name).toBe('Push-ups');
@@ -178,7 +197,7 @@ describe('parseProtocolBundle', () => {
       events: [],
     });
 
-    expect(bundle.protocolVersion).toBe(1);
+    expect(bundle.protocolVersion).toBe(PROTOCOL_VERSION);
     expect(bundle.events).toEqual([]);
   });
 });
@@ -0,0 +1,85 @@
+import {
+  aggregateDailyValue,
+  buildRatingConfig,
+  formatRating,
+  getDailyValueSemantics,
+  isElementDayComplete,
+  parseEventMeta,
+  PROTOCOL_VERSION,
+  RatingConfigSchema,
+  ratingDistribution,
+  ratingLabel,
+  ratingScale,
+  type ElementDefinition,
+} from '../src/protocol';
+
+const mood: ElementDefinition = {
+  id: 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e',
+  kind: 'rating',
+  name: 'Mood',
+  category: 'custom',
+  config: { min: 1, max: 5, labels: ['😞', '🙁', '😐', '🙂', '😄'] },
+  protocolVersion: PROTOCOL_VERSION,
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+};
+
+describe('RatingConfigSchema', () => {
+  it('defaults to a 1–5 scale without labels', () => {
+    expect(RatingConfigSchema.parse({})).toEqual({ min: 1, max: 5, labels: [] });
+  });
+
+  it('rejects scales starting at 0 or above 10', () => {
+    expect(RatingConfigSchema.safeParse({ min: 0 }).success).toBe(false);
+    expect(RatingConfigSchema.safeParse({ max: 11 }).success).toBe(false);
+  });
+});
+
+describe('rating helpers', () => {
+  const config = RatingConfigSchema.parse(mood.config);
+
+  it('lists the scale and labels from the lowest score', () => {
+    expect(ratingScale(config)).toEqual([1, 2, 3, 4, 5]);
+    expect(ratingLabel(4, config)).toBe('🙂');
+  });
+
+  it('formats whole scores with labels and averages to one decimal', () => {
+    expect(formatRating(4, config)).toBe('4/5 🙂');
+    expect(formatRating(3.5, config)).toBe('3.5/5');
+  });
+
+  it('counts ratings per score', () => {
+    const counts = ratingDistribution([{ value: 4 }, { value: 4 }, { value: 2 }], config);
+    expect(counts.map((c) => c.count)).toEqual([0, 1, 0, 2, 0]);
+  });
+
+  it('trims labels and drops trailing blanks when building config', () => {
+    expect(buildRatingConfig({ name: 'Sleep', min: 1, max: 3, labels: [' bad', 'ok ', ' '] })).toEqual(
+      { min: 1, max: 3, labels: ['bad', 'ok'] },
+    );
+  });
+});
+
+describe('rating semantics', () => {
+  it('averages the day instead of summing', () => {
+    expect(getDailyValueSemantics(mood).aggregation).toBe('avg');
+    expect(
+      aggregateDailyValue(mood, [
+        { timestamp: '2025-03-01T08:00:00.000Z', value: 2 },
+        { timestamp: '2025-03-01T20:00:00.000Z', value: 5 },
+      ]),
+    ).toBe(3.5);
+  });
+
+  it('completes a day once anything is rated', () => {
+    expect(isElementDayComplete(mood, 0)).toBe(false);
+    expect(isElementDayComplete(mood, 1)).toBe(true);
+  });
+
+  it('accepts a free-text note in event meta', () => {
+    expect(parseEventMeta('rating', { source: 'rating', note: 'Slept badly' })).toEqual({
+      source: 'rating',
+      note: 'Slept badly',
+    });
+  });
+});
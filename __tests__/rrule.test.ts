@@ -0,0 +1,133 @@
+import {
+  describeRRule,
+  formatRRule,
+  isRRuleActiveOnDate,
+  parseRRule,
+} from '../src/protocol/rrule';
+
+const activeDates = (text: string, anchorDate: string, dates: string[]) => {
+  const rule = parseRRule(text);
+  return dates.filter((date) => isRRuleActiveOnDate(rule, anchorDate, date));
+};
+
+describe('parseRRule', () => {
+  it('reads the supported parts and round-trips them', () => {
+    const rule = parseRRule('RRULE:freq=monthly;BYDAY=1MO,-1FR;UNTIL=20251231T000000Z');
+    expect(rule).toEqual({
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [
+        { weekday: 1, ordinal: 1 },
+        { weekday: 5, ordinal: -1 },
+      ],
+      byMonthDay: [],
+      byMonth: [],
+      until: '2025-12-31',
+    });
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;BYDAY=1MO,-1FR;UNTIL=20251231');
+  });
+
+  it('rejects rules outside the subset', () => {
+    expect(() => parseRRule('BYDAY=MO')).toThrow('FREQ is required');
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow('FREQ must be one of');
+    expect(() => parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('BYSETPOS is not supported');
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow('cannot number weekdays');
+    expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toThrow('not both');
+    expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=0')).toThrow('invalid value');
+  });
+});
+
+describe('isRRuleActiveOnDate', () => {
+  it('matches the first Monday of the month', () => {
+    expect(
+      activeDates('FREQ=MONTHLY;BYDAY=1MO', '2025-06-01', [
+        '2025-06-02',
+        '2025-06-09',
+        '2025-07-07',
+        '2025-07-14',
+      ]),
+    ).toEqual(['2025-06-02', '2025-07-07']);
+  });
+
+  it('matches every other Tuesday and Thursday', () => {
+    // Anchor week is Mon 2025-06-30; the following week is skipped.
+    expect(
+      activeDates('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH', '2025-06-30', [
+        '2025-07-01',
+        '2025-07-03',
+        '2025-07-08',
+        '2025-07-10',
+        '2025-07-15',
+        '2025-07-17',
+      ]),
+    ).toEqual(['2025-07-01', '2025-07-03', '2025-07-15', '2025-07-17']);
+  });
+
+  it('matches the 15th and last day of each month', () => {
+    expect(
+      activeDates('FREQ=MONTHLY;BYMONTHDAY=15,-1', '2025-01-01', [
+        '2025-02-15',
+        '2025-02-28',
+        '2025-03-30',
+        '2025-03-31',
+      ]),
+    ).toEqual(['2025-02-15', '2025-02-28', '2025-03-31']);
+  });
+
+  it('takes missing days from the start date and honours BYMONTH', () => {
+    expect(
+      activeDates('FREQ=YEARLY;BYMONTH=1,7', '2025-03-10', [
+        '2025-07-10',
+        '2026-01-10',
+        '2026-03-10',
+        '2025-07-11',
+      ]),
+    ).toEqual(['2025-07-10', '2026-01-10']);
+    expect(activeDates('FREQ=WEEKLY', '2025-06-30', ['2025-07-07', '2025-07-08'])).toEqual([
+      '2025-07-07',
+    ]);
+  });
+
+  it('stops after UNTIL or COUNT occurrences', () => {
+    expect(
+      activeDates('FREQ=DAILY;INTERVAL=2;COUNT=3', '2025-06-01', [
+        '2025-05-30',
+        '2025-06-01',
+        '2025-06-03',
+        '2025-06-05',
+        '2025-06-07',
+      ]),
+    ).toEqual(['2025-06-01', '2025-06-03', '2025-06-05']);
+    expect(
+      activeDates('FREQ=DAILY;UNTIL=20250602', '2025-06-01', ['2025-06-02', '2025-06-03']),
+    ).toEqual(['2025-06-02']);
+  });
+
+  it('ends a COUNT rule on its last occurrence, whatever order dates are asked in', () => {
+    // Mon, Wed, Fri from Mon 2025-06-02: the 6th occurrence is Fri 2025-06-13.
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=6');
+    expect(isRRuleActiveOnDate(rule, '2025-06-02', '2025-06-16')).toBe(false);
+    expect(isRRuleActiveOnDate(rule, '2025-06-02', '2025-06-13')).toBe(true);
+    expect(isRRuleActiveOnDate(rule, '2025-06-09', '2025-06-16')).toBe(true);
+  });
+
+  it('keeps a COUNT rule whose pattern never matches from looping forever', () => {
+    expect(
+      activeDates('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30;COUNT=2', '2025-01-01', ['2025-02-28']),
+    ).toEqual([]);
+  });
+});
+
+describe('describeRRule', () => {
+  it('reads like a sentence', () => {
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=1MO'))).toBe(
+      'Every month on the 1st Mon',
+    );
+    expect(describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH'))).toBe(
+      'Every 2 weeks on Tue and Thu',
+    );
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=15,-1;COUNT=6'))).toBe(
+      'Every month on the 15th and last day, 6 times',
+    );
+  });
+});
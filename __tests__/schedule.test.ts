@@ -1,9 +1,11 @@
 import {
   daysBetween,
   formatScheduleDescription,
+  HabitScheduleSchema,
   isScheduleActiveOnDate,
   isScheduleSupportedForReminders,
   isTimeRangeStartingSoon,
+  quotaPeriodStart,
   toExpoWeekday,
 } from '../src/protocol/schedule';
 
@@ -92,3 +94,69 @@ describe('toExpoWeekday', () => {
     expect(toExpoWeekday(6)).toBe(7);
   });
 });
+
+describe('quota schedules', () => {
+  const weekly = { type: 'quota' as const, count: 2, period: 'week' as const, weekStartsOn: 1 };
+
+  it('finds the start of the week or month', () => {
+    expect(quotaPeriodStart(weekly, '2025-07-03')).toBe('2025-06-30'); // Thursday → Monday
+    expect(quotaPeriodStart({ ...weekly, weekStartsOn: 0 }, '2025-07-03')).toBe('2025-06-29');
+    expect(quotaPeriodStart({ ...weekly, period: 'month' }, '2025-07-03')).toBe('2025-07-01');
+  });
+
+  it('stays due until the quota is met by earlier days', () => {
+    expect(isScheduleActiveOnDate(weekly, '2025-07-02', ['2025-06-30'])).toBe(true);
+    expect(isScheduleActiveOnDate(weekly, '2025-07-02', ['2025-06-30', '2025-07-02'])).toBe(true);
+    expect(isScheduleActiveOnDate(weekly, '2025-07-03', ['2025-06-30', '2025-07-02'])).toBe(false);
+    // Last week's days do not count toward this week.
+    expect(isScheduleActiveOnDate(weekly, '2025-07-07', ['2025-06-30', '2025-07-02'])).toBe(true);
+  });
+
+  it('describes the quota and skips reminders', () => {
+    expect(formatScheduleDescription({ ...weekly, count: 3 })).toBe('3× per week');
+    expect(isScheduleSupportedForReminders(weekly)).toBe(false);
+  });
+
+  it('defaults the week to start on Monday', () => {
+    expect(HabitScheduleSchema.parse({ type: 'quota', count: 3, period: 'week' })).toEqual({
+      type: 'quota',
+      count: 3,
+      period: 'week',
+      weekStartsOn: 1,
+    });
+  });
+
+  it('rejects more days than the period has room for', () => {
+    expect(HabitScheduleSchema.safeParse({ type: 'quota', count: 7, period: 'week' }).success).toBe(
+      true,
+    );
+    expect(HabitScheduleSchema.safeParse({ type: 'quota', count: 10, period: 'week' }).success).toBe(
+      false,
+    );
+    expect(
+      HabitScheduleSchema.safeParse({ type: 'quota', count: 29, period: 'month' }).success,
+    ).toBe(false);
+  });
+});
+
+describe('rrule schedules', () => {
+  const schedule = {
+    type: 'rrule' as const,
+    rule: 'FREQ=MONTHLY;BYDAY=-1FR',
+    anchorDate: '2025-01-01',
+  };
+
+  it('validates the rule text', () => {
+    expect(HabitScheduleSchema.safeParse(schedule).success).toBe(true);
+    expect(HabitScheduleSchema.safeParse({ ...schedule, rule: 'FREQ=SOMETIMES' }).success).toBe(
+      false,
+    );
+  });
+
+  it('is active on matching dates and described in words', () => {
+    expect(isScheduleActiveOnDate(schedule, '2025-06-27')).toBe(true);
+    expect(isScheduleActiveOnDate(schedule, '2025-06-20')).toBe(false);
+    expect(formatScheduleDescription(schedule)).toBe('Every month on the last Fri');
+    expect(isScheduleSupportedForReminders(schedule)).toBe(false);
+  });
+});
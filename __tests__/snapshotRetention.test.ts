@@ -0,0 +1,62 @@
+import {
+  parseSnapshotFileName,
+  snapshotFileName,
+  snapshotsToKeep,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from '../src/backup/snapshotRetention';
+
+const snapshot = (localIso: string, reason: SnapshotReason = 'daily'): SnapshotInfo => {
+  const createdAt = new Date(localIso);
+  return { name: snapshotFileName(createdAt, reason), createdAt: createdAt.toISOString(), reason };
+};
+
+describe('snapshot file names', () => {
+  it('round-trip the timestamp and reason', () => {
+    const createdAt = new Date('2025-06-30T21:05:09.123Z');
+    const name = snapshotFileName(createdAt, 'pre-delete');
+    expect(name).toBe('life-snapshot-2025-06-30T21-05-09-123Z-pre-delete.json');
+    expect(parseSnapshotFileName(name)).toEqual({
+      name,
+      createdAt: createdAt.toISOString(),
+      reason: 'pre-delete',
+    });
+    expect(parseSnapshotFileName('notes.json')).toBeNull();
+  });
+});
+
+describe('snapshotsToKeep', () => {
+  it('keeps the newest snapshot per day up to the daily limit', () => {
+    const snapshots = [
+      snapshot('2025-06-01T09:00:00'),
+      snapshot('2025-06-02T09:00:00'),
+      snapshot('2025-06-03T09:00:00'),
+      snapshot('2025-06-03T18:00:00'),
+    ];
+    const keep = snapshotsToKeep(snapshots, { daily: 2, weekly: 0, safety: 0 });
+    expect([...keep].sort()).toEqual([snapshots[1].name, snapshots[3].name].sort());
+  });
+
+  it('keeps one per week beyond the daily window', () => {
+    // Mondays three weeks apart, plus a Sunday closing the first week.
+    const snapshots = [
+      snapshot('2025-06-02T09:00:00'),
+      snapshot('2025-06-08T09:00:00'),
+      snapshot('2025-06-16T09:00:00'),
+      snapshot('2025-06-23T09:00:00'),
+    ];
+    const keep = snapshotsToKeep(snapshots, { daily: 1, weekly: 3, safety: 0 });
+    expect(keep.has(snapshots[0].name)).toBe(false);
+    expect(keep.has(snapshots[1].name)).toBe(true);
+    expect(keep.size).toBe(3);
+  });
+
+  it('always keeps the latest safety snapshots', () => {
+    const snapshots = [
+      snapshot('2025-06-03T08:00:00', 'pre-import'),
+      snapshot('2025-06-03T09:00:00'),
+    ];
+    const keep = snapshotsToKeep(snapshots, { daily: 1, weekly: 0, safety: 1 });
+    expect(keep.size).toBe(2);
+  });
+});
@@ -1,4 +1,10 @@
-import { computeStreak, completedDatesFromDailyTotals } from '../src/utils/streak';
+import { quotaPeriodStart, type HabitConfig } from '../src/protocol';
+import {
+  computeStreak,
+  computeStreakDetails,
+  completedDatesFromDailyTotals,
+  habitStreakSchedule,
+} from '../src/utils/streak';
 
 describe('computeStreak', () => {
   it('counts consecutive completed days ending today', () => {
@@ -33,6 +39,100 @@ describe('computeStreak', () => {
     );
     expect(streak).toBe(2);
   });
+
+  it('counts weeks that met a quota, not breaking on rest days', () => {
+    const quota = {
+      count: 2,
+      periodStart: (date: string) => quotaPeriodStart({ period: 'week', weekStartsOn: 1 }, date),
+    };
+    const completed = [
+      '2025-06-16', '2025-06-20', // met
+      '2025-06-23', '2025-06-27', // met
+      '2025-06-30', '2025-07-01', // met
+      '2025-07-07', // current week, still open
+    ];
+    expect(computeStreak(completed, '2025-07-09', quota)).toBe(3);
+    expect(computeStreak([...completed, '2025-07-09'], '2025-07-09', quota)).toBe(4);
+    expect(computeStreak(completed.slice(2), '2025-07-09', quota)).toBe(2);
+  });
+
+  it('carries a seasonal streak over the off-season', () => {
+    const config: HabitConfig = {
+      trackingMode: 'boolean',
+      timeSlot: 'anytime',
+      schedule: { type: 'daily' },
+      season: { start: '06-01', end: '09-30' },
+    };
+    const completed = ['2024-09-29', '2024-09-30', '2025-06-01'];
+    expect(computeStreak(completed, '2025-06-01', habitStreakSchedule(config))).toBe(3);
+    expect(computeStreak(completed, '2025-06-02', habitStreakSchedule(config))).toBe(3);
+  });
+
+  it('skips quota periods outside the active window', () => {
+    const config: HabitConfig = {
+      trackingMode: 'boolean',
+      timeSlot: 'anytime',
+      schedule: { type: 'quota', count: 1, period: 'week', weekStartsOn: 1 },
+      endDate: '2025-06-22',
+    };
+    // Weeks from 2025-06-23 fall after the end date and do not break the streak.
+    const completed = ['2025-06-10', '2025-06-17'];
+    expect(computeStreak(completed, '2025-07-09', habitStreakSchedule(config))).toBe(2);
+  });
+});
+
+describe('skip days and streak freezes', () => {
+  const days = (from: number, to: number, month = '2025-03') =>
+    Array.from({ length: to - from + 1 }, (_, index) =>
+      `${month}-${String(from + index).padStart(2, '0')}`,
+    );
+
+  it('treats skipped days as neither done nor missed', () => {
+    const completed = ['2025-03-01', '2025-03-03'];
+    expect(computeStreak(completed, '2025-03-03')).toBe(1);
+    expect(
+      computeStreak(completed, '2025-03-03', undefined, { skippedDates: ['2025-03-02'] }),
+    ).toBe(2);
+  });
+
+  it('still credits a skipped day that was done anyway', () => {
+    const completed = ['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-04'];
+    expect(
+      computeStreak(completed, '2025-03-04', undefined, { skippedDates: ['2025-03-02'] }),
+    ).toBe(4);
+  });
+
+  it('covers gaps with freezes once the streak has earned them', () => {
+    // Ten days done, then two missed days, then three more.
+    const completed = [...days(1, 10), ...days(13, 15)];
+    const freezes = { perMonth: 2, earnedAfter: 7 };
+    const details = computeStreakDetails(completed, '2025-03-15', undefined, { freezes });
+    expect(details).toEqual({ streak: 13, frozenDates: ['2025-03-11', '2025-03-12'] });
+
+    const short = computeStreakDetails(completed.slice(4), '2025-03-15', undefined, { freezes });
+    expect(short).toEqual({ streak: 3, frozenDates: [] });
+  });
+
+  it('caps freezes per calendar month', () => {
+    const completed = [...days(1, 10), ...days(14, 15)];
+    const details = computeStreakDetails(completed, '2025-03-15', undefined, {
+      freezes: { perMonth: 2, earnedAfter: 7 },
+    });
+    expect(details.streak).toBe(2);
+    expect(details.frozenDates).toEqual(['2025-03-11', '2025-03-12']);
+  });
+
+  it('excuses an unmet quota period that holds a skip', () => {
+    const quota = {
+      count: 2,
+      periodStart: (date: string) => quotaPeriodStart({ period: 'week', weekStartsOn: 1 }, date),
+    };
+    const completed = ['2025-06-16', '2025-06-20', '2025-06-30', '2025-07-01'];
+    expect(computeStreak(completed, '2025-07-02', quota)).toBe(1);
+    expect(
+      computeStreak(completed, '2025-07-02', quota, { skippedDates: ['2025-06-25'] }),
+    ).toBe(2);
+  });
 });
 
 describe('completedDatesFromDailyTotals', () => {
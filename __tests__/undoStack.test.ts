@@ -0,0 +1,41 @@
+import {
+  emptyUndoStacks,
+  recordUndo,
+  takeRedo,
+  takeUndo,
+  UNDO_LIMIT,
+} from '../src/utils/undoStack';
+
+describe('undo stack', () => {
+  it('undoes newest first and redoes what was undone', () => {
+    let stacks = recordUndo(recordUndo(emptyUndoStacks<string>(), 'a'), 'b');
+
+    const undone = takeUndo(stacks);
+    expect(undone?.entry).toBe('b');
+    stacks = undone!.stacks;
+    expect(stacks).toEqual({ undo: ['a'], redo: ['b'] });
+
+    const redone = takeRedo(stacks);
+    expect(redone?.entry).toBe('b');
+    expect(redone?.stacks).toEqual({ undo: ['a', 'b'], redo: [] });
+  });
+
+  it('drops redo once a new change is recorded', () => {
+    const afterUndo = takeUndo(recordUndo(emptyUndoStacks<string>(), 'a'))!.stacks;
+    expect(recordUndo(afterUndo, 'c')).toEqual({ undo: ['c'], redo: [] });
+  });
+
+  it('returns null when there is nothing to take', () => {
+    expect(takeUndo(emptyUndoStacks())).toBeNull();
+    expect(takeRedo(emptyUndoStacks())).toBeNull();
+  });
+
+  it('keeps only the newest entries', () => {
+    let stacks = emptyUndoStacks<number>();
+    for (let i = 0; i < UNDO_LIMIT + 5; i += 1) {
+      stacks = recordUndo(stacks, i);
+    }
+    expect(stacks.undo).toHaveLength(UNDO_LIMIT);
+    expect(stacks.undo[0]).toBe(5);
+  });
+});
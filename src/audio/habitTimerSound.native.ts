@@ -64,6 +64,19 @@ export async function stopLoopingHabitSound(): Promise<void> {
   }
 }
 
+/** Play a track once over any looping sound, e.g. an interval phase change. */
+export async function playHabitCue(uri: string): Promise<void> {
+  const Audio = await getAudio();
+  if (!Audio) return;
+
+  const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true, volume: 1 });
+  sound.setOnPlaybackStatusUpdate((status) => {
+    if (status.isLoaded && status.didJustFinish) {
+      void sound.unloadAsync();
+    }
+  });
+}
+
 /** Test-only reset. */
 export function resetHabitSoundPlaybackForTests(): void {
   activeSound = null;
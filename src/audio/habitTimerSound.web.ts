@@ -2,4 +2,6 @@ export async function playLoopingHabitSound(_uri: string): Promise<void> {}
 
 export async function stopLoopingHabitSound(): Promise<void> {}
 
+export async function playHabitCue(_uri: string): Promise<void> {}
+
 export function resetHabitSoundPlaybackForTests(): void {}
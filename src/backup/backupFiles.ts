@@ -0,0 +1,64 @@
+import { Platform, Share } from 'react-native';
+
+/** `life-backup-2025-06-30.json` */
+export function backupFileName(now = new Date(), prefix = 'life-backup', extension = 'json'): string {
+  const date = now.toISOString().slice(0, 10);
+  return `${prefix}-${date}.${extension}`;
+}
+
+/** Write text to the cache directory and return its `file://` URI. */
+export async function writeBackupFile(json: string, fileName = backupFileName()): Promise<string> {
+  const FileSystem = await import('expo-file-system/legacy');
+  if (!FileSystem.cacheDirectory) {
+    throw new Error('Local storage is not available on this device');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, json);
+  return uri;
+}
+
+/**
+ * Hand a backup to the user: the share sheet on iOS, a folder picker on Android
+ * (its share sheet cannot attach files without a content provider).
+ * Returns false if the user backed out.
+ */
+export async function shareBackupFile(
+  uri: string,
+  json: string,
+  mimeType = 'application/json',
+): Promise<boolean> {
+  const fileName = uri.split('/').pop() ?? backupFileName();
+
+  if (Platform.OS === 'android') {
+    const { StorageAccessFramework } = await import('expo-file-system/legacy');
+    const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permission.granted) return false;
+    const target = await StorageAccessFramework.createFileAsync(
+      permission.directoryUri,
+      fileName.replace(/\.[a-z]+$/, ''),
+      mimeType,
+    );
+    await StorageAccessFramework.writeAsStringAsync(target, json);
+    return true;
+  }
+
+  const result = await Share.share({ url: uri, title: fileName });
+  return result.action !== Share.dismissedAction;
+}
+
+/** Let the user pick a text file; null if cancelled. */
+export async function pickTextFile(
+  type: string[] = ['application/json', 'text/plain', '*/*'],
+): Promise<{ name: string; text: string } | null> {
+  const DocumentPicker = await import('expo-document-picker');
+  const FileSystem = await import('expo-file-system/legacy');
+
+  const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const file = result.assets[0];
+  const text = await FileSystem.readAsStringAsync(file.uri);
+  return { name: file.name, text };
+}
@@ -0,0 +1,94 @@
+import { shiftDateString, toDateString } from '../protocol';
+
+/** Why a snapshot was taken. Safety snapshots precede destructive operations. */
+export type SnapshotReason = 'daily' | 'pre-import' | 'pre-delete';
+
+export const SNAPSHOT_REASONS: readonly SnapshotReason[] = ['daily', 'pre-import', 'pre-delete'];
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  'pre-import': 'Before import',
+  'pre-delete': 'Before delete',
+};
+
+export interface SnapshotInfo {
+  name: string;
+  createdAt: string;
+  reason: SnapshotReason;
+}
+
+export interface SnapshotRetentionPolicy {
+  /** Newest snapshot of each of the last N days that have one. */
+  daily: number;
+  /** Newest snapshot of each of the last M weeks (Monday start) that have one. */
+  weekly: number;
+  /** Most recent safety snapshots, whatever their day. */
+  safety: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetentionPolicy = {
+  daily: 7,
+  weekly: 4,
+  safety: 3,
+};
+
+const FILE_RE = /^life-snapshot-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-([a-z-]+)\.json$/;
+
+/** `life-snapshot-2025-06-30T21-00-00-000Z-daily.json` — sortable and filesystem-safe. */
+export function snapshotFileName(createdAt: Date, reason: SnapshotReason): string {
+  const stamp = createdAt.toISOString().replace(/[:.]/g, '-');
+  return `life-snapshot-${stamp}-${reason}.json`;
+}
+
+export function parseSnapshotFileName(name: string): SnapshotInfo | null {
+  const match = FILE_RE.exec(name);
+  if (!match) return null;
+  const reason = match[2] as SnapshotReason;
+  if (!SNAPSHOT_REASONS.includes(reason)) return null;
+
+  const [date, time] = match[1].split('T');
+  const [hours, minutes, seconds, millis] = time.replace('Z', '').split('-');
+  return {
+    name,
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    reason,
+  };
+}
+
+function weekStart(dateStr: string): string {
+  const weekday = new Date(`${dateStr}T12:00:00`).getDay();
+  return shiftDateString(dateStr, -((weekday + 6) % 7));
+}
+
+function newestPerBucket(
+  snapshots: SnapshotInfo[],
+  bucketOf: (snapshot: SnapshotInfo) => string,
+  limit: number,
+): SnapshotInfo[] {
+  const seen = new Set<string>();
+  const kept: SnapshotInfo[] = [];
+  for (const snapshot of snapshots) {
+    const bucket = bucketOf(snapshot);
+    if (seen.has(bucket)) continue;
+    seen.add(bucket);
+    if (kept.length >= limit) break;
+    kept.push(snapshot);
+  }
+  return kept;
+}
+
+/** Names of snapshots to keep; everything else can be deleted. */
+export function snapshotsToKeep(
+  snapshots: SnapshotInfo[],
+  policy: SnapshotRetentionPolicy = DEFAULT_SNAPSHOT_RETENTION,
+): Set<string> {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const localDate = (snapshot: SnapshotInfo) => toDateString(new Date(snapshot.createdAt));
+
+  const kept = [
+    ...newestPerBucket(newestFirst, localDate, policy.daily),
+    ...newestPerBucket(newestFirst, (snapshot) => weekStart(localDate(snapshot)), policy.weekly),
+    ...newestFirst.filter((snapshot) => snapshot.reason !== 'daily').slice(0, policy.safety),
+  ];
+  return new Set(kept.map((snapshot) => snapshot.name));
+}
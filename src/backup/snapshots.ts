@@ -0,0 +1,88 @@
+import { exportProtocolBundle, importProtocolBundle, serializeBundle } from '../db/export';
+import { todayDate } from '../utils/dates';
+import {
+  parseSnapshotFileName,
+  snapshotFileName,
+  snapshotsToKeep,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from './snapshotRetention';
+
+export interface SnapshotFile extends SnapshotInfo {
+  uri: string;
+}
+
+async function getSnapshotsDirectory(): Promise<string> {
+  const FileSystem = await import('expo-file-system/legacy');
+  if (!FileSystem.documentDirectory) {
+    throw new Error('Local storage is not available on this device');
+  }
+  const dir = `${FileSystem.documentDirectory}backups/`;
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  return dir;
+}
+
+/** Snapshots on disk, newest first. */
+export async function listSnapshots(): Promise<SnapshotFile[]> {
+  const FileSystem = await import('expo-file-system/legacy');
+  const dir = await getSnapshotsDirectory();
+  const names = await FileSystem.readDirectoryAsync(dir);
+  return names
+    .map(parseSnapshotFileName)
+    .filter((info): info is SnapshotInfo => info !== null)
+    .map((info) => ({ ...info, uri: `${dir}${info.name}` }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function pruneSnapshots(): Promise<void> {
+  const FileSystem = await import('expo-file-system/legacy');
+  const snapshots = await listSnapshots();
+  const keep = snapshotsToKeep(snapshots);
+  for (const snapshot of snapshots) {
+    if (!keep.has(snapshot.name)) {
+      await FileSystem.deleteAsync(snapshot.uri, { idempotent: true });
+    }
+  }
+}
+
+/** Write the current data as a snapshot, then apply the retention policy. */
+export async function createSnapshot(reason: SnapshotReason): Promise<SnapshotFile> {
+  const FileSystem = await import('expo-file-system/legacy');
+  const dir = await getSnapshotsDirectory();
+  const createdAt = new Date();
+  const name = snapshotFileName(createdAt, reason);
+  const uri = `${dir}${name}`;
+
+  await FileSystem.writeAsStringAsync(uri, serializeBundle(await exportProtocolBundle()));
+  await pruneSnapshots();
+  return { name, uri, reason, createdAt: createdAt.toISOString() };
+}
+
+/** Take today's daily snapshot unless today already has one of any kind. */
+export async function ensureDailySnapshot(): Promise<SnapshotFile | null> {
+  const today = todayDate();
+  const snapshots = await listSnapshots();
+  const hasToday = snapshots.some((snapshot) => todayDate(new Date(snapshot.createdAt)) === today);
+  return hasToday ? null : createSnapshot('daily');
+}
+
+/**
+ * Best-effort safety snapshot before a destructive change. Failures are logged,
+ * not thrown, so a full disk never blocks the user.
+ */
+export async function snapshotBeforeDestructive(reason: SnapshotReason): Promise<void> {
+  try {
+    await createSnapshot(reason);
+  } catch (error) {
+    console.warn('Safety snapshot skipped', error);
+  }
+}
+
+/** Replace all data with a snapshot (after snapshotting the current state). */
+export async function restoreSnapshot(snapshot: SnapshotFile): Promise<void> {
+  const FileSystem = await import('expo-file-system/legacy');
+  const text = await FileSystem.readAsStringAsync(snapshot.uri);
+  const raw: unknown = JSON.parse(text);
+  await snapshotBeforeDestructive('pre-import');
+  await importProtocolBundle(raw);
+}
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, useWindowDimensions, View } from 'react-native';
+import {
+  Button,
+  Chip,
+  Divider,
+  Icon,
+  IconButton,
+  Modal,
+  Portal,
+  Text,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
+import {
+  CATEGORY_COLOR_OPTIONS,
+  CATEGORY_ICON_OPTIONS,
+  type CategoryDefinition,
+} from '../protocol';
+import ColorSwatches from './ColorSwatches';
+import FormSection, { formSectionStyles } from './elementEditor/FormSection';
+
+type Props = {
+  /** Category being edited; a fresh id means a new category. Null hides the dialog. */
+  category: CategoryDefinition | null;
+  isNew: boolean;
+  saving: boolean;
+  onDismiss: () => void;
+  onSave: (category: CategoryDefinition) => void;
+};
+
+export default function CategoryEditorDialog({
+  category,
+  isNew,
+  saving,
+  onDismiss,
+  onSave,
+}: Props) {
+  const theme = useTheme();
+  const { width, height } = useWindowDimensions();
+  const sheetWidth = Math.min(width - 24, 480);
+  const sheetMaxHeight = Math.min(height * 0.9, 720);
+
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLOR_OPTIONS[0]);
+  const [icon, setIcon] = useState(CATEGORY_ICON_OPTIONS[0]);
+
+  useEffect(() => {
+    if (!category) return;
+    setLabel(category.label);
+    setColor(category.color);
+    setIcon(category.icon);
+  }, [category]);
+
+  return (
+    <Portal>
+      <Modal
+        visible={category !== null}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { width: sheetWidth, maxHeight: sheetMaxHeight },
+        ]}
+      >
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <Text variant="titleLarge" style={styles.headerTitle}>
+              {isNew ? 'New category' : 'Edit category'}
+            </Text>
+            <IconButton icon="close" onPress={onDismiss} accessibilityLabel="Close" />
+          </View>
+
+          <ScrollView
+            style={styles.scroll}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <FormSection title="Name">
+              <TextInput
+                label="Name"
+                value={label}
+                onChangeText={setLabel}
+                mode="outlined"
+                maxLength={40}
+              />
+            </FormSection>
+
+            <FormSection title="Color">
+              <ColorSwatches
+                value={color}
+                onChange={(next) => setColor(next ?? CATEGORY_COLOR_OPTIONS[0])}
+              />
+            </FormSection>
+
+            <FormSection title="Icon">
+              <View style={formSectionStyles.chipRow}>
+                {CATEGORY_ICON_OPTIONS.map((option) => (
+                  <IconButton
+                    key={option}
+                    icon={option}
+                    iconColor={color}
+                    mode={icon === option ? 'contained-tonal' : undefined}
+                    selected={icon === option}
+                    onPress={() => setIcon(option)}
+                    accessibilityLabel={option}
+                    style={styles.iconOption}
+                  />
+                ))}
+              </View>
+            </FormSection>
+
+            <FormSection title="Preview">
+              <View style={formSectionStyles.chipRow}>
+                <Chip
+                  compact
+                  icon={({ size }) => <Icon source={icon} size={size} color={color} />}
+                >
+                  {label.trim() || 'Category'}
+                </Chip>
+              </View>
+            </FormSection>
+          </ScrollView>
+
+          <Divider />
+
+          <View style={styles.footer}>
+            <Button onPress={onDismiss} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              loading={saving}
+              onPress={() => category && onSave({ id: category.id, label, color, icon })}
+              disabled={!label.trim() || saving}
+            >
+              Save
+            </Button>
+          </View>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    alignSelf: 'center',
+    marginHorizontal: 12,
+  },
+  sheet: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 20,
+    paddingRight: 4,
+    paddingTop: 4,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  iconOption: {
+    margin: 0,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+import { Chip } from 'react-native-paper';
+import type { CategoryDefinition } from '../protocol';
+
+type Props = {
+  categories: CategoryDefinition[];
+  selected: string | null;
+  onSelect: (categoryId: string | null) => void;
+};
+
+/** "All" plus one chip per category; hidden when there is nothing to choose between. */
+export default function CategoryFilterChips({ categories, selected, onSelect }: Props) {
+  if (categories.length < 2) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      style={styles.scroll}
+    >
+      <Chip compact selected={selected === null} showSelectedOverlay onPress={() => onSelect(null)}>
+        All
+      </Chip>
+      {categories.map((category) => (
+        <Chip
+          key={category.id}
+          compact
+          icon={category.icon}
+          selected={selected === category.id}
+          showSelectedOverlay
+          selectedColor={category.color}
+          onPress={() => onSelect(selected === category.id ? null : category.id)}
+        >
+          {category.label}
+        </Chip>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  row: {
+    gap: 6,
+  },
+});
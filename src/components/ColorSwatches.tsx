@@ -0,0 +1,65 @@
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Icon, useTheme } from 'react-native-paper';
+import { CATEGORY_COLOR_OPTIONS } from '../protocol';
+import { formSectionStyles } from './elementEditor/FormSection';
+
+type Props = {
+  value: string | undefined;
+  onChange: (color: string | undefined) => void;
+  /** Adds a leading "no color" swatch that clears the value. */
+  allowNone?: boolean;
+};
+
+export default function ColorSwatches({ value, onChange, allowNone = false }: Props) {
+  const theme = useTheme();
+
+  return (
+    <View style={formSectionStyles.chipRow}>
+      {allowNone ? (
+        <Pressable
+          onPress={() => onChange(undefined)}
+          accessibilityRole="radio"
+          accessibilityState={{ selected: value === undefined }}
+          accessibilityLabel="No color"
+          style={[
+            styles.swatch,
+            styles.noneSwatch,
+            { backgroundColor: theme.colors.surfaceVariant },
+            value === undefined && { borderColor: theme.colors.onSurface },
+          ]}
+        >
+          <Icon source="cancel" size={18} color={theme.colors.onSurfaceVariant} />
+        </Pressable>
+      ) : null}
+      {CATEGORY_COLOR_OPTIONS.map((option) => (
+        <Pressable
+          key={option}
+          onPress={() => onChange(option)}
+          accessibilityRole="radio"
+          accessibilityState={{ selected: value === option }}
+          accessibilityLabel={option}
+          style={[
+            styles.swatch,
+            { backgroundColor: option },
+            value === option && { borderColor: theme.colors.onSurface },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  noneSwatch: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, useWindowDimensions, View } from 'react-native';
+import {
+  Button,
+  Chip,
+  Divider,
+  IconButton,
+  Modal,
+  Portal,
+  Switch,
+  Text,
+  useTheme,
+} from 'react-native-paper';
+import {
+  buildEventsFromCsv,
+  guessCsvColumnMapping,
+  HabitConfigSchema,
+  type CsvColumnMapping,
+  type ElementDefinition,
+} from '../protocol';
+import { getDayStartHour } from '../utils/dates';
+import { newId } from '../utils/id';
+import FormSection, { formSectionStyles } from './elementEditor/FormSection';
+
+export type CsvImportFile = { name: string; rows: string[][]; lineNumbers?: number[] };
+
+type Props = {
+  file: CsvImportFile | null;
+  elements: ElementDefinition[];
+  importing: boolean;
+  onDismiss: () => void;
+  onImport: (elementId: string, mapping: CsvColumnMapping) => void;
+};
+
+const PREVIEW_ERROR_LIMIT = 3;
+
+function isTimerHabit(element: ElementDefinition | undefined): boolean {
+  return (
+    element?.kind === 'habit' && HabitConfigSchema.parse(element.config).trackingMode === 'timer'
+  );
+}
+
+function ColumnChips({
+  columns,
+  selected,
+  optional,
+  onSelect,
+}: {
+  columns: string[];
+  selected: number | undefined;
+  optional?: boolean;
+  onSelect: (index: number | undefined) => void;
+}) {
+  return (
+    <View style={formSectionStyles.chipRow}>
+      {optional ? (
+        <Chip selected={selected === undefined} onPress={() => onSelect(undefined)} compact>
+          None
+        </Chip>
+      ) : null}
+      {columns.map((column, index) => (
+        <Chip key={index} selected={selected === index} onPress={() => onSelect(index)} compact>
+          {column}
+        </Chip>
+      ))}
+    </View>
+  );
+}
+
+/** Map CSV columns onto one element and preview which rows would import. */
+export default function CsvImportDialog({
+  file,
+  elements,
+  importing,
+  onDismiss,
+  onImport,
+}: Props) {
+  const theme = useTheme();
+  const { width, height } = useWindowDimensions();
+  const sheetWidth = Math.min(width - 24, 480);
+  const sheetMaxHeight = Math.min(height * 0.9, 720);
+
+  const [elementId, setElementId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ value: 0, hasHeader: false });
+
+  useEffect(() => {
+    if (!file) return;
+    const header = file.rows[0] ?? [];
+    setMapping(
+      guessCsvColumnMapping(header) ?? {
+        date: 0,
+        value: Math.min(1, Math.max(0, header.length - 1)),
+        hasHeader: false,
+      },
+    );
+    setElementId(null);
+  }, [file]);
+
+  const columns = useMemo(() => {
+    const first = file?.rows[0] ?? [];
+    return first.map((name, index) =>
+      mapping.hasHeader && name.trim() ? name.trim() : `Column ${index + 1}`,
+    );
+  }, [file, mapping.hasHeader]);
+
+  const element = elements.find((candidate) => candidate.id === elementId);
+  const timer = isTimerHabit(element);
+
+  const preview = useMemo(() => {
+    if (!file || !element) return null;
+    return buildEventsFromCsv(file.rows, element, mapping, {
+      newId,
+      dayStartHour: getDayStartHour(),
+      lineNumbers: file.lineNumbers,
+    });
+  }, [element, file, mapping]);
+
+  const missingDate = mapping.date === undefined && mapping.timestamp === undefined;
+  const update = (patch: Partial<CsvColumnMapping>) =>
+    setMapping((current) => ({ ...current, ...patch }));
+
+  return (
+    <Portal>
+      <Modal
+        visible={file !== null}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { width: sheetWidth, maxHeight: sheetMaxHeight },
+        ]}
+      >
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <Text variant="titleLarge" style={styles.headerTitle} numberOfLines={1}>
+              Import {file?.name ?? 'CSV'}
+            </Text>
+            <IconButton icon="close" onPress={onDismiss} accessibilityLabel="Close" />
+          </View>
+
+          <ScrollView
+            style={styles.scroll}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            <FormSection title="Element" description="Every row becomes an event of this element.">
+              <View style={formSectionStyles.chipRow}>
+                {elements.map((candidate) => (
+                  <Chip
+                    key={candidate.id}
+                    selected={candidate.id === elementId}
+                    onPress={() => setElementId(candidate.id)}
+                    compact
+                  >
+                    {candidate.name}
+                  </Chip>
+                ))}
+              </View>
+            </FormSection>
+
+            <FormSection title="Columns">
+              <View style={formSectionStyles.switchRow}>
+                <Text variant="bodyMedium" style={formSectionStyles.switchLabel}>
+                  First row is a header
+                </Text>
+                <Switch
+                  value={mapping.hasHeader}
+                  onValueChange={(hasHeader) => update({ hasHeader })}
+                />
+              </View>
+              <Text variant="labelLarge" style={styles.columnLabel}>
+                Date (YYYY-MM-DD)
+              </Text>
+              <ColumnChips
+                columns={columns}
+                selected={mapping.date}
+                optional
+                onSelect={(date) => update({ date })}
+              />
+              <Text variant="labelLarge" style={styles.columnLabel}>
+                Timestamp
+              </Text>
+              <ColumnChips
+                columns={columns}
+                selected={mapping.timestamp}
+                optional
+                onSelect={(timestamp) => update({ timestamp })}
+              />
+              <Text variant="labelLarge" style={styles.columnLabel}>
+                Value
+              </Text>
+              <ColumnChips
+                columns={columns}
+                selected={mapping.value}
+                onSelect={(value) => update({ value: value ?? 0 })}
+              />
+              {timer ? (
+                <View style={formSectionStyles.switchRow}>
+                  <Text variant="bodyMedium" style={formSectionStyles.switchLabel}>
+                    Values are minutes
+                  </Text>
+                  <Switch
+                    value={mapping.valueInMinutes ?? false}
+                    onValueChange={(valueInMinutes) => update({ valueInMinutes })}
+                  />
+                </View>
+              ) : null}
+            </FormSection>
+
+            <FormSection title="Preview">
+              {missingDate ? (
+                <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                  Pick a date or timestamp column.
+                </Text>
+              ) : !preview ? (
+                <Text variant="bodySmall" style={formSectionStyles.hint}>
+                  Pick an element to check the rows.
+                </Text>
+              ) : (
+                <>
+                  <Text variant="bodyMedium">
+                    {preview.events.length} rows ready · {preview.errors.length} with problems
+                  </Text>
+                  {preview.errors.slice(0, PREVIEW_ERROR_LIMIT).map((error) => (
+                    <Text
+                      key={error.line}
+                      variant="bodySmall"
+                      style={{ color: theme.colors.error }}
+                    >
+                      Line {error.line}: {error.message}
+                    </Text>
+                  ))}
+                  <Text variant="bodySmall" style={formSectionStyles.hint}>
+                    Rows already logged with the same time and value are skipped.
+                  </Text>
+                </>
+              )}
+            </FormSection>
+          </ScrollView>
+
+          <Divider />
+
+          <View style={styles.footer}>
+            <Button onPress={onDismiss} disabled={importing}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              loading={importing}
+              onPress={() => elementId && onImport(elementId, mapping)}
+              disabled={!elementId || missingDate || !preview?.events.length || importing}
+            >
+              Import
+            </Button>
+          </View>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    alignSelf: 'center',
+    marginHorizontal: 12,
+  },
+  sheet: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 20,
+    paddingRight: 4,
+    paddingTop: 4,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  columnLabel: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+});
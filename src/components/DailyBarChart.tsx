@@ -11,11 +11,13 @@ export interface DailyBarChartDatum {
 interface DailyBarChartProps {
   data: DailyBarChartDatum[];
   unit: string;
+  /** Replaces the default `Daily total (unit)` footer. */
+  caption?: string;
 }
 
 const CHART_HEIGHT = 160;
 
-export function DailyBarChart({ data, unit }: DailyBarChartProps) {
+export function DailyBarChart({ data, unit, caption }: DailyBarChartProps) {
   const theme = useTheme();
   const { decorations: deco, isCartoon } = useAppTheme();
   const barColor = isCartoon ? theme.colors.secondary : theme.colors.primary;
@@ -55,7 +57,7 @@ export function DailyBarChart({ data, unit }: DailyBarChartProps) {
         })}
       </View>
       <Text variant="bodySmall" style={styles.unit}>
-        Daily total ({unit})
+        {caption ?? `Daily total (${unit})`}
       </Text>
     </View>
   );
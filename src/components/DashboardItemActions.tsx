@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import { Dialog, List, Portal } from 'react-native-paper';
+import {
+  parseDashboardOverrides,
+  type DashboardItem,
+  type DashboardOverrides,
+  type ElementDefinition,
+} from '../protocol';
+import DashboardItemEditorDialog from './DashboardItemEditorDialog';
+
+type Props = {
+  /** Long-pressed element (without overrides applied). Null hides the menu. */
+  element: ElementDefinition | null;
+  item: DashboardItem | undefined;
+  onDismiss: () => void;
+  onOpenDetails: (element: ElementDefinition) => void;
+  onSaveOverrides: (item: DashboardItem, overrides: DashboardOverrides) => Promise<void>;
+  onUnpin: (item: DashboardItem) => Promise<void>;
+  onPinToTop: (item: DashboardItem) => Promise<void>;
+  /** Switches the screen into reorder mode. */
+  onReorder: () => void;
+  /** Habits on the Daily tab: skips today, or takes the skip back. */
+  onToggleSkip?: (element: ElementDefinition) => void;
+  isSkippedToday?: boolean;
+};
+
+/** Long-press menu for a pinned widget, plus its "Customize" editor. */
+export default function DashboardItemActions({
+  element,
+  item,
+  onDismiss,
+  onOpenDetails,
+  onSaveOverrides,
+  onUnpin,
+  onPinToTop,
+  onReorder,
+  onToggleSkip,
+  isSkippedToday,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const overrides = useMemo(() => parseDashboardOverrides(item?.overrides), [item]);
+
+  useEffect(() => {
+    if (!element) setEditing(false);
+  }, [element]);
+
+  const save = async (next: DashboardOverrides) => {
+    if (!item) return;
+    setSaving(true);
+    try {
+      await onSaveOverrides(item, next);
+      onDismiss();
+    } catch (error) {
+      Alert.alert('Could not save', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unpin = async () => {
+    if (!item) return;
+    try {
+      await onUnpin(item);
+      onDismiss();
+    } catch (error) {
+      Alert.alert('Could not unpin', error instanceof Error ? error.message : 'Try again');
+    }
+  };
+
+  const pinToTop = async () => {
+    if (!item) return;
+    try {
+      await onPinToTop(item);
+      onDismiss();
+    } catch (error) {
+      Alert.alert('Could not move', error instanceof Error ? error.message : 'Try again');
+    }
+  };
+
+  return (
+    <>
+      <Portal>
+        <Dialog visible={element !== null && !editing} onDismiss={onDismiss}>
+          <Dialog.Title numberOfLines={1}>{element?.name}</Dialog.Title>
+          <Dialog.Content>
+            <List.Item
+              title="Customize widget"
+              description="Label, color, size"
+              left={(props) => <List.Icon {...props} icon="palette-outline" />}
+              onPress={() => setEditing(true)}
+              disabled={!item}
+            />
+            <List.Item
+              title="Pin to top"
+              left={(props) => <List.Icon {...props} icon="arrow-collapse-up" />}
+              onPress={() => void pinToTop()}
+              disabled={!item}
+            />
+            <List.Item
+              title="Reorder widgets"
+              left={(props) => <List.Icon {...props} icon="swap-vertical" />}
+              onPress={() => {
+                onDismiss();
+                onReorder();
+              }}
+            />
+            {onToggleSkip && element?.kind === 'habit' ? (
+              <List.Item
+                title={isSkippedToday ? 'Undo skip' : 'Skip today'}
+                description={isSkippedToday ? undefined : "Doesn't break the streak"}
+                left={(props) => (
+                  <List.Icon {...props} icon={isSkippedToday ? 'undo' : 'debug-step-over'} />
+                )}
+                onPress={() => {
+                  onToggleSkip(element);
+                  onDismiss();
+                }}
+              />
+            ) : null}
+            <List.Item
+              title="View history"
+              left={(props) => <List.Icon {...props} icon="chart-bar" />}
+              onPress={() => {
+                if (element) onOpenDetails(element);
+                onDismiss();
+              }}
+            />
+            <List.Item
+              title="Unpin"
+              left={(props) => <List.Icon {...props} icon="pin-off-outline" />}
+              onPress={() => void unpin()}
+              disabled={!item}
+            />
+          </Dialog.Content>
+        </Dialog>
+      </Portal>
+
+      <DashboardItemEditorDialog
+        element={editing ? element : null}
+        overrides={overrides}
+        saving={saving}
+        onDismiss={onDismiss}
+        onSave={(next) => void save(next)}
+      />
+    </>
+  );
+}
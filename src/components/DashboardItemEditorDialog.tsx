@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, useWindowDimensions, View } from 'react-native';
+import {
+  Button,
+  Chip,
+  Divider,
+  IconButton,
+  Modal,
+  Portal,
+  Text,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
+import {
+  CounterConfigSchema,
+  DASHBOARD_WIDGET_SIZE_LABELS,
+  type DashboardOverrides,
+  type DashboardWidgetSize,
+  type ElementDefinition,
+} from '../protocol';
+import ColorSwatches from './ColorSwatches';
+import FormSection, { formSectionStyles } from './elementEditor/FormSection';
+
+type Props = {
+  /** Pinned element being customized. Null hides the dialog. */
+  element: ElementDefinition | null;
+  overrides: DashboardOverrides;
+  saving: boolean;
+  onDismiss: () => void;
+  onSave: (overrides: DashboardOverrides) => void;
+};
+
+const SIZES: DashboardWidgetSize[] = ['expanded', 'compact'];
+
+export default function DashboardItemEditorDialog({
+  element,
+  overrides,
+  saving,
+  onDismiss,
+  onSave,
+}: Props) {
+  const theme = useTheme();
+  const { width, height } = useWindowDimensions();
+  const sheetWidth = Math.min(width - 24, 480);
+  const sheetMaxHeight = Math.min(height * 0.9, 720);
+
+  const [label, setLabel] = useState('');
+  const [accentColor, setAccentColor] = useState<string | undefined>(undefined);
+  const [size, setSize] = useState<DashboardWidgetSize>('expanded');
+  const [hidden, setHidden] = useState<number[]>([]);
+  const [dailyTarget, setDailyTarget] = useState('');
+
+  useEffect(() => {
+    if (!element) return;
+    setLabel(overrides.label ?? '');
+    setAccentColor(overrides.accentColor);
+    setSize(overrides.size ?? 'expanded');
+    setHidden(overrides.hiddenQuickIncrements ?? []);
+    setDailyTarget(overrides.dailyTarget !== undefined ? String(overrides.dailyTarget) : '');
+  }, [element, overrides]);
+
+  const counterConfig =
+    element?.kind === 'counter' ? CounterConfigSchema.parse(element.config) : null;
+  const visibleCount = counterConfig
+    ? counterConfig.quickIncrements.filter((increment) => !hidden.includes(increment)).length
+    : 0;
+
+  const toggleIncrement = (increment: number) => {
+    setHidden((current) =>
+      current.includes(increment)
+        ? current.filter((value) => value !== increment)
+        : [...current, increment],
+    );
+  };
+
+  const reset = () => {
+    setLabel('');
+    setAccentColor(undefined);
+    setSize('expanded');
+    setHidden([]);
+    setDailyTarget('');
+  };
+
+  const save = () => {
+    let target: number | undefined;
+    if (counterConfig && dailyTarget.trim()) {
+      target = Number(dailyTarget.trim());
+      if (!Number.isInteger(target) || target <= 0) {
+        Alert.alert('Invalid target', 'Enter a whole number greater than zero, or leave it empty.');
+        return;
+      }
+    }
+    onSave({
+      label: label.trim() || undefined,
+      accentColor,
+      size,
+      ...(counterConfig ? { hiddenQuickIncrements: hidden, dailyTarget: target } : {}),
+    });
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={element !== null}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.modalContainer,
+          { width: sheetWidth, maxHeight: sheetMaxHeight },
+        ]}
+      >
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <Text variant="titleLarge" style={styles.headerTitle} numberOfLines={1}>
+              Customize widget
+            </Text>
+            <IconButton icon="close" onPress={onDismiss} accessibilityLabel="Close" />
+          </View>
+
+          <ScrollView
+            style={styles.scroll}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <Text variant="bodySmall" style={formSectionStyles.hint}>
+              Changes only how this pinned widget looks. The element and its history stay as
+              they are.
+            </Text>
+
+            <FormSection title="Label">
+              <TextInput
+                label="Label"
+                value={label}
+                onChangeText={setLabel}
+                placeholder={element?.name}
+                mode="outlined"
+                maxLength={60}
+              />
+            </FormSection>
+
+            <FormSection title="Accent color">
+              <ColorSwatches value={accentColor} onChange={setAccentColor} allowNone />
+            </FormSection>
+
+            <FormSection title="Size">
+              <View style={formSectionStyles.chipRow}>
+                {SIZES.map((option) => (
+                  <Chip
+                    key={option}
+                    selected={size === option}
+                    showSelectedOverlay
+                    onPress={() => setSize(option)}
+                  >
+                    {DASHBOARD_WIDGET_SIZE_LABELS[option]}
+                  </Chip>
+                ))}
+              </View>
+            </FormSection>
+
+            {counterConfig ? (
+              <>
+                <FormSection
+                  title="Quick buttons"
+                  description="Untick buttons to leave them off this widget. At least one stays."
+                >
+                  <View style={formSectionStyles.chipRow}>
+                    {counterConfig.quickIncrements.map((increment) => {
+                      const isShown = !hidden.includes(increment);
+                      return (
+                        <Chip
+                          key={increment}
+                          selected={isShown}
+                          showSelectedOverlay
+                          disabled={isShown && visibleCount <= 1}
+                          onPress={() => toggleIncrement(increment)}
+                        >
+                          +{increment}
+                        </Chip>
+                      );
+                    })}
+                  </View>
+                </FormSection>
+
+                <FormSection title="Daily target">
+                  <TextInput
+                    label="Daily target"
+                    value={dailyTarget}
+                    onChangeText={setDailyTarget}
+                    placeholder={
+                      counterConfig.dailyTarget !== undefined
+                        ? `${counterConfig.dailyTarget} (element default)`
+                        : 'None'
+                    }
+                    keyboardType="number-pad"
+                    mode="outlined"
+                  />
+                </FormSection>
+              </>
+            ) : null}
+          </ScrollView>
+
+          <Divider />
+
+          <View style={styles.footer}>
+            <Button onPress={reset} disabled={saving} style={styles.resetButton}>
+              Reset
+            </Button>
+            <Button onPress={onDismiss} disabled={saving}>
+              Cancel
+            </Button>
+            <Button mode="contained" loading={saving} onPress={save} disabled={saving}>
+              Save
+            </Button>
+          </View>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    alignSelf: 'center',
+    marginHorizontal: 12,
+  },
+  sheet: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 20,
+    paddingRight: 4,
+    paddingTop: 4,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+  resetButton: {
+    marginRight: 'auto',
+  },
+});
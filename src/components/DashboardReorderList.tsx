@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, IconButton, Surface, Text, useTheme } from 'react-native-paper';
+import { useDropTargets } from '../hooks/useDropTargets';
+import type { ElementDefinition } from '../protocol';
+import { moveElementTo } from '../utils/dashboardElements';
+import DragHandle, { type DragPoint } from './DragHandle';
+
+type Props = {
+  /** Pinned elements in their current display order. */
+  elements: ElementDefinition[];
+  onReorder: (orderedElementIds: string[]) => void;
+  onPinToTop: (element: ElementDefinition) => void;
+  onDone: () => void;
+  /** Lets the parent lock scrolling while a row is held. */
+  onDraggingChange?: (dragging: boolean) => void;
+};
+
+/** Reorder mode: one row per pinned element, dragged by its handle onto another row. */
+export default function DashboardReorderList({
+  elements,
+  onReorder,
+  onPinToTop,
+  onDone,
+  onDraggingChange,
+}: Props) {
+  const theme = useTheme();
+  const dropTargets = useDropTargets<string>();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | undefined>(undefined);
+
+  const endDrag = (point?: DragPoint) => {
+    const target = point ? dropTargets.hitTest(point) : undefined;
+    const moved = draggingId;
+    setDraggingId(null);
+    setTargetId(undefined);
+    onDraggingChange?.(false);
+    if (!moved || target === undefined || target === moved) return;
+    onReorder(moveElementTo(elements.map((element) => element.id), moved, target));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text variant="bodySmall" style={styles.hint}>
+          Drag a row by its handle onto another row to move it.
+        </Text>
+        <Button mode="contained-tonal" compact onPress={onDone}>
+          Done
+        </Button>
+      </View>
+
+      {elements.map((element, index) => (
+        <View key={element.id} ref={dropTargets.register(element.id)} collapsable={false}>
+          <Surface
+            elevation={draggingId === element.id ? 3 : 0}
+            style={[
+              styles.row,
+              { backgroundColor: theme.colors.surfaceVariant },
+              targetId === element.id &&
+                targetId !== draggingId && { backgroundColor: theme.colors.primaryContainer },
+              draggingId === element.id && styles.dragging,
+            ]}
+          >
+            <DragHandle
+              accessibilityLabel={`Move ${element.name}`}
+              onDragStart={() => {
+                dropTargets.measure();
+                setDraggingId(element.id);
+                onDraggingChange?.(true);
+              }}
+              onDragMove={(point) => setTargetId(dropTargets.hitTest(point))}
+              onDragEnd={endDrag}
+              onDragCancel={() => endDrag()}
+            />
+            <Text variant="bodyLarge" numberOfLines={1} style={styles.name}>
+              {element.name}
+            </Text>
+            <IconButton
+              icon="arrow-collapse-up"
+              size={20}
+              disabled={index === 0}
+              onPress={() => onPinToTop(element)}
+              accessibilityLabel={`Pin ${element.name} to top`}
+              style={styles.topButton}
+            />
+          </Surface>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  hint: {
+    flex: 1,
+    opacity: 0.65,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    paddingLeft: 8,
+    minHeight: 48,
+  },
+  dragging: {
+    opacity: 0.7,
+  },
+  name: {
+    flex: 1,
+  },
+  topButton: {
+    margin: 0,
+  },
+});
@@ -0,0 +1,66 @@
+import React, { useRef } from 'react';
+import { PanResponder, StyleSheet, View } from 'react-native';
+import { Icon, useTheme } from 'react-native-paper';
+
+export interface DragPoint {
+  /** Window coordinates of the finger. */
+  x: number;
+  y: number;
+}
+
+type Props = {
+  accessibilityLabel: string;
+  onDragStart: (point: DragPoint) => void;
+  onDragMove: (point: DragPoint) => void;
+  onDragEnd: (point: DragPoint) => void;
+  onDragCancel: () => void;
+};
+
+/**
+ * Grip icon that owns the touch from the first contact, so dragging it does not
+ * scroll the surrounding list. Callbacks get window coordinates.
+ */
+export default function DragHandle({
+  accessibilityLabel,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onDragCancel,
+}: Props) {
+  const theme = useTheme();
+  const callbacks = useRef({ onDragStart, onDragMove, onDragEnd, onDragCancel });
+  callbacks.current = { onDragStart, onDragMove, onDragEnd, onDragCancel };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) =>
+        callbacks.current.onDragStart({ x: event.nativeEvent.pageX, y: event.nativeEvent.pageY }),
+      onPanResponderMove: (event) =>
+        callbacks.current.onDragMove({ x: event.nativeEvent.pageX, y: event.nativeEvent.pageY }),
+      onPanResponderRelease: (event) =>
+        callbacks.current.onDragEnd({ x: event.nativeEvent.pageX, y: event.nativeEvent.pageY }),
+      onPanResponderTerminate: () => callbacks.current.onDragCancel(),
+    }),
+  ).current;
+
+  return (
+    <View
+      {...responder.panHandlers}
+      accessibilityRole="adjustable"
+      accessibilityLabel={accessibilityLabel}
+      hitSlop={8}
+      style={styles.handle}
+    >
+      <Icon source="drag" size={22} color={theme.colors.onSurfaceVariant} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    padding: 4,
+  },
+});
@@ -17,14 +17,24 @@ import {
   TextInput,
   useTheme,
 } from 'react-native-paper';
-import type { SoundAsset } from '../protocol';
+import type { CategoryDefinition, ElementCategory, SoundAsset } from '../protocol';
+import AbstinenceEditorFields from './elementEditor/AbstinenceEditorFields';
+import CategoryEditorFields from './elementEditor/CategoryEditorFields';
+import ChecklistEditorFields from './elementEditor/ChecklistEditorFields';
 import CounterEditorFields from './elementEditor/CounterEditorFields';
 import FormSection from './elementEditor/FormSection';
 import HabitEditorFields from './elementEditor/HabitEditorFields';
+import MeasurementEditorFields from './elementEditor/MeasurementEditorFields';
+import RatingEditorFields from './elementEditor/RatingEditorFields';
+import { newEditorSession } from './elementEditor/elementEditorSession';
 import type {
+  AbstinenceEditorFieldState,
+  ChecklistEditorFieldState,
   ElementEditorSaveData,
   ElementEditorSession,
   HabitEditorFieldState,
+  MeasurementEditorFieldState,
+  RatingEditorFieldState,
 } from './elementEditor/types';
 
 export type {
@@ -39,6 +49,7 @@ type Props = {
   saving: boolean;
   deleting?: boolean;
   soundOptions: SoundAsset[];
+  categoryOptions: CategoryDefinition[];
   onDismiss: () => void;
   onSave: (data: ElementEditorSaveData) => void;
   onDelete?: () => void;
@@ -49,6 +60,15 @@ function habitFieldStateFromSession(session: ElementEditorSession): HabitEditorF
     targetLabel: session.targetLabel,
     habitTrackingMode: session.habitTrackingMode,
     habitDailyGoalMinutes: session.habitDailyGoalMinutes,
+    habitTimerStyle: session.habitTimerStyle,
+    habitCountdownMinutes: session.habitCountdownMinutes,
+    habitUseIntervals: session.habitUseIntervals,
+    habitIntervalWork: session.habitIntervalWork,
+    habitIntervalRest: session.habitIntervalRest,
+    habitIntervalRounds: session.habitIntervalRounds,
+    habitIntervalLongBreak: session.habitIntervalLongBreak,
+    habitIntervalLongBreakEvery: session.habitIntervalLongBreakEvery,
+    habitCueSoundId: session.habitCueSoundId,
     habitSoundId: session.habitSoundId,
     timeSlot: session.timeSlot,
     useTimeRange: session.useTimeRange,
@@ -59,16 +79,64 @@ function habitFieldStateFromSession(session: ElementEditorSession): HabitEditorF
     scheduleWeekdays: session.scheduleWeekdays,
     scheduleInterval: session.scheduleInterval,
     scheduleAnchorDate: session.scheduleAnchorDate,
+    scheduleQuotaCount: session.scheduleQuotaCount,
+    scheduleQuotaPeriod: session.scheduleQuotaPeriod,
+    scheduleWeekStartsOn: session.scheduleWeekStartsOn,
+    scheduleRRule: session.scheduleRRule,
+    habitStartDate: session.habitStartDate,
+    habitEndDate: session.habitEndDate,
+    habitUseSeason: session.habitUseSeason,
+    habitSeasonStart: session.habitSeasonStart,
+    habitSeasonEnd: session.habitSeasonEnd,
+    habitUseStreakFreezes: session.habitUseStreakFreezes,
+    habitFreezesPerMonth: session.habitFreezesPerMonth,
+    habitFreezeEarnedAfter: session.habitFreezeEarnedAfter,
     useReminder: session.useReminder,
     remindMinutesBefore: session.remindMinutesBefore,
   };
 }
 
+function measurementFieldStateFromSession(
+  session: ElementEditorSession,
+): MeasurementEditorFieldState {
+  return {
+    measurementUnit: session.measurementUnit,
+    measurementDecimals: session.measurementDecimals,
+    measurementAggregation: session.measurementAggregation,
+    measurementTargetMin: session.measurementTargetMin,
+    measurementTargetMax: session.measurementTargetMax,
+    measurementSecondaryLabel: session.measurementSecondaryLabel,
+  };
+}
+
+function ratingFieldStateFromSession(session: ElementEditorSession): RatingEditorFieldState {
+  return {
+    ratingMin: session.ratingMin,
+    ratingMax: session.ratingMax,
+    ratingLabels: session.ratingLabels,
+  };
+}
+
+function checklistFieldStateFromSession(session: ElementEditorSession): ChecklistEditorFieldState {
+  return {
+    checklistItems: session.checklistItems,
+    checklistRequiredCount: session.checklistRequiredCount,
+    checklistTimeSlot: session.checklistTimeSlot,
+  };
+}
+
+function abstinenceFieldStateFromSession(session: ElementEditorSession): AbstinenceEditorFieldState {
+  return {
+    abstinenceStartDate: session.abstinenceStartDate,
+  };
+}
+
 export default function ElementEditorDialog({
   session,
   saving,
   deleting = false,
   soundOptions,
+  categoryOptions,
   onDismiss,
   onSave,
   onDelete,
@@ -84,50 +152,67 @@ export default function ElementEditorDialog({
   const sessionId = session?.sessionId;
 
   const [name, setName] = useState('');
+  const [category, setCategory] = useState<ElementCategory>('custom');
   const [increments, setIncrements] = useState('5, 10');
   const [dailyTarget, setDailyTarget] = useState('');
   const [habitFields, setHabitFields] = useState<HabitEditorFieldState>(() =>
-    habitFieldStateFromSession({
-      sessionId: '',
-      mode: 'habit',
-      editingId: null,
-      name: '',
-      increments: '',
-      dailyTarget: '',
-      targetLabel: '',
-      habitTrackingMode: 'boolean',
-      habitDailyGoalMinutes: '',
-      habitSoundId: '',
-      timeSlot: 'morning',
-      useTimeRange: false,
-      timeRangeStart: '',
-      timeRangeEnd: '',
-      visibleOnlyInTimeRange: false,
-      scheduleType: 'daily',
-      scheduleWeekdays: [1, 2, 3, 4, 5],
-      scheduleInterval: '2',
-      scheduleAnchorDate: '',
-      useReminder: false,
-      remindMinutesBefore: '15',
-    }),
+    habitFieldStateFromSession(newEditorSession({ mode: 'habit' })),
+  );
+  const [measurementFields, setMeasurementFields] = useState<MeasurementEditorFieldState>(() =>
+    measurementFieldStateFromSession(newEditorSession({ mode: 'measurement' })),
+  );
+  const [ratingFields, setRatingFields] = useState<RatingEditorFieldState>(() =>
+    ratingFieldStateFromSession(newEditorSession({ mode: 'rating' })),
+  );
+  const [checklistFields, setChecklistFields] = useState<ChecklistEditorFieldState>(() =>
+    checklistFieldStateFromSession(newEditorSession({ mode: 'checklist' })),
+  );
+  const [abstinenceFields, setAbstinenceFields] = useState<AbstinenceEditorFieldState>(() =>
+    abstinenceFieldStateFromSession(newEditorSession({ mode: 'abstinence' })),
   );
 
   useEffect(() => {
     if (!session) return;
     setName(session.name);
+    setCategory(session.category);
     setIncrements(session.increments);
     setDailyTarget(session.dailyTarget);
     setHabitFields(habitFieldStateFromSession(session));
+    setMeasurementFields(measurementFieldStateFromSession(session));
+    setRatingFields(ratingFieldStateFromSession(session));
+    setChecklistFields(checklistFieldStateFromSession(session));
+    setAbstinenceFields(abstinenceFieldStateFromSession(session));
   }, [session, sessionId]);
 
   const handleSave = () => {
     if (mode === 'counter') {
-      onSave({ mode: 'counter', name, increments, dailyTarget });
+      onSave({ mode: 'counter', name, category, increments, dailyTarget });
+      return;
+    }
+    if (mode === 'measurement') {
+      onSave({ mode: 'measurement', name, category, ...measurementFields });
+      return;
+    }
+    if (mode === 'rating') {
+      onSave({ mode: 'rating', name, category, ...ratingFields });
+      return;
+    }
+    if (mode === 'checklist') {
+      onSave({ mode: 'checklist', name, category, ...checklistFields });
+      return;
+    }
+    if (mode === 'abstinence') {
+      onSave({ mode: 'abstinence', name, category, ...abstinenceFields });
+      return;
+    }
+    if (mode === 'group') {
+      onSave({ mode: 'group', name, category });
       return;
     }
     onSave({
       mode: 'habit',
       name,
+      category,
       ...habitFields,
     });
   };
@@ -136,6 +221,21 @@ export default function ElementEditorDialog({
     if (mode === 'counter') {
       return editingId ? 'Edit counter' : 'New counter';
     }
+    if (mode === 'measurement') {
+      return editingId ? 'Edit measurement' : 'New measurement';
+    }
+    if (mode === 'rating') {
+      return editingId ? 'Edit rating' : 'New rating';
+    }
+    if (mode === 'checklist') {
+      return editingId ? 'Edit checklist' : 'New checklist';
+    }
+    if (mode === 'abstinence') {
+      return editingId ? 'Edit abstinence tracker' : 'New abstinence tracker';
+    }
+    if (mode === 'group') {
+      return editingId ? 'Edit group' : 'New group';
+    }
     return editingId ? 'Edit habit' : 'New habit';
   }, [editingId, mode]);
 
@@ -177,6 +277,14 @@ export default function ElementEditorDialog({
                 />
               </FormSection>
 
+              {mode !== 'group' ? (
+                <CategoryEditorFields
+                  value={category}
+                  options={categoryOptions}
+                  onChange={setCategory}
+                />
+              ) : null}
+
               {mode === 'counter' ? (
                 <CounterEditorFields
                   increments={increments}
@@ -184,6 +292,37 @@ export default function ElementEditorDialog({
                   onIncrementsChange={setIncrements}
                   onDailyTargetChange={setDailyTarget}
                 />
+              ) : mode === 'measurement' ? (
+                <MeasurementEditorFields
+                  state={measurementFields}
+                  onChange={(patch) =>
+                    setMeasurementFields((current) => ({ ...current, ...patch }))
+                  }
+                />
+              ) : mode === 'rating' ? (
+                <RatingEditorFields
+                  state={ratingFields}
+                  onChange={(patch) => setRatingFields((current) => ({ ...current, ...patch }))}
+                />
+              ) : mode === 'checklist' ? (
+                <ChecklistEditorFields
+                  state={checklistFields}
+                  onChange={(patch) =>
+                    setChecklistFields((current) => ({ ...current, ...patch }))
+                  }
+                />
+              ) : mode === 'abstinence' ? (
+                <AbstinenceEditorFields
+                  state={abstinenceFields}
+                  onChange={(patch) =>
+                    setAbstinenceFields((current) => ({ ...current, ...patch }))
+                  }
+                />
+              ) : mode === 'group' ? (
+                <Text variant="bodySmall" style={styles.hint}>
+                  Drag elements onto this group from the Elements list. Members stay pinned on
+                  their own tab and show up together in a collapsible card.
+                </Text>
               ) : (
                 <HabitEditorFields
                   state={habitFields}
@@ -260,6 +399,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 16,
   },
+  hint: {
+    opacity: 0.7,
+  },
   footer: {
     flexDirection: 'row',
     alignItems: 'center',
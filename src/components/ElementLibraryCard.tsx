@@ -1,7 +1,8 @@
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
-import { Button, Card, Chip, Text, useTheme } from 'react-native-paper';
+import { Button, Card, Chip, Icon, Text, useTheme } from 'react-native-paper';
 import { useAppTheme } from '../hooks/useAppTheme';
+import type { CategoryDefinition } from '../protocol';
 
 type Props = {
   name: string;
@@ -10,10 +11,21 @@ type Props = {
   isPinned: boolean;
   deleteLabel: string;
   dashboardItemId?: string;
-  onEdit: () => void;
+  category?: CategoryDefinition;
+  /** Name of the group this element belongs to. */
+  groupName?: string;
+  /** Shown beside the name, e.g. a `DragHandle` for moving into a group. */
+  dragHandle?: React.ReactNode;
+  /** Omitted for archived elements; restore them to edit. */
+  onEdit?: () => void;
   onDelete: () => void;
-  onPin: () => void;
-  onUnpin: () => void;
+  /** Omit both for elements that cannot be pinned (groups). */
+  onPin?: () => void;
+  onUnpin?: () => void;
+  onArchive?: () => void;
+  /** Archived elements show Restore instead of Edit, Archive and Pin. */
+  onRestore?: () => void;
+  onOpenHistory?: () => void;
 };
 
 export default function ElementLibraryCard({
@@ -23,10 +35,16 @@ export default function ElementLibraryCard({
   isPinned,
   deleteLabel,
   dashboardItemId,
+  category,
+  groupName,
+  dragHandle,
   onEdit,
   onDelete,
   onPin,
   onUnpin,
+  onArchive,
+  onRestore,
+  onOpenHistory,
 }: Props) {
   const theme = useTheme();
   const { decorations: deco, isCartoon } = useAppTheme();
@@ -43,9 +61,23 @@ export default function ElementLibraryCard({
       ]}
     >
       <Card.Content>
-        <Text variant="titleMedium">{name}</Text>
+        <View style={styles.titleRow}>
+          <Text variant="titleMedium" style={styles.title}>
+            {name}
+          </Text>
+          {dragHandle}
+        </View>
         <View style={styles.chips}>
           {chips}
+          {category ? (
+            <Chip
+              compact
+              icon={({ size }) => <Icon source={category.icon} size={size} color={category.color} />}
+            >
+              {category.label}
+            </Chip>
+          ) : null}
+          {groupName ? <Chip compact icon="folder-outline">{groupName}</Chip> : null}
           {isPinned ? <Chip compact icon="pin">Pinned</Chip> : null}
         </View>
         {metaLines.map((line, index) => (
@@ -55,13 +87,30 @@ export default function ElementLibraryCard({
         ))}
       </Card.Content>
       <Card.Actions style={styles.cardActions}>
-        <Button compact onPress={onEdit}>
-          Edit
-        </Button>
+        {onRestore ? (
+          <Button compact icon="archive-arrow-up-outline" onPress={onRestore}>
+            Restore
+          </Button>
+        ) : null}
+        {onOpenHistory ? (
+          <Button compact onPress={onOpenHistory}>
+            History
+          </Button>
+        ) : null}
+        {onEdit ? (
+          <Button compact onPress={onEdit}>
+            Edit
+          </Button>
+        ) : null}
+        {onArchive ? (
+          <Button compact onPress={onArchive}>
+            Archive
+          </Button>
+        ) : null}
         <Button compact textColor={theme.colors.error} onPress={onDelete}>
           {deleteLabel}
         </Button>
-        {isPinned && dashboardItemId ? (
+        {!onPin || !onUnpin || onRestore ? null : isPinned && dashboardItemId ? (
           <Button compact onPress={onUnpin}>
             Unpin
           </Button>
@@ -77,6 +126,8 @@ export default function ElementLibraryCard({
 
 const styles = StyleSheet.create({
   card: { marginBottom: 12 },
+  titleRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { flex: 1 },
   chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 },
   meta: { marginTop: 8, opacity: 0.6 },
   cardActions: {
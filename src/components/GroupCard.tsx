@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { IconButton, ProgressBar, Text, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { formatGroupProgress, isGroupComplete, type GroupProgress } from '../protocol';
+import { getCounterProgressBarColors } from '../utils/color';
+
+type Props = {
+  name: string;
+  progress: GroupProgress;
+  children: React.ReactNode;
+};
+
+/** Collapsible container for a group's widgets; starts collapsed once every member is done. */
+export default function GroupCard({ name, progress, children }: Props) {
+  const theme = useTheme();
+  const { themeMode, decorations: deco, isCartoon } = useAppTheme();
+  const complete = isGroupComplete(progress);
+  const [expanded, setExpanded] = useState(!complete);
+  const progressBarColors = getCounterProgressBarColors(themeMode);
+  const toggle = () => setExpanded((value) => !value);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          borderRadius: deco.radius.md,
+          borderWidth: isCartoon ? deco.cardBorderWidth : deco.borderWidth,
+          borderColor: isCartoon ? theme.colors.outline : theme.colors.outlineVariant,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <Pressable
+          onPress={toggle}
+          accessibilityRole="button"
+          accessibilityState={{ expanded }}
+          style={({ pressed }) => [styles.title, pressed && styles.pressed]}
+        >
+          <Text
+            variant="titleSmall"
+            numberOfLines={1}
+            style={[styles.name, isCartoon && { color: theme.colors.onSurface }]}
+          >
+            {name}
+          </Text>
+          <Text variant="bodySmall" style={styles.progressText}>
+            {formatGroupProgress(progress)}
+          </Text>
+        </Pressable>
+        <IconButton
+          icon={expanded ? 'chevron-up' : 'chevron-down'}
+          onPress={toggle}
+          accessibilityLabel={expanded ? `Collapse ${name}` : `Expand ${name}`}
+          style={styles.expandButton}
+        />
+      </View>
+      <ProgressBar
+        progress={progress.total > 0 ? progress.done / progress.total : 0}
+        color={complete ? progressBarColors.complete : progressBarColors.active}
+        style={[
+          styles.progressBar,
+          { height: deco.progressHeight, borderRadius: deco.progressHeight / 2 },
+        ]}
+      />
+      {expanded ? <View style={styles.members}>{children}</View> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+    padding: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    minWidth: 0,
+    paddingLeft: 6,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  name: {
+    fontWeight: '700',
+  },
+  progressText: {
+    marginTop: 2,
+    opacity: 0.6,
+  },
+  expandButton: {
+    margin: 0,
+  },
+  progressBar: {
+    marginHorizontal: 6,
+    marginBottom: 6,
+  },
+  members: {
+    marginTop: 2,
+  },
+});
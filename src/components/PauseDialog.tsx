@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet } from 'react-native';
+import { Button, Dialog, Portal, Text, TextInput } from 'react-native-paper';
+import { shiftDateString } from '../protocol';
+import { todayDate } from '../utils/dates';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type PauseDialogMode = 'now' | 'schedule';
+
+type Props = {
+  /** `now` pauses from today until ended; `schedule` asks for a date range. Null hides the dialog. */
+  mode: PauseDialogMode | null;
+  onDismiss: () => void;
+  onStart: (reason: string) => Promise<void>;
+  onSchedule: (startDate: string, endDate: string, reason: string) => Promise<void>;
+};
+
+/** Vacation / sick mode: collects the dates and an optional reason for a pause. */
+export default function PauseDialog({ mode, onDismiss, onStart, onSchedule }: Props) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!mode) return;
+    const tomorrow = shiftDateString(todayDate(), 1);
+    setStartDate(tomorrow);
+    setEndDate(shiftDateString(tomorrow, 6));
+    setReason('');
+  }, [mode]);
+
+  const save = async () => {
+    if (mode === 'schedule' && (!DATE_RE.test(startDate) || !DATE_RE.test(endDate))) {
+      Alert.alert('Could not pause', 'Dates must be YYYY-MM-DD');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (mode === 'schedule') {
+        await onSchedule(startDate, endDate, reason);
+      } else {
+        await onStart(reason);
+      }
+      onDismiss();
+    } catch (error) {
+      Alert.alert('Could not pause', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={mode !== null} onDismiss={onDismiss}>
+        <Dialog.Title>{mode === 'schedule' ? 'Schedule a pause' : 'Pause habits'}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.hint}>
+            {mode === 'schedule'
+              ? 'From the first through the last day, no habit is due, reminders stay quiet and streaks are kept.'
+              : 'From today until you end the pause, no habit is due, reminders stay quiet and streaks are kept.'}
+          </Text>
+          {mode === 'schedule' ? (
+            <>
+              <TextInput
+                label="First day"
+                placeholder="YYYY-MM-DD"
+                value={startDate}
+                onChangeText={setStartDate}
+                autoCapitalize="none"
+                autoCorrect={false}
+                mode="outlined"
+                style={styles.field}
+              />
+              <TextInput
+                label="Last day"
+                placeholder="YYYY-MM-DD"
+                value={endDate}
+                onChangeText={setEndDate}
+                autoCapitalize="none"
+                autoCorrect={false}
+                mode="outlined"
+                style={styles.field}
+              />
+            </>
+          ) : null}
+          <TextInput
+            label="Reason (optional)"
+            placeholder="Vacation, sick, moving…"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={200}
+            mode="outlined"
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button onPress={() => void save()} loading={saving} disabled={saving}>
+            {mode === 'schedule' ? 'Schedule' : 'Pause'}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    marginBottom: 12,
+    opacity: 0.8,
+  },
+  field: {
+    marginBottom: 8,
+  },
+});
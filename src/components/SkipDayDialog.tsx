@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet } from 'react-native';
+import { Button, Dialog, Portal, Text, TextInput } from 'react-native-paper';
+import type { ElementDefinition } from '../protocol';
+
+type Props = {
+  /** Habit being skipped. Null hides the dialog. */
+  element: ElementDefinition | null;
+  onDismiss: () => void;
+  onSkip: (element: ElementDefinition, reason: string) => Promise<void>;
+};
+
+/** Asks for an optional reason before excusing today from the habit's streak. */
+export default function SkipDayDialog({ element, onDismiss, onSkip }: Props) {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (element) setReason('');
+  }, [element]);
+
+  const skip = async () => {
+    if (!element) return;
+    setSaving(true);
+    try {
+      await onSkip(element, reason);
+      onDismiss();
+    } catch (error) {
+      Alert.alert('Could not skip', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={element !== null} onDismiss={onDismiss}>
+        <Dialog.Title numberOfLines={1}>Skip {element?.name} today</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.hint}>
+            A skipped day is not counted as missed, so the streak carries on.
+          </Text>
+          <TextInput
+            label="Reason (optional)"
+            placeholder="Sick, travelling, rest day…"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={200}
+            mode="outlined"
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button onPress={() => void skip()} loading={saving} disabled={saving}>
+            Skip today
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    marginBottom: 12,
+    opacity: 0.8,
+  },
+});
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, type LayoutChangeEvent } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { linearTrend } from '../protocol';
+
+export interface TrendLineChartDatum {
+  label: string;
+  /** Null for days without a reading. */
+  value: number | null;
+}
+
+interface TrendLineChartProps {
+  data: TrendLineChartDatum[];
+  unit: string;
+  /** Replaces the default `Daily reading (unit)` footer. */
+  caption?: string;
+  targetMin?: number;
+  targetMax?: number;
+}
+
+const CHART_HEIGHT = 160;
+const DOT_SIZE = 8;
+
+/** Dots for each reading plus a least-squares trend line and optional target band. */
+export function TrendLineChart({
+  data,
+  unit,
+  caption,
+  targetMin,
+  targetMax,
+}: TrendLineChartProps) {
+  const theme = useTheme();
+  const { decorations: deco, isCartoon } = useAppTheme();
+  const [width, setWidth] = useState(0);
+  const dotColor = isCartoon ? theme.colors.secondary : theme.colors.primary;
+
+  const points = data.flatMap((datum, index) =>
+    datum.value === null ? [] : [{ x: index, y: datum.value }],
+  );
+  const bounds = [
+    ...points.map((p) => p.y),
+    ...(targetMin !== undefined ? [targetMin] : []),
+    ...(targetMax !== undefined ? [targetMax] : []),
+  ];
+  const rawMin = bounds.length > 0 ? Math.min(...bounds) : 0;
+  const rawMax = bounds.length > 0 ? Math.max(...bounds) : 1;
+  const padding = rawMax === rawMin ? 1 : (rawMax - rawMin) * 0.1;
+  const min = rawMin - padding;
+  const max = rawMax + padding;
+
+  const step = data.length > 0 ? width / data.length : 0;
+  const toX = (index: number) => step * index + step / 2;
+  const toY = (value: number) => CHART_HEIGHT - ((value - min) / (max - min)) * CHART_HEIGHT;
+
+  const trend = linearTrend(points);
+  let trendLine: { left: number; top: number; length: number; angle: number } | null = null;
+  if (trend && width > 0) {
+    const first = points[0].x;
+    const last = points[points.length - 1].x;
+    const x1 = toX(first);
+    const y1 = toY(trend.intercept + trend.slope * first);
+    const x2 = toX(last);
+    const y2 = toY(trend.intercept + trend.slope * last);
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    trendLine = {
+      left: (x1 + x2) / 2 - length / 2,
+      top: (y1 + y2) / 2,
+      length,
+      angle: (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI,
+    };
+  }
+
+  const bandTop = targetMax !== undefined ? toY(targetMax) : 0;
+  const bandBottom = targetMin !== undefined ? toY(targetMin) : CHART_HEIGHT;
+  const hasBand = targetMin !== undefined || targetMax !== undefined;
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.plot} onLayout={onLayout}>
+        {hasBand ? (
+          <View
+            style={[
+              styles.band,
+              {
+                top: bandTop,
+                height: Math.max(bandBottom - bandTop, 2),
+                backgroundColor: theme.colors.secondaryContainer,
+              },
+            ]}
+          />
+        ) : null}
+        {trendLine ? (
+          <View
+            style={[
+              styles.trend,
+              {
+                left: trendLine.left,
+                top: trendLine.top,
+                width: trendLine.length,
+                backgroundColor: theme.colors.tertiary,
+                transform: [{ rotate: `${trendLine.angle}deg` }],
+              },
+            ]}
+          />
+        ) : null}
+        {width > 0
+          ? points.map((point) => (
+              <View
+                key={point.x}
+                style={[
+                  styles.dot,
+                  {
+                    left: toX(point.x) - DOT_SIZE / 2,
+                    top: toY(point.y) - DOT_SIZE / 2,
+                    backgroundColor: dotColor,
+                    borderWidth: isCartoon ? deco.borderWidth : 0,
+                    borderColor: theme.colors.outline,
+                  },
+                ]}
+              />
+            ))
+          : null}
+      </View>
+      <View style={styles.labels}>
+        {data.map((datum) => (
+          <Text key={datum.label} variant="labelSmall" style={styles.dayLabel} numberOfLines={1}>
+            {datum.label}
+          </Text>
+        ))}
+      </View>
+      <Text variant="bodySmall" style={styles.unit}>
+        {caption ?? `Daily reading (${unit})`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    marginVertical: 8,
+  },
+  plot: {
+    height: CHART_HEIGHT,
+    marginTop: 16,
+    marginHorizontal: 4,
+  },
+  band: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    opacity: 0.6,
+  },
+  trend: {
+    position: 'absolute',
+    height: 2,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  labels: {
+    flexDirection: 'row',
+    marginTop: 4,
+    paddingHorizontal: 4,
+  },
+  dayLabel: {
+    flex: 1,
+    fontSize: 9,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  unit: {
+    textAlign: 'center',
+    marginTop: 8,
+    opacity: 0.6,
+  },
+});
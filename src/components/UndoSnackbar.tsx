@@ -0,0 +1,53 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { Snackbar } from 'react-native-paper';
+import { useEventStore } from '../store/eventStore';
+
+/**
+ * App-wide "Undo" / "Redo" snackbar for the latest event change or element delete.
+ * After an undo, an undo icon steps further back while older changes remain.
+ */
+export default function UndoSnackbar() {
+  const notice = useEventStore((s) => s.undoNotice);
+  const undo = useEventStore((s) => s.undo);
+  const redo = useEventStore((s) => s.redo);
+  const canUndo = useEventStore((s) => s.undoStacks.undo.length > 0);
+  const dismiss = useEventStore((s) => s.dismissUndoNotice);
+
+  const run = async (action: 'undo' | 'redo') => {
+    try {
+      await (action === 'undo' ? undo() : redo());
+    } catch (error) {
+      Alert.alert(
+        action === 'undo' ? 'Could not undo' : 'Could not redo',
+        error instanceof Error ? error.message : 'Try again',
+      );
+    }
+  };
+
+  return (
+    <Snackbar
+      key={notice?.id}
+      visible={notice !== null}
+      onDismiss={dismiss}
+      duration={5000}
+      action={
+        notice
+          ? {
+              label: notice.action === 'undo' ? 'Undo' : 'Redo',
+              onPress: () => void run(notice.action),
+            }
+          : undefined
+      }
+      {...(notice?.action === 'redo' && canUndo
+        ? {
+            icon: 'undo',
+            onIconPress: () => void run('undo'),
+            iconAccessibilityLabel: 'Undo',
+          }
+        : {})}
+    >
+      {notice?.text ?? ''}
+    </Snackbar>
+  );
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { TextInput } from 'react-native-paper';
+import FormSection from './FormSection';
+import type { AbstinenceEditorFieldState } from './types';
+
+type Props = {
+  state: AbstinenceEditorFieldState;
+  onChange: (patch: Partial<AbstinenceEditorFieldState>) => void;
+};
+
+export default function AbstinenceEditorFields({ state, onChange }: Props) {
+  return (
+    <FormSection
+      title="Quit date"
+      description="The clean timer starts here and resets each time you log a relapse. Leave blank to count from the day you added it."
+    >
+      <TextInput
+        label="Start date"
+        placeholder="YYYY-MM-DD"
+        value={state.abstinenceStartDate}
+        onChangeText={(abstinenceStartDate) => onChange({ abstinenceStartDate })}
+        autoCapitalize="none"
+        autoCorrect={false}
+        mode="outlined"
+      />
+    </FormSection>
+  );
+}
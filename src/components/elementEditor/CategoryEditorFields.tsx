@@ -0,0 +1,43 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Chip } from 'react-native-paper';
+import {
+  FALLBACK_CATEGORY_ID,
+  type CategoryDefinition,
+  type ElementCategory,
+} from '../../protocol';
+import FormSection, { formSectionStyles } from './FormSection';
+
+type Props = {
+  value: ElementCategory;
+  /** Built-in and custom categories, in display order. */
+  options: CategoryDefinition[];
+  onChange: (category: ElementCategory) => void;
+};
+
+export default function CategoryEditorFields({ value, options, onChange }: Props) {
+  // Elements whose custom category was deleted read as "Other".
+  const selected = options.some((c) => c.id === value) ? value : FALLBACK_CATEGORY_ID;
+
+  return (
+    <FormSection
+      title="Category"
+      description="Used to filter tabs and to report completion by category. Add your own under Settings."
+    >
+      <View style={formSectionStyles.chipRow}>
+        {options.map((category) => (
+          <Chip
+            key={category.id}
+            icon={category.icon}
+            selected={selected === category.id}
+            showSelectedOverlay
+            selectedColor={category.color}
+            onPress={() => onChange(category.id)}
+          >
+            {category.label}
+          </Chip>
+        ))}
+      </View>
+    </FormSection>
+  );
+}
@@ -0,0 +1,122 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, IconButton, SegmentedButtons, TextInput } from 'react-native-paper';
+import type { HabitTimeSlot } from '../../protocol';
+import { newId } from '../../utils/id';
+import FormSection, { formSectionStyles as styles } from './FormSection';
+import type { ChecklistEditorFieldState } from './types';
+
+type Props = {
+  state: ChecklistEditorFieldState;
+  onChange: (patch: Partial<ChecklistEditorFieldState>) => void;
+};
+
+export default function ChecklistEditorFields({ state, onChange }: Props) {
+  const items = state.checklistItems;
+
+  const updateLabel = (id: string, label: string) =>
+    onChange({ checklistItems: items.map((item) => (item.id === id ? { ...item, label } : item)) });
+
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    onChange({ checklistItems: next });
+  };
+
+  return (
+    <>
+      <FormSection title="Steps" description="Tick each step from the Daily tab, in this order.">
+        {items.map((item, index) => (
+          <View key={item.id} style={localStyles.itemRow}>
+            <TextInput
+              label={`Step ${index + 1}`}
+              value={item.label}
+              onChangeText={(label) => updateLabel(item.id, label)}
+              mode="outlined"
+              dense
+              style={localStyles.itemInput}
+            />
+            <IconButton
+              icon="arrow-up"
+              size={18}
+              disabled={index === 0}
+              onPress={() => move(index, -1)}
+              accessibilityLabel={`Move step ${index + 1} up`}
+            />
+            <IconButton
+              icon="close"
+              size={18}
+              disabled={items.length === 1}
+              onPress={() => onChange({ checklistItems: items.filter((i) => i.id !== item.id) })}
+              accessibilityLabel={`Remove step ${index + 1}`}
+            />
+          </View>
+        ))}
+        <Button
+          icon="plus"
+          mode="text"
+          onPress={() => onChange({ checklistItems: [...items, { id: newId(), label: '' }] })}
+          style={localStyles.addButton}
+        >
+          Add step
+        </Button>
+      </FormSection>
+
+      <FormSection
+        title="Done when"
+        description="Optional. Leave blank to require every step, or enter how many are enough."
+      >
+        <TextInput
+          label="Steps needed"
+          placeholder={`${items.length}`}
+          value={state.checklistRequiredCount}
+          onChangeText={(checklistRequiredCount) => onChange({ checklistRequiredCount })}
+          keyboardType="number-pad"
+          mode="outlined"
+        />
+      </FormSection>
+
+      <FormSection
+        title="Daily tab grouping"
+        description="Which section this checklist appears under on the Daily tab."
+      >
+        <SegmentedButtons
+          value={state.checklistTimeSlot}
+          onValueChange={(value) => {
+            if (value) onChange({ checklistTimeSlot: value as HabitTimeSlot });
+          }}
+          buttons={[
+            { value: 'morning', label: 'Morning' },
+            { value: 'afternoon', label: 'Afternoon' },
+          ]}
+          style={styles.field}
+        />
+        <SegmentedButtons
+          value={state.checklistTimeSlot}
+          onValueChange={(value) => {
+            if (value) onChange({ checklistTimeSlot: value as HabitTimeSlot });
+          }}
+          buttons={[
+            { value: 'evening', label: 'Evening' },
+            { value: 'anytime', label: 'Anytime' },
+          ]}
+        />
+      </FormSection>
+    </>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemInput: {
+    flex: 1,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+  },
+});
@@ -8,8 +8,15 @@ import {
   Text,
   TextInput,
 } from 'react-native-paper';
-import type { HabitTimeSlot, HabitTrackingMode, SoundAsset } from '../../protocol';
+import type {
+  HabitTimerStyle,
+  HabitTimeSlot,
+  HabitTrackingMode,
+  QuotaPeriod,
+  SoundAsset,
+} from '../../protocol';
 import FormSection, { formSectionStyles as styles } from './FormSection';
+import RRuleFields from './RRuleFields';
 import type { HabitEditorFieldState, HabitScheduleType } from './types';
 
 const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
@@ -22,6 +29,47 @@ const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
   { value: 6, label: 'Sat' },
 ];
 
+/** Schedules `isScheduleSupportedForReminders` turns down. */
+const NO_REMINDER_SCHEDULES = new Set<HabitScheduleType>(['every_n_days', 'quota', 'rrule']);
+
+function SoundChips({
+  sounds,
+  selectedId,
+  noneLabel,
+  onSelect,
+}: {
+  sounds: SoundAsset[];
+  selectedId: string;
+  noneLabel: string;
+  onSelect: (id: string) => void;
+}) {
+  if (sounds.length === 0) {
+    return (
+      <Text variant="bodySmall" style={styles.hint}>
+        Add tracks in Settings → Sound tracks.
+      </Text>
+    );
+  }
+  return (
+    <View style={styles.chipRow}>
+      <Chip selected={selectedId === ''} onPress={() => onSelect('')} compact>
+        {noneLabel}
+      </Chip>
+      {sounds.map((sound) => (
+        <Chip
+          key={sound.id}
+          selected={selectedId === sound.id}
+          onPress={() => onSelect(sound.id)}
+          icon="music-note"
+          compact
+        >
+          {sound.label}
+        </Chip>
+      ))}
+    </View>
+  );
+}
+
 type Props = {
   state: HabitEditorFieldState;
   soundOptions: SoundAsset[];
@@ -39,10 +87,12 @@ export default function HabitEditorFields({ state, soundOptions, onChange }: Pro
   const setScheduleType = (next: HabitScheduleType) => {
     onChange({
       scheduleType: next,
-      ...(next === 'every_n_days' ? { useReminder: false } : {}),
+      ...(NO_REMINDER_SCHEDULES.has(next) ? { useReminder: false } : {}),
     });
   };
 
+  const streakUnit = state.scheduleType === 'quota' ? `${state.scheduleQuotaPeriod}s` : 'days';
+
   return (
     <>
       <FormSection title="Type">
@@ -67,35 +117,113 @@ export default function HabitEditorFields({ state, soundOptions, onChange }: Pro
               mode="outlined"
               style={styles.field}
             />
-            <Text variant="labelMedium" style={styles.inlineLabel}>
-              Sound while running
-            </Text>
-            {soundOptions.length === 0 ? (
-              <Text variant="bodySmall" style={styles.hint}>
-                Add tracks in Settings → Sound tracks.
+            <View style={styles.switchRow}>
+              <Text variant="bodyMedium" style={styles.switchLabel}>
+                Interval program (work / rest rounds)
               </Text>
+              <Switch
+                value={state.habitUseIntervals}
+                onValueChange={(habitUseIntervals) => onChange({ habitUseIntervals })}
+              />
+            </View>
+            {state.habitUseIntervals ? (
+              <View style={styles.sectionBody}>
+                <View style={styles.timeRow}>
+                  <TextInput
+                    label="Work"
+                    placeholder="25 or 0:20"
+                    value={state.habitIntervalWork}
+                    onChangeText={(habitIntervalWork) => onChange({ habitIntervalWork })}
+                    mode="outlined"
+                    style={[styles.field, styles.timeField]}
+                  />
+                  <TextInput
+                    label="Rest"
+                    placeholder="5 or 0:10"
+                    value={state.habitIntervalRest}
+                    onChangeText={(habitIntervalRest) => onChange({ habitIntervalRest })}
+                    mode="outlined"
+                    style={[styles.field, styles.timeField]}
+                  />
+                  <TextInput
+                    label="Rounds"
+                    placeholder="4"
+                    value={state.habitIntervalRounds}
+                    onChangeText={(habitIntervalRounds) => onChange({ habitIntervalRounds })}
+                    keyboardType="number-pad"
+                    mode="outlined"
+                    style={[styles.field, styles.timeField]}
+                  />
+                </View>
+                <View style={styles.timeRow}>
+                  <TextInput
+                    label="Long break (optional)"
+                    placeholder="15"
+                    value={state.habitIntervalLongBreak}
+                    onChangeText={(habitIntervalLongBreak) => onChange({ habitIntervalLongBreak })}
+                    mode="outlined"
+                    style={[styles.field, styles.timeField]}
+                  />
+                  <TextInput
+                    label="Every N rounds"
+                    placeholder="4"
+                    value={state.habitIntervalLongBreakEvery}
+                    onChangeText={(habitIntervalLongBreakEvery) =>
+                      onChange({ habitIntervalLongBreakEvery })
+                    }
+                    keyboardType="number-pad"
+                    mode="outlined"
+                    style={[styles.field, styles.timeField]}
+                  />
+                </View>
+                <Text variant="bodySmall" style={[styles.hint, styles.field]}>
+                  Lengths are minutes (25) or minutes:seconds (0:20). Only work time is logged.
+                </Text>
+                <Text variant="labelMedium" style={styles.inlineLabel}>
+                  Cue at phase changes
+                </Text>
+                <SoundChips
+                  sounds={soundOptions}
+                  selectedId={state.habitCueSoundId}
+                  noneLabel="Vibrate"
+                  onSelect={(habitCueSoundId) => onChange({ habitCueSoundId })}
+                />
+              </View>
             ) : (
-              <View style={styles.chipRow}>
-                <Chip
-                  selected={state.habitSoundId === ''}
-                  onPress={() => onChange({ habitSoundId: '' })}
-                  compact
-                >
-                  None
-                </Chip>
-                {soundOptions.map((sound) => (
-                  <Chip
-                    key={sound.id}
-                    selected={state.habitSoundId === sound.id}
-                    onPress={() => onChange({ habitSoundId: sound.id })}
-                    icon="music-note"
-                    compact
-                  >
-                    {sound.label}
-                  </Chip>
-                ))}
+              <View style={styles.sectionBody}>
+                <SegmentedButtons
+                  value={state.habitTimerStyle}
+                  onValueChange={(value) => {
+                    if (value) onChange({ habitTimerStyle: value as HabitTimerStyle });
+                  }}
+                  buttons={[
+                    { value: 'stopwatch', label: 'Count up' },
+                    { value: 'countdown', label: 'Countdown' },
+                  ]}
+                  style={styles.field}
+                />
+                {state.habitTimerStyle === 'countdown' ? (
+                  <TextInput
+                    label="Session length (minutes, optional)"
+                    placeholder="Defaults to what's left of the daily goal"
+                    value={state.habitCountdownMinutes}
+                    onChangeText={(habitCountdownMinutes) => onChange({ habitCountdownMinutes })}
+                    keyboardType="number-pad"
+                    mode="outlined"
+                    style={styles.field}
+                  />
+                ) : null}
               </View>
             )}
+            <Text variant="labelMedium" style={styles.inlineLabel}>
+              Sound while running
+            </Text>
+            <SoundChips
+              sounds={soundOptions}
+              selectedId={state.habitSoundId}
+              noneLabel="None"
+              onSelect={(habitSoundId) => onChange({ habitSoundId })}
+            />
           </View>
         ) : (
           <TextInput
@@ -157,7 +285,11 @@ export default function HabitEditorFields({ state, soundOptions, onChange }: Pro
           onValueChange={(value) => {
             if (value) setScheduleType(value as HabitScheduleType);
           }}
-          buttons={[{ value: 'every_n_days', label: 'Every N days' }]}
+          buttons={[
+            { value: 'every_n_days', label: 'Every N days' },
+            { value: 'quota', label: 'N times' },
+            { value: 'rrule', label: 'Custom' },
+          ]}
         />
         {state.scheduleType === 'weekdays' ? (
           <View style={[styles.weekdayRow, styles.sectionBody]}>
@@ -196,6 +328,167 @@ export default function HabitEditorFields({ state, soundOptions, onChange }: Pro
             />
           </View>
         ) : null}
+        {state.scheduleType === 'rrule' ? (
+          <RRuleFields
+            value={state.scheduleRRule}
+            anchorDate={state.scheduleAnchorDate}
+            onChange={(scheduleRRule) => onChange({ scheduleRRule })}
+            onAnchorDateChange={(scheduleAnchorDate) => onChange({ scheduleAnchorDate })}
+          />
+        ) : null}
+        {state.scheduleType === 'quota' ? (
+          <View style={styles.sectionBody}>
+            <View style={[styles.timeRow, styles.field]}>
+              <TextInput
+                label="Times"
+                placeholder="3"
+                value={state.scheduleQuotaCount}
+                onChangeText={(scheduleQuotaCount) => onChange({ scheduleQuotaCount })}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.timeField}
+              />
+              <SegmentedButtons
+                value={state.scheduleQuotaPeriod}
+                onValueChange={(value) => {
+                  if (value) onChange({ scheduleQuotaPeriod: value as QuotaPeriod });
+                }}
+                buttons={[
+                  { value: 'week', label: 'Per week' },
+                  { value: 'month', label: 'Per month' },
+                ]}
+                style={styles.timeField}
+              />
+            </View>
+            <Text variant="bodySmall" style={[styles.hint, styles.field]}>
+              Any days count. The habit stays due until the quota is met.
+            </Text>
+            {state.scheduleQuotaPeriod === 'week' ? (
+              <>
+                <Text variant="bodyMedium">Week starts on</Text>
+                <View style={styles.weekdayRow}>
+                  {WEEKDAY_OPTIONS.map((option) => (
+                    <Chip
+                      key={option.value}
+                      selected={state.scheduleWeekStartsOn === option.value}
+                      onPress={() => onChange({ scheduleWeekStartsOn: option.value })}
+                      compact
+                      style={styles.weekdayChip}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
+                </View>
+              </>
+            ) : null}
+          </View>
+        ) : null}
+      </FormSection>
+
+      <Divider style={styles.divider} />
+
+      <FormSection
+        title="Active dates"
+        description="Optional. Outside these dates the habit is hidden and never counted as missed."
+      >
+        <View style={[styles.timeRow, styles.field]}>
+          <TextInput
+            label="Start date"
+            placeholder="YYYY-MM-DD"
+            value={state.habitStartDate}
+            onChangeText={(habitStartDate) => onChange({ habitStartDate })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            mode="outlined"
+            style={styles.timeField}
+          />
+          <TextInput
+            label="End date"
+            placeholder="YYYY-MM-DD"
+            value={state.habitEndDate}
+            onChangeText={(habitEndDate) => onChange({ habitEndDate })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            mode="outlined"
+            style={styles.timeField}
+          />
+        </View>
+        <View style={styles.switchRow}>
+          <Text variant="bodyMedium">Only part of the year</Text>
+          <Switch
+            value={state.habitUseSeason}
+            onValueChange={(habitUseSeason) => onChange({ habitUseSeason })}
+          />
+        </View>
+        {state.habitUseSeason ? (
+          <View style={styles.sectionBody}>
+            <View style={styles.timeRow}>
+              <TextInput
+                label="From (MM-DD)"
+                placeholder="06-01"
+                value={state.habitSeasonStart}
+                onChangeText={(habitSeasonStart) => onChange({ habitSeasonStart })}
+                keyboardType="numbers-and-punctuation"
+                mode="outlined"
+                style={styles.timeField}
+              />
+              <TextInput
+                label="To (MM-DD)"
+                placeholder="09-30"
+                value={state.habitSeasonEnd}
+                onChangeText={(habitSeasonEnd) => onChange({ habitSeasonEnd })}
+                keyboardType="numbers-and-punctuation"
+                mode="outlined"
+                style={styles.timeField}
+              />
+            </View>
+            <Text variant="bodySmall" style={styles.hint}>
+              Repeats every year. A season like 11-01 to 02-28 runs over the new year.
+            </Text>
+          </View>
+        ) : null}
+      </FormSection>
+
+      <Divider style={styles.divider} />
+
+      <FormSection
+        title="Streak freezes"
+        description="Optional. Cover the odd missed day automatically once a streak is long enough."
+      >
+        <View style={styles.switchRow}>
+          <Text variant="bodyMedium">Use streak freezes</Text>
+          <Switch
+            value={state.habitUseStreakFreezes}
+            onValueChange={(habitUseStreakFreezes) => onChange({ habitUseStreakFreezes })}
+          />
+        </View>
+        {state.habitUseStreakFreezes ? (
+          <View style={styles.sectionBody}>
+            <View style={styles.timeRow}>
+              <TextInput
+                label="Per month"
+                placeholder="2"
+                value={state.habitFreezesPerMonth}
+                onChangeText={(habitFreezesPerMonth) => onChange({ habitFreezesPerMonth })}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.timeField}
+              />
+              <TextInput
+                label={`After ${streakUnit} in a row`}
+                placeholder="7"
+                value={state.habitFreezeEarnedAfter}
+                onChangeText={(habitFreezeEarnedAfter) => onChange({ habitFreezeEarnedAfter })}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.timeField}
+              />
+            </View>
+            <Text variant="bodySmall" style={styles.hint}>
+              Skipped days never need a freeze. Skip a day from the habit's long-press menu.
+            </Text>
+          </View>
+        ) : null}
       </FormSection>
 
       <Divider style={styles.divider} />
@@ -245,9 +538,9 @@ export default function HabitEditorFields({ state, soundOptions, onChange }: Pro
                 onValueChange={(visibleOnlyInTimeRange) => onChange({ visibleOnlyInTimeRange })}
               />
             </View>
-            {state.scheduleType === 'every_n_days' ? (
+            {NO_REMINDER_SCHEDULES.has(state.scheduleType) ? (
               <Text variant="bodySmall" style={styles.hint}>
-                Reminders are not available for every-N-days schedules yet.
+                Reminders are only available for daily and weekday schedules.
               </Text>
             ) : (
               <>
@@ -0,0 +1,98 @@
+import React from 'react';
+import { View } from 'react-native';
+import { SegmentedButtons, Text, TextInput } from 'react-native-paper';
+import {
+  MEASUREMENT_AGGREGATION_LABELS,
+  MeasurementAggregationSchema,
+  type MeasurementAggregation,
+} from '../../protocol';
+import FormSection, { formSectionStyles as styles } from './FormSection';
+import type { MeasurementEditorFieldState } from './types';
+
+type Props = {
+  state: MeasurementEditorFieldState;
+  onChange: (patch: Partial<MeasurementEditorFieldState>) => void;
+};
+
+export default function MeasurementEditorFields({ state, onChange }: Props) {
+  return (
+    <>
+      <FormSection
+        title="Measurement settings"
+        description="Each reading is logged on its own. Several readings on one day are combined below."
+      >
+        <View style={styles.timeRow}>
+          <TextInput
+            label="Unit"
+            placeholder="kg, mmHg, %"
+            value={state.measurementUnit}
+            onChangeText={(measurementUnit) => onChange({ measurementUnit })}
+            autoCapitalize="none"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+          <TextInput
+            label="Decimals"
+            placeholder="0–3"
+            value={state.measurementDecimals}
+            onChangeText={(measurementDecimals) => onChange({ measurementDecimals })}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+        </View>
+        <Text variant="labelLarge" style={styles.inlineLabel}>
+          Daily value
+        </Text>
+        <SegmentedButtons
+          value={state.measurementAggregation}
+          onValueChange={(value) => {
+            if (value) onChange({ measurementAggregation: value as MeasurementAggregation });
+          }}
+          buttons={MeasurementAggregationSchema.options.map((aggregation) => ({
+            value: aggregation,
+            label: MEASUREMENT_AGGREGATION_LABELS[aggregation],
+          }))}
+          density="small"
+        />
+      </FormSection>
+
+      <FormSection
+        title="Target range"
+        description="Optional. Readings outside the range are highlighted."
+      >
+        <View style={styles.timeRow}>
+          <TextInput
+            label="Min"
+            value={state.measurementTargetMin}
+            onChangeText={(measurementTargetMin) => onChange({ measurementTargetMin })}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+          <TextInput
+            label="Max"
+            value={state.measurementTargetMax}
+            onChangeText={(measurementTargetMax) => onChange({ measurementTargetMax })}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+        </View>
+      </FormSection>
+
+      <FormSection
+        title="Second value"
+        description="Optional. Name a paired number, e.g. Diastolic for blood pressure."
+      >
+        <TextInput
+          label="Second value label"
+          placeholder="e.g. Diastolic"
+          value={state.measurementSecondaryLabel}
+          onChangeText={(measurementSecondaryLabel) => onChange({ measurementSecondaryLabel })}
+          mode="outlined"
+        />
+      </FormSection>
+    </>
+  );
+}
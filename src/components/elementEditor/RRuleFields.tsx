@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { View } from 'react-native';
+import { Chip, SegmentedButtons, Text, TextInput, useTheme } from 'react-native-paper';
+import {
+  describeRRule,
+  formatOrdinal,
+  formatRRule,
+  parseRRule,
+  RRULE_FREQUENCIES,
+  type RRule,
+  type RRuleFrequency,
+} from '../../protocol';
+import { todayDate } from '../../utils/dates';
+import { formSectionStyles as styles } from './FormSection';
+
+const FREQUENCY_LABELS: Record<RRuleFrequency, string> = {
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  YEARLY: 'Yearly',
+};
+
+const INTERVAL_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'days',
+  WEEKLY: 'weeks',
+  MONTHLY: 'months',
+  YEARLY: 'years',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+/** Monday first, like the weekday chips elsewhere in the editor. */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTH_DAYS = [...Array.from({ length: 31 }, (_, index) => index + 1), -1];
+const POSITIONS = [1, 2, 3, 4, -1];
+
+type MonthPattern = 'day' | 'weekday';
+type EndMode = 'never' | 'until' | 'count';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Sort key that puts counted-from-the-end values (-1 = last) after the others. */
+const sortKey = (value: number) => (value < 0 ? 100 - value : value);
+
+function toggle(values: number[], value: number): number[] {
+  return values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value].sort((a, b) => sortKey(a) - sortKey(b));
+}
+
+type Props = {
+  /** RRULE text; may be invalid while the user edits it by hand. */
+  value: string;
+  anchorDate: string;
+  onChange: (value: string) => void;
+  onAnchorDateChange: (anchorDate: string) => void;
+};
+
+/** Builder for custom repeat rules, with the raw RRULE editable underneath. */
+export default function RRuleFields({ value, anchorDate, onChange, onAnchorDateChange }: Props) {
+  const theme = useTheme();
+  // Drafts hold number and date inputs while they are mid-edit and not yet valid.
+  const [intervalDraft, setIntervalDraft] = useState<string | null>(null);
+  const [untilDraft, setUntilDraft] = useState<string | null>(null);
+  const [countDraft, setCountDraft] = useState<string | null>(null);
+
+  let rule: RRule | null = null;
+  let error: string | null = null;
+  try {
+    rule = parseRRule(value);
+  } catch (parseError) {
+    error = parseError instanceof Error ? parseError.message : 'Invalid rule';
+  }
+
+  const update = (patch: Partial<RRule>) => {
+    if (rule) onChange(formatRRule({ ...rule, ...patch }));
+  };
+
+  const monthDayChips = (current: RRule) => (
+    <View style={[styles.weekdayRow, styles.field]}>
+      {MONTH_DAYS.map((day) => (
+        <Chip
+          key={day}
+          selected={current.byMonthDay.includes(day)}
+          onPress={() => update({ byMonthDay: toggle(current.byMonthDay, day), byDay: [] })}
+          compact
+          style={styles.weekdayChip}
+        >
+          {day === -1 ? 'Last' : String(day)}
+        </Chip>
+      ))}
+    </View>
+  );
+
+  const renderPattern = (current: RRule) => {
+    if (current.freq === 'WEEKLY') {
+      const selected = current.byDay.map((day) => day.weekday);
+      return (
+        <>
+          <Text variant="bodyMedium" style={styles.inlineLabel}>
+            On
+          </Text>
+          <View style={[styles.weekdayRow, styles.field]}>
+            {WEEKDAY_ORDER.map((weekday) => (
+              <Chip
+                key={weekday}
+                selected={selected.includes(weekday)}
+                onPress={() =>
+                  update({ byDay: toggle(selected, weekday).map((day) => ({ weekday: day })) })
+                }
+                compact
+                style={styles.weekdayChip}
+              >
+                {WEEKDAYS[weekday]}
+              </Chip>
+            ))}
+          </View>
+        </>
+      );
+    }
+
+    if (current.freq === 'MONTHLY') {
+      const pattern: MonthPattern = current.byDay.length > 0 ? 'weekday' : 'day';
+      const position = current.byDay[0]?.ordinal ?? 1;
+      const selected = current.byDay.map((day) => day.weekday);
+      return (
+        <>
+          <SegmentedButtons
+            value={pattern}
+            onValueChange={(next) => {
+              if (next === 'weekday') {
+                update({ byMonthDay: [], byDay: [{ weekday: 1, ordinal: 1 }] });
+              }
+              if (next === 'day') update({ byDay: [], byMonthDay: [] });
+            }}
+            buttons={[
+              { value: 'day', label: 'Day of month' },
+              { value: 'weekday', label: 'Weekday' },
+            ]}
+            style={styles.field}
+          />
+          {pattern === 'day' ? (
+            monthDayChips(current)
+          ) : (
+            <>
+              <View style={[styles.weekdayRow, styles.field]}>
+                {POSITIONS.map((ordinal) => (
+                  <Chip
+                    key={ordinal}
+                    selected={position === ordinal}
+                    onPress={() =>
+                      update({ byDay: selected.map((weekday) => ({ weekday, ordinal })) })
+                    }
+                    compact
+                  >
+                    {ordinal === -1 ? 'Last' : formatOrdinal(ordinal)}
+                  </Chip>
+                ))}
+              </View>
+              <View style={[styles.weekdayRow, styles.field]}>
+                {WEEKDAY_ORDER.map((weekday) => (
+                  <Chip
+                    key={weekday}
+                    selected={selected.includes(weekday)}
+                    onPress={() => {
+                      const next = toggle(selected, weekday);
+                      // Keep one weekday so the rule stays in weekday mode.
+                      if (next.length === 0) return;
+                      update({ byDay: next.map((day) => ({ weekday: day, ordinal: position })) });
+                    }}
+                    compact
+                    style={styles.weekdayChip}
+                  >
+                    {WEEKDAYS[weekday]}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
+        </>
+      );
+    }
+
+    if (current.freq === 'YEARLY') {
+      return (
+        <>
+          <Text variant="bodyMedium" style={styles.inlineLabel}>
+            In
+          </Text>
+          <View style={[styles.weekdayRow, styles.field]}>
+            {MONTHS.map((label, index) => (
+              <Chip
+                key={label}
+                selected={current.byMonth.includes(index + 1)}
+                onPress={() => update({ byMonth: toggle(current.byMonth, index + 1) })}
+                compact
+                style={styles.weekdayChip}
+              >
+                {label}
+              </Chip>
+            ))}
+          </View>
+          <Text variant="bodyMedium" style={styles.inlineLabel}>
+            On day
+          </Text>
+          {monthDayChips(current)}
+        </>
+      );
+    }
+
+    return null;
+  };
+
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count !== undefined ? 'count' : 'never';
+
+  return (
+    <View style={styles.sectionBody}>
+      <TextInput
+        label="Starts on"
+        placeholder="YYYY-MM-DD"
+        value={anchorDate}
+        onChangeText={onAnchorDateChange}
+        autoCapitalize="none"
+        autoCorrect={false}
+        mode="outlined"
+        style={styles.field}
+      />
+
+      {rule ? (
+        <>
+          <SegmentedButtons
+            value={rule.freq}
+            onValueChange={(next) => {
+              if (next) {
+                update({ freq: next as RRuleFrequency, byDay: [], byMonthDay: [], byMonth: [] });
+              }
+            }}
+            buttons={RRULE_FREQUENCIES.map((freq) => ({
+              value: freq,
+              label: FREQUENCY_LABELS[freq],
+            }))}
+            style={styles.field}
+          />
+          <TextInput
+            label={`Every … ${INTERVAL_UNITS[rule.freq]}`}
+            value={intervalDraft ?? String(rule.interval)}
+            onChangeText={(text) => {
+              const interval = Number(text);
+              if (/^\d+$/.test(text) && interval >= 1) {
+                setIntervalDraft(null);
+                update({ interval });
+              } else {
+                setIntervalDraft(text);
+              }
+            }}
+            onBlur={() => setIntervalDraft(null)}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.field}
+          />
+
+          {renderPattern(rule)}
+
+          <Text variant="bodyMedium" style={styles.inlineLabel}>
+            Ends
+          </Text>
+          <SegmentedButtons
+            value={endMode}
+            onValueChange={(next) => {
+              if (next === 'never') update({ until: undefined, count: undefined });
+              if (next === 'until') {
+                update({ until: `${todayDate().slice(0, 4)}-12-31`, count: undefined });
+              }
+              if (next === 'count') update({ until: undefined, count: 10 });
+            }}
+            buttons={[
+              { value: 'never', label: 'Never' },
+              { value: 'until', label: 'On date' },
+              { value: 'count', label: 'After' },
+            ]}
+            style={styles.field}
+          />
+          {endMode === 'until' ? (
+            <TextInput
+              label="Last date"
+              placeholder="YYYY-MM-DD"
+              value={untilDraft ?? rule.until ?? ''}
+              onChangeText={(text) => {
+                if (DATE_RE.test(text)) {
+                  setUntilDraft(null);
+                  update({ until: text });
+                } else {
+                  setUntilDraft(text);
+                }
+              }}
+              onBlur={() => setUntilDraft(null)}
+              autoCapitalize="none"
+              autoCorrect={false}
+              mode="outlined"
+              style={styles.field}
+            />
+          ) : null}
+          {endMode === 'count' ? (
+            <TextInput
+              label="Occurrences"
+              value={countDraft ?? String(rule.count ?? '')}
+              onChangeText={(text) => {
+                const count = Number(text);
+                if (/^\d+$/.test(text) && count >= 1) {
+                  setCountDraft(null);
+                  update({ count });
+                } else {
+                  setCountDraft(text);
+                }
+              }}
+              onBlur={() => setCountDraft(null)}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.field}
+            />
+          ) : null}
+
+          <Text variant="bodySmall" style={[styles.hint, styles.field]}>
+            {describeRRule(rule)}
+          </Text>
+        </>
+      ) : null}
+
+      <TextInput
+        label="RRULE"
+        value={value}
+        onChangeText={onChange}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        mode="outlined"
+      />
+      {error ? (
+        <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+          {error}
+        </Text>
+      ) : (
+        <Text variant="bodySmall" style={styles.hint}>
+          Supports FREQ, INTERVAL, BYDAY (e.g. 1MO, -1FR), BYMONTHDAY, BYMONTH, UNTIL and COUNT.
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { View } from 'react-native';
+import { TextInput } from 'react-native-paper';
+import FormSection, { formSectionStyles as styles } from './FormSection';
+import type { RatingEditorFieldState } from './types';
+
+type Props = {
+  state: RatingEditorFieldState;
+  onChange: (patch: Partial<RatingEditorFieldState>) => void;
+};
+
+export default function RatingEditorFields({ state, onChange }: Props) {
+  return (
+    <>
+      <FormSection
+        title="Scale"
+        description="Scores run from the lowest to the highest value, up to 10. Several ratings on one day are averaged."
+      >
+        <View style={styles.timeRow}>
+          <TextInput
+            label="Lowest"
+            value={state.ratingMin}
+            onChangeText={(ratingMin) => onChange({ ratingMin })}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+          <TextInput
+            label="Highest"
+            value={state.ratingMax}
+            onChangeText={(ratingMax) => onChange({ ratingMax })}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={[styles.field, styles.timeField]}
+          />
+        </View>
+      </FormSection>
+
+      <FormSection
+        title="Labels"
+        description="Optional. One word or emoji per score, lowest first, separated by commas."
+      >
+        <TextInput
+          label="Labels"
+          placeholder="😞, 🙁, 😐, 🙂, 😄"
+          value={state.ratingLabels}
+          onChangeText={(ratingLabels) => onChange({ ratingLabels })}
+          mode="outlined"
+        />
+      </FormSection>
+    </>
+  );
+}
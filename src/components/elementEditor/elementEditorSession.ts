@@ -1,7 +1,22 @@
-import { toDateString, type CounterConfig, type HabitConfig } from '../../protocol';
+import {
+  defaultCategoryForKind,
+  type AbstinenceConfig,
+  type ChecklistConfig,
+  type CounterConfig,
+  type ElementCategory,
+  type HabitConfig,
+  type IntervalProgram,
+  type MeasurementConfig,
+  type RatingConfig,
+} from '../../protocol';
+import { todayDate } from '../../utils/dates';
+import { formatDurationInput } from '../../utils/time';
 import { newId } from '../../utils/id';
 import type { ElementEditorSession } from './types';
 
+/** Starting point for the custom repeat builder: the first Monday of each month. */
+const DEFAULT_RRULE = 'FREQ=MONTHLY;BYDAY=1MO';
+
 export function newEditorSession(
   overrides: Partial<ElementEditorSession> & Pick<ElementEditorSession, 'mode'>,
 ): ElementEditorSession {
@@ -9,11 +24,21 @@ export function newEditorSession(
     sessionId: newId(),
     editingId: null,
     name: '',
+    category: defaultCategoryForKind(overrides.mode),
     increments: '5, 10',
     dailyTarget: '',
     targetLabel: '',
     habitTrackingMode: 'boolean',
     habitDailyGoalMinutes: '',
+    habitTimerStyle: 'stopwatch',
+    habitCountdownMinutes: '',
+    habitUseIntervals: false,
+    habitIntervalWork: '25',
+    habitIntervalRest: '5',
+    habitIntervalRounds: '4',
+    habitIntervalLongBreak: '15',
+    habitIntervalLongBreakEvery: '4',
+    habitCueSoundId: '',
     habitSoundId: '',
     timeSlot: 'morning',
     useTimeRange: false,
@@ -23,22 +48,62 @@ export function newEditorSession(
     scheduleType: 'daily',
     scheduleWeekdays: [1, 2, 3, 4, 5],
     scheduleInterval: '2',
-    scheduleAnchorDate: toDateString(new Date()),
+    scheduleAnchorDate: todayDate(),
+    scheduleQuotaCount: '3',
+    scheduleQuotaPeriod: 'week',
+    scheduleWeekStartsOn: 1,
+    scheduleRRule: DEFAULT_RRULE,
+    habitStartDate: '',
+    habitEndDate: '',
+    habitUseSeason: false,
+    habitSeasonStart: '06-01',
+    habitSeasonEnd: '09-30',
+    habitUseStreakFreezes: false,
+    habitFreezesPerMonth: '2',
+    habitFreezeEarnedAfter: '7',
     useReminder: false,
     remindMinutesBefore: '15',
+    measurementUnit: 'kg',
+    measurementDecimals: '1',
+    measurementAggregation: 'last',
+    measurementTargetMin: '',
+    measurementTargetMax: '',
+    measurementSecondaryLabel: '',
+    ratingMin: '1',
+    ratingMax: '5',
+    ratingLabels: '',
+    checklistItems: [{ id: newId(), label: '' }],
+    checklistRequiredCount: '',
+    checklistTimeSlot: 'morning',
+    abstinenceStartDate: todayDate(),
     ...overrides,
   };
 }
 
+function intervalProgramFields(program: IntervalProgram): Partial<ElementEditorSession> {
+  return {
+    habitUseIntervals: true,
+    habitIntervalWork: formatDurationInput(program.workSeconds),
+    habitIntervalRest: formatDurationInput(program.restSeconds),
+    habitIntervalRounds: String(program.rounds),
+    habitIntervalLongBreak: program.longBreakSeconds
+      ? formatDurationInput(program.longBreakSeconds)
+      : '',
+    habitIntervalLongBreakEvery: program.longBreakEvery ? String(program.longBreakEvery) : '',
+  };
+}
+
 export function editorSessionFromCounter(
   id: string,
   name: string,
   config: CounterConfig,
+  category: ElementCategory,
 ): ElementEditorSession {
   return newEditorSession({
     mode: 'counter',
     editingId: id,
     name,
+    category,
     increments: config.quickIncrements.join(', '),
     dailyTarget: config.dailyTarget ? String(config.dailyTarget) : '',
   });
@@ -48,17 +113,25 @@ export function editorSessionFromHabit(
   id: string,
   name: string,
   config: HabitConfig,
+  category: ElementCategory,
 ): ElementEditorSession {
   const schedule = config.schedule;
   return newEditorSession({
     mode: 'habit',
     editingId: id,
     name,
+    category,
     targetLabel: config.targetLabel ?? '',
     habitTrackingMode: config.trackingMode,
     habitDailyGoalMinutes: config.dailyTargetSeconds
       ? String(Math.round(config.dailyTargetSeconds / 60))
       : '',
+    habitTimerStyle: config.timerStyle ?? 'stopwatch',
+    habitCountdownMinutes: config.countdownSeconds
+      ? String(Math.round(config.countdownSeconds / 60))
+      : '',
+    ...(config.intervalProgram ? intervalProgramFields(config.intervalProgram) : {}),
+    habitCueSoundId: config.cueSoundId ?? '',
     habitSoundId: config.soundId ?? '',
     timeSlot: config.timeSlot,
     useTimeRange: Boolean(config.timeRange),
@@ -69,9 +142,96 @@ export function editorSessionFromHabit(
     scheduleWeekdays: schedule.type === 'weekdays' ? schedule.days : [1, 2, 3, 4, 5],
     scheduleInterval: schedule.type === 'every_n_days' ? String(schedule.interval) : '2',
     scheduleAnchorDate:
-      schedule.type === 'every_n_days' ? schedule.anchorDate : toDateString(new Date()),
+      schedule.type === 'every_n_days' || schedule.type === 'rrule'
+        ? schedule.anchorDate
+        : todayDate(),
+    scheduleQuotaCount: schedule.type === 'quota' ? String(schedule.count) : '3',
+    scheduleQuotaPeriod: schedule.type === 'quota' ? schedule.period : 'week',
+    scheduleWeekStartsOn: schedule.type === 'quota' ? schedule.weekStartsOn : 1,
+    scheduleRRule: schedule.type === 'rrule' ? schedule.rule : DEFAULT_RRULE,
+    habitStartDate: config.startDate ?? '',
+    habitEndDate: config.endDate ?? '',
+    habitUseSeason: Boolean(config.season),
+    habitSeasonStart: config.season?.start ?? '06-01',
+    habitSeasonEnd: config.season?.end ?? '09-30',
+    habitUseStreakFreezes: Boolean(config.streakFreezes),
+    habitFreezesPerMonth: String(config.streakFreezes?.perMonth ?? 2),
+    habitFreezeEarnedAfter: String(config.streakFreezes?.earnedAfter ?? 7),
     useReminder: config.remindMinutesBefore !== undefined,
     remindMinutesBefore:
       config.remindMinutesBefore !== undefined ? String(config.remindMinutesBefore) : '15',
   });
 }
+
+export function editorSessionFromMeasurement(
+  id: string,
+  name: string,
+  config: MeasurementConfig,
+  category: ElementCategory,
+): ElementEditorSession {
+  return newEditorSession({
+    mode: 'measurement',
+    editingId: id,
+    name,
+    category,
+    measurementUnit: config.unit,
+    measurementDecimals: String(config.decimals),
+    measurementAggregation: config.aggregation,
+    measurementTargetMin: config.targetMin !== undefined ? String(config.targetMin) : '',
+    measurementTargetMax: config.targetMax !== undefined ? String(config.targetMax) : '',
+    measurementSecondaryLabel: config.secondaryLabel ?? '',
+  });
+}
+
+export function editorSessionFromRating(
+  id: string,
+  name: string,
+  config: RatingConfig,
+  category: ElementCategory,
+): ElementEditorSession {
+  return newEditorSession({
+    mode: 'rating',
+    editingId: id,
+    name,
+    category,
+    ratingMin: String(config.min),
+    ratingMax: String(config.max),
+    ratingLabels: config.labels.join(', '),
+  });
+}
+
+export function editorSessionFromChecklist(
+  id: string,
+  name: string,
+  config: ChecklistConfig,
+  category: ElementCategory,
+): ElementEditorSession {
+  return newEditorSession({
+    mode: 'checklist',
+    editingId: id,
+    name,
+    category,
+    checklistItems: config.items,
+    checklistRequiredCount: config.requiredCount !== undefined ? String(config.requiredCount) : '',
+    checklistTimeSlot: config.timeSlot,
+  });
+}
+
+export function editorSessionFromAbstinence(
+  id: string,
+  name: string,
+  config: AbstinenceConfig,
+  category: ElementCategory,
+): ElementEditorSession {
+  return newEditorSession({
+    mode: 'abstinence',
+    editingId: id,
+    name,
+    category,
+    abstinenceStartDate: config.startDate ?? '',
+  });
+}
+
+export function editorSessionFromGroup(id: string, name: string): ElementEditorSession {
+  return newEditorSession({ mode: 'group', editingId: id, name });
+}
@@ -1,12 +1,21 @@
 export type {
+  AbstinenceEditorFieldState,
+  ChecklistEditorFieldState,
   ElementEditorMode,
   ElementEditorSaveData,
   ElementEditorSession,
   HabitEditorFieldState,
   HabitScheduleType,
+  MeasurementEditorFieldState,
+  RatingEditorFieldState,
 } from './types';
 export {
+  editorSessionFromAbstinence,
+  editorSessionFromChecklist,
   editorSessionFromCounter,
+  editorSessionFromGroup,
   editorSessionFromHabit,
+  editorSessionFromMeasurement,
+  editorSessionFromRating,
   newEditorSession,
 } from './elementEditorSession';
@@ -1,19 +1,45 @@
-import type { HabitSchedule, HabitTimeSlot, HabitTrackingMode } from '../../protocol';
+import type {
+  ChecklistItem,
+  ElementCategory,
+  HabitSchedule,
+  HabitTimerStyle,
+  HabitTimeSlot,
+  HabitTrackingMode,
+  MeasurementAggregation,
+  QuotaPeriod,
+} from '../../protocol';
 
 export type HabitScheduleType = HabitSchedule['type'];
 
-export type ElementEditorMode = 'counter' | 'habit';
+export type ElementEditorMode =
+  | 'counter'
+  | 'habit'
+  | 'measurement'
+  | 'rating'
+  | 'checklist'
+  | 'abstinence'
+  | 'group';
 
 export type ElementEditorSession = {
   sessionId: string;
   mode: ElementEditorMode;
   editingId: string | null;
   name: string;
+  category: ElementCategory;
   increments: string;
   dailyTarget: string;
   targetLabel: string;
   habitTrackingMode: HabitTrackingMode;
   habitDailyGoalMinutes: string;
+  habitTimerStyle: HabitTimerStyle;
+  habitCountdownMinutes: string;
+  habitUseIntervals: boolean;
+  habitIntervalWork: string;
+  habitIntervalRest: string;
+  habitIntervalRounds: string;
+  habitIntervalLongBreak: string;
+  habitIntervalLongBreakEvery: string;
+  habitCueSoundId: string;
   habitSoundId: string;
   timeSlot: HabitTimeSlot;
   useTimeRange: boolean;
@@ -24,11 +50,43 @@ export type ElementEditorSession = {
   scheduleWeekdays: number[];
   scheduleInterval: string;
   scheduleAnchorDate: string;
+  scheduleQuotaCount: string;
+  scheduleQuotaPeriod: QuotaPeriod;
+  scheduleWeekStartsOn: number;
+  scheduleRRule: string;
+  /** `YYYY-MM-DD`; blank means no start date. */
+  habitStartDate: string;
+  /** `YYYY-MM-DD`; blank means no end date. */
+  habitEndDate: string;
+  habitUseSeason: boolean;
+  /** `MM-DD` bounds of the yearly season. */
+  habitSeasonStart: string;
+  habitSeasonEnd: string;
+  habitUseStreakFreezes: boolean;
+  habitFreezesPerMonth: string;
+  /** Streak length needed before a freeze applies. */
+  habitFreezeEarnedAfter: string;
   useReminder: boolean;
   remindMinutesBefore: string;
+  measurementUnit: string;
+  measurementDecimals: string;
+  measurementAggregation: MeasurementAggregation;
+  measurementTargetMin: string;
+  measurementTargetMax: string;
+  measurementSecondaryLabel: string;
+  ratingMin: string;
+  ratingMax: string;
+  /** Comma-separated labels or emojis, one per score from `ratingMin`. */
+  ratingLabels: string;
+  checklistItems: ChecklistItem[];
+  /** Blank means every step is needed. */
+  checklistRequiredCount: string;
+  checklistTimeSlot: HabitTimeSlot;
+  /** `YYYY-MM-DD`; blank counts from the day the element was added. */
+  abstinenceStartDate: string;
 };
 
-export type ElementEditorSaveData =
+export type ElementEditorSaveData = (
   | {
       mode: 'counter';
       name: string;
@@ -41,6 +99,15 @@ export type ElementEditorSaveData =
       targetLabel: string;
       habitTrackingMode: HabitTrackingMode;
       habitDailyGoalMinutes: string;
+      habitTimerStyle: HabitTimerStyle;
+      habitCountdownMinutes: string;
+      habitUseIntervals: boolean;
+      habitIntervalWork: string;
+      habitIntervalRest: string;
+      habitIntervalRounds: string;
+      habitIntervalLongBreak: string;
+      habitIntervalLongBreakEvery: string;
+      habitCueSoundId: string;
       habitSoundId: string;
       timeSlot: HabitTimeSlot;
       useTimeRange: boolean;
@@ -51,15 +118,42 @@ export type ElementEditorSaveData =
       scheduleWeekdays: number[];
       scheduleInterval: string;
       scheduleAnchorDate: string;
+      scheduleQuotaCount: string;
+      scheduleQuotaPeriod: QuotaPeriod;
+      scheduleWeekStartsOn: number;
+      scheduleRRule: string;
+      habitStartDate: string;
+      habitEndDate: string;
+      habitUseSeason: boolean;
+      habitSeasonStart: string;
+      habitSeasonEnd: string;
+      habitUseStreakFreezes: boolean;
+      habitFreezesPerMonth: string;
+      habitFreezeEarnedAfter: string;
       useReminder: boolean;
       remindMinutesBefore: string;
-    };
+    }
+  | ({ mode: 'measurement'; name: string } & MeasurementEditorFieldState)
+  | ({ mode: 'rating'; name: string } & RatingEditorFieldState)
+  | ({ mode: 'checklist'; name: string } & ChecklistEditorFieldState)
+  | ({ mode: 'abstinence'; name: string } & AbstinenceEditorFieldState)
+  | { mode: 'group'; name: string }
+) & { category: ElementCategory };
 
 export type HabitEditorFieldState = Pick<
   ElementEditorSession,
   | 'targetLabel'
   | 'habitTrackingMode'
   | 'habitDailyGoalMinutes'
+  | 'habitTimerStyle'
+  | 'habitCountdownMinutes'
+  | 'habitUseIntervals'
+  | 'habitIntervalWork'
+  | 'habitIntervalRest'
+  | 'habitIntervalRounds'
+  | 'habitIntervalLongBreak'
+  | 'habitIntervalLongBreakEvery'
+  | 'habitCueSoundId'
   | 'habitSoundId'
   | 'timeSlot'
   | 'useTimeRange'
@@ -70,6 +164,40 @@ export type HabitEditorFieldState = Pick<
   | 'scheduleWeekdays'
   | 'scheduleInterval'
   | 'scheduleAnchorDate'
+  | 'scheduleQuotaCount'
+  | 'scheduleQuotaPeriod'
+  | 'scheduleWeekStartsOn'
+  | 'scheduleRRule'
+  | 'habitStartDate'
+  | 'habitEndDate'
+  | 'habitUseSeason'
+  | 'habitSeasonStart'
+  | 'habitSeasonEnd'
+  | 'habitUseStreakFreezes'
+  | 'habitFreezesPerMonth'
+  | 'habitFreezeEarnedAfter'
   | 'useReminder'
   | 'remindMinutesBefore'
 >;
+
+export type MeasurementEditorFieldState = Pick<
+  ElementEditorSession,
+  | 'measurementUnit'
+  | 'measurementDecimals'
+  | 'measurementAggregation'
+  | 'measurementTargetMin'
+  | 'measurementTargetMax'
+  | 'measurementSecondaryLabel'
+>;
+
+export type RatingEditorFieldState = Pick<
+  ElementEditorSession,
+  'ratingMin' | 'ratingMax' | 'ratingLabels'
+>;
+
+export type ChecklistEditorFieldState = Pick<
+  ElementEditorSession,
+  'checklistItems' | 'checklistRequiredCount' | 'checklistTimeSlot'
+>;
+
+export type AbstinenceEditorFieldState = Pick<ElementEditorSession, 'abstinenceStartDate'>;
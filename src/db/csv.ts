@@ -0,0 +1,72 @@
+import {
+  buildEventsFromCsv,
+  dailyTotalsToCsvRows,
+  eventsToCsvRows,
+  type CsvColumnMapping,
+  type CsvImportRowError,
+} from '../protocol';
+import { getDatabase } from '../db/client';
+import * as elementRepo from '../db/repositories/elementRepository';
+import * as eventRepo from '../db/repositories/eventRepository';
+import { toCsv } from '../utils/csv';
+import { getDayStartHour } from '../utils/dates';
+import { newId } from '../utils/id';
+
+export async function exportEventsCsv(): Promise<string> {
+  const db = await getDatabase();
+  const [elements, events] = await Promise.all([
+    elementRepo.getAllElements(db),
+    eventRepo.getAllEvents(db),
+  ]);
+  return toCsv(eventsToCsvRows(elements, events));
+}
+
+export async function exportDailyTotalsCsv(): Promise<string> {
+  const db = await getDatabase();
+  const [elements, events] = await Promise.all([
+    elementRepo.getAllElements(db),
+    eventRepo.getAllEvents(db),
+  ]);
+  return toCsv(dailyTotalsToCsvRows(elements, events));
+}
+
+export interface CsvImportReport {
+  imported: number;
+  /** Rows matching an existing event's timestamp and value (e.g. a re-import). */
+  duplicates: number;
+  errors: CsvImportRowError[];
+}
+
+/** Append valid rows as events of `elementId`; invalid rows are reported and skipped. */
+export async function importEventsCsv(
+  rows: string[][],
+  elementId: string,
+  mapping: CsvColumnMapping,
+): Promise<CsvImportReport> {
+  const db = await getDatabase();
+  const element = await elementRepo.getElementById(db, elementId);
+  if (!element) {
+    throw new Error('Element not found');
+  }
+
+  const { events, errors } = buildEventsFromCsv(rows, element, mapping, {
+    newId,
+    dayStartHour: getDayStartHour(),
+  });
+  const existing = await eventRepo.getEventsForElement(db, elementId);
+  const seen = new Set(existing.map((event) => `${event.timestamp}|${event.value}`));
+  const fresh = events.filter((event) => {
+    const key = `${event.timestamp}|${event.value}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  await db.withTransactionAsync(async () => {
+    for (const event of fresh) {
+      await eventRepo.insertEvent(db, event);
+    }
+  });
+
+  return { imported: fresh.length, duplicates: events.length - fresh.length, errors };
+}
@@ -1,28 +1,68 @@
-import { createProtocolBundle, parseProtocolBundle } from '../protocol';
-import type { ProtocolBundle } from '../protocol';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import {
+  createProtocolBundle,
+  parseCustomCategories,
+  parseProtocolBundle,
+  planBundleMerge,
+} from '../protocol';
+import type { CategoryDefinition } from '../protocol';
+import type {
+  BundleMergeReport,
+  ElementMergeResolution,
+  LocalBundleData,
+  ProtocolBundle,
+} from '../protocol';
 import { getDatabase } from '../db/client';
 import * as elementRepo from '../db/repositories/elementRepository';
 import * as dashboardRepo from '../db/repositories/dashboardRepository';
 import * as eventRepo from '../db/repositories/eventRepository';
+import * as pausePeriodRepo from '../db/repositories/pausePeriodRepository';
+import * as settingsRepo from '../db/repositories/settingsRepository';
 import * as soundLibraryRepo from '../db/repositories/soundLibraryRepository';
 
+async function readCustomCategories(db: SQLiteDatabase): Promise<CategoryDefinition[]> {
+  const stored = await settingsRepo.getSetting(db, settingsRepo.CUSTOM_CATEGORIES_KEY);
+  if (!stored) return [];
+  try {
+    return parseCustomCategories(JSON.parse(stored));
+  } catch {
+    return [];
+  }
+}
+
+async function writeCustomCategories(
+  db: SQLiteDatabase,
+  categories: CategoryDefinition[],
+): Promise<void> {
+  await settingsRepo.setSetting(
+    db,
+    settingsRepo.CUSTOM_CATEGORIES_KEY,
+    JSON.stringify(parseCustomCategories(categories)),
+  );
+}
+
+async function readLocalData(db: SQLiteDatabase): Promise<LocalBundleData> {
+  const [elements, dashboard, events, soundLibrary, customCategories, pausePeriods] =
+    await Promise.all([
+      elementRepo.getAllElements(db),
+      dashboardRepo.getDashboardItems(db),
+      eventRepo.getAllEvents(db),
+      soundLibraryRepo.getSoundLibrary(db),
+      readCustomCategories(db),
+      pausePeriodRepo.getPausePeriods(db),
+    ]);
+  return { elements, dashboard, events, soundLibrary, customCategories, pausePeriods };
+}
+
 export async function exportProtocolBundle(): Promise<ProtocolBundle> {
   const db = await getDatabase();
-  const [elements, dashboard, events, soundLibrary] = await Promise.all([
-    elementRepo.getAllElements(db),
-    dashboardRepo.getDashboardItems(db),
-    eventRepo.getAllEvents(db),
-    soundLibraryRepo.getSoundLibrary(db),
-  ]);
-
-  return createProtocolBundle({
-    elements,
-    dashboard,
-    events,
-    soundLibrary,
-  });
+  return createProtocolBundle(await readLocalData(db));
 }
 
+/**
+ * Replace all local elements, dashboard items and events with the bundle, plus its
+ * custom categories and pauses when it carries them.
+ */
 export async function importProtocolBundle(raw: unknown): Promise<void> {
   const bundle = parseProtocolBundle(raw);
   const db = await getDatabase();
@@ -45,7 +85,68 @@ export async function importProtocolBundle(raw: unknown): Promise<void> {
     if (bundle.soundLibrary) {
       await soundLibraryRepo.setSoundLibrary(db, bundle.soundLibrary);
     }
+    if (bundle.customCategories) {
+      await writeCustomCategories(db, bundle.customCategories);
+    }
+    if (bundle.pausePeriods) {
+      await db.runAsync('DELETE FROM pause_periods');
+      for (const period of bundle.pausePeriods) {
+        await pausePeriodRepo.insertPausePeriod(db, period);
+      }
+    }
+  });
+}
+
+/** Dry run of `mergeProtocolBundle`: what would change and which elements conflict. */
+export async function previewProtocolBundleMerge(raw: unknown): Promise<BundleMergeReport> {
+  const bundle = parseProtocolBundle(raw);
+  const db = await getDatabase();
+  return planBundleMerge(await readLocalData(db), bundle).report;
+}
+
+/**
+ * Fold the bundle into local data without deleting anything. Conflicting elements
+ * take the side in `resolutions`, else the newer copy.
+ */
+export async function mergeProtocolBundle(
+  raw: unknown,
+  resolutions: Record<string, ElementMergeResolution> = {},
+): Promise<BundleMergeReport> {
+  const bundle = parseProtocolBundle(raw);
+  const db = await getDatabase();
+  let report: BundleMergeReport | null = null;
+
+  await db.withTransactionAsync(async () => {
+    const plan = planBundleMerge(await readLocalData(db), bundle, resolutions);
+
+    for (const element of plan.elementsToInsert) {
+      await elementRepo.insertElement(db, element);
+    }
+    for (const element of plan.elementsToReplace) {
+      await elementRepo.replaceElement(db, element);
+    }
+    for (const item of plan.dashboardToInsert) {
+      await dashboardRepo.insertDashboardItem(db, item);
+    }
+    for (const event of plan.eventsToInsert) {
+      await eventRepo.insertEvent(db, event);
+    }
+    if (plan.report.sounds.added > 0) {
+      await soundLibraryRepo.setSoundLibrary(db, plan.soundLibrary);
+    }
+    if (plan.report.categories.added > 0) {
+      await writeCustomCategories(db, plan.customCategories);
+    }
+    for (const period of plan.pausePeriodsToInsert) {
+      await pausePeriodRepo.insertPausePeriod(db, period);
+    }
+    report = plan.report;
   });
+
+  if (!report) {
+    throw new Error('Merge did not complete');
+  }
+  return report;
 }
 
 export function serializeBundle(bundle: ProtocolBundle): string {
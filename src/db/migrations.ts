@@ -1,10 +1,12 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
+import { toDateString } from '../protocol';
 import { newId } from '../utils/id';
 import * as dashboardRepo from './repositories/dashboardRepository';
 import * as elementRepo from './repositories/elementRepository';
+import * as eventRepo from './repositories/eventRepository';
 import { SCHEMA_SQL } from './schema';
 
-const CURRENT_SCHEMA_VERSION = 3;
+const CURRENT_SCHEMA_VERSION = 8;
 
 const MIGRATIONS: Record<number, (db: SQLiteDatabase) => Promise<void>> = {
   2: async (db) => {
@@ -32,6 +34,45 @@ const MIGRATIONS: Record<number, (db: SQLiteDatabase) => Promise<void>> = {
       sortOrder += 1;
     }
   },
+  4: async (db) => {
+    await db.execAsync(`
+      ALTER TABLE events ADD COLUMN tz_offset_minutes INTEGER;
+      ALTER TABLE events ADD COLUMN time_zone TEXT;
+    `);
+    // Dates were sliced from UTC ISO strings; re-derive the local calendar day.
+    const rows = await eventRepo.getEventTimestamps(db);
+    for (const row of rows) {
+      const localDate = toDateString(new Date(row.timestamp));
+      if (localDate !== row.date) {
+        await eventRepo.updateEventDate(db, row.id, localDate);
+      }
+    }
+  },
+  5: async (db) => {
+    await db.execAsync('ALTER TABLE elements ADD COLUMN updated_at TEXT;');
+  },
+  6: async (db) => {
+    // Protocol v2: rows match what the bundle upgrade produces.
+    await db.execAsync(`
+      UPDATE elements SET updated_at = created_at WHERE updated_at IS NULL;
+      UPDATE elements SET protocol_version = 2;
+      UPDATE events SET protocol_version = 2;
+    `);
+  },
+  7: async (db) => {
+    await db.execAsync('ALTER TABLE elements ADD COLUMN archived_at TEXT;');
+  },
+  8: async (db) => {
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS pause_periods (
+        id TEXT PRIMARY KEY NOT NULL,
+        start_date TEXT NOT NULL,
+        end_date TEXT,
+        reason TEXT,
+        created_at TEXT NOT NULL
+      );
+    `);
+  },
 };
 
 export async function runMigrations(db: SQLiteDatabase): Promise<void> {
@@ -50,10 +91,14 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
   while (version < CURRENT_SCHEMA_VERSION) {
     const next = version + 1;
     const migrate = MIGRATIONS[next];
-    if (migrate) {
-      await migrate(db);
-    }
+    // Each step lands together with its version bump, so a failure part way
+    // leaves the database on the previous version to retry on the next launch.
+    await db.withTransactionAsync(async () => {
+      if (migrate) {
+        await migrate(db);
+      }
+      await db.runAsync('UPDATE schema_version SET version = ?', next);
+    });
     version = next;
-    await db.runAsync('UPDATE schema_version SET version = ?', version);
   }
 }
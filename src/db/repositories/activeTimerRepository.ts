@@ -0,0 +1,22 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { parseActiveTimerSessions, type ActiveTimerSession } from '../../protocol';
+import * as settingsRepo from './settingsRepository';
+
+const ACTIVE_TIMER_SESSIONS_KEY = 'active_timer_sessions';
+
+export async function getActiveTimerSessions(
+  db: SQLiteDatabase,
+): Promise<Record<string, ActiveTimerSession>> {
+  const raw = await settingsRepo.getSetting(db, ACTIVE_TIMER_SESSIONS_KEY);
+  if (!raw) {
+    return {};
+  }
+  return parseActiveTimerSessions(JSON.parse(raw));
+}
+
+export async function setActiveTimerSessions(
+  db: SQLiteDatabase,
+  sessions: Record<string, ActiveTimerSession>,
+): Promise<void> {
+  await settingsRepo.setSetting(db, ACTIVE_TIMER_SESSIONS_KEY, JSON.stringify(sessions));
+}
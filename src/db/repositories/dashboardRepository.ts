@@ -40,6 +40,30 @@ export async function insertDashboardItem(
   );
 }
 
+export async function updateDashboardItemOverrides(
+  db: SQLiteDatabase,
+  id: string,
+  overrides: Record<string, unknown> | undefined,
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE dashboard_items SET overrides_json = ? WHERE id = ?',
+    overrides ? JSON.stringify(overrides) : null,
+    id,
+  );
+}
+
+/** Rewrite `sort_order` so items follow `orderedIds`, all or nothing. */
+export async function reorderDashboardItems(
+  db: SQLiteDatabase,
+  orderedIds: string[],
+): Promise<void> {
+  await db.withTransactionAsync(async () => {
+    for (const [index, id] of orderedIds.entries()) {
+      await db.runAsync('UPDATE dashboard_items SET sort_order = ? WHERE id = ?', index, id);
+    }
+  });
+}
+
 export async function deleteDashboardItem(
   db: SQLiteDatabase,
   id: string,
@@ -11,6 +11,8 @@ interface ElementRow {
   config_json: string;
   protocol_version: number;
   created_at: string;
+  updated_at: string | null;
+  archived_at: string | null;
 }
 
 function rowToElement(row: ElementRow): ElementDefinition {
@@ -26,6 +28,8 @@ function rowToElement(row: ElementRow): ElementDefinition {
     config,
     protocolVersion: PROTOCOL_VERSION,
     createdAt: row.created_at,
+    updatedAt: row.updated_at ?? row.created_at,
+    archivedAt: row.archived_at ?? undefined,
   };
 }
 
@@ -54,8 +58,8 @@ export async function insertElement(
   validateElementConfig(element.kind, element.config);
 
   await db.runAsync(
-    `INSERT INTO elements (id, kind, name, category, parent_id, config_json, protocol_version, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO elements (id, kind, name, category, parent_id, config_json, protocol_version, created_at, updated_at, archived_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     element.id,
     element.kind,
     element.name,
@@ -64,25 +68,90 @@ export async function insertElement(
     JSON.stringify(element.config),
     element.protocolVersion,
     element.createdAt,
+    element.updatedAt,
+    element.archivedAt ?? null,
   );
 }
 
 export async function updateElement(
   db: SQLiteDatabase,
   id: string,
-  updates: Pick<ElementDefinition, 'name' | 'config'>,
+  updates: Pick<ElementDefinition, 'name' | 'category' | 'config'>,
   kind: ElementKind,
 ): Promise<void> {
   validateElementConfig(kind, updates.config);
 
   await db.runAsync(
-    `UPDATE elements SET name = ?, config_json = ? WHERE id = ?`,
+    `UPDATE elements SET name = ?, category = ?, config_json = ?, updated_at = ? WHERE id = ?`,
     updates.name,
+    updates.category,
     JSON.stringify(updates.config),
+    new Date().toISOString(),
     id,
   );
 }
 
+/** Move an element into a group, or out of any group with `null`. */
+export async function updateElementParent(
+  db: SQLiteDatabase,
+  id: string,
+  parentId: string | null,
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE elements SET parent_id = ?, updated_at = ? WHERE id = ?',
+    parentId,
+    new Date().toISOString(),
+    id,
+  );
+}
+
+/** Archive an element (`archivedAt` set) or restore it (`null`); events are untouched. */
+export async function updateElementArchived(
+  db: SQLiteDatabase,
+  id: string,
+  archivedAt: string | null,
+): Promise<void> {
+  await db.runAsync(
+    'UPDATE elements SET archived_at = ?, updated_at = ? WHERE id = ?',
+    archivedAt,
+    new Date().toISOString(),
+    id,
+  );
+}
+
+/** Ungroup every member of a group (before the group itself is deleted). */
+export async function clearElementParent(db: SQLiteDatabase, parentId: string): Promise<void> {
+  await db.runAsync(
+    'UPDATE elements SET parent_id = NULL, updated_at = ? WHERE parent_id = ?',
+    new Date().toISOString(),
+    parentId,
+  );
+}
+
+/** Overwrite every column with an incoming copy (merge import). */
+export async function replaceElement(
+  db: SQLiteDatabase,
+  element: ElementDefinition,
+): Promise<void> {
+  validateElementConfig(element.kind, element.config);
+
+  await db.runAsync(
+    `UPDATE elements
+     SET kind = ?, name = ?, category = ?, parent_id = ?, config_json = ?, created_at = ?, updated_at = ?,
+         archived_at = ?
+     WHERE id = ?`,
+    element.kind,
+    element.name,
+    element.category,
+    element.parentId ?? null,
+    JSON.stringify(element.config),
+    element.createdAt,
+    element.updatedAt,
+    element.archivedAt ?? null,
+    element.id,
+  );
+}
+
 export async function deleteElement(db: SQLiteDatabase, id: string): Promise<void> {
   await db.runAsync('DELETE FROM elements WHERE id = ?', id);
 }
@@ -9,6 +9,8 @@ interface EventRow {
   date: string;
   value: number;
   meta_json: string | null;
+  tz_offset_minutes: number | null;
+  time_zone: string | null;
   protocol_version: number;
 }
 
@@ -20,10 +22,25 @@ function rowToEvent(row: EventRow): LifeEvent {
     date: row.date,
     value: row.value,
     meta: row.meta_json ? (JSON.parse(row.meta_json) as Record<string, unknown>) : undefined,
+    ...(row.tz_offset_minutes !== null ? { tzOffsetMinutes: row.tz_offset_minutes } : {}),
+    ...(row.time_zone ? { timeZone: row.time_zone } : {}),
     protocolVersion: PROTOCOL_VERSION,
   };
 }
 
+export async function getEventsForElementOnDate(
+  db: SQLiteDatabase,
+  elementId: string,
+  date: string,
+): Promise<LifeEvent[]> {
+  const rows = await db.getAllAsync<EventRow>(
+    'SELECT * FROM events WHERE element_id = ? AND date = ? ORDER BY timestamp ASC',
+    elementId,
+    date,
+  );
+  return rows.map(rowToEvent);
+}
+
 export async function deleteEventsForElementOnDate(
   db: SQLiteDatabase,
   elementId: string,
@@ -36,6 +53,10 @@ export async function deleteEventsForElementOnDate(
   );
 }
 
+export async function deleteEvent(db: SQLiteDatabase, id: string): Promise<void> {
+  await db.runAsync('DELETE FROM events WHERE id = ?', id);
+}
+
 export async function getDailyTotalsByElement(
   db: SQLiteDatabase,
   elementId: string,
@@ -72,14 +93,16 @@ export async function getCompletedElementIdsOnDate(
 
 export async function insertEvent(db: SQLiteDatabase, event: LifeEvent): Promise<void> {
   await db.runAsync(
-    `INSERT INTO events (id, element_id, timestamp, date, value, meta_json, protocol_version)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO events (id, element_id, timestamp, date, value, meta_json, tz_offset_minutes, time_zone, protocol_version)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     event.id,
     event.elementId,
     event.timestamp,
     event.date,
     event.value,
     event.meta ? JSON.stringify(event.meta) : null,
+    event.tzOffsetMinutes ?? null,
+    event.timeZone ?? null,
     event.protocolVersion,
   );
 }
@@ -104,6 +127,57 @@ export async function getAllEvents(db: SQLiteDatabase): Promise<LifeEvent[]> {
   return rows.map(rowToEvent);
 }
 
+export async function getEventsForElement(
+  db: SQLiteDatabase,
+  elementId: string,
+): Promise<LifeEvent[]> {
+  const rows = await db.getAllAsync<EventRow>(
+    'SELECT * FROM events WHERE element_id = ? ORDER BY timestamp ASC',
+    elementId,
+  );
+  return rows.map(rowToEvent);
+}
+
+export async function getEventsForElementSince(
+  db: SQLiteDatabase,
+  elementId: string,
+  sinceDate: string,
+): Promise<LifeEvent[]> {
+  const rows = await db.getAllAsync<EventRow>(
+    'SELECT * FROM events WHERE element_id = ? AND date >= ? ORDER BY timestamp ASC',
+    elementId,
+    sinceDate,
+  );
+  return rows.map(rowToEvent);
+}
+
+export async function getLatestEvent(
+  db: SQLiteDatabase,
+  elementId: string,
+): Promise<LifeEvent | null> {
+  const row = await db.getFirstAsync<EventRow>(
+    'SELECT * FROM events WHERE element_id = ? ORDER BY timestamp DESC LIMIT 1',
+    elementId,
+  );
+  return row ? rowToEvent(row) : null;
+}
+
+export async function getEventTimestamps(
+  db: SQLiteDatabase,
+): Promise<{ id: string; timestamp: string; date: string }[]> {
+  return db.getAllAsync<{ id: string; timestamp: string; date: string }>(
+    'SELECT id, timestamp, date FROM events',
+  );
+}
+
+export async function updateEventDate(
+  db: SQLiteDatabase,
+  id: string,
+  date: string,
+): Promise<void> {
+  await db.runAsync('UPDATE events SET date = ? WHERE id = ?', date, id);
+}
+
 export async function deleteAllEvents(db: SQLiteDatabase): Promise<void> {
   await db.runAsync('DELETE FROM events');
 }
@@ -0,0 +1,51 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { PausePeriod } from '../../protocol';
+
+interface PausePeriodRow {
+  id: string;
+  start_date: string;
+  end_date: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+function rowToPausePeriod(row: PausePeriodRow): PausePeriod {
+  return {
+    id: row.id,
+    startDate: row.start_date,
+    endDate: row.end_date ?? undefined,
+    reason: row.reason ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getPausePeriods(db: SQLiteDatabase): Promise<PausePeriod[]> {
+  const rows = await db.getAllAsync<PausePeriodRow>(
+    'SELECT * FROM pause_periods ORDER BY start_date ASC',
+  );
+  return rows.map(rowToPausePeriod);
+}
+
+export async function insertPausePeriod(db: SQLiteDatabase, period: PausePeriod): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO pause_periods (id, start_date, end_date, reason, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    period.id,
+    period.startDate,
+    period.endDate ?? null,
+    period.reason ?? null,
+    period.createdAt,
+  );
+}
+
+export async function updatePausePeriodEnd(
+  db: SQLiteDatabase,
+  id: string,
+  endDate: string,
+): Promise<void> {
+  await db.runAsync('UPDATE pause_periods SET end_date = ? WHERE id = ?', endDate, id);
+}
+
+export async function deletePausePeriod(db: SQLiteDatabase, id: string): Promise<void> {
+  await db.runAsync('DELETE FROM pause_periods WHERE id = ?', id);
+}
@@ -1,5 +1,8 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 
+/** JSON array of the user's custom categories; bundles carry it too. */
+export const CUSTOM_CATEGORIES_KEY = 'custom_categories';
+
 export async function getSetting(
   db: SQLiteDatabase,
   key: string,
@@ -16,7 +16,9 @@ CREATE TABLE IF NOT EXISTS elements (
   parent_id TEXT,
   config_json TEXT NOT NULL,
   protocol_version INTEGER NOT NULL,
-  created_at TEXT NOT NULL
+  created_at TEXT NOT NULL,
+  updated_at TEXT,
+  archived_at TEXT
 );
 
 CREATE TABLE IF NOT EXISTS dashboard_items (
@@ -34,6 +36,8 @@ CREATE TABLE IF NOT EXISTS events (
   date TEXT NOT NULL,
   value REAL NOT NULL,
   meta_json TEXT,
+  tz_offset_minutes INTEGER,
+  time_zone TEXT,
   protocol_version INTEGER NOT NULL,
   FOREIGN KEY (element_id) REFERENCES elements(id) ON DELETE CASCADE
 );
@@ -45,4 +49,12 @@ CREATE TABLE IF NOT EXISTS app_settings (
   key TEXT PRIMARY KEY NOT NULL,
   value TEXT NOT NULL
 );
+
+CREATE TABLE IF NOT EXISTS pause_periods (
+  id TEXT PRIMARY KEY NOT NULL,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
 `;
@@ -1,12 +1,20 @@
 import { useEffect } from 'react';
+import { ensureDailySnapshot } from '../backup/snapshots';
 import { useElementStore } from '../store/elementStore';
+import { useEventStore } from '../store/eventStore';
+import { usePauseStore } from '../store/pauseStore';
 import { useSettingsStore } from '../store/settingsStore';
 
-/** Loads persisted settings and elements once at app start. */
+/**
+ * Loads persisted settings, pauses, elements and running timers once at app start, then
+ * takes the day's automatic snapshot.
+ */
 export function useAppBootstrap(): void {
   const settingsLoaded = useSettingsStore((s) => s.isLoaded);
   const loadSettings = useSettingsStore((s) => s.load);
+  const loadPauses = usePauseStore((s) => s.load);
   const loadElements = useElementStore((s) => s.load);
+  const restoreTimerSessions = useEventStore((s) => s.restoreTimerSessions);
 
   useEffect(() => {
     void loadSettings();
@@ -14,6 +22,15 @@ export function useAppBootstrap(): void {
 
   useEffect(() => {
     if (!settingsLoaded) return;
-    void loadElements();
-  }, [loadElements, settingsLoaded]);
+    void (async () => {
+      await loadPauses();
+      await loadElements();
+      await restoreTimerSessions();
+      try {
+        await ensureDailySnapshot();
+      } catch (error) {
+        console.warn('Daily snapshot skipped', error);
+      }
+    })();
+  }, [loadElements, loadPauses, restoreTimerSessions, settingsLoaded]);
 }
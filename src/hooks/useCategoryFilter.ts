@@ -0,0 +1,44 @@
+import { useCallback, useMemo } from 'react';
+import {
+  filterByCategory,
+  usedCategories,
+  type CategoryDefinition,
+  type ElementDefinition,
+} from '../protocol';
+import { useSettingsStore } from '../store/settingsStore';
+
+export interface CategoryFilterContext {
+  /** Categories used by the given elements, for the filter chips. */
+  categories: CategoryDefinition[];
+  /** The saved filter, or null when it matches none of `categories`. */
+  selected: string | null;
+  select: (categoryId: string | null) => void;
+  apply: <T extends Pick<ElementDefinition, 'category'>>(elements: T[]) => T[];
+}
+
+/** Shared category filter; a filter for a category with no elements here shows everything. */
+export function useCategoryFilter(
+  elements: Pick<ElementDefinition, 'category'>[],
+): CategoryFilterContext {
+  const customCategories = useSettingsStore((s) => s.customCategories);
+  const categoryFilter = useSettingsStore((s) => s.categoryFilter);
+  const setCategoryFilter = useSettingsStore((s) => s.setCategoryFilter);
+
+  const categories = useMemo(
+    () => usedCategories(elements, customCategories),
+    [customCategories, elements],
+  );
+  const selected = categories.some((c) => c.id === categoryFilter) ? categoryFilter : null;
+
+  const select = useCallback(
+    (categoryId: string | null) => void setCategoryFilter(categoryId),
+    [setCategoryFilter],
+  );
+  const apply = useCallback(
+    <T extends Pick<ElementDefinition, 'category'>>(items: T[]) =>
+      filterByCategory(items, selected, customCategories),
+    [customCategories, selected],
+  );
+
+  return { categories, selected, select, apply };
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect } from 'react';
+import { Vibration } from 'react-native';
+import { playHabitCue, stopLoopingHabitSound } from '../audio/habitTimerSound';
+import {
+  countdownEndTime,
+  HabitConfigSchema,
+  intervalProgramPhases,
+  timerSessionTimeAtActiveSeconds,
+  type HabitConfig,
+} from '../protocol';
+import { syncCountdownAlarms, type CountdownAlarm } from '../notifications/habitReminders';
+import { useElementStore } from '../store/elementStore';
+import { useEventStore } from '../store/eventStore';
+import { useSoundLibraryStore } from '../store/soundLibraryStore';
+
+/**
+ * Stops countdown and interval timers at zero (logging the exact end time, even if
+ * the app was closed), cues interval phase changes, and keeps a notification
+ * scheduled for when each running one ends.
+ */
+export function useCountdownTimers(): void {
+  const elements = useElementStore((s) => s.elements);
+  const elementsError = useElementStore((s) => s.error);
+  const restored = useEventStore((s) => s.timerSessionsRestored);
+  const activeTimerSessions = useEventStore((s) => s.activeTimerSessions);
+  const stopHabitTimer = useEventStore((s) => s.stopHabitTimer);
+  const getSoundById = useSoundLibraryStore((s) => s.getById);
+
+  const playPhaseCue = useCallback(
+    (config: HabitConfig) => {
+      const cue = getSoundById(config.cueSoundId);
+      if (cue?.source !== 'file') {
+        Vibration.vibrate([0, 200, 100, 200]);
+        return;
+      }
+      playHabitCue(cue.uri).catch(() => {
+        // The file may have been removed; fall back to a buzz.
+        Vibration.vibrate([0, 200, 100, 200]);
+      });
+    },
+    [getSoundById],
+  );
+
+  useEffect(() => {
+    if (!restored || elementsError) return;
+
+    const alarms: CountdownAlarm[] = [];
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    for (const [elementId, session] of Object.entries(activeTimerSessions)) {
+      const endsAt = countdownEndTime(session);
+      const element = elements.find((e) => e.id === elementId && e.kind === 'habit');
+      if (!endsAt || !element) continue;
+
+      const config = HabitConfigSchema.parse(element.config);
+      const delayMs = Math.max(0, endsAt.getTime() - Date.now());
+      const finish = () => {
+        if (delayMs > 0) {
+          Vibration.vibrate();
+        }
+        void (async () => {
+          await stopLoopingHabitSound();
+          await stopHabitTimer(elementId, config, endsAt);
+        })().catch((error) => {
+          console.warn('Countdown stop failed', error);
+        });
+      };
+
+      alarms.push({ elementId, name: element.name, endsAt });
+      timeouts.push(setTimeout(finish, delayMs));
+
+      const phases = session.intervalProgram ? intervalProgramPhases(session.intervalProgram) : [];
+      for (const phase of phases.slice(1)) {
+        const at = timerSessionTimeAtActiveSeconds(session, phase.startSeconds);
+        const cueDelayMs = at ? at.getTime() - Date.now() : -1;
+        if (cueDelayMs > 0) {
+          timeouts.push(setTimeout(() => playPhaseCue(config), cueDelayMs));
+        }
+      }
+    }
+
+    syncCountdownAlarms(alarms).catch((error) => {
+      console.warn('Countdown alarm sync skipped', error);
+    });
+
+    return () => timeouts.forEach((timeout) => clearTimeout(timeout));
+  }, [activeTimerSessions, elements, elementsError, playPhaseCue, restored, stopHabitTimer]);
+}
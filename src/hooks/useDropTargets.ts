@@ -0,0 +1,43 @@
+import { useCallback, useRef } from 'react';
+import type { View } from 'react-native';
+import type { DragPoint } from '../components/DragHandle';
+import { findDropTarget, type DropTargetRect } from '../utils/dropTargets';
+
+export interface DropTargets<K> {
+  /** Callback ref for the view that accepts drops for `key`. */
+  register: (key: K) => (view: View | null) => void;
+  /** Re-read every target's window position; call when a drag starts. */
+  measure: () => void;
+  hitTest: (point: DragPoint) => K | undefined;
+}
+
+/** Window-space drop targets for a `DragHandle`, measured once per drag. */
+export function useDropTargets<K>(): DropTargets<K> {
+  const views = useRef(new Map<K, View>());
+  const rects = useRef(new Map<K, DropTargetRect>());
+
+  const register = useCallback(
+    (key: K) => (view: View | null) => {
+      // Callback refs re-run on every render; keep the measured rect until the next `measure`.
+      if (view) {
+        views.current.set(key, view);
+      } else {
+        views.current.delete(key);
+      }
+    },
+    [],
+  );
+
+  const measure = useCallback(() => {
+    rects.current.clear();
+    views.current.forEach((view, key) => {
+      view.measureInWindow((x, y, width, height) => {
+        rects.current.set(key, { x, y, width, height });
+      });
+    });
+  }, []);
+
+  const hitTest = useCallback((point: DragPoint) => findDropTarget(rects.current, point), []);
+
+  return { register, measure, hitTest };
+}
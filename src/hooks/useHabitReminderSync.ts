@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { HabitConfigSchema, isHabitDueToday, toDateString } from '../protocol';
+import { activeElements, HabitConfigSchema, isHabitDueToday } from '../protocol';
 import {
   isNotificationsNativeAvailable,
   scheduleEndOfDayReminder,
@@ -7,30 +7,39 @@ import {
 } from '../notifications/habitReminders';
 import { useElementStore } from '../store/elementStore';
 import { habitStreakInputsFromElements, useEventStore } from '../store/eventStore';
+import { usePauseStore } from '../store/pauseStore';
 import { useSettingsStore } from '../store/settingsStore';
+import { todayDate } from '../utils/dates';
 
 export function useHabitReminderSync(): void {
   const elements = useElementStore((s) => s.elements);
   const habitRemindersEnabled = useSettingsStore((s) => s.habitRemindersEnabled);
   const settingsLoaded = useSettingsStore((s) => s.isLoaded);
   const habitDoneToday = useEventStore((s) => s.habitDoneToday);
+  const habitPeriodDates = useEventStore((s) => s.habitPeriodDates);
+  const habitSkippedToday = useEventStore((s) => s.habitSkippedToday);
   const loadHabitDayState = useEventStore((s) => s.loadHabitDayState);
+  const pausePeriods = usePauseStore((s) => s.periods);
 
   useEffect(() => {
     if (!settingsLoaded) return;
 
-    const habitElements = elements.filter((element) => element.kind === 'habit');
+    // Archived habits stay quiet until restored.
+    const remindable = activeElements(elements);
+    const habitElements = remindable.filter((element) => element.kind === 'habit');
     const inputs = habitStreakInputsFromElements(habitElements);
     if (inputs.length > 0) {
       void loadHabitDayState(inputs);
     }
 
     const now = new Date();
-    const today = toDateString(now);
+    const today = todayDate(now);
     const undoneCount = habitElements.filter((habit) => {
       const config = HabitConfigSchema.parse(habit.config);
-      if (!isHabitDueToday(config, { now, today })) return false;
-      return !(habitDoneToday[habit.id] ?? false);
+      if (!isHabitDueToday(config, { now, today, pausePeriods }, habitPeriodDates[habit.id])) {
+        return false;
+      }
+      return !(habitDoneToday[habit.id] ?? false) && !(habitSkippedToday[habit.id] ?? false);
     }).length;
 
     if (!habitRemindersEnabled || !isNotificationsNativeAvailable()) {
@@ -39,11 +48,20 @@ export function useHabitReminderSync(): void {
 
     void (async () => {
       try {
-        await syncHabitReminders(elements, habitRemindersEnabled);
-        await scheduleEndOfDayReminder(habitRemindersEnabled, undoneCount);
+        await syncHabitReminders(remindable, habitRemindersEnabled, pausePeriods);
+        await scheduleEndOfDayReminder(habitRemindersEnabled, undoneCount, pausePeriods);
       } catch (error) {
         console.warn('Habit reminder sync skipped', error);
       }
     })();
-  }, [elements, habitDoneToday, habitRemindersEnabled, loadHabitDayState, settingsLoaded]);
+  }, [
+    elements,
+    habitDoneToday,
+    habitPeriodDates,
+    habitRemindersEnabled,
+    habitSkippedToday,
+    loadHabitDayState,
+    pausePeriods,
+    settingsLoaded,
+  ]);
 }
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+import {
+  activeTimerElapsedSeconds,
+  formatHabitTimerDuration,
+  HabitConfigSchema,
+  isTimerSessionStale,
+  trimmedTimerSessionEnd,
+} from '../protocol';
+import { useElementStore } from '../store/elementStore';
+import { useEventStore } from '../store/eventStore';
+
+/**
+ * After restart, drops timers whose habit is gone and asks what to do with
+ * sessions that have been running implausibly long.
+ */
+export function useTimerSessionRecovery(): void {
+  const elements = useElementStore((s) => s.elements);
+  const elementsError = useElementStore((s) => s.error);
+  const restored = useEventStore((s) => s.timerSessionsRestored);
+  const activeTimerSessions = useEventStore((s) => s.activeTimerSessions);
+  const stopHabitTimer = useEventStore((s) => s.stopHabitTimer);
+  const discardHabitTimer = useEventStore((s) => s.discardHabitTimer);
+  const prompted = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!restored || elementsError) return;
+
+    for (const [elementId, session] of Object.entries(activeTimerSessions)) {
+      const element = elements.find((e) => e.id === elementId && e.kind === 'habit');
+      const config = element ? HabitConfigSchema.parse(element.config) : null;
+      if (!element || !config || config.trackingMode !== 'timer') {
+        void discardHabitTimer(elementId);
+        continue;
+      }
+
+      // Countdowns stop themselves at zero (see useCountdownTimers).
+      if (
+        session.targetSeconds ||
+        prompted.current.has(elementId) ||
+        !isTimerSessionStale(session, config)
+      ) {
+        continue;
+      }
+      prompted.current.add(elementId);
+
+      const elapsed = formatHabitTimerDuration(activeTimerElapsedSeconds(session));
+      const trimEnd = trimmedTimerSessionEnd(session, config);
+      const trimLength = formatHabitTimerDuration(
+        activeTimerElapsedSeconds(session, trimEnd.getTime()),
+      );
+
+      Alert.alert(
+        'Timer still running',
+        `You left "${element.name}" running for ${elapsed}. Keep it, trim it to ${trimLength}, or discard it?`,
+        [
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => void discardHabitTimer(elementId),
+          },
+          {
+            text: `Trim to ${trimLength}`,
+            onPress: () => void stopHabitTimer(elementId, config, trimEnd),
+          },
+          { text: 'Keep', style: 'cancel' },
+        ],
+      );
+    }
+  }, [activeTimerSessions, discardHabitTimer, elements, elementsError, restored, stopHabitTimer]);
+}
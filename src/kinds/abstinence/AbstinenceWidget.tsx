@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, View } from 'react-native';
+import { Button, Card, Text, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  abstinenceCleanSince,
+  formatElapsed,
+  type AbstinenceConfig,
+} from '../../protocol';
+import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
+
+export function AbstinenceWidget({
+  element,
+  config,
+  todayTotal,
+  latestEvent,
+  onLog,
+  onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
+}: WidgetProps<AbstinenceConfig>) {
+  const theme = useTheme();
+  const { decorations: deco, isCartoon } = useAppTheme();
+  const [now, setNow] = useState(() => new Date());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const cleanSince = abstinenceCleanSince(config, element.createdAt, latestEvent);
+  const elapsed = formatElapsed(now.getTime() - cleanSince.getTime());
+
+  const logRelapse = async () => {
+    setSaving(true);
+    try {
+      await onLog(1, { source: 'relapse' });
+    } catch (error) {
+      Alert.alert('Could not log', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRelapse = () => {
+    Alert.alert('Log relapse', `Reset the clean timer for "${element.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Log relapse', style: 'destructive', onPress: () => void logRelapse() },
+    ]);
+  };
+
+  return (
+    <Card
+      onLongPress={onLongPress}
+      style={[
+        styles.card,
+        {
+          borderRadius: deco.radius.md,
+          borderWidth: isCartoon ? deco.cardBorderWidth : 0,
+          borderColor: theme.colors.outline,
+          backgroundColor: theme.colors.surface,
+        },
+        widgetAccentStyle(accentColor),
+      ]}
+    >
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <Pressable
+            onPress={onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
+            style={({ pressed }) => [styles.namePress, pressed && onOpenDetails && styles.namePressed]}
+          >
+            <Text
+              variant="titleSmall"
+              numberOfLines={1}
+              style={[styles.name, isCartoon && { color: theme.colors.onSurface }]}
+            >
+              {element.name}
+            </Text>
+            {compact ? null : (
+              <Text variant="bodySmall" style={styles.caption}>
+                {todayTotal > 0
+                  ? `${todayTotal} relapse${todayTotal === 1 ? '' : 's'} today`
+                  : latestEvent
+                    ? 'Since last relapse'
+                    : 'Since quit date'}
+              </Text>
+            )}
+          </Pressable>
+          <Button
+            mode="outlined"
+            compact
+            onPress={confirmRelapse}
+            loading={saving}
+            disabled={saving}
+            textColor={theme.colors.error}
+            style={[styles.relapseButton, { borderRadius: deco.buttonRadius }]}
+          >
+            Relapse
+          </Button>
+        </View>
+
+        <Text
+          variant={compact ? 'titleMedium' : 'headlineSmall'}
+          style={[
+            styles.elapsed,
+            { color: isCartoon ? theme.colors.onSecondaryContainer : theme.colors.primary },
+          ]}
+          accessibilityLabel={`${element.name}: ${elapsed} clean`}
+        >
+          {elapsed}
+        </Text>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 6,
+  },
+  cardContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 4,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  name: {
+    fontWeight: '700',
+  },
+  namePress: {
+    flex: 1,
+    minWidth: 0,
+  },
+  namePressed: {
+    opacity: 0.7,
+  },
+  caption: {
+    marginTop: 2,
+    opacity: 0.6,
+  },
+  relapseButton: {
+    margin: 0,
+  },
+  elapsed: {
+    fontVariant: ['tabular-nums'],
+    fontWeight: '700',
+  },
+});
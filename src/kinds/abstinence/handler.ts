@@ -0,0 +1,15 @@
+import type { AbstinenceConfig } from '../../protocol';
+import { DEFAULT_ABSTINENCE_CONFIG } from '../../protocol';
+import type { KindHandler } from '../types';
+import { AbstinenceWidget } from './AbstinenceWidget';
+
+function sumValues(events: { value: number }[]): number {
+  return events.reduce((sum, e) => sum + e.value, 0);
+}
+
+export const abstinenceHandler: KindHandler<AbstinenceConfig> = {
+  kind: 'abstinence',
+  defaultConfig: DEFAULT_ABSTINENCE_CONFIG,
+  aggregateDaily: sumValues,
+  DashboardWidget: AbstinenceWidget,
+};
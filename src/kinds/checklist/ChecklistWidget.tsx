@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Card, Checkbox, IconButton, ProgressBar, Text, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  checklistRequiredCount,
+  formatChecklistProgress,
+  type ChecklistConfig,
+} from '../../protocol';
+import { getCounterProgressBarColors } from '../../utils/color';
+import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
+
+export function ChecklistWidget({
+  element,
+  config,
+  isDone,
+  streak,
+  checkedItemIds = [],
+  onToggleItem,
+  onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
+}: WidgetProps<ChecklistConfig>) {
+  const theme = useTheme();
+  const { themeMode, decorations: deco, isCartoon } = useAppTheme();
+  const [expanded, setExpanded] = useState(!isDone && !compact);
+  const checked = new Set(checkedItemIds);
+  const progress = Math.min(1, checked.size / checklistRequiredCount(config));
+  const progressBarColors = getCounterProgressBarColors(themeMode);
+
+  return (
+    <Card
+      onLongPress={onLongPress}
+      style={[
+        styles.card,
+        {
+          borderRadius: deco.radius.md,
+          borderWidth: isCartoon ? deco.cardBorderWidth : deco.borderWidth,
+          borderColor: isCartoon ? theme.colors.outline : theme.colors.outlineVariant,
+          backgroundColor: isCartoon ? theme.colors.surface : theme.colors.surfaceVariant,
+          opacity: isDone && !expanded ? 0.65 : 1,
+        },
+        widgetAccentStyle(accentColor),
+      ]}
+    >
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.header}>
+          <Pressable
+            onPress={onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
+            style={({ pressed }) => [styles.title, pressed && onOpenDetails && styles.pressed]}
+          >
+            <Text
+              variant="titleSmall"
+              numberOfLines={1}
+              style={[styles.name, isCartoon && { color: theme.colors.onSurface }]}
+            >
+              {element.name}
+            </Text>
+            <Text variant="bodySmall" style={styles.progressText}>
+              {formatChecklistProgress(checked.size, config)}
+              {streak && streak > 0 ? ` · ${streak} day${streak === 1 ? '' : 's'}` : ''}
+            </Text>
+          </Pressable>
+          <IconButton
+            icon={expanded ? 'chevron-up' : 'chevron-down'}
+            onPress={() => setExpanded((value) => !value)}
+            accessibilityLabel={expanded ? `Collapse ${element.name}` : `Expand ${element.name}`}
+            style={styles.expandButton}
+          />
+        </View>
+
+        <ProgressBar
+          progress={progress}
+          color={isDone ? progressBarColors.complete : progressBarColors.active}
+          style={{ height: deco.progressHeight, borderRadius: deco.progressHeight / 2 }}
+        />
+
+        {expanded
+          ? config.items.map((item) => {
+              const isChecked = checked.has(item.id);
+              return (
+                <Pressable
+                  key={item.id}
+                  onPress={() => void onToggleItem?.(item.id)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isChecked }}
+                  style={({ pressed }) => [styles.itemRow, pressed && styles.pressed]}
+                >
+                  <Checkbox
+                    status={isChecked ? 'checked' : 'unchecked'}
+                    onPress={() => void onToggleItem?.(item.id)}
+                  />
+                  <Text
+                    variant="bodyMedium"
+                    style={[styles.itemLabel, isChecked && styles.itemChecked]}
+                  >
+                    {item.label}
+                  </Text>
+                </Pressable>
+              );
+            })
+          : null}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 6,
+  },
+  cardContent: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    minWidth: 0,
+    paddingLeft: 8,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  name: {
+    fontWeight: '700',
+  },
+  progressText: {
+    marginTop: 2,
+    opacity: 0.6,
+  },
+  expandButton: {
+    margin: 0,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemLabel: {
+    flex: 1,
+  },
+  itemChecked: {
+    opacity: 0.6,
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,15 @@
+import type { ChecklistConfig } from '../../protocol';
+import { DEFAULT_CHECKLIST_CONFIG } from '../../protocol';
+import type { KindHandler } from '../types';
+import { ChecklistWidget } from './ChecklistWidget';
+
+function sumValues(events: { value: number }[]): number {
+  return events.reduce((sum, e) => sum + e.value, 0);
+}
+
+export const checklistHandler: KindHandler<ChecklistConfig> = {
+  kind: 'checklist',
+  defaultConfig: DEFAULT_CHECKLIST_CONFIG,
+  aggregateDaily: sumValues,
+  DashboardWidget: ChecklistWidget,
+};
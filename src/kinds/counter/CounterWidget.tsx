@@ -19,6 +19,7 @@ import {
   lerpHex,
 } from '../../utils/color';
 import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
 
 export function CounterWidget({
   element,
@@ -28,6 +29,9 @@ export function CounterWidget({
   onLog,
   onSetDailyTotal,
   onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
 }: WidgetProps<CounterConfig>) {
   const theme = useTheme();
   const { themeMode, decorations: deco, isCartoon } = useAppTheme();
@@ -74,6 +78,7 @@ export function CounterWidget({
   return (
     <>
       <Card
+        onLongPress={onLongPress}
         style={[
           styles.card,
           {
@@ -82,13 +87,15 @@ export function CounterWidget({
             borderColor: theme.colors.outline,
             backgroundColor: cardBackground ?? theme.colors.surface,
           },
+          widgetAccentStyle(accentColor),
         ]}
       >
         <Card.Content style={styles.cardContent}>
           <View style={styles.headerRow}>
             <Pressable
               onPress={onOpenDetails}
-              disabled={!onOpenDetails}
+              onLongPress={onLongPress}
+              disabled={!onOpenDetails && !onLongPress}
               style={({ pressed }) => [
                 styles.namePress,
                 pressed && onOpenDetails && styles.namePressed,
@@ -138,7 +145,7 @@ export function CounterWidget({
                 onPress={() => void onLog(increment, { source: 'quick_button', increment })}
                 style={[styles.incButton, { borderRadius: deco.buttonRadius }]}
                 labelStyle={styles.incLabel}
-                contentStyle={styles.incContent}
+                contentStyle={[styles.incContent, compact && styles.incContentCompact]}
                 buttonColor={isCartoon ? theme.colors.primary : undefined}
               >
                 +{increment}
@@ -146,7 +153,7 @@ export function CounterWidget({
             ))}
           </View>
 
-          {hasTarget ? (
+          {hasTarget && !compact ? (
             <ProgressBar
               progress={progress}
               color={isComplete ? progressBarColors.complete : progressBarColors.active}
@@ -236,6 +243,9 @@ const styles = StyleSheet.create({
     minHeight: 40,
     paddingHorizontal: 4,
   },
+  incContentCompact: {
+    minHeight: 32,
+  },
   incLabel: {
     fontSize: 14,
     fontWeight: '700',
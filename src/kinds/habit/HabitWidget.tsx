@@ -3,10 +3,18 @@ import { Pressable, StyleSheet, View } from 'react-native';
 import { Button, Card, Checkbox, ProgressBar, Text, useTheme } from 'react-native-paper';
 import { useAppTheme } from '../../hooks/useAppTheme';
 import {
+  activeTimerElapsedSeconds,
   formatHabitDescription,
+  formatHabitStreak,
   formatHabitTimerDuration,
+  formatQuotaProgress,
+  formatIntervalProgram,
+  INTERVAL_PHASE_LABELS,
+  intervalPositionAt,
   isHabitDayComplete,
+  isTimerSessionPaused,
   liveTimerTotalSeconds,
+  timerSessionRemainingSeconds,
   type HabitConfig,
 } from '../../protocol';
 import {
@@ -15,6 +23,7 @@ import {
   lerpHex,
 } from '../../utils/color';
 import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
 
 function BooleanHabitWidget({
   element,
@@ -22,14 +31,27 @@ function BooleanHabitWidget({
   isDone,
   onToggle,
   onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
   streak,
+  periodCompletions,
+  isSkipped,
 }: WidgetProps<HabitConfig>) {
   const theme = useTheme();
   const { decorations: deco, isCartoon } = useAppTheme();
-  const description = formatHabitDescription(config);
+  const showSkipped = isSkipped && !isDone;
+  const description = [
+    showSkipped ? 'Skipped today' : undefined,
+    formatQuotaProgress(config, periodCompletions ?? 0),
+    formatHabitDescription(config),
+  ]
+    .filter(Boolean)
+    .join(' · ');
 
   return (
     <Card
+      onLongPress={onLongPress}
       style={[
         styles.card,
         {
@@ -37,8 +59,9 @@ function BooleanHabitWidget({
           borderWidth: isCartoon ? deco.cardBorderWidth : deco.borderWidth,
           borderColor: isCartoon ? theme.colors.outline : theme.colors.outlineVariant,
           backgroundColor: isCartoon ? theme.colors.surface : theme.colors.surfaceVariant,
-          opacity: isDone ? 0.65 : 1,
+          opacity: isDone || showSkipped ? 0.65 : 1,
         },
+        widgetAccentStyle(accentColor),
       ]}
     >
       <Card.Content style={styles.cardContent}>
@@ -49,7 +72,8 @@ function BooleanHabitWidget({
           />
           <Pressable
             onPress={onOpenDetails}
-            disabled={!onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
             style={({ pressed }) => [
               styles.body,
               pressed && onOpenDetails && styles.pressed,
@@ -65,11 +89,11 @@ function BooleanHabitWidget({
               </Text>
               {streak && streak > 0 ? (
                 <Text variant="labelSmall" style={styles.streak}>
-                  {streak} day{streak === 1 ? '' : 's'}
+                  {formatHabitStreak(config, streak)}
                 </Text>
               ) : null}
             </View>
-            {description ? (
+            {description && !compact ? (
               <Text variant="bodySmall" style={styles.description} numberOfLines={1}>
                 {description}
               </Text>
@@ -86,23 +110,33 @@ function TimerHabitWidget({
   config,
   todayTotal,
   streak,
+  periodCompletions,
+  isSkipped,
   activeTimerSession,
   onStartTimer,
+  onPauseTimer,
+  onResumeTimer,
   onStopTimer,
   onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
 }: WidgetProps<HabitConfig>) {
   const theme = useTheme();
   const { themeMode, decorations: deco, isCartoon } = useAppTheme();
   const [, setTick] = useState(0);
-  const isRunning = Boolean(activeTimerSession);
+  const hasSession = Boolean(activeTimerSession);
+  const isPaused = activeTimerSession ? isTimerSessionPaused(activeTimerSession) : false;
+  const isRunning = hasSession && !isPaused;
   const dailyTarget = config.dailyTargetSeconds;
   const hasTarget = dailyTarget !== undefined && dailyTarget > 0;
+  const quotaProgress = formatQuotaProgress(config, periodCompletions ?? 0);
 
   useEffect(() => {
     if (!isRunning) return;
     const timer = setInterval(() => setTick((value) => value + 1), 1000);
     return () => clearInterval(timer);
-  }, [isRunning, activeTimerSession?.startedAt]);
+  }, [isRunning, activeTimerSession?.startedAt, activeTimerSession?.resumedAt]);
 
   const displayTotal = liveTimerTotalSeconds(todayTotal, activeTimerSession);
   const isComplete = isHabitDayComplete(displayTotal, config);
@@ -116,12 +150,26 @@ function TimerHabitWidget({
       ? theme.colors.surface
       : undefined;
 
-  const totalLabel = hasTarget
-    ? `${formatHabitTimerDuration(displayTotal)} / ${formatHabitTimerDuration(dailyTarget)}`
-    : formatHabitTimerDuration(displayTotal);
+  const program = activeTimerSession?.intervalProgram;
+  const position =
+    activeTimerSession && program
+      ? intervalPositionAt(program, activeTimerElapsedSeconds(activeTimerSession))
+      : null;
+  const remaining = activeTimerSession ? timerSessionRemainingSeconds(activeTimerSession) : null;
+  const phaseLabel = position
+    ? `${INTERVAL_PHASE_LABELS[position.phase.kind]} ${position.phase.round}/${program?.rounds}`
+    : null;
+  const totalLabel = position
+    ? `${phaseLabel} · ${formatHabitTimerDuration(position.remainingSeconds)}`
+    : remaining !== null
+      ? `${formatHabitTimerDuration(remaining)} left`
+      : hasTarget
+        ? `${formatHabitTimerDuration(displayTotal)} / ${formatHabitTimerDuration(dailyTarget)}`
+        : formatHabitTimerDuration(displayTotal);
 
   return (
     <Card
+      onLongPress={onLongPress}
       style={[
         styles.card,
         {
@@ -130,13 +178,15 @@ function TimerHabitWidget({
           borderColor: theme.colors.outline,
           backgroundColor: cardBackground ?? theme.colors.surface,
         },
+        widgetAccentStyle(accentColor),
       ]}
     >
       <Card.Content style={styles.cardContent}>
         <View style={styles.timerHeader}>
           <Pressable
             onPress={onOpenDetails}
-            disabled={!onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
             style={({ pressed }) => [
               styles.timerTitle,
               pressed && onOpenDetails && styles.pressed,
@@ -151,7 +201,25 @@ function TimerHabitWidget({
             </Text>
             {streak && streak > 0 ? (
               <Text variant="labelSmall" style={styles.streak}>
-                {streak} day{streak === 1 ? '' : 's'}
+                {formatHabitStreak(config, streak)}
+              </Text>
+            ) : null}
+            {quotaProgress ? (
+              <Text variant="labelSmall" style={styles.streak}>
+                {quotaProgress}
+              </Text>
+            ) : null}
+            {isPaused ? (
+              <Text
+                variant="labelSmall"
+                style={[styles.pausedLabel, { color: theme.colors.primary }]}
+              >
+                Paused
+              </Text>
+            ) : null}
+            {isSkipped && !isComplete && !hasSession ? (
+              <Text variant="labelSmall" style={styles.streak}>
+                Skipped today
               </Text>
             ) : null}
           </Pressable>
@@ -170,17 +238,49 @@ function TimerHabitWidget({
           </Text>
         </View>
 
-        <Button
-          mode="contained"
-          icon={isRunning ? 'stop' : config.soundId ? 'play-circle' : 'play'}
-          onPress={() => void (isRunning ? onStopTimer?.() : onStartTimer?.())}
-          style={[styles.timerButton, { borderRadius: deco.buttonRadius }]}
-          buttonColor={isCartoon ? theme.colors.primary : undefined}
-        >
-          {isRunning ? 'Stop' : 'Start'}
-        </Button>
+        {hasSession ? (
+          <View style={styles.timerActions}>
+            <Button
+              mode="outlined"
+              icon={isPaused ? 'play' : 'pause'}
+              onPress={() => void (isPaused ? onResumeTimer?.() : onPauseTimer?.())}
+              style={[styles.timerActionButton, { borderRadius: deco.buttonRadius }]}
+            >
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button
+              mode="contained"
+              icon="stop"
+              onPress={() => void onStopTimer?.()}
+              style={[styles.timerActionButton, { borderRadius: deco.buttonRadius }]}
+              buttonColor={isCartoon ? theme.colors.primary : undefined}
+            >
+              Stop
+            </Button>
+          </View>
+        ) : (
+          <Button
+            mode="contained"
+            icon={
+              config.intervalProgram
+                ? 'repeat'
+                : config.timerStyle === 'countdown'
+                ? 'timer-sand'
+                : config.soundId
+                  ? 'play-circle'
+                  : 'play'
+            }
+            onPress={() => void onStartTimer?.()}
+            style={[styles.timerButton, { borderRadius: deco.buttonRadius }]}
+            buttonColor={isCartoon ? theme.colors.primary : undefined}
+          >
+            {config.intervalProgram
+              ? `Start ${formatIntervalProgram(config.intervalProgram)}`
+              : 'Start'}
+          </Button>
+        )}
 
-        {hasTarget ? (
+        {hasTarget && !compact ? (
           <ProgressBar
             progress={progress}
             color={isComplete ? progressBarColors.complete : progressBarColors.active}
@@ -263,6 +363,17 @@ const styles = StyleSheet.create({
   timerButton: {
     marginTop: 0,
   },
+  timerActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  timerActionButton: {
+    flex: 1,
+  },
+  pausedLabel: {
+    marginTop: 2,
+    fontWeight: '700',
+  },
   progressBar: {
     marginTop: 0,
   },
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet, View } from 'react-native';
+import { Button, Card, Text, TextInput, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  formatMeasurement,
+  hasMeasurementTarget,
+  isMeasurementInTarget,
+  MeasurementEventMetaSchema,
+  type MeasurementConfig,
+} from '../../protocol';
+import { formatFullDate, todayDate } from '../../utils/dates';
+import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
+
+/** Accepts `72.4` or `72,4`; null unless a finite non-negative number. */
+function parseReading(raw: string): number | null {
+  const trimmed = raw.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+export function MeasurementWidget({
+  element,
+  config,
+  todayTotal,
+  latestEvent,
+  onLog,
+  onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
+}: WidgetProps<MeasurementConfig>) {
+  const theme = useTheme();
+  const { decorations: deco, isCartoon } = useAppTheme();
+  const [value, setValue] = useState('');
+  const [secondary, setSecondary] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const hasToday = latestEvent?.date === todayDate();
+  const latestSecondary = latestEvent
+    ? MeasurementEventMetaSchema.safeParse(latestEvent.meta ?? {}).data?.secondary
+    : undefined;
+  const outOfRange =
+    hasToday && hasMeasurementTarget(config) && !isMeasurementInTarget(todayTotal, config);
+  const todayText = hasToday
+    ? formatMeasurement(todayTotal, config, latestSecondary)
+    : `— ${config.unit}`;
+
+  const log = async () => {
+    const reading = parseReading(value);
+    const paired = config.secondaryLabel ? parseReading(secondary) : undefined;
+    if (reading === null || paired === null) {
+      Alert.alert('Invalid reading', 'Enter a number zero or greater.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onLog(reading, {
+        source: 'reading',
+        ...(paired !== undefined ? { secondary: paired } : {}),
+      });
+      setValue('');
+      setSecondary('');
+    } catch (error) {
+      Alert.alert('Could not log', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card
+      onLongPress={onLongPress}
+      style={[
+        styles.card,
+        {
+          borderRadius: deco.radius.md,
+          borderWidth: isCartoon ? deco.cardBorderWidth : 0,
+          borderColor: theme.colors.outline,
+          backgroundColor: theme.colors.surface,
+        },
+        widgetAccentStyle(accentColor),
+      ]}
+    >
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <Pressable
+            onPress={onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
+            style={({ pressed }) => [styles.namePress, pressed && onOpenDetails && styles.namePressed]}
+          >
+            <Text
+              variant="titleSmall"
+              numberOfLines={1}
+              style={[styles.name, isCartoon && { color: theme.colors.onSurface }]}
+            >
+              {element.name}
+            </Text>
+          </Pressable>
+          <Text
+            variant="bodyMedium"
+            numberOfLines={1}
+            style={[
+              styles.valueText,
+              {
+                color: outOfRange
+                  ? theme.colors.error
+                  : isCartoon
+                    ? theme.colors.onSecondaryContainer
+                    : theme.colors.onSurfaceVariant,
+              },
+            ]}
+          >
+            {todayText}
+          </Text>
+        </View>
+
+        {latestEvent && !hasToday && !compact ? (
+          <Text variant="bodySmall" style={styles.lastReading}>
+            Last: {formatMeasurement(latestEvent.value, config, latestSecondary)} on{' '}
+            {formatFullDate(latestEvent.date)}
+          </Text>
+        ) : null}
+
+        <View style={styles.entryRow}>
+          <TextInput
+            mode="outlined"
+            dense
+            placeholder={config.secondaryLabel ? 'Value' : config.unit}
+            value={value}
+            onChangeText={setValue}
+            keyboardType="decimal-pad"
+            style={styles.input}
+            accessibilityLabel={`${element.name} reading`}
+          />
+          {config.secondaryLabel ? (
+            <TextInput
+              mode="outlined"
+              dense
+              placeholder={config.secondaryLabel}
+              value={secondary}
+              onChangeText={setSecondary}
+              keyboardType="decimal-pad"
+              style={styles.input}
+              accessibilityLabel={`${element.name} ${config.secondaryLabel}`}
+            />
+          ) : null}
+          <Button
+            mode="contained"
+            onPress={() => void log()}
+            loading={saving}
+            disabled={saving || !value.trim()}
+            style={[styles.logButton, { borderRadius: deco.buttonRadius }]}
+            buttonColor={isCartoon ? theme.colors.primary : undefined}
+          >
+            Log
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 6,
+  },
+  cardContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  name: {
+    fontWeight: '700',
+  },
+  namePress: {
+    flex: 1,
+    minWidth: 0,
+  },
+  namePressed: {
+    opacity: 0.7,
+  },
+  valueText: {
+    fontVariant: ['tabular-nums'],
+    fontWeight: '600',
+  },
+  lastReading: {
+    opacity: 0.6,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  input: {
+    flex: 1,
+  },
+  logButton: {
+    margin: 0,
+  },
+});
@@ -0,0 +1,12 @@
+import type { MeasurementConfig } from '../../protocol';
+import { aggregateMeasurements, DEFAULT_MEASUREMENT_CONFIG } from '../../protocol';
+import type { KindHandler } from '../types';
+import { MeasurementWidget } from './MeasurementWidget';
+
+export const measurementHandler: KindHandler<MeasurementConfig> = {
+  kind: 'measurement',
+  defaultConfig: DEFAULT_MEASUREMENT_CONFIG,
+  aggregateDaily: (events, config = DEFAULT_MEASUREMENT_CONFIG) =>
+    aggregateMeasurements(events, config.aggregation) ?? 0,
+  DashboardWidget: MeasurementWidget,
+};
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet, View } from 'react-native';
+import { Button, Card, Text, TextInput, useTheme } from 'react-native-paper';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  formatRating,
+  ratingLabel,
+  ratingScale,
+  RatingEventMetaSchema,
+  type RatingConfig,
+} from '../../protocol';
+import { todayDate } from '../../utils/dates';
+import type { WidgetProps } from '../types';
+import { widgetAccentStyle } from '../widgetAccent';
+
+export function RatingWidget({
+  element,
+  config,
+  todayTotal,
+  latestEvent,
+  onLog,
+  onOpenDetails,
+  onLongPress,
+  accentColor,
+  compact,
+}: WidgetProps<RatingConfig>) {
+  const theme = useTheme();
+  const { decorations: deco, isCartoon } = useAppTheme();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const hasToday = latestEvent?.date === todayDate() && todayTotal > 0;
+  const latestNote = hasToday
+    ? RatingEventMetaSchema.safeParse(latestEvent?.meta ?? {}).data?.note
+    : undefined;
+
+  const log = async () => {
+    if (selected === null) return;
+    setSaving(true);
+    try {
+      const trimmed = note.trim();
+      await onLog(selected, { source: 'rating', ...(trimmed ? { note: trimmed } : {}) });
+      setSelected(null);
+      setNote('');
+    } catch (error) {
+      Alert.alert('Could not log', error instanceof Error ? error.message : 'Try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card
+      onLongPress={onLongPress}
+      style={[
+        styles.card,
+        {
+          borderRadius: deco.radius.md,
+          borderWidth: isCartoon ? deco.cardBorderWidth : 0,
+          borderColor: theme.colors.outline,
+          backgroundColor: theme.colors.surface,
+        },
+        widgetAccentStyle(accentColor),
+      ]}
+    >
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <Pressable
+            onPress={onOpenDetails}
+            onLongPress={onLongPress}
+            disabled={!onOpenDetails && !onLongPress}
+            style={({ pressed }) => [styles.namePress, pressed && onOpenDetails && styles.namePressed]}
+          >
+            <Text
+              variant="titleSmall"
+              numberOfLines={1}
+              style={[styles.name, isCartoon && { color: theme.colors.onSurface }]}
+            >
+              {element.name}
+            </Text>
+          </Pressable>
+          <Text
+            variant="bodyMedium"
+            numberOfLines={1}
+            style={[
+              styles.valueText,
+              {
+                color: isCartoon ? theme.colors.onSecondaryContainer : theme.colors.onSurfaceVariant,
+              },
+            ]}
+          >
+            {hasToday ? formatRating(todayTotal, config) : 'Not rated'}
+          </Text>
+        </View>
+
+        {latestNote && !compact ? (
+          <Text variant="bodySmall" style={styles.latestNote} numberOfLines={2}>
+            “{latestNote}”
+          </Text>
+        ) : null}
+
+        <View style={styles.scaleRow}>
+          {ratingScale(config).map((value) => {
+            const isSelected = selected === value;
+            const label = ratingLabel(value, config);
+            return (
+              <Pressable
+                key={value}
+                onPress={() => setSelected(isSelected ? null : value)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={label ? `${value} ${label}` : String(value)}
+                style={[
+                  styles.scaleButton,
+                  {
+                    borderRadius: deco.radius.sm,
+                    borderWidth: isCartoon ? deco.borderWidth : StyleSheet.hairlineWidth,
+                    borderColor: theme.colors.outline,
+                    backgroundColor: isSelected
+                      ? theme.colors.primaryContainer
+                      : theme.colors.surface,
+                  },
+                ]}
+              >
+                <Text variant="labelLarge">{value}</Text>
+                {label && !compact ? (
+                  <Text variant="labelSmall" numberOfLines={1}>
+                    {label}
+                  </Text>
+                ) : null}
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {selected !== null ? (
+          <View style={styles.entryRow}>
+            <TextInput
+              mode="outlined"
+              dense
+              placeholder="Note (optional)"
+              value={note}
+              onChangeText={setNote}
+              style={styles.input}
+              accessibilityLabel={`${element.name} note`}
+            />
+            <Button
+              mode="contained"
+              onPress={() => void log()}
+              loading={saving}
+              disabled={saving}
+              style={[styles.logButton, { borderRadius: deco.buttonRadius }]}
+              buttonColor={isCartoon ? theme.colors.primary : undefined}
+            >
+              Log
+            </Button>
+          </View>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 6,
+  },
+  cardContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  name: {
+    fontWeight: '700',
+  },
+  namePress: {
+    flex: 1,
+    minWidth: 0,
+  },
+  namePressed: {
+    opacity: 0.7,
+  },
+  valueText: {
+    fontVariant: ['tabular-nums'],
+    fontWeight: '600',
+  },
+  latestNote: {
+    opacity: 0.6,
+    fontStyle: 'italic',
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  scaleButton: {
+    minWidth: 36,
+    flexGrow: 1,
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 2,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  input: {
+    flex: 1,
+  },
+  logButton: {
+    margin: 0,
+  },
+});
@@ -0,0 +1,11 @@
+import type { RatingConfig } from '../../protocol';
+import { averageRating, DEFAULT_RATING_CONFIG } from '../../protocol';
+import type { KindHandler } from '../types';
+import { RatingWidget } from './RatingWidget';
+
+export const ratingHandler: KindHandler<RatingConfig> = {
+  kind: 'rating',
+  defaultConfig: DEFAULT_RATING_CONFIG,
+  aggregateDaily: averageRating,
+  DashboardWidget: RatingWidget,
+};
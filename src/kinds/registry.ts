@@ -1,8 +1,12 @@
 import type { CounterConfig } from '../protocol';
 import { DEFAULT_COUNTER_CONFIG } from '../protocol';
 import type { KindHandler, RegisteredKindHandler } from './types';
+import { abstinenceHandler } from './abstinence/handler';
+import { checklistHandler } from './checklist/handler';
 import { CounterWidget } from './counter/CounterWidget';
 import { habitHandler } from './habit/handler';
+import { measurementHandler } from './measurement/handler';
+import { ratingHandler } from './rating/handler';
 
 function sumValues(events: { value: number }[]): number {
   return events.reduce((sum, e) => sum + e.value, 0);
@@ -15,11 +19,21 @@ export const counterHandler: KindHandler<CounterConfig> = {
   DashboardWidget: CounterWidget,
 };
 
-export { habitHandler };
+export {
+  abstinenceHandler,
+  checklistHandler,
+  habitHandler,
+  measurementHandler,
+  ratingHandler,
+};
 
 const handlers = new Map<string, RegisteredKindHandler>([
   ['counter', counterHandler as unknown as RegisteredKindHandler],
   ['habit', habitHandler as unknown as RegisteredKindHandler],
+  ['measurement', measurementHandler as unknown as RegisteredKindHandler],
+  ['rating', ratingHandler as unknown as RegisteredKindHandler],
+  ['checklist', checklistHandler as unknown as RegisteredKindHandler],
+  ['abstinence', abstinenceHandler as unknown as RegisteredKindHandler],
 ]);
 
 export function getKindHandler(kind: string): RegisteredKindHandler | undefined {
@@ -1,26 +1,43 @@
 import type { ComponentType } from 'react';
-import type { ElementDefinition, ElementKind, LifeEvent } from '../protocol';
+import type { ActiveTimerSession, ElementDefinition, ElementKind, LifeEvent } from '../protocol';
 
 export interface WidgetProps<TConfig = Record<string, unknown>> {
   element: ElementDefinition;
   config: TConfig;
   todayTotal: number;
   yesterdayTotal?: number;
+  /** Most recent event on any day (measurements and ratings show it; abstinence times from it). */
+  latestEvent?: LifeEvent | null;
   onLog: (value: number, meta?: Record<string, unknown>) => Promise<void>;
   onSetDailyTotal?: (total: number) => Promise<void>;
   onOpenDetails?: () => void;
+  /** Opens the dashboard item's action menu. */
+  onLongPress?: () => void;
+  /** From the dashboard item's overrides; `element` and `config` arrive already merged. */
+  accentColor?: string;
+  compact?: boolean;
   isDone?: boolean;
   onToggle?: () => Promise<void>;
+  /** Checklists: step ids ticked today. */
+  checkedItemIds?: string[];
+  onToggleItem?: (itemId: string) => Promise<void>;
   streak?: number;
-  activeTimerSession?: { startedAt: string } | null;
+  /** Quota habits: days completed so far in the current week or month. */
+  periodCompletions?: number;
+  /** Habits: excused today with "Skip today". */
+  isSkipped?: boolean;
+  activeTimerSession?: ActiveTimerSession | null;
   onStartTimer?: () => void | Promise<void>;
+  onPauseTimer?: () => void | Promise<void>;
+  onResumeTimer?: () => void | Promise<void>;
   onStopTimer?: () => void | Promise<void>;
 }
 
 export interface KindHandler<TConfig = Record<string, unknown>> {
   kind: ElementKind;
   defaultConfig: TConfig;
-  aggregateDaily: (events: LifeEvent[]) => number;
+  /** Day value from that day's events; `config` matters for kinds that do not sum. */
+  aggregateDaily: (events: LifeEvent[], config?: TConfig) => number;
   DashboardWidget: ComponentType<WidgetProps<TConfig>>;
 }
 
@@ -0,0 +1,6 @@
+import type { ViewStyle } from 'react-native';
+
+/** Left stripe in the dashboard item's accent color; nothing when none is set. */
+export function widgetAccentStyle(accentColor?: string): ViewStyle | undefined {
+  return accentColor ? { borderLeftWidth: 4, borderLeftColor: accentColor } : undefined;
+}
@@ -8,6 +8,7 @@ import SettingsMenuScreen from '../screens/SettingsMenuScreen';
 import ElementsScreen from '../screens/ElementsScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import ElementHistoryScreen from '../screens/ElementHistoryScreen';
+import BackupScreen from '../screens/BackupScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -55,6 +56,11 @@ export default function AppNavigator() {
         component={SettingsScreen}
         options={{ title: 'App settings' }}
       />
+      <Stack.Screen
+        name="Backup"
+        component={BackupScreen}
+        options={{ title: 'Backup & restore' }}
+      />
       <Stack.Screen
         name="ElementHistory"
         component={ElementHistoryScreen}
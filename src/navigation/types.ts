@@ -3,5 +3,6 @@ export type RootStackParamList = {
   SettingsMenu: undefined;
   Elements: undefined;
   AppSettings: undefined;
+  Backup: undefined;
   ElementHistory: { elementId: string };
 };
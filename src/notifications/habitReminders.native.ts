@@ -1,11 +1,32 @@
 import { NativeModules } from 'react-native';
-import type { ElementDefinition, HabitConfig } from '../protocol';
-import { HabitConfigSchema } from '../protocol';
+import type { ElementDefinition, HabitConfig, PausePeriod } from '../protocol';
+import {
+  HabitConfigSchema,
+  hasHabitActiveWindow,
+  isDatePaused,
+  isHabitScheduledOnDate,
+  pausedDatesBetween,
+  shiftDateString,
+} from '../protocol';
 import { isScheduleSupportedForReminders, toExpoWeekday } from '../protocol/schedule';
+import { todayDate } from '../utils/dates';
 import { timeToMinutes } from '../utils/time';
 
 const REMINDER_PREFIX = 'habit-reminder-';
 const END_OF_DAY_REMINDER_ID = `${REMINDER_PREFIX}eod`;
+const COUNTDOWN_PREFIX = 'habit-countdown-';
+/**
+ * Habits with an active window, or every habit and the 8 PM reminder while a pause is
+ * coming up, get one-off reminders this many days ahead; resynced on launch.
+ */
+const WINDOWED_REMINDER_DAYS = 14;
+
+/** A running countdown that should alert when it reaches zero. */
+export interface CountdownAlarm {
+  elementId: string;
+  name: string;
+  endsAt: Date;
+}
 
 type NotificationsModule = typeof import('expo-notifications');
 
@@ -29,13 +50,17 @@ async function getNotifications(): Promise<NotificationsModule | null> {
   try {
     notificationsModule = await import('expo-notifications');
     notificationsModule.setNotificationHandler({
-      handleNotification: async () => ({
-        shouldShowAlert: true,
-        shouldPlaySound: true,
-        shouldSetBadge: false,
-        shouldShowBanner: true,
-        shouldShowList: true,
-      }),
+      handleNotification: async (notification) => {
+        // Countdowns that end while the app is open are finished in-app.
+        const show = !notification.request.identifier.startsWith(COUNTDOWN_PREFIX);
+        return {
+          shouldShowAlert: show,
+          shouldPlaySound: show,
+          shouldSetBadge: false,
+          shouldShowBanner: show,
+          shouldShowList: show,
+        };
+      },
     });
     return notificationsModule;
   } catch (error) {
@@ -85,10 +110,30 @@ async function cancelHabitStartRemindersWith(notifications: NotificationsModule)
   const scheduled = await notifications.getAllScheduledNotificationsAsync();
   const habitIds = scheduled
     .map((item) => item.identifier)
-    .filter((id) => id.startsWith(REMINDER_PREFIX) && id !== END_OF_DAY_REMINDER_ID);
+    .filter((id) => id.startsWith(REMINDER_PREFIX) && !id.startsWith(END_OF_DAY_REMINDER_ID));
   await Promise.all(habitIds.map((id) => notifications.cancelScheduledNotificationAsync(id)));
 }
 
+/** The repeating 8 PM reminder and any one-off ones scheduled around a pause. */
+async function cancelEndOfDayRemindersWith(notifications: NotificationsModule): Promise<void> {
+  const scheduled = await notifications.getAllScheduledNotificationsAsync();
+  const ids = scheduled
+    .map((item) => item.identifier)
+    .filter((id) => id.startsWith(END_OF_DAY_REMINDER_ID));
+  await Promise.all(ids.map((id) => notifications.cancelScheduledNotificationAsync(id)));
+}
+
+/** Repeating triggers cannot leave days out, so a pause in sight switches to one-off ones. */
+function isPauseWithinReminderRange(pausePeriods: PausePeriod[], today: string): boolean {
+  return (
+    pausedDatesBetween(
+      pausePeriods,
+      today,
+      shiftDateString(today, WINDOWED_REMINDER_DAYS - 1),
+    ).length > 0
+  );
+}
+
 export async function cancelHabitStartReminders(): Promise<void> {
   const Notifications = await getNotifications();
   if (!Notifications) return;
@@ -153,9 +198,48 @@ async function scheduleWeekdayReminders(
   );
 }
 
+/** One-off reminders on the upcoming days the habit is scheduled and not paused. */
+async function scheduleWindowedReminders(
+  notifications: NotificationsModule,
+  element: ElementDefinition,
+  config: HabitConfig,
+  now: Date,
+  pausePeriods: PausePeriod[],
+): Promise<void> {
+  if (!config.timeRange || config.remindMinutesBefore === undefined) return;
+
+  const { hour, minute } = reminderTimeFromRange(
+    config.timeRange.start,
+    config.remindMinutesBefore,
+  );
+  const today = todayDate(now);
+
+  for (let offset = 0; offset < WINDOWED_REMINDER_DAYS; offset++) {
+    const date = shiftDateString(today, offset);
+    if (!isHabitScheduledOnDate(config, date) || isDatePaused(pausePeriods, date)) continue;
+
+    const [year, month, day] = date.split('-').map(Number);
+    const fireAt = new Date(year, month - 1, day, hour, minute);
+    if (fireAt <= now) continue;
+
+    await notifications.scheduleNotificationAsync({
+      identifier: `${REMINDER_PREFIX}${element.id}-${date}`,
+      content: {
+        title: 'Habit reminder',
+        body: `Time for ${element.name}`,
+      },
+      trigger: {
+        type: notifications.SchedulableTriggerInputTypes.DATE,
+        date: fireAt,
+      },
+    });
+  }
+}
+
 export async function syncHabitReminders(
   elements: ElementDefinition[],
   enabled: boolean,
+  pausePeriods: PausePeriod[] = [],
 ): Promise<void> {
   if (!enabled || !isNotificationsNativeAvailable()) {
     return;
@@ -170,12 +254,16 @@ export async function syncHabitReminders(
   if (!granted) return;
 
   const habits = elements.filter((element) => element.kind === 'habit');
+  const now = new Date();
+  const pauseAhead = isPauseWithinReminderRange(pausePeriods, todayDate(now));
 
   for (const element of habits) {
     const config = HabitConfigSchema.parse(element.config);
     if (!canScheduleStartReminder(config)) continue;
 
-    if (config.schedule.type === 'weekdays') {
+    if (pauseAhead || hasHabitActiveWindow(config)) {
+      await scheduleWindowedReminders(Notifications, element, config, now, pausePeriods);
+    } else if (config.schedule.type === 'weekdays') {
       await scheduleWeekdayReminders(Notifications, element, config);
     } else {
       await scheduleDailyReminder(Notifications, element, config);
@@ -186,19 +274,53 @@ export async function syncHabitReminders(
 export async function scheduleEndOfDayReminder(
   enabled: boolean,
   undoneCount: number,
+  pausePeriods: PausePeriod[] = [],
 ): Promise<void> {
-  if (!enabled || undoneCount <= 0 || !isNotificationsNativeAvailable()) {
+  if (!enabled || !isNotificationsNativeAvailable()) {
     return;
   }
 
+  const now = new Date();
+  const today = todayDate(now);
+  const pauseAhead = isPauseWithinReminderRange(pausePeriods, today);
+  if (undoneCount <= 0 && !pauseAhead) return;
+
   const Notifications = await getNotifications();
   if (!Notifications) return;
 
-  await Notifications.cancelScheduledNotificationAsync(END_OF_DAY_REMINDER_ID);
+  await cancelEndOfDayRemindersWith(Notifications);
 
   const granted = await requestNotificationPermissions();
   if (!granted) return;
 
+  if (pauseAhead) {
+    // One-off reminders on the days that are not paused; resynced on launch.
+    for (let offset = 0; offset < WINDOWED_REMINDER_DAYS; offset++) {
+      const date = shiftDateString(today, offset);
+      if (isDatePaused(pausePeriods, date) || (offset === 0 && undoneCount <= 0)) continue;
+
+      const [year, month, day] = date.split('-').map(Number);
+      const fireAt = new Date(year, month - 1, day, 20, 0);
+      if (fireAt <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${END_OF_DAY_REMINDER_ID}-${date}`,
+        content: {
+          title: 'Habits left today',
+          body:
+            offset === 0
+              ? `${undoneCount} habit${undoneCount === 1 ? '' : 's'} still to do`
+              : 'Check which habits are still to do',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: fireAt,
+        },
+      });
+    }
+    return;
+  }
+
   await Notifications.scheduleNotificationAsync({
     identifier: END_OF_DAY_REMINDER_ID,
     content: {
@@ -220,5 +342,43 @@ export async function cancelAllHabitReminders(): Promise<void> {
   if (!Notifications) return;
 
   await cancelHabitStartRemindersWith(Notifications);
-  await Notifications.cancelScheduledNotificationAsync(END_OF_DAY_REMINDER_ID);
+  await cancelEndOfDayRemindersWith(Notifications);
+}
+
+/** Replace scheduled countdown alarms with one per running countdown. */
+export async function syncCountdownAlarms(alarms: CountdownAlarm[]): Promise<void> {
+  if (!isNotificationsNativeAvailable()) return;
+
+  const Notifications = await getNotifications();
+  if (!Notifications) return;
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .map((item) => item.identifier)
+      .filter((id) => id.startsWith(COUNTDOWN_PREFIX))
+      .map((id) => Notifications.cancelScheduledNotificationAsync(id)),
+  );
+
+  const upcoming = alarms.filter((alarm) => alarm.endsAt.getTime() > Date.now());
+  if (upcoming.length === 0) return;
+
+  const granted = await requestNotificationPermissions();
+  if (!granted) return;
+
+  await Promise.all(
+    upcoming.map((alarm) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: `${COUNTDOWN_PREFIX}${alarm.elementId}`,
+        content: {
+          title: 'Timer finished',
+          body: `${alarm.name} is done`,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: alarm.endsAt,
+        },
+      }),
+    ),
+  );
 }
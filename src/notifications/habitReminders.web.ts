@@ -1,4 +1,5 @@
-import type { ElementDefinition } from '../protocol';
+import type { ElementDefinition, PausePeriod } from '../protocol';
+import type { CountdownAlarm } from './habitReminders.native';
 
 /** Notifications are not supported on web. */
 export function isNotificationsNativeAvailable(): boolean {
@@ -12,13 +13,17 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 export async function syncHabitReminders(
   _elements: ElementDefinition[],
   _enabled: boolean,
+  _pausePeriods: PausePeriod[] = [],
 ): Promise<void> {}
 
 export async function scheduleEndOfDayReminder(
   _enabled: boolean,
   _undoneCount: number,
+  _pausePeriods: PausePeriod[] = [],
 ): Promise<void> {}
 
 export async function cancelAllHabitReminders(): Promise<void> {}
 
 export async function cancelHabitStartReminders(): Promise<void> {}
+
+export async function syncCountdownAlarms(_alarms: CountdownAlarm[]): Promise<void> {}
@@ -3,7 +3,11 @@ import { PROTOCOL_VERSION } from './envelope';
 import { ElementDefinitionSchema } from './element';
 import { EventSchema } from './event';
 import { SoundAssetSchema } from './sound';
+import { CategoryDefinitionSchema } from './category';
+import { PausePeriodSchema } from './pause';
 import { validateBundleEventLinks } from './eventMeta';
+import { validateElementParents } from './kinds/group';
+import { upgradeProtocolBundle } from './bundleUpgrade';
 import type { ElementDefinition } from './element';
 import type { LifeEvent } from './event';
 
@@ -24,12 +28,18 @@ export const ProtocolBundleSchema = z.object({
   events: z.array(EventSchema),
   /** Optional sound tracks referenced by habit configs (`soundId`). */
   soundLibrary: z.array(SoundAssetSchema).optional(),
+  /** Custom categories that elements' `category` may point at. */
+  customCategories: z.array(CategoryDefinitionSchema).optional(),
+  /** Vacation / sick mode pauses; streaks lean on them for the paused days. */
+  pausePeriods: z.array(PausePeriodSchema).optional(),
 });
 
 export type ProtocolBundle = z.infer<typeof ProtocolBundleSchema>;
 
+/** Validate a bundle, upgrading older protocol versions first. */
 export function parseProtocolBundle(raw: unknown): ProtocolBundle {
-  const bundle = ProtocolBundleSchema.parse(raw);
+  const bundle = ProtocolBundleSchema.parse(upgradeProtocolBundle(raw));
+  validateElementParents(bundle.elements);
   validateBundleEventLinks(bundle.elements, bundle.events);
   return bundle;
 }
@@ -39,6 +49,8 @@ export function createProtocolBundle(input: {
   dashboard: z.infer<typeof DashboardItemSchema>[];
   events: LifeEvent[];
   soundLibrary?: z.infer<typeof SoundAssetSchema>[];
+  customCategories?: z.infer<typeof CategoryDefinitionSchema>[];
+  pausePeriods?: z.infer<typeof PausePeriodSchema>[];
 }): ProtocolBundle {
   const bundle: ProtocolBundle = {
     protocolVersion: PROTOCOL_VERSION,
@@ -49,7 +61,11 @@ export function createProtocolBundle(input: {
     ...(input.soundLibrary && input.soundLibrary.length > 0
       ? { soundLibrary: input.soundLibrary }
       : {}),
+    // Written even when empty, so restoring the bundle clears what it did not have.
+    ...(input.customCategories ? { customCategories: input.customCategories } : {}),
+    ...(input.pausePeriods ? { pausePeriods: input.pausePeriods } : {}),
   };
+  validateElementParents(bundle.elements);
   validateBundleEventLinks(bundle.elements, bundle.events);
   return bundle;
 }
@@ -0,0 +1,160 @@
+import type { DashboardItem, ProtocolBundle } from './bundle';
+import { isBuiltInCategory, type CategoryDefinition } from './category';
+import type { ElementDefinition } from './element';
+import type { LifeEvent } from './event';
+import { validateEventForElement } from './eventMeta';
+import type { PausePeriod } from './pause';
+import type { SoundAsset } from './sound';
+
+/** Which copy of an element survives a merge. */
+export type ElementMergeResolution = 'local' | 'incoming';
+
+export interface ElementMergeConflict {
+  id: string;
+  local: ElementDefinition;
+  incoming: ElementDefinition;
+  /** Newer `updatedAt` wins; ties keep local. */
+  suggested: ElementMergeResolution;
+}
+
+export interface BundleMergeReport {
+  elements: { added: number; updated: number; skipped: number };
+  events: { added: number; skipped: number };
+  dashboard: { added: number };
+  sounds: { added: number };
+  categories: { added: number };
+  pauses: { added: number };
+  conflicts: ElementMergeConflict[];
+}
+
+export interface BundleMergePlan {
+  elementsToInsert: ElementDefinition[];
+  elementsToReplace: ElementDefinition[];
+  eventsToInsert: LifeEvent[];
+  /** Sort orders continue after the local dashboard. */
+  dashboardToInsert: DashboardItem[];
+  soundLibrary: SoundAsset[];
+  /** Local custom categories followed by incoming ones with new ids. */
+  customCategories: CategoryDefinition[];
+  pausePeriodsToInsert: PausePeriod[];
+  report: BundleMergeReport;
+}
+
+export type LocalBundleData = Pick<ProtocolBundle, 'elements' | 'dashboard' | 'events'> & {
+  soundLibrary: SoundAsset[];
+  customCategories: CategoryDefinition[];
+  pausePeriods: PausePeriod[];
+};
+
+function sameElementContent(a: ElementDefinition, b: ElementDefinition): boolean {
+  return (
+    a.kind === b.kind &&
+    a.name === b.name &&
+    a.category === b.category &&
+    (a.parentId ?? null) === (b.parentId ?? null) &&
+    (a.archivedAt ?? null) === (b.archivedAt ?? null) &&
+    JSON.stringify(a.config) === JSON.stringify(b.config)
+  );
+}
+
+/**
+ * Work out how to fold `incoming` into local data without deleting anything:
+ * elements upsert by id, events and sounds de-duplicate by id, and elements that
+ * differ on both sides resolve via `resolutions` (else the suggested side).
+ */
+export function planBundleMerge(
+  local: LocalBundleData,
+  incoming: ProtocolBundle,
+  resolutions: Record<string, ElementMergeResolution> = {},
+): BundleMergePlan {
+  const localElements = new Map(local.elements.map((element) => [element.id, element]));
+  const elementsToInsert: ElementDefinition[] = [];
+  const elementsToReplace: ElementDefinition[] = [];
+  const conflicts: ElementMergeConflict[] = [];
+  let skippedElements = 0;
+
+  for (const element of incoming.elements) {
+    const existing = localElements.get(element.id);
+    if (!existing) {
+      elementsToInsert.push(element);
+      continue;
+    }
+    if (sameElementContent(existing, element)) {
+      skippedElements += 1;
+      continue;
+    }
+
+    const suggested: ElementMergeResolution =
+      Date.parse(element.updatedAt) > Date.parse(existing.updatedAt) ? 'incoming' : 'local';
+    conflicts.push({ id: element.id, local: existing, incoming: element, suggested });
+    if ((resolutions[element.id] ?? suggested) === 'incoming') {
+      elementsToReplace.push(element);
+    } else {
+      skippedElements += 1;
+    }
+  }
+
+  // Events must still fit the element copy that survives (e.g. a kept boolean habit).
+  const merged = new Map(localElements);
+  for (const element of [...elementsToInsert, ...elementsToReplace]) {
+    merged.set(element.id, element);
+  }
+  const localEventIds = new Set(local.events.map((event) => event.id));
+  const eventsToInsert = incoming.events.filter((event) => {
+    const element = merged.get(event.elementId);
+    if (localEventIds.has(event.id) || !element) return false;
+    try {
+      validateEventForElement(element, event);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  const insertedIds = new Set(elementsToInsert.map((element) => element.id));
+  const localDashboardIds = new Set(local.dashboard.map((item) => item.id));
+  let sortOrder = Math.max(-1, ...local.dashboard.map((item) => item.sortOrder)) + 1;
+  const dashboardToInsert = [...incoming.dashboard]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .filter((item) => insertedIds.has(item.elementId) && !localDashboardIds.has(item.id))
+    .map((item) => ({ ...item, sortOrder: sortOrder++ }));
+
+  const localSoundIds = new Set(local.soundLibrary.map((sound) => sound.id));
+  const newSounds = (incoming.soundLibrary ?? []).filter((sound) => !localSoundIds.has(sound.id));
+
+  const localCategoryIds = new Set(local.customCategories.map((category) => category.id));
+  const newCategories = (incoming.customCategories ?? []).filter(
+    (category) => !localCategoryIds.has(category.id) && !isBuiltInCategory(category.id),
+  );
+
+  const localPauseIds = new Set(local.pausePeriods.map((period) => period.id));
+  const pausePeriodsToInsert = (incoming.pausePeriods ?? []).filter(
+    (period) => !localPauseIds.has(period.id),
+  );
+
+  return {
+    elementsToInsert,
+    elementsToReplace,
+    eventsToInsert,
+    dashboardToInsert,
+    soundLibrary: [...local.soundLibrary, ...newSounds],
+    customCategories: [...local.customCategories, ...newCategories],
+    pausePeriodsToInsert,
+    report: {
+      elements: {
+        added: elementsToInsert.length,
+        updated: elementsToReplace.length,
+        skipped: skippedElements,
+      },
+      events: {
+        added: eventsToInsert.length,
+        skipped: incoming.events.length - eventsToInsert.length,
+      },
+      dashboard: { added: dashboardToInsert.length },
+      sounds: { added: newSounds.length },
+      categories: { added: newCategories.length },
+      pauses: { added: pausePeriodsToInsert.length },
+      conflicts,
+    },
+  };
+}
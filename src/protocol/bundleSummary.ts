@@ -0,0 +1,85 @@
+import { ZodError } from 'zod';
+import type { ProtocolBundle } from './bundle';
+import { ElementKindSchema, type ElementKind } from './element';
+import { OLDEST_PROTOCOL_VERSION } from './bundleUpgrade';
+import { PROTOCOL_VERSION } from './envelope';
+
+export interface ProtocolBundleSummary {
+  protocolVersion: number;
+  exportedAt: string;
+  elementCount: number;
+  kindCounts: Record<ElementKind, number>;
+  eventCount: number;
+  soundCount: number;
+  /** Earliest and latest event dates, or null when there are no events. */
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+export function summarizeProtocolBundle(bundle: ProtocolBundle): ProtocolBundleSummary {
+  const dates = bundle.events.map((event) => event.date).sort();
+  return {
+    protocolVersion: bundle.protocolVersion,
+    exportedAt: bundle.exportedAt,
+    elementCount: bundle.elements.length,
+    kindCounts: Object.fromEntries(
+      ElementKindSchema.options.map((kind) => [
+        kind,
+        bundle.elements.filter((element) => element.kind === kind).length,
+      ]),
+    ) as Record<ElementKind, number>,
+    eventCount: bundle.events.length,
+    soundCount: bundle.soundLibrary?.length ?? 0,
+    firstDate: dates[0] ?? null,
+    lastDate: dates[dates.length - 1] ?? null,
+  };
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  elements: 'Element',
+  dashboard: 'Dashboard item',
+  events: 'Event',
+  soundLibrary: 'Sound track',
+  customCategories: 'Category',
+  pausePeriods: 'Pause',
+};
+
+function describeIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) return 'Backup';
+  const [collection, index, ...rest] = path;
+  const label = COLLECTION_LABELS[String(collection)];
+  if (label && typeof index === 'number') {
+    const field = rest.length > 0 ? ` (${rest.join('.')})` : '';
+    return `${label} ${index + 1}${field}`;
+  }
+  return path.join('.');
+}
+
+/**
+ * Turn a failure from `JSON.parse` / `parseProtocolBundle` into short lines a user
+ * can act on. Capped at `limit` lines plus a "more" line.
+ */
+export function describeBundleError(raw: unknown, error: unknown, limit = 5): string[] {
+  const version =
+    raw && typeof raw === 'object' ? (raw as { protocolVersion?: unknown }).protocolVersion : undefined;
+  if (typeof version === 'number' && version > PROTOCOL_VERSION) {
+    return [`This backup uses protocol version ${version}; update the app to import it.`];
+  }
+  if (typeof version === 'number' && version < OLDEST_PROTOCOL_VERSION) {
+    return [
+      `This backup uses protocol version ${version}; this app reads versions ${OLDEST_PROTOCOL_VERSION}–${PROTOCOL_VERSION}.`,
+    ];
+  }
+
+  if (error instanceof SyntaxError) {
+    return ['The file is not valid JSON.'];
+  }
+  if (error instanceof ZodError) {
+    const lines = error.issues
+      .slice(0, limit)
+      .map((issue) => `${describeIssuePath(issue.path)}: ${issue.message}`);
+    const extra = error.issues.length - limit;
+    return extra > 0 ? [...lines, `…and ${extra} more problem${extra === 1 ? '' : 's'}`] : lines;
+  }
+  return [error instanceof Error ? error.message : 'The backup could not be read.'];
+}
@@ -0,0 +1,74 @@
+import { PROTOCOL_VERSION } from './envelope';
+
+/** Oldest bundle version `upgradeProtocolBundle` can still bring up to date. */
+export const OLDEST_PROTOCOL_VERSION = 1;
+
+type RawRecord = Record<string, unknown>;
+
+/** Converts one version's records into the next version's shape. */
+interface ProtocolUpgradeStep {
+  element: (element: RawRecord) => RawRecord;
+  event: (event: RawRecord) => RawRecord;
+  dashboardItem: (item: RawRecord) => RawRecord;
+}
+
+/** Keyed by the version each step produces; add one per protocol bump. */
+const UPGRADES: Record<number, ProtocolUpgradeStep> = {
+  2: {
+    // v2: elements always carry `updatedAt` so merges can compare edits.
+    element: (element) => ({ ...element, updatedAt: element.updatedAt ?? element.createdAt }),
+    event: (event) => event,
+    dashboardItem: (item) => item,
+  },
+};
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapRecords(
+  value: unknown,
+  convert: (record: RawRecord) => RawRecord,
+  version?: number,
+): unknown {
+  if (!Array.isArray(value)) return value;
+  return value.map((item) => {
+    if (!isRecord(item)) return item;
+    const converted = convert(item);
+    return version === undefined ? converted : { ...converted, protocolVersion: version };
+  });
+}
+
+/**
+ * Run a raw bundle through the upgrade chain (v1 → v2 → …) up to
+ * `PROTOCOL_VERSION`. Input that is not an older, supported bundle is returned
+ * unchanged so schema validation reports the problem.
+ */
+export function upgradeProtocolBundle(raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+  const from = raw.protocolVersion;
+  if (
+    typeof from !== 'number' ||
+    !Number.isInteger(from) ||
+    from < OLDEST_PROTOCOL_VERSION ||
+    from >= PROTOCOL_VERSION
+  ) {
+    return raw;
+  }
+
+  let bundle = raw;
+  for (let version = from + 1; version <= PROTOCOL_VERSION; version++) {
+    const step = UPGRADES[version];
+    if (!step) {
+      throw new Error(`Missing protocol upgrade to version ${version}`);
+    }
+    bundle = {
+      ...bundle,
+      protocolVersion: version,
+      elements: mapRecords(bundle.elements, step.element, version),
+      events: mapRecords(bundle.events, step.event, version),
+      dashboard: mapRecords(bundle.dashboard, step.dashboardItem),
+    };
+  }
+  return bundle;
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import type { ElementCategory, ElementDefinition, ElementKind } from './element';
+import { toDateString, type LifeEvent } from './event';
+import { AbstinenceConfigSchema, abstinenceStartDate } from './kinds/abstinence';
+import { checkedChecklistItemIds, ChecklistConfigSchema } from './kinds/checklist';
+import { HabitConfigSchema, isHabitScheduledOnDate, isHabitSkipEvent } from './kinds/habit';
+import { isDatePaused, type PausePeriod } from './pause';
+import { aggregateDailyValue, isElementDayComplete } from './semantics';
+
+/**
+ * Categories are a flat taxonomy. `ElementDefinition.category` holds a built-in
+ * id or the id of a custom category the user created (kept in app settings and
+ * carried in bundles). Ids nobody defines read as the built-in `custom` ("Other").
+ */
+export const CategoryDefinitionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().min(1).max(40),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  /** Material Community Icons name. */
+  icon: z.string().min(1),
+});
+
+export type CategoryDefinition = z.infer<typeof CategoryDefinitionSchema>;
+
+export const FALLBACK_CATEGORY_ID = 'custom';
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  { id: 'exercise', label: 'Exercise', color: '#F97316', icon: 'run' },
+  { id: 'food', label: 'Food', color: '#10B981', icon: 'food-apple-outline' },
+  { id: 'habit', label: 'Habit', color: '#6366F1', icon: 'repeat' },
+  { id: 'task', label: 'Task', color: '#0EA5E9', icon: 'checkbox-marked-outline' },
+  { id: FALLBACK_CATEGORY_ID, label: 'Other', color: '#64748B', icon: 'shape-outline' },
+];
+
+/** Swatches offered when creating a custom category. */
+export const CATEGORY_COLOR_OPTIONS = [
+  '#EF4444',
+  '#F97316',
+  '#EAB308',
+  '#10B981',
+  '#14B8A6',
+  '#0EA5E9',
+  '#6366F1',
+  '#A855F7',
+  '#EC4899',
+  '#64748B',
+];
+
+/** Icons offered when creating a custom category. */
+export const CATEGORY_ICON_OPTIONS = [
+  'tag-outline',
+  'heart-outline',
+  'brain',
+  'meditation',
+  'book-open-variant',
+  'briefcase-outline',
+  'home-outline',
+  'cash',
+  'sleep',
+  'water-outline',
+  'pill',
+  'account-group-outline',
+  'palette-outline',
+  'music-note',
+  'leaf',
+  'star-outline',
+];
+
+export function isBuiltInCategory(id: string): boolean {
+  return BUILT_IN_CATEGORIES.some((category) => category.id === id);
+}
+
+/** Built-ins first, then custom categories in creation order. */
+export function allCategories(custom: CategoryDefinition[]): CategoryDefinition[] {
+  return [...BUILT_IN_CATEGORIES, ...custom];
+}
+
+export function resolveCategory(
+  id: ElementCategory,
+  custom: CategoryDefinition[],
+): CategoryDefinition {
+  const categories = allCategories(custom);
+  return (
+    categories.find((category) => category.id === id) ??
+    categories.find((category) => category.id === FALLBACK_CATEGORY_ID)!
+  );
+}
+
+/** Pre-selected category in the editor for a new element. */
+export function defaultCategoryForKind(kind: ElementKind): ElementCategory {
+  if (kind === 'counter') return 'exercise';
+  if (kind === 'habit' || kind === 'checklist' || kind === 'abstinence') return 'habit';
+  return FALLBACK_CATEGORY_ID;
+}
+
+/** Stored JSON from settings; anything malformed is dropped rather than thrown. */
+export function parseCustomCategories(raw: unknown): CategoryDefinition[] {
+  const result = z.array(CategoryDefinitionSchema).safeParse(raw);
+  if (!result.success) return [];
+  return result.data.filter(
+    (category, index, list) =>
+      !isBuiltInCategory(category.id) && list.findIndex((c) => c.id === category.id) === index,
+  );
+}
+
+/** Validate a new or edited custom category; labels must be unique ignoring case. */
+export function buildCustomCategory(
+  input: CategoryDefinition,
+  custom: CategoryDefinition[],
+): CategoryDefinition {
+  const category = CategoryDefinitionSchema.parse({ ...input, label: input.label.trim() });
+  if (isBuiltInCategory(category.id)) {
+    throw new Error('Built-in categories cannot be changed');
+  }
+  const label = category.label.toLocaleLowerCase();
+  const taken = allCategories(custom).some(
+    (other) => other.id !== category.id && other.label.toLocaleLowerCase() === label,
+  );
+  if (taken) {
+    throw new Error(`A category named "${category.label}" already exists`);
+  }
+  return category;
+}
+
+/** Categories that at least one of `elements` resolves to, in `allCategories` order. */
+export function usedCategories(
+  elements: Pick<ElementDefinition, 'category'>[],
+  custom: CategoryDefinition[],
+): CategoryDefinition[] {
+  const used = new Set(elements.map((element) => resolveCategory(element.category, custom).id));
+  return allCategories(custom).filter((category) => used.has(category.id));
+}
+
+/** `null` keeps every element. */
+export function filterByCategory<T extends Pick<ElementDefinition, 'category'>>(
+  elements: T[],
+  categoryId: string | null,
+  custom: CategoryDefinition[],
+): T[] {
+  if (categoryId === null) return elements;
+  return elements.filter(
+    (element) => resolveCategory(element.category, custom).id === categoryId,
+  );
+}
+
+export interface CategoryDayCompletion {
+  date: string;
+  done: number;
+  /** Elements that were due that day. */
+  total: number;
+}
+
+/**
+ * Whether an element counts toward its category on `date`. `completedDates`
+ * lets a quota habit drop out once its quota is met.
+ */
+function isTrackedOnDate(
+  element: ElementDefinition,
+  date: string,
+  completedDates: string[],
+): boolean {
+  if (element.kind === 'group') return false;
+  if (element.kind === 'abstinence') {
+    const config = AbstinenceConfigSchema.parse(element.config);
+    return date >= abstinenceStartDate(config, element.createdAt);
+  }
+  if (date < toDateString(new Date(element.createdAt))) return false;
+  if (element.kind === 'habit') {
+    return isHabitScheduledOnDate(HabitConfigSchema.parse(element.config), date, completedDates);
+  }
+  return true;
+}
+
+/**
+ * Per-day completion across a category's elements. Elements count from the day
+ * they were added, and habits only on scheduled days. Like streaks, a habit
+ * skipped that day, or a habit or checklist on a paused day, is not due unless done.
+ */
+export function categoryCompletion(
+  members: ElementDefinition[],
+  events: Pick<LifeEvent, 'elementId' | 'date' | 'timestamp' | 'value' | 'meta'>[],
+  dates: string[],
+  pausePeriods: PausePeriod[] = [],
+): CategoryDayCompletion[] {
+  const isDoneOn = (member: ElementDefinition, date: string) => {
+    const dayEvents = events.filter(
+      (event) => event.elementId === member.id && event.date === date,
+    );
+    // Checklists count distinct steps still on the list, not raw ticks.
+    const value =
+      member.kind === 'checklist'
+        ? checkedChecklistItemIds(dayEvents, ChecklistConfigSchema.parse(member.config)).length
+        : aggregateDailyValue(member, dayEvents);
+    return isElementDayComplete(member, value);
+  };
+  const completedDates = new Map(
+    members.map((member) => [member.id, dates.filter((date) => isDoneOn(member, date))]),
+  );
+
+  const skipped = new Set(
+    events.filter(isHabitSkipEvent).map((event) => `${event.elementId}:${event.date}`),
+  );
+  const isExcused = (member: ElementDefinition, date: string) =>
+    skipped.has(`${member.id}:${date}`) ||
+    ((member.kind === 'habit' || member.kind === 'checklist') && isDatePaused(pausePeriods, date));
+
+  return dates.map((date) => {
+    let done = 0;
+    let total = 0;
+    for (const member of members) {
+      const memberDone = completedDates.get(member.id) ?? [];
+      if (!isTrackedOnDate(member, date, memberDone)) continue;
+      if (memberDone.includes(date)) {
+        done += 1;
+      } else if (isExcused(member, date)) {
+        continue;
+      }
+      total += 1;
+    }
+    return { date, done, total };
+  });
+}
+
+/** `18/28 done (64%)`, or null when nothing was due. */
+export function formatCategoryCompletion(days: CategoryDayCompletion[]): string | null {
+  const done = days.reduce((sum, day) => sum + day.done, 0);
+  const total = days.reduce((sum, day) => sum + day.total, 0);
+  if (total === 0) return null;
+  return `${done}/${total} done (${Math.round((done / total) * 100)}%)`;
+}
@@ -1,7 +1,15 @@
 import type { ElementDefinition } from './element';
-import type { HabitConfig } from './kinds/habit';
-import { HabitConfigSchema, isHabitScheduledOnDate, isHabitStartingSoon, shouldShowHabitOnHabitsPage } from './kinds/habit';
+import type { HabitConfig, HabitTimeSlot } from './kinds/habit';
+import { ChecklistConfigSchema } from './kinds/checklist';
+import {
+  HabitConfigSchema,
+  isHabitActiveOnDate,
+  isHabitScheduledOnDate,
+  isHabitStartingSoon,
+  shouldShowHabitOnHabitsPage,
+} from './kinds/habit';
 import { toDateString } from './event';
+import { isDatePaused, type PausePeriod } from './pause';
 
 export const DAILY_VIEW_FILTERS = [
   'all_due',
@@ -27,19 +35,37 @@ export interface DailyHabitFilterContext {
   now: Date;
   today: string;
   habitDoneToday: Record<string, boolean>;
+  /** Quota habits: completed dates so far this period, so a met quota stops being due. */
+  habitPeriodDates?: Record<string, string[]>;
+  /** Vacation / sick mode: no habit is due on a paused day. */
+  pausePeriods?: PausePeriod[];
+  /** Habits skipped today; the Undone filter leaves them out. */
+  habitSkippedToday?: Record<string, boolean>;
   withinHours?: number;
 }
 
 export function isHabitDueToday(
   config: HabitConfig,
-  context: Pick<DailyHabitFilterContext, 'now' | 'today'>,
+  context: Pick<DailyHabitFilterContext, 'now' | 'today' | 'pausePeriods'>,
+  periodDates?: string[],
 ): boolean {
   return (
-    isHabitScheduledOnDate(config, context.today) &&
+    !isDatePaused(context.pausePeriods ?? [], context.today) &&
+    isHabitScheduledOnDate(config, context.today, periodDates) &&
     shouldShowHabitOnHabitsPage(config, context.now)
   );
 }
 
+/** Kinds listed on the Daily tab. */
+export const DAILY_VIEW_KINDS = new Set(['habit', 'checklist']);
+
+export function dailyViewTimeSlot(element: ElementDefinition): HabitTimeSlot {
+  return element.kind === 'checklist'
+    ? ChecklistConfigSchema.parse(element.config).timeSlot
+    : HabitConfigSchema.parse(element.config).timeSlot;
+}
+
+/** Habits and checklists for the Daily tab; checklists are due every day. */
 export function filterHabitsForDailyView(
   habits: ElementDefinition[],
   filter: DailyViewFilter,
@@ -48,18 +74,30 @@ export function filterHabitsForDailyView(
   const withinHours = context.withinHours ?? 2;
 
   return habits.filter((habit) => {
+    if (habit.kind === 'checklist') {
+      if (filter === 'starting_soon') return false;
+      if (filter === 'undone') return !(context.habitDoneToday[habit.id] ?? false);
+      return true;
+    }
+
     const config = HabitConfigSchema.parse(habit.config);
 
     if (filter === 'all') {
-      return shouldShowHabitOnHabitsPage(config, context.now);
+      return (
+        isHabitActiveOnDate(config, context.today) &&
+        shouldShowHabitOnHabitsPage(config, context.now)
+      );
     }
 
-    if (!isHabitDueToday(config, context)) {
+    if (!isHabitDueToday(config, context, context.habitPeriodDates?.[habit.id])) {
       return false;
     }
 
     if (filter === 'undone') {
-      return !(context.habitDoneToday[habit.id] ?? false);
+      return (
+        !(context.habitDoneToday[habit.id] ?? false) &&
+        !(context.habitSkippedToday?.[habit.id] ?? false)
+      );
     }
 
     if (filter === 'starting_soon') {
@@ -70,10 +108,13 @@ export function filterHabitsForDailyView(
   });
 }
 
-export function defaultDailyFilterContext(now = new Date()): DailyHabitFilterContext {
+export function defaultDailyFilterContext(
+  now = new Date(),
+  dayStartHour = 0,
+): DailyHabitFilterContext {
   return {
     now,
-    today: toDateString(now),
+    today: toDateString(now, dayStartHour),
     habitDoneToday: {},
   };
 }
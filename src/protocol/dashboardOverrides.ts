@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import type { ElementDefinition } from './element';
+import { CounterConfigSchema } from './kinds/counter';
+
+/**
+ * Display tweaks stored on a `DashboardItem`. They change how one pinned widget
+ * looks; the element itself (and its history) is untouched.
+ */
+export const DashboardOverridesSchema = z.object({
+  /** Shown instead of the element name. */
+  label: z.string().trim().min(1).max(60).optional(),
+  accentColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional(),
+  size: z.enum(['expanded', 'compact']).optional(),
+  /** Counters: quick increments left off the widget. */
+  hiddenQuickIncrements: z.array(z.number().int().positive()).optional(),
+  /** Counters: goal used on the widget instead of `dailyTarget`. */
+  dailyTarget: z.number().int().positive().optional(),
+});
+
+export type DashboardOverrides = z.infer<typeof DashboardOverridesSchema>;
+
+export type DashboardWidgetSize = NonNullable<DashboardOverrides['size']>;
+
+export const DASHBOARD_WIDGET_SIZE_LABELS: Record<DashboardWidgetSize, string> = {
+  expanded: 'Expanded',
+  compact: 'Compact',
+};
+
+/** Stored overrides from a dashboard item; unreadable values are ignored. */
+export function parseDashboardOverrides(raw: unknown): DashboardOverrides {
+  if (!raw || typeof raw !== 'object') return {};
+  const result = DashboardOverridesSchema.safeParse(raw);
+  return result.success ? result.data : {};
+}
+
+/** Drop empty fields; `undefined` when nothing is left to store. */
+export function normalizeDashboardOverrides(
+  overrides: DashboardOverrides,
+): DashboardOverrides | undefined {
+  const normalized: DashboardOverrides = DashboardOverridesSchema.parse({
+    label: overrides.label?.trim() || undefined,
+    accentColor: overrides.accentColor,
+    size: overrides.size === 'compact' ? 'compact' : undefined,
+    hiddenQuickIncrements: overrides.hiddenQuickIncrements?.length
+      ? [...new Set(overrides.hiddenQuickIncrements)].sort((a, b) => a - b)
+      : undefined,
+    dailyTarget: overrides.dailyTarget,
+  });
+  const entries = Object.entries(normalized).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as DashboardOverrides) : undefined;
+}
+
+/**
+ * The element as this dashboard shows it: label replaces the name and, for
+ * counters, the goal and visible quick buttons follow the overrides. At least
+ * one quick button always stays.
+ */
+export function applyDashboardOverrides(
+  element: ElementDefinition,
+  overrides: DashboardOverrides,
+): ElementDefinition {
+  const name = overrides.label ?? element.name;
+  if (element.kind !== 'counter') {
+    return name === element.name ? element : { ...element, name };
+  }
+
+  const config = CounterConfigSchema.parse(element.config);
+  const hidden = new Set(overrides.hiddenQuickIncrements ?? []);
+  const visible = config.quickIncrements.filter((increment) => !hidden.has(increment));
+  return {
+    ...element,
+    name,
+    config: {
+      ...config,
+      quickIncrements: visible.length > 0 ? visible : config.quickIncrements,
+      dailyTarget: overrides.dailyTarget ?? config.dailyTarget,
+    },
+  };
+}
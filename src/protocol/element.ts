@@ -1,20 +1,31 @@
 import { z } from 'zod';
 import { PROTOCOL_VERSION } from './envelope';
+import { AbstinenceConfigSchema } from './kinds/abstinence';
+import { ChecklistConfigSchema } from './kinds/checklist';
 import { CounterConfigSchema } from './kinds/counter';
+import { GroupConfigSchema } from './kinds/group';
 import { HabitConfigSchema } from './kinds/habit';
+import { MeasurementConfigSchema } from './kinds/measurement';
+import { RatingConfigSchema } from './kinds/rating';
 
 /** Only implemented kinds belong here. Add new kinds when you ship them. */
-export const ElementKindSchema = z.enum(['counter', 'habit']);
+export const ElementKindSchema = z.enum([
+  'counter',
+  'habit',
+  'measurement',
+  'rating',
+  'checklist',
+  'abstinence',
+  'group',
+]);
 
 export type ElementKind = z.infer<typeof ElementKindSchema>;
 
-export const ElementCategorySchema = z.enum([
-  'exercise',
-  'food',
-  'habit',
-  'task',
-  'custom',
-]);
+/**
+ * A built-in category (`exercise`, `food`, `habit`, `task`, `custom`) or the id
+ * of a user-defined one; see `resolveCategory`.
+ */
+export const ElementCategorySchema = z.string().min(1).max(64);
 
 export type ElementCategory = z.infer<typeof ElementCategorySchema>;
 
@@ -23,17 +34,36 @@ export const ElementDefinitionSchema = z.object({
   kind: ElementKindSchema,
   name: z.string().min(1),
   category: ElementCategorySchema,
+  /** Group this element belongs to (see `validateElementParents`). */
   parentId: z.string().uuid().nullable().optional(),
   config: z.record(z.unknown()),
   protocolVersion: z.literal(PROTOCOL_VERSION),
   createdAt: z.string().datetime(),
+  /** Last edit to name or config; merges prefer the newer side on conflict. */
+  updatedAt: z.string().datetime(),
+  /** Set while archived: history is kept but the element leaves Daily, Counter and reminders. */
+  archivedAt: z.string().datetime().nullable().optional(),
 });
 
 export type ElementDefinition = z.infer<typeof ElementDefinitionSchema>;
 
+export function isElementArchived(element: Pick<ElementDefinition, 'archivedAt'>): boolean {
+  return Boolean(element.archivedAt);
+}
+
+/** Elements that are not archived, in their original order. */
+export function activeElements<T extends Pick<ElementDefinition, 'archivedAt'>>(elements: T[]): T[] {
+  return elements.filter((element) => !isElementArchived(element));
+}
+
 const configSchemas: Record<ElementKind, z.ZodType> = {
   counter: CounterConfigSchema,
   habit: HabitConfigSchema,
+  measurement: MeasurementConfigSchema,
+  rating: RatingConfigSchema,
+  checklist: ChecklistConfigSchema,
+  abstinence: AbstinenceConfigSchema,
+  group: GroupConfigSchema,
 };
 
 export function validateElementConfig(
@@ -1,6 +1,6 @@
 /** Life Protocol envelope — versioned wrapper for all persisted payloads. */
 
-export const PROTOCOL_VERSION = 1 as const;
+export const PROTOCOL_VERSION = 2 as const;
 
 export type ProtocolVersion = typeof PROTOCOL_VERSION;
 
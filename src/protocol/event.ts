@@ -1,13 +1,20 @@
 import { z } from 'zod';
 import { PROTOCOL_VERSION } from './envelope';
 
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
 export const EventSchema = z.object({
   id: z.string().uuid(),
   elementId: z.string().uuid(),
   timestamp: z.string().datetime(),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  /** Local calendar day the event counts toward (respects the configured day start hour). */
+  date: z.string().regex(DATE_RE),
   value: z.number(),
   meta: z.record(z.unknown()).optional(),
+  /** Device UTC offset when logged, in minutes east of UTC (e.g. -300 for UTC-5). */
+  tzOffsetMinutes: z.number().int().min(-14 * 60).max(14 * 60).optional(),
+  /** IANA zone name when the runtime exposes one (e.g. `America/New_York`). */
+  timeZone: z.string().min(1).optional(),
   protocolVersion: z.literal(PROTOCOL_VERSION),
 });
 
@@ -17,6 +24,48 @@ export function parseEvent(raw: unknown): LifeEvent {
   return EventSchema.parse(raw);
 }
 
-export function toDateString(date: Date): string {
-  return date.toISOString().slice(0, 10);
+function pad2(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Local calendar date (`YYYY-MM-DD`) for a moment in time.
+ * Times before `dayStartHour` count toward the previous day, so a 4 AM
+ * day start keeps a 1 AM check-in on "yesterday".
+ */
+export function toDateString(date: Date, dayStartHour = 0): string {
+  const local = new Date(date.getTime());
+  if (dayStartHour > 0 && local.getHours() < dayStartHour) {
+    local.setDate(local.getDate() - 1);
+  }
+  return `${local.getFullYear()}-${pad2(local.getMonth() + 1)}-${pad2(local.getDate())}`;
+}
+
+/** Move a `YYYY-MM-DD` date by whole calendar days (DST-safe). */
+export function shiftDateString(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+}
+
+export function currentTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Timestamp, local date and zone fields for an event logged at `now`. */
+export function localEventTime(
+  now: Date,
+  dayStartHour = 0,
+): Pick<LifeEvent, 'timestamp' | 'date' | 'tzOffsetMinutes' | 'timeZone'> {
+  const timeZone = currentTimeZone();
+  return {
+    timestamp: now.toISOString(),
+    date: toDateString(now, dayStartHour),
+    tzOffsetMinutes: 0 - now.getTimezoneOffset(),
+    ...(timeZone ? { timeZone } : {}),
+  };
 }
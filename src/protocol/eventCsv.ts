@@ -0,0 +1,191 @@
+import type { ElementDefinition } from './element';
+import { EventSchema, localEventTime, toDateString, type LifeEvent } from './event';
+import { PROTOCOL_VERSION } from './envelope';
+import { validateEventForElement } from './eventMeta';
+import { aggregateDailyValue } from './semantics';
+
+export const EVENT_CSV_HEADER = [
+  'date',
+  'timestamp',
+  'element',
+  'kind',
+  'value',
+  'source',
+  'duration_seconds',
+] as const;
+
+export const DAILY_TOTALS_CSV_HEADER = ['date', 'element', 'kind', 'total'] as const;
+
+/** One row per event, oldest first. Events of unknown elements are skipped. */
+export function eventsToCsvRows(
+  elements: ElementDefinition[],
+  events: LifeEvent[],
+): (string | number)[][] {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+  const rows: (string | number)[][] = [[...EVENT_CSV_HEADER]];
+  const sorted = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const event of sorted) {
+    const element = byId.get(event.elementId);
+    if (!element) continue;
+    const source = typeof event.meta?.source === 'string' ? event.meta.source : '';
+    const duration =
+      typeof event.meta?.durationSeconds === 'number' ? event.meta.durationSeconds : '';
+    rows.push([
+      event.date,
+      event.timestamp,
+      element.name,
+      element.kind,
+      event.value,
+      source,
+      duration,
+    ]);
+  }
+  return rows;
+}
+
+/**
+ * Daily value per element per day (a sum, or the measurement aggregation), by
+ * date then element name.
+ */
+export function dailyTotalsToCsvRows(
+  elements: ElementDefinition[],
+  events: LifeEvent[],
+): (string | number)[][] {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+  const days = new Map<string, { date: string; element: ElementDefinition; events: LifeEvent[] }>();
+
+  for (const event of events) {
+    const element = byId.get(event.elementId);
+    if (!element) continue;
+    const key = `${event.date}|${element.id}`;
+    const entry = days.get(key) ?? { date: event.date, element, events: [] };
+    entry.events.push(event);
+    days.set(key, entry);
+  }
+
+  const sorted = [...days.values()].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.element.name.localeCompare(b.element.name),
+  );
+  return [
+    [...DAILY_TOTALS_CSV_HEADER],
+    ...sorted.map((entry) => [
+      entry.date,
+      entry.element.name,
+      entry.element.kind,
+      aggregateDailyValue(entry.element, entry.events),
+    ]),
+  ];
+}
+
+/** Zero-based column indexes. At least one of `date` / `timestamp` is required. */
+export interface CsvColumnMapping {
+  date?: number;
+  timestamp?: number;
+  value: number;
+  /** Multiply values by 60 (e.g. timer minutes into seconds). */
+  valueInMinutes?: boolean;
+  hasHeader: boolean;
+}
+
+export interface CsvImportRowError {
+  /** 1-based line in the file. */
+  line: number;
+  message: string;
+}
+
+export interface CsvImportResult {
+  events: LifeEvent[];
+  errors: CsvImportRowError[];
+}
+
+/** Guess a mapping from header names like `date`, `timestamp`/`time`, `value`/`amount`. */
+export function guessCsvColumnMapping(header: string[]): CsvColumnMapping | null {
+  const normalized = header.map((name) => name.trim().toLowerCase());
+  const find = (...names: string[]) => {
+    const index = normalized.findIndex((name) => names.includes(name));
+    return index >= 0 ? index : undefined;
+  };
+  const value = find('value', 'amount', 'count', 'total', 'duration_seconds', 'seconds');
+  const date = find('date', 'day');
+  const timestamp = find('timestamp', 'time', 'datetime');
+  if (value === undefined || (date === undefined && timestamp === undefined)) {
+    return null;
+  }
+  return { date, timestamp, value, hasHeader: true };
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Turn CSV rows into events for one element. Rows that fail parsing or
+ * `validateEventForElement` are reported, not imported.
+ */
+export function buildEventsFromCsv(
+  rows: string[][],
+  element: ElementDefinition,
+  mapping: CsvColumnMapping,
+  options: {
+    newId: () => string;
+    dayStartHour?: number;
+    /** File line of each row, when blank lines were dropped; else row order. */
+    lineNumbers?: number[];
+  },
+): CsvImportResult {
+  const events: LifeEvent[] = [];
+  const errors: CsvImportRowError[] = [];
+  const dayStartHour = options.dayStartHour ?? 0;
+
+  rows.forEach((row, index) => {
+    if (mapping.hasHeader && index === 0) return;
+    const line = options.lineNumbers?.[index] ?? index + 1;
+    try {
+      const rawValue = (row[mapping.value] ?? '').trim();
+      const parsed = Number(rawValue);
+      if (rawValue === '' || !Number.isFinite(parsed)) {
+        throw new Error(`"${rawValue}" is not a number`);
+      }
+      const value = mapping.valueInMinutes ? Math.round(parsed * 60) : parsed;
+
+      const rawTimestamp =
+        mapping.timestamp !== undefined ? (row[mapping.timestamp] ?? '').trim() : '';
+      const rawDate = mapping.date !== undefined ? (row[mapping.date] ?? '').trim() : '';
+      if (rawDate && !DATE_RE.test(rawDate)) {
+        throw new Error(`"${rawDate}" is not a YYYY-MM-DD date`);
+      }
+
+      let moment: Date;
+      if (rawTimestamp) {
+        moment = new Date(rawTimestamp);
+        if (Number.isNaN(moment.getTime())) {
+          throw new Error(`"${rawTimestamp}" is not a timestamp`);
+        }
+      } else if (rawDate) {
+        moment = new Date(`${rawDate}T12:00:00`);
+      } else {
+        throw new Error('Missing date');
+      }
+
+      const time = localEventTime(moment, dayStartHour);
+      const parsedEvent = EventSchema.safeParse({
+        id: options.newId(),
+        elementId: element.id,
+        ...time,
+        date: rawDate || toDateString(moment, dayStartHour),
+        value,
+        protocolVersion: PROTOCOL_VERSION,
+      });
+      if (!parsedEvent.success) {
+        const issue = parsedEvent.error.issues[0];
+        throw new Error(`${issue.path.join('.')}: ${issue.message}`);
+      }
+      const event = parsedEvent.data;
+      validateEventForElement(element, event);
+      events.push(event);
+    } catch (error) {
+      errors.push({ line, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return { events, errors };
+}
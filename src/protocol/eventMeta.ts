@@ -1,18 +1,43 @@
 import type { ElementDefinition, ElementKind } from './element';
 import { HabitConfigSchema, HabitEventMetaSchema } from './kinds/habit';
 import { CounterEventMetaSchema } from './kinds/counter';
+import { MeasurementEventMetaSchema } from './kinds/measurement';
+import { RatingEventMetaSchema } from './kinds/rating';
+import { ChecklistEventMetaSchema } from './kinds/checklist';
+import { AbstinenceEventMetaSchema } from './kinds/abstinence';
 import type { LifeEvent } from './event';
 
 export function parseEventMeta(
   kind: ElementKind,
   meta: unknown,
-): ReturnType<typeof CounterEventMetaSchema.parse> | ReturnType<typeof HabitEventMetaSchema.parse> {
+):
+  | ReturnType<typeof CounterEventMetaSchema.parse>
+  | ReturnType<typeof HabitEventMetaSchema.parse>
+  | ReturnType<typeof MeasurementEventMetaSchema.parse>
+  | ReturnType<typeof RatingEventMetaSchema.parse>
+  | ReturnType<typeof ChecklistEventMetaSchema.parse>
+  | ReturnType<typeof AbstinenceEventMetaSchema.parse> {
   if (kind === 'counter') {
     return CounterEventMetaSchema.parse(meta);
   }
   if (kind === 'habit') {
     return HabitEventMetaSchema.parse(meta);
   }
+  if (kind === 'measurement') {
+    return MeasurementEventMetaSchema.parse(meta);
+  }
+  if (kind === 'rating') {
+    return RatingEventMetaSchema.parse(meta);
+  }
+  if (kind === 'checklist') {
+    return ChecklistEventMetaSchema.parse(meta);
+  }
+  if (kind === 'abstinence') {
+    return AbstinenceEventMetaSchema.parse(meta);
+  }
+  if (kind === 'group') {
+    throw new Error('Groups do not record events');
+  }
   throw new Error(`No event meta schema for kind: ${kind}`);
 }
 
@@ -24,6 +49,10 @@ export function validateEventForElement(
     throw new Error(`Event ${event.id} does not belong to element ${element.id}`);
   }
 
+  if (element.kind === 'group') {
+    throw new Error(`Event ${event.id} is logged against group ${element.id}`);
+  }
+
   if (event.meta !== undefined) {
     parseEventMeta(element.kind, event.meta);
   }
@@ -36,6 +65,9 @@ export function validateEventForElement(
     if (config.trackingMode === 'timer' && event.meta?.source === 'habit_tick') {
       throw new Error(`Timer habit ${element.id} cannot have habit_tick events`);
     }
+    if (event.meta?.source === 'habit_skip' && event.value !== 0) {
+      throw new Error(`Skip event ${event.id} must have value 0`);
+    }
   }
 
   if (event.value < 0) {
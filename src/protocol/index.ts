@@ -5,12 +5,21 @@ export {
   ElementKindSchema,
   ElementCategorySchema,
   ElementDefinitionSchema,
+  activeElements,
+  isElementArchived,
   validateElementConfig,
   parseElementDefinition,
 } from './element';
 export type { ElementKind, ElementCategory, ElementDefinition } from './element';
 
-export { EventSchema, parseEvent, toDateString } from './event';
+export {
+  EventSchema,
+  parseEvent,
+  toDateString,
+  shiftDateString,
+  currentTimeZone,
+  localEventTime,
+} from './event';
 export type { LifeEvent } from './event';
 
 export {
@@ -20,9 +29,47 @@ export {
   createProtocolBundle,
 } from './bundle';
 export type { DashboardItem, ProtocolBundle } from './bundle';
+export {
+  DASHBOARD_WIDGET_SIZE_LABELS,
+  DashboardOverridesSchema,
+  applyDashboardOverrides,
+  normalizeDashboardOverrides,
+  parseDashboardOverrides,
+} from './dashboardOverrides';
+export type { DashboardOverrides, DashboardWidgetSize } from './dashboardOverrides';
+export { planBundleMerge } from './bundleMerge';
+export { describeBundleError, summarizeProtocolBundle } from './bundleSummary';
+export { OLDEST_PROTOCOL_VERSION, upgradeProtocolBundle } from './bundleUpgrade';
+export {
+  EVENT_CSV_HEADER,
+  DAILY_TOTALS_CSV_HEADER,
+  eventsToCsvRows,
+  dailyTotalsToCsvRows,
+  guessCsvColumnMapping,
+  buildEventsFromCsv,
+} from './eventCsv';
+export type { CsvColumnMapping, CsvImportResult, CsvImportRowError } from './eventCsv';
+export type { ProtocolBundleSummary } from './bundleSummary';
+export type {
+  BundleMergePlan,
+  BundleMergeReport,
+  ElementMergeConflict,
+  ElementMergeResolution,
+  LocalBundleData,
+} from './bundleMerge';
 
 export { SoundAssetSchema, SoundLibrarySchema, parseSoundLibrary } from './sound';
 export type { SoundAsset } from './sound';
+export {
+  PausePeriodSchema,
+  currentAndUpcomingPauses,
+  formatPausePeriod,
+  isDateInPausePeriod,
+  isDatePaused,
+  pausePeriodOnDate,
+  pausedDatesBetween,
+} from './pause';
+export type { PausePeriod } from './pause';
 
 export {
   parseEventMeta,
@@ -30,8 +77,27 @@ export {
   validateBundleEventLinks,
 } from './eventMeta';
 
-export { getDailyValueSemantics, isElementDayComplete } from './semantics';
-export type { DailyValueSemantics, DailyValueUnit } from './semantics';
+export {
+  BUILT_IN_CATEGORIES,
+  CATEGORY_COLOR_OPTIONS,
+  CATEGORY_ICON_OPTIONS,
+  CategoryDefinitionSchema,
+  FALLBACK_CATEGORY_ID,
+  allCategories,
+  buildCustomCategory,
+  categoryCompletion,
+  defaultCategoryForKind,
+  filterByCategory,
+  formatCategoryCompletion,
+  isBuiltInCategory,
+  parseCustomCategories,
+  resolveCategory,
+  usedCategories,
+} from './category';
+export type { CategoryDayCompletion, CategoryDefinition } from './category';
+
+export { aggregateDailyValue, getDailyValueSemantics, isElementDayComplete } from './semantics';
+export type { DailyAggregation, DailyValueSemantics, DailyValueUnit } from './semantics';
 
 export {
   CounterConfigSchema,
@@ -42,6 +108,95 @@ export {
 } from './kinds/counter';
 export type { CounterConfig, CounterEventMeta, CounterInput } from './kinds/counter';
 
+export {
+  MeasurementAggregationSchema,
+  MeasurementConfigSchema,
+  MeasurementEventMetaSchema,
+  DEFAULT_MEASUREMENT_CONFIG,
+  MEASUREMENT_AGGREGATION_LABELS,
+  aggregateMeasurements,
+  buildMeasurementConfig,
+  dailyMeasurementValues,
+  formatMeasurement,
+  formatMeasurementValue,
+  hasMeasurementTarget,
+  isMeasurementInTarget,
+  linearTrend,
+} from './kinds/measurement';
+export type {
+  MeasurementAggregation,
+  MeasurementConfig,
+  MeasurementEventMeta,
+  MeasurementInput,
+} from './kinds/measurement';
+
+export {
+  RatingConfigSchema,
+  RatingEventMetaSchema,
+  DEFAULT_RATING_CONFIG,
+  RATING_SCALE_MAX,
+  averageRating,
+  buildRatingConfig,
+  formatRating,
+  ratingDistribution,
+  ratingLabel,
+  ratingScale,
+} from './kinds/rating';
+export type { RatingConfig, RatingEventMeta, RatingInput } from './kinds/rating';
+
+export {
+  ChecklistConfigSchema,
+  ChecklistEventMetaSchema,
+  ChecklistItemSchema,
+  DEFAULT_CHECKLIST_CONFIG,
+  buildChecklistConfig,
+  checkedChecklistItemIds,
+  checklistCheckedCountsByDate,
+  completedChecklistDates,
+  checklistRequiredCount,
+  formatChecklistProgress,
+  isChecklistDayComplete,
+} from './kinds/checklist';
+export type {
+  ChecklistConfig,
+  ChecklistEventMeta,
+  ChecklistInput,
+  ChecklistItem,
+} from './kinds/checklist';
+
+export {
+  AbstinenceConfigSchema,
+  AbstinenceEventMetaSchema,
+  DEFAULT_ABSTINENCE_CONFIG,
+  abstinenceCleanSince,
+  abstinenceStartDate,
+  buildAbstinenceConfig,
+  currentCleanDays,
+  formatElapsed,
+  formatRelapseFrequency,
+  longestCleanStreakDays,
+  relapseDates,
+  relapseFrequency,
+} from './kinds/abstinence';
+export type {
+  AbstinenceConfig,
+  AbstinenceEventMeta,
+  AbstinenceInput,
+  RelapseFrequency,
+} from './kinds/abstinence';
+
+export {
+  GroupConfigSchema,
+  DEFAULT_GROUP_CONFIG,
+  formatGroupProgress,
+  groupMembers,
+  groupProgress,
+  isGroupComplete,
+  isGroupElement,
+  validateElementParents,
+} from './kinds/group';
+export type { GroupConfig, GroupInput, GroupProgress } from './kinds/group';
+
 export {
   HabitConfigSchema,
   HabitEventMetaSchema,
@@ -49,6 +204,9 @@ export {
   HabitTimeSlotSchema,
   HabitTimeRangeSchema,
   HabitTrackingModeSchema,
+  HabitTimerStyleSchema,
+  HabitSeasonSchema,
+  HabitStreakFreezesSchema,
   DEFAULT_HABIT_CONFIG,
   HABIT_TIME_SLOT_LABELS,
   HABIT_TIME_SLOT_ORDER,
@@ -59,15 +217,81 @@ export {
   formatHabitTimerDuration,
   timerSessionDurationSeconds,
   buildTimerSessionPayload,
+  buildSegmentedTimerSessionPayload,
+  buildIntervalTimerSessionPayload,
+  countdownTargetSeconds,
   liveTimerTotalSeconds,
   isHabitScheduledOnDate,
+  hasHabitActiveWindow,
+  isDateInSeason,
+  isHabitActiveOnDate,
+  formatHabitActiveWindow,
+  habitSkipReasons,
+  isHabitSkipEvent,
   isHabitStartingSoon,
+  formatHabitStreak,
+  formatQuotaProgress,
   formatScheduleDescription,
 } from './kinds/habit';
-export { isScheduleActiveOnDate, isScheduleSupportedForReminders } from './schedule';
+export {
+  isScheduleActiveOnDate,
+  isScheduleSupportedForReminders,
+  QUOTA_PERIODS,
+  QUOTA_PERIOD_MAX_DAYS,
+  quotaCompletionsBefore,
+  quotaPeriodStart,
+} from './schedule';
+export type { QuotaPeriod, QuotaSchedule } from './schedule';
+export {
+  describeRRule,
+  formatOrdinal,
+  formatRRule,
+  isRRuleActiveOnDate,
+  isValidRRule,
+  parseRRule,
+  RRULE_FREQUENCIES,
+  RRULE_WEEKDAY_CODES,
+} from './rrule';
+export type { RRule, RRuleFrequency, RRuleWeekday } from './rrule';
+export {
+  TimerSegmentSchema,
+  ActiveTimerSessionSchema,
+  parseActiveTimerSessions,
+  STALE_TIMER_SESSION_SECONDS,
+  activeTimerElapsedSeconds,
+  closeTimerSession,
+  countdownEndTime,
+  isTimerSessionPaused,
+  isTimerSessionStale,
+  pauseTimerSession,
+  resumeTimerSession,
+  timerSessionRemainingSeconds,
+  timerSessionSegments,
+  timerSessionTimeAtActiveSeconds,
+  trimmedTimerSessionEnd,
+} from './timerSession';
+export type { ActiveTimerSession, TimerSegment } from './timerSession';
+export {
+  IntervalProgramSchema,
+  INTERVAL_PHASE_LABELS,
+  intervalProgramPhases,
+  intervalProgramTotalSeconds,
+  intervalPositionAt,
+  intervalWorkSeconds,
+  intervalRoundsCompleted,
+  formatIntervalProgram,
+} from './intervalProgram';
+export type {
+  IntervalProgram,
+  IntervalPhase,
+  IntervalPhaseKind,
+  IntervalPosition,
+} from './intervalProgram';
 export {
   DAILY_VIEW_FILTERS,
   DAILY_VIEW_FILTER_LABELS,
+  DAILY_VIEW_KINDS,
+  dailyViewTimeSlot,
   isDailyViewFilter,
   filterHabitsForDailyView,
   isHabitDueToday,
@@ -80,5 +304,8 @@ export type {
   HabitTimeSlot,
   HabitTimeRange,
   HabitTrackingMode,
+  HabitTimerStyle,
+  HabitSeason,
+  HabitStreakFreezes,
   HabitInput,
 } from './kinds/habit';
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+/** Work/rest blocks for Pomodoro- or HIIT-style timer habits. */
+export const IntervalProgramSchema = z.object({
+  workSeconds: z.number().int().positive(),
+  /** Zero skips the short rest between rounds. */
+  restSeconds: z.number().int().nonnegative(),
+  rounds: z.number().int().min(1).max(99),
+  longBreakSeconds: z.number().int().positive().optional(),
+  /** The long break replaces the rest after every Nth round. */
+  longBreakEvery: z.number().int().min(2).optional(),
+});
+
+export type IntervalProgram = z.infer<typeof IntervalProgramSchema>;
+
+export type IntervalPhaseKind = 'work' | 'rest' | 'long_break';
+
+export interface IntervalPhase {
+  kind: IntervalPhaseKind;
+  /** 1-based round the phase belongs to. */
+  round: number;
+  /** Active seconds into the program when the phase starts. */
+  startSeconds: number;
+  seconds: number;
+}
+
+export const INTERVAL_PHASE_LABELS: Record<IntervalPhaseKind, string> = {
+  work: 'Work',
+  rest: 'Rest',
+  long_break: 'Long break',
+};
+
+/** Phases in order; there is no rest after the final round. */
+export function intervalProgramPhases(program: IntervalProgram): IntervalPhase[] {
+  const phases: IntervalPhase[] = [];
+  let offset = 0;
+  const push = (kind: IntervalPhaseKind, round: number, seconds: number) => {
+    phases.push({ kind, round, startSeconds: offset, seconds });
+    offset += seconds;
+  };
+
+  for (let round = 1; round <= program.rounds; round++) {
+    push('work', round, program.workSeconds);
+    if (round === program.rounds) break;
+
+    const longBreak =
+      program.longBreakSeconds !== undefined &&
+      program.longBreakEvery !== undefined &&
+      round % program.longBreakEvery === 0;
+    if (longBreak) {
+      push('long_break', round, program.longBreakSeconds ?? 0);
+    } else if (program.restSeconds > 0) {
+      push('rest', round, program.restSeconds);
+    }
+  }
+  return phases;
+}
+
+export function intervalProgramTotalSeconds(program: IntervalProgram): number {
+  return intervalProgramPhases(program).reduce((sum, phase) => sum + phase.seconds, 0);
+}
+
+export interface IntervalPosition {
+  phase: IntervalPhase;
+  remainingSeconds: number;
+}
+
+/** Phase running after `elapsedSeconds` of active time, or null once the program is over. */
+export function intervalPositionAt(
+  program: IntervalProgram,
+  elapsedSeconds: number,
+): IntervalPosition | null {
+  for (const phase of intervalProgramPhases(program)) {
+    const end = phase.startSeconds + phase.seconds;
+    if (elapsedSeconds < end) {
+      return { phase, remainingSeconds: end - elapsedSeconds };
+    }
+  }
+  return null;
+}
+
+/** Work-phase seconds within the first `elapsedSeconds` of the program. */
+export function intervalWorkSeconds(program: IntervalProgram, elapsedSeconds: number): number {
+  return intervalProgramPhases(program)
+    .filter((phase) => phase.kind === 'work')
+    .reduce((sum, phase) => {
+      const done = Math.min(phase.seconds, Math.max(0, elapsedSeconds - phase.startSeconds));
+      return sum + done;
+    }, 0);
+}
+
+export function intervalRoundsCompleted(program: IntervalProgram, elapsedSeconds: number): number {
+  return intervalProgramPhases(program).filter(
+    (phase) => phase.kind === 'work' && elapsedSeconds >= phase.startSeconds + phase.seconds,
+  ).length;
+}
+
+function formatPhaseLength(seconds: number): string {
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+/** Short summary, e.g. `4 × 25m / 5m`. */
+export function formatIntervalProgram(program: IntervalProgram): string {
+  const rest = program.restSeconds > 0 ? ` / ${formatPhaseLength(program.restSeconds)}` : '';
+  return `${program.rounds} × ${formatPhaseLength(program.workSeconds)}${rest}`;
+}
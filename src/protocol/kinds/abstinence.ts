@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import type { LifeEvent } from '../event';
+import { toDateString } from '../event';
+import { daysBetween } from '../schedule';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const AbstinenceConfigSchema = z.object({
+  /** Quit date (`YYYY-MM-DD`); the day the element was created when omitted. */
+  startDate: z.string().regex(DATE_RE).optional(),
+});
+
+export type AbstinenceConfig = z.infer<typeof AbstinenceConfigSchema>;
+
+export const AbstinenceEventMetaSchema = z.object({
+  source: z.literal('relapse').optional(),
+  note: z.string().optional(),
+});
+
+export type AbstinenceEventMeta = z.infer<typeof AbstinenceEventMetaSchema>;
+
+export const DEFAULT_ABSTINENCE_CONFIG: AbstinenceConfig = {};
+
+export type AbstinenceInput = {
+  name: string;
+  startDate?: string;
+};
+
+export function buildAbstinenceConfig(input: AbstinenceInput): AbstinenceConfig {
+  return input.startDate ? { startDate: input.startDate } : {};
+}
+
+/** First tracked day: the configured quit date, else the element's creation day. */
+export function abstinenceStartDate(config: AbstinenceConfig, createdAt: string): string {
+  return config.startDate ?? toDateString(new Date(createdAt));
+}
+
+/** When the current clean run began: the latest relapse, else the start of the quit day. */
+export function abstinenceCleanSince(
+  config: AbstinenceConfig,
+  createdAt: string,
+  latestRelapse?: Pick<LifeEvent, 'timestamp'> | null,
+): Date {
+  if (latestRelapse) return new Date(latestRelapse.timestamp);
+  return new Date(`${abstinenceStartDate(config, createdAt)}T00:00:00`);
+}
+
+/** `12d 4h 3m` once past a day, `4h 03m 12s` before that; never negative. */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m ${String(seconds).padStart(2, '0')}s`;
+}
+
+/** Sorted, de-duplicated days with at least one relapse on or after `startDate`. */
+export function relapseDates(
+  events: Pick<LifeEvent, 'date' | 'value'>[],
+  startDate: string,
+): string[] {
+  const dates = new Set(
+    events.filter((event) => event.value > 0 && event.date >= startDate).map((e) => e.date),
+  );
+  return [...dates].sort();
+}
+
+/** Whole relapse-free days ending today; today counts until a relapse is logged. */
+export function currentCleanDays(startDate: string, relapses: string[], today: string): number {
+  const last = relapses[relapses.length - 1];
+  if (last) return Math.max(0, daysBetween(last, today));
+  return Math.max(0, daysBetween(startDate, today) + 1);
+}
+
+/** Longest run of relapse-free days between `startDate` and `today`, inclusive. */
+export function longestCleanStreakDays(
+  startDate: string,
+  relapses: string[],
+  today: string,
+): number {
+  if (today < startDate) return 0;
+  let longest = 0;
+  relapses.forEach((date, index) => {
+    const gap = index === 0
+      ? daysBetween(startDate, date)
+      : daysBetween(relapses[index - 1], date) - 1;
+    longest = Math.max(longest, gap);
+  });
+  return Math.max(longest, currentCleanDays(startDate, relapses, today));
+}
+
+export interface RelapseFrequency {
+  relapses: number;
+  trackedDays: number;
+  /** Relapses per 30 days over the tracked period. */
+  perMonth: number;
+}
+
+export function relapseFrequency(
+  events: Pick<LifeEvent, 'date' | 'value'>[],
+  startDate: string,
+  today: string,
+): RelapseFrequency {
+  const relapses = events.filter((event) => event.value > 0 && event.date >= startDate).length;
+  const trackedDays = Math.max(1, daysBetween(startDate, today) + 1);
+  return { relapses, trackedDays, perMonth: (relapses / trackedDays) * 30 };
+}
+
+/** `No relapses in 42 days`, or `3 relapses in 60 days · 1.5 per month`. */
+export function formatRelapseFrequency(frequency: RelapseFrequency): string {
+  const { relapses, trackedDays, perMonth } = frequency;
+  const span = `${trackedDays} day${trackedDays === 1 ? '' : 's'}`;
+  if (relapses === 0) return `No relapses in ${span}`;
+  const count = `${relapses} relapse${relapses === 1 ? '' : 's'}`;
+  return `${count} in ${span} · ${perMonth.toFixed(1)} per month`;
+}
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import type { LifeEvent } from '../event';
+import { HabitTimeSlotSchema } from './habit';
+
+export const ChecklistItemSchema = z.object({
+  /** Stable across renames so past ticks keep pointing at the same step. */
+  id: z.string().min(1),
+  label: z.string().min(1),
+});
+
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+
+export const ChecklistConfigSchema = z.object({
+  items: z.array(ChecklistItemSchema).min(1),
+  /** Steps needed for the day to count (N of M); all steps when omitted. */
+  requiredCount: z.number().int().positive().optional(),
+  timeSlot: HabitTimeSlotSchema.default('morning'),
+});
+
+export type ChecklistConfig = z.infer<typeof ChecklistConfigSchema>;
+
+export const ChecklistEventMetaSchema = z.object({
+  source: z.literal('checklist_tick').optional(),
+  itemId: z.string().min(1),
+});
+
+export type ChecklistEventMeta = z.infer<typeof ChecklistEventMetaSchema>;
+
+export const DEFAULT_CHECKLIST_CONFIG: ChecklistConfig = {
+  items: [{ id: 'step-1', label: 'Step 1' }],
+  timeSlot: 'morning',
+};
+
+export type ChecklistInput = {
+  name: string;
+  items: ChecklistItem[];
+  requiredCount?: number;
+  timeSlot: ChecklistConfig['timeSlot'];
+};
+
+export function buildChecklistConfig(input: ChecklistInput): ChecklistConfig {
+  const items = input.items.map((item) => ({ id: item.id, label: item.label.trim() }));
+  const requiredCount =
+    input.requiredCount !== undefined && input.requiredCount < items.length
+      ? input.requiredCount
+      : undefined;
+  return {
+    items,
+    ...(requiredCount !== undefined ? { requiredCount } : {}),
+    timeSlot: input.timeSlot,
+  };
+}
+
+export function checklistRequiredCount(config: ChecklistConfig): number {
+  return Math.min(config.requiredCount ?? config.items.length, config.items.length);
+}
+
+export function isChecklistDayComplete(checkedCount: number, config: ChecklistConfig): boolean {
+  return checkedCount >= checklistRequiredCount(config);
+}
+
+/** Ids of the config's steps ticked in these events; ticks for removed steps are ignored. */
+export function checkedChecklistItemIds(
+  events: Pick<LifeEvent, 'meta'>[],
+  config: ChecklistConfig,
+): string[] {
+  const ticked = new Set(
+    events.flatMap((event) => {
+      const parsed = ChecklistEventMetaSchema.safeParse(event.meta ?? {});
+      return parsed.success ? [parsed.data.itemId] : [];
+    }),
+  );
+  return config.items.filter((item) => ticked.has(item.id)).map((item) => item.id);
+}
+
+/** Steps ticked per day, counting only items still in the checklist. */
+export function checklistCheckedCountsByDate(
+  events: Pick<LifeEvent, 'date' | 'meta'>[],
+  config: ChecklistConfig,
+): Map<string, number> {
+  const byDate = new Map<string, Pick<LifeEvent, 'meta'>[]>();
+  for (const event of events) {
+    byDate.set(event.date, [...(byDate.get(event.date) ?? []), event]);
+  }
+  return new Map(
+    [...byDate].map(([date, dayEvents]) => [
+      date,
+      checkedChecklistItemIds(dayEvents, config).length,
+    ]),
+  );
+}
+
+/** Days with enough current steps ticked to count as done. */
+export function completedChecklistDates(
+  events: Pick<LifeEvent, 'date' | 'meta'>[],
+  config: ChecklistConfig,
+): string[] {
+  return [...checklistCheckedCountsByDate(events, config)]
+    .filter(([, count]) => isChecklistDayComplete(count, config))
+    .map(([date]) => date);
+}
+
+/** `3/6 steps`, or `3/6 steps · 4 needed` for N-of-M checklists. */
+export function formatChecklistProgress(checkedCount: number, config: ChecklistConfig): string {
+  const base = `${checkedCount}/${config.items.length} steps`;
+  const required = checklistRequiredCount(config);
+  return required < config.items.length ? `${base} · ${required} needed` : base;
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { ElementDefinition } from '../element';
+
+/**
+ * Groups hold no settings of their own; members point at the group through
+ * `ElementDefinition.parentId`. Groups never record events and cannot nest.
+ */
+export const GroupConfigSchema = z.object({});
+
+export type GroupConfig = z.infer<typeof GroupConfigSchema>;
+
+export const DEFAULT_GROUP_CONFIG: GroupConfig = {};
+
+export type GroupInput = {
+  name: string;
+};
+
+export function isGroupElement(element: Pick<ElementDefinition, 'kind'>): boolean {
+  return element.kind === 'group';
+}
+
+/** Members of a group, in the order given. */
+export function groupMembers(groupId: string, elements: ElementDefinition[]): ElementDefinition[] {
+  return elements.filter((element) => element.parentId === groupId);
+}
+
+/** Every `parentId` must name a group, and groups cannot sit inside another group. */
+export function validateElementParents(elements: ElementDefinition[]): void {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+
+  for (const element of elements) {
+    if (!element.parentId) continue;
+    if (isGroupElement(element)) {
+      throw new Error(`Group ${element.id} cannot be nested in ${element.parentId}`);
+    }
+    const parent = byId.get(element.parentId);
+    if (!parent) {
+      throw new Error(`Element ${element.id} references unknown group ${element.parentId}`);
+    }
+    if (!isGroupElement(parent)) {
+      throw new Error(`Element ${element.id} has parent ${parent.id}, which is not a group`);
+    }
+  }
+}
+
+export interface GroupProgress {
+  done: number;
+  total: number;
+}
+
+export function groupProgress<T>(members: T[], isDone: (member: T) => boolean): GroupProgress {
+  return {
+    done: members.filter(isDone).length,
+    total: members.length,
+  };
+}
+
+export function isGroupComplete(progress: GroupProgress): boolean {
+  return progress.total > 0 && progress.done >= progress.total;
+}
+
+/** `3/5 done`. */
+export function formatGroupProgress(progress: GroupProgress): string {
+  return `${progress.done}/${progress.total} done`;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { LifeEvent } from '../event';
 import { isWithinTimeRange, formatTimeRange } from '../../utils/time';
 import {
   formatScheduleDescription,
@@ -7,6 +8,18 @@ import {
   isTimeRangeStartingSoon,
   type HabitSchedule,
 } from '../schedule';
+import {
+  IntervalProgramSchema,
+  intervalRoundsCompleted,
+  intervalWorkSeconds,
+  type IntervalProgram,
+} from '../intervalProgram';
+import {
+  activeTimerElapsedSeconds,
+  TimerSegmentSchema,
+  type ActiveTimerSession,
+  type TimerSegment,
+} from '../timerSession';
 
 export { HabitScheduleSchema, type HabitSchedule, formatScheduleDescription };
 
@@ -14,6 +27,11 @@ export const HabitTrackingModeSchema = z.enum(['boolean', 'timer']);
 
 export type HabitTrackingMode = z.infer<typeof HabitTrackingModeSchema>;
 
+/** How a timer habit's clock runs: counting up, or down to zero then auto-stopping. */
+export const HabitTimerStyleSchema = z.enum(['stopwatch', 'countdown']);
+
+export type HabitTimerStyle = z.infer<typeof HabitTimerStyleSchema>;
+
 export const HabitTimeSlotSchema = z.enum([
   'morning',
   'afternoon',
@@ -32,6 +50,27 @@ export const HabitTimeRangeSchema = z.object({
 
 export type HabitTimeRange = z.infer<typeof HabitTimeRangeSchema>;
 
+const HabitDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const HabitMonthDaySchema = z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/);
+
+/** Yearly window as MM-DD bounds, inclusive; `start` after `end` wraps over the new year. */
+export const HabitSeasonSchema = z.object({
+  start: HabitMonthDaySchema,
+  end: HabitMonthDaySchema,
+});
+
+export type HabitSeason = z.infer<typeof HabitSeasonSchema>;
+
+/** Missed days (or quota periods) a streak may absorb each calendar month. */
+export const HabitStreakFreezesSchema = z.object({
+  perMonth: z.number().int().min(1).max(10),
+  /** Streak length, in the habit's own unit, before a freeze can cover a gap. */
+  earnedAfter: z.number().int().min(1).max(365).default(7),
+});
+
+export type HabitStreakFreezes = z.infer<typeof HabitStreakFreezesSchema>;
+
 export const HabitConfigSchema = z.object({
   trackingMode: HabitTrackingModeSchema.default('boolean'),
   timeSlot: HabitTimeSlotSchema,
@@ -41,21 +80,45 @@ export const HabitConfigSchema = z.object({
   visibleOnlyInTimeRange: z.boolean().optional(),
   /** Timer goal in seconds — drives progress bar and streak completion */
   dailyTargetSeconds: z.number().int().positive().optional(),
+  /** Timer habits only — defaults to stopwatch */
+  timerStyle: HabitTimerStyleSchema.optional(),
+  /** Countdown length per session; without it the countdown runs the remaining daily goal */
+  countdownSeconds: z.number().int().positive().optional(),
+  /** Timer habits only — runs work/rest blocks; only work time is logged */
+  intervalProgram: IntervalProgramSchema.optional(),
+  /** Sound library track played once at each interval phase change */
+  cueSoundId: z.string().uuid().optional(),
   /** Reference into the user's sound library */
   soundId: z.string().uuid().optional(),
   /** Minutes before timeRange.start to fire a local reminder */
   remindMinutesBefore: z.number().int().nonnegative().optional(),
+  /** First day the habit is active (challenge-style habits) */
+  startDate: HabitDateSchema.optional(),
+  /** Last day the habit is active */
+  endDate: HabitDateSchema.optional(),
+  /** Only active during this part of every year */
+  season: HabitSeasonSchema.optional(),
+  /** Auto-applied to missed days so a long streak survives the odd gap */
+  streakFreezes: HabitStreakFreezesSchema.optional(),
 });
 
 export type HabitConfig = z.infer<typeof HabitConfigSchema>;
 
 export const HabitEventMetaSchema = z.discriminatedUnion('source', [
   z.object({ source: z.literal('habit_tick') }),
+  /** Value 0: the day is excused, neither done nor missed. */
+  z.object({ source: z.literal('habit_skip'), reason: z.string().max(200).optional() }),
   z.object({
     source: z.literal('timer_session'),
     startedAt: z.string().datetime(),
     endedAt: z.string().datetime(),
+    /** Active seconds only — excludes paused time when `segments` is present. */
     durationSeconds: z.number().nonnegative(),
+    /** Active stretches when the session was paused and resumed. */
+    segments: z.array(TimerSegmentSchema).min(1).optional(),
+    /** Interval programs: rest seconds left out of the event value. */
+    restSeconds: z.number().nonnegative().optional(),
+    roundsCompleted: z.number().int().nonnegative().optional(),
   }),
 ]);
 
@@ -84,6 +147,10 @@ export const HABIT_TIME_SLOT_ORDER: HabitTimeSlot[] = [
 export type HabitInput = {
   name: string;
   trackingMode?: HabitTrackingMode;
+  intervalProgram?: IntervalProgram;
+  cueSoundId?: string;
+  timerStyle?: HabitTimerStyle;
+  countdownSeconds?: number;
   timeSlot: HabitTimeSlot;
   targetLabel?: string;
   timeRange?: HabitTimeRange;
@@ -92,10 +159,18 @@ export type HabitInput = {
   soundId?: string;
   schedule?: HabitSchedule;
   remindMinutesBefore?: number;
+  startDate?: string;
+  endDate?: string;
+  season?: HabitSeason;
+  streakFreezes?: HabitStreakFreezes;
 };
 
 export function buildHabitConfig(input: {
   trackingMode?: HabitTrackingMode;
+  intervalProgram?: IntervalProgram;
+  cueSoundId?: string;
+  timerStyle?: HabitTimerStyle;
+  countdownSeconds?: number;
   timeSlot: HabitTimeSlot;
   targetLabel?: string;
   timeRange?: HabitTimeRange;
@@ -104,6 +179,10 @@ export function buildHabitConfig(input: {
   soundId?: string;
   schedule?: HabitSchedule;
   remindMinutesBefore?: number;
+  startDate?: string;
+  endDate?: string;
+  season?: HabitSeason;
+  streakFreezes?: HabitStreakFreezes;
 }): HabitConfig {
   return {
     trackingMode: input.trackingMode ?? 'boolean',
@@ -117,10 +196,29 @@ export function buildHabitConfig(input: {
     input.dailyTargetSeconds > 0
       ? { dailyTargetSeconds: input.dailyTargetSeconds }
       : {}),
+    ...(input.trackingMode === 'timer' && input.timerStyle === 'countdown'
+      ? { timerStyle: 'countdown' as const }
+      : {}),
+    ...(input.trackingMode === 'timer' &&
+    input.timerStyle === 'countdown' &&
+    input.countdownSeconds &&
+    input.countdownSeconds > 0
+      ? { countdownSeconds: input.countdownSeconds }
+      : {}),
+    ...(input.trackingMode === 'timer' && input.intervalProgram
+      ? { intervalProgram: input.intervalProgram }
+      : {}),
+    ...(input.trackingMode === 'timer' && input.intervalProgram && input.cueSoundId
+      ? { cueSoundId: input.cueSoundId }
+      : {}),
     ...(input.soundId ? { soundId: input.soundId } : {}),
     ...(input.remindMinutesBefore !== undefined && input.remindMinutesBefore >= 0
       ? { remindMinutesBefore: input.remindMinutesBefore }
       : {}),
+    ...(input.startDate ? { startDate: input.startDate } : {}),
+    ...(input.endDate ? { endDate: input.endDate } : {}),
+    ...(input.season ? { season: input.season } : {}),
+    ...(input.streakFreezes ? { streakFreezes: input.streakFreezes } : {}),
   };
 }
 
@@ -153,8 +251,91 @@ export function formatHabitDescription(config: HabitConfig): string | undefined
   return parts.length > 0 ? parts.join(' · ') : undefined;
 }
 
-export function isHabitScheduledOnDate(config: HabitConfig, dateStr: string): boolean {
-  return isScheduleActiveOnDate(config.schedule, dateStr);
+export function hasHabitActiveWindow(config: HabitConfig): boolean {
+  return Boolean(config.startDate || config.endDate || config.season);
+}
+
+export function isDateInSeason(season: HabitSeason, dateStr: string): boolean {
+  const monthDay = dateStr.slice(5);
+  if (season.start <= season.end) {
+    return monthDay >= season.start && monthDay <= season.end;
+  }
+  return monthDay >= season.start || monthDay <= season.end;
+}
+
+/** Whether the date falls inside the habit's start/end dates and yearly season, if any. */
+export function isHabitActiveOnDate(config: HabitConfig, dateStr: string): boolean {
+  if (config.startDate && dateStr < config.startDate) return false;
+  if (config.endDate && dateStr > config.endDate) return false;
+  return !config.season || isDateInSeason(config.season, dateStr);
+}
+
+/** `completedDates` only matters for quota schedules; see `isScheduleActiveOnDate`. */
+export function isHabitScheduledOnDate(
+  config: HabitConfig,
+  dateStr: string,
+  completedDates?: Iterable<string>,
+): boolean {
+  return (
+    isHabitActiveOnDate(config, dateStr) &&
+    isScheduleActiveOnDate(config.schedule, dateStr, completedDates)
+  );
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatMonthDay(monthDay: string): string {
+  const [month, day] = monthDay.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]} ${day}`;
+}
+
+/** `Jun 1 – Sep 30 each year · from 2025-06-01`; undefined without a window. */
+export function formatHabitActiveWindow(config: HabitConfig): string | undefined {
+  const parts: string[] = [];
+  if (config.season) {
+    parts.push(
+      `${formatMonthDay(config.season.start)} – ${formatMonthDay(config.season.end)} each year`,
+    );
+  }
+  if (config.startDate && config.endDate) {
+    parts.push(`${config.startDate} to ${config.endDate}`);
+  } else if (config.startDate) {
+    parts.push(`from ${config.startDate}`);
+  } else if (config.endDate) {
+    parts.push(`until ${config.endDate}`);
+  }
+  if (parts.length === 0) return undefined;
+  const text = parts.join(' · ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** `2/3 this week` for quota habits; undefined for other schedules. */
+export function formatQuotaProgress(config: HabitConfig, completed: number): string | undefined {
+  if (config.schedule.type !== 'quota') return undefined;
+  return `${Math.min(completed, config.schedule.count)}/${config.schedule.count} this ${config.schedule.period}`;
+}
+
+/** Streak length in the habit's own unit: days, or weeks/months for quotas. */
+export function formatHabitStreak(config: HabitConfig, streak: number): string {
+  const unit = config.schedule.type === 'quota' ? config.schedule.period : 'day';
+  return `${streak} ${unit}${streak === 1 ? '' : 's'}`;
+}
+
+export function isHabitSkipEvent(event: Pick<LifeEvent, 'meta'>): boolean {
+  return event.meta?.source === 'habit_skip';
+}
+
+/** Skipped dates with their optional reason. */
+export function habitSkipReasons(
+  events: Pick<LifeEvent, 'date' | 'meta'>[],
+): Map<string, string | undefined> {
+  const skips = new Map<string, string | undefined>();
+  for (const event of events) {
+    if (!isHabitSkipEvent(event)) continue;
+    const reason = typeof event.meta?.reason === 'string' ? event.meta.reason : undefined;
+    skips.set(event.date, reason ?? skips.get(event.date));
+  }
+  return skips;
 }
 
 export function isHabitStartingSoon(
@@ -197,14 +378,79 @@ export function buildTimerSessionPayload(
   };
 }
 
+/**
+ * Seconds a new countdown session should run: the per-session length, else what is
+ * left of today's goal. Zero means there is nothing to count down from.
+ */
+export function countdownTargetSeconds(config: HabitConfig, loggedTotalSeconds: number): number {
+  if (config.trackingMode !== 'timer' || config.timerStyle !== 'countdown') {
+    return 0;
+  }
+  if (config.countdownSeconds) {
+    return config.countdownSeconds;
+  }
+  if (config.dailyTargetSeconds) {
+    return Math.max(0, config.dailyTargetSeconds - loggedTotalSeconds);
+  }
+  return 0;
+}
+
+/** Payload for a session made of one or more active stretches (pause/resume). */
+export function buildSegmentedTimerSessionPayload(
+  segments: TimerSegment[],
+): { value: number; meta: Extract<HabitEventMeta, { source: 'timer_session' }> } {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  if (segments.length === 1) {
+    return buildTimerSessionPayload(new Date(first.startedAt), new Date(last.endedAt));
+  }
+
+  const activeMs = segments.reduce(
+    (sum, segment) => sum + Math.max(0, Date.parse(segment.endedAt) - Date.parse(segment.startedAt)),
+    0,
+  );
+  const durationSeconds = Math.max(1, Math.round(activeMs / 1000));
+  return {
+    value: durationSeconds,
+    meta: {
+      source: 'timer_session',
+      startedAt: first.startedAt,
+      endedAt: last.endedAt,
+      durationSeconds,
+      segments,
+    },
+  };
+}
+
+/** Like `buildSegmentedTimerSessionPayload`, but only work phases count toward `value`. */
+export function buildIntervalTimerSessionPayload(
+  segments: TimerSegment[],
+  program: IntervalProgram,
+): { value: number; meta: Extract<HabitEventMeta, { source: 'timer_session' }> } {
+  const payload = buildSegmentedTimerSessionPayload(segments);
+  const activeSeconds = payload.meta.durationSeconds;
+  const workSeconds = intervalWorkSeconds(program, activeSeconds);
+  return {
+    value: workSeconds,
+    meta: {
+      ...payload.meta,
+      restSeconds: activeSeconds - workSeconds,
+      roundsCompleted: intervalRoundsCompleted(program, activeSeconds),
+    },
+  };
+}
+
 export function liveTimerTotalSeconds(
   loggedTotalSeconds: number,
-  activeSession: { startedAt: string } | null | undefined,
+  activeSession: ActiveTimerSession | null | undefined,
   nowMs = Date.now(),
 ): number {
   if (!activeSession) {
     return loggedTotalSeconds;
   }
-  const elapsed = Math.floor((nowMs - new Date(activeSession.startedAt).getTime()) / 1000);
-  return loggedTotalSeconds + Math.max(0, elapsed);
+  const elapsed = activeTimerElapsedSeconds(activeSession, nowMs);
+  if (activeSession.intervalProgram) {
+    return loggedTotalSeconds + intervalWorkSeconds(activeSession.intervalProgram, elapsed);
+  }
+  return loggedTotalSeconds + elapsed;
 }
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type { LifeEvent } from '../event';
+
+/** How several readings on one day collapse into that day's value. */
+export const MeasurementAggregationSchema = z.enum(['last', 'avg', 'min', 'max']);
+
+export type MeasurementAggregation = z.infer<typeof MeasurementAggregationSchema>;
+
+export const MeasurementConfigSchema = z.object({
+  unit: z.string().min(1),
+  /** Digits shown after the decimal point (entry accepts any precision). */
+  decimals: z.number().int().min(0).max(3).default(1),
+  aggregation: MeasurementAggregationSchema.default('last'),
+  /** Optional healthy / goal range; readings outside it are highlighted. */
+  targetMin: z.number().optional(),
+  targetMax: z.number().optional(),
+  /** Second number per reading, e.g. "Diastolic" for blood pressure. */
+  secondaryLabel: z.string().min(1).optional(),
+});
+
+export type MeasurementConfig = z.infer<typeof MeasurementConfigSchema>;
+
+export const MeasurementEventMetaSchema = z.object({
+  source: z.literal('reading').optional(),
+  /** Paired value when the config has `secondaryLabel`. */
+  secondary: z.number().optional(),
+});
+
+export type MeasurementEventMeta = z.infer<typeof MeasurementEventMetaSchema>;
+
+export const DEFAULT_MEASUREMENT_CONFIG: MeasurementConfig = {
+  unit: 'kg',
+  decimals: 1,
+  aggregation: 'last',
+};
+
+export const MEASUREMENT_AGGREGATION_LABELS: Record<MeasurementAggregation, string> = {
+  last: 'Latest',
+  avg: 'Average',
+  min: 'Lowest',
+  max: 'Highest',
+};
+
+export type MeasurementInput = {
+  name: string;
+  unit: string;
+  decimals: number;
+  aggregation: MeasurementAggregation;
+  targetMin?: number;
+  targetMax?: number;
+  secondaryLabel?: string;
+};
+
+export function buildMeasurementConfig(
+  input: Omit<MeasurementInput, 'name'>,
+): MeasurementConfig {
+  return {
+    unit: input.unit.trim(),
+    decimals: input.decimals,
+    aggregation: input.aggregation,
+    ...(input.targetMin !== undefined ? { targetMin: input.targetMin } : {}),
+    ...(input.targetMax !== undefined ? { targetMax: input.targetMax } : {}),
+    ...(input.secondaryLabel?.trim() ? { secondaryLabel: input.secondaryLabel.trim() } : {}),
+  };
+}
+
+/** Day value for readings (any order); null when there are none. */
+export function aggregateMeasurements(
+  events: Pick<LifeEvent, 'timestamp' | 'value'>[],
+  aggregation: MeasurementAggregation,
+): number | null {
+  if (events.length === 0) return null;
+  const values = events.map((event) => event.value);
+  switch (aggregation) {
+    case 'avg':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'last':
+      return [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp))[
+        events.length - 1
+      ].value;
+  }
+}
+
+/** One aggregated value per date that has readings, oldest first. */
+export function dailyMeasurementValues(
+  events: Pick<LifeEvent, 'date' | 'timestamp' | 'value'>[],
+  config: MeasurementConfig,
+): { date: string; value: number }[] {
+  const byDate = new Map<string, Pick<LifeEvent, 'timestamp' | 'value'>[]>();
+  for (const event of events) {
+    byDate.set(event.date, [...(byDate.get(event.date) ?? []), event]);
+  }
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, readings]) => ({
+      date,
+      value: aggregateMeasurements(readings, config.aggregation) ?? 0,
+    }));
+}
+
+export function formatMeasurementValue(value: number, config: MeasurementConfig): string {
+  return value.toFixed(config.decimals);
+}
+
+/** `72.4 kg`, or `120/80 mmHg` when a secondary value is present. */
+export function formatMeasurement(
+  value: number,
+  config: MeasurementConfig,
+  secondary?: number,
+): string {
+  const primary = formatMeasurementValue(value, config);
+  const pair =
+    config.secondaryLabel && secondary !== undefined
+      ? `${primary}/${formatMeasurementValue(secondary, config)}`
+      : primary;
+  return `${pair} ${config.unit}`;
+}
+
+export function hasMeasurementTarget(config: MeasurementConfig): boolean {
+  return config.targetMin !== undefined || config.targetMax !== undefined;
+}
+
+export function isMeasurementInTarget(value: number, config: MeasurementConfig): boolean {
+  if (config.targetMin !== undefined && value < config.targetMin) return false;
+  if (config.targetMax !== undefined && value > config.targetMax) return false;
+  return true;
+}
+
+/** Least-squares line through the points; null with fewer than two distinct x values. */
+export function linearTrend(
+  points: { x: number; y: number }[],
+): { slope: number; intercept: number } | null {
+  if (points.length < 2) return null;
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of points) {
+    numerator += (point.x - meanX) * (point.y - meanY);
+    denominator += (point.x - meanX) ** 2;
+  }
+  if (denominator === 0) return null;
+  const slope = numerator / denominator;
+  return { slope, intercept: meanY - slope * meanX };
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { LifeEvent } from '../event';
+
+export const RATING_SCALE_MAX = 10;
+
+export const RatingConfigSchema = z.object({
+  /** Lowest score; at least 1 so a day value of 0 always means "not rated". */
+  min: z.number().int().min(1).max(RATING_SCALE_MAX - 1).default(1),
+  max: z.number().int().min(2).max(RATING_SCALE_MAX).default(5),
+  /** Word or emoji per score starting at `min`; blanks fall back to the number. */
+  labels: z.array(z.string()).default([]),
+});
+
+export type RatingConfig = z.infer<typeof RatingConfigSchema>;
+
+export const RatingEventMetaSchema = z.object({
+  source: z.literal('rating').optional(),
+  note: z.string().optional(),
+});
+
+export type RatingEventMeta = z.infer<typeof RatingEventMetaSchema>;
+
+export const DEFAULT_RATING_CONFIG: RatingConfig = {
+  min: 1,
+  max: 5,
+  labels: [],
+};
+
+export type RatingInput = {
+  name: string;
+  min: number;
+  max: number;
+  labels: string[];
+};
+
+export function buildRatingConfig(input: RatingInput): RatingConfig {
+  const labels = input.labels.map((label) => label.trim());
+  while (labels.length > 0 && !labels[labels.length - 1]) labels.pop();
+  return { min: input.min, max: input.max, labels };
+}
+
+/** Every score on the scale, lowest first. */
+export function ratingScale(config: RatingConfig): number[] {
+  return Array.from({ length: config.max - config.min + 1 }, (_, i) => config.min + i);
+}
+
+export function ratingLabel(value: number, config: RatingConfig): string | undefined {
+  return config.labels[value - config.min]?.trim() || undefined;
+}
+
+/** `4/5 🙂` for a whole score, `3.5/5` for a day's average. */
+export function formatRating(value: number, config: RatingConfig): string {
+  const score = Number.isInteger(value) ? String(value) : value.toFixed(1);
+  const label = Number.isInteger(value) ? ratingLabel(value, config) : undefined;
+  return label ? `${score}/${config.max} ${label}` : `${score}/${config.max}`;
+}
+
+/** Average of the day's ratings; 0 when there are none. */
+export function averageRating(events: Pick<LifeEvent, 'value'>[]): number {
+  if (events.length === 0) return 0;
+  return events.reduce((sum, event) => sum + event.value, 0) / events.length;
+}
+
+/** How many ratings landed on each score; off-scale values are ignored. */
+export function ratingDistribution(
+  events: Pick<LifeEvent, 'value'>[],
+  config: RatingConfig,
+): { value: number; count: number }[] {
+  return ratingScale(config).map((value) => ({
+    value,
+    count: events.filter((event) => event.value === value).length,
+  }));
+}
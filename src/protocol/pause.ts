@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { shiftDateString } from './event';
+
+const PauseDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * Vacation / sick mode: every habit rests for these days. Paused days are not due,
+ * send no reminders and are excused from streaks.
+ */
+export const PausePeriodSchema = z.object({
+  id: z.string().uuid(),
+  startDate: PauseDateSchema,
+  /** Last paused day, inclusive; unset while the pause runs until ended. */
+  endDate: PauseDateSchema.optional(),
+  reason: z.string().max(200).optional(),
+  createdAt: z.string().datetime(),
+});
+
+export type PausePeriod = z.infer<typeof PausePeriodSchema>;
+
+export function isDateInPausePeriod(period: PausePeriod, dateStr: string): boolean {
+  return dateStr >= period.startDate && (!period.endDate || dateStr <= period.endDate);
+}
+
+/** The pause covering `dateStr`, if any. */
+export function pausePeriodOnDate(
+  periods: PausePeriod[],
+  dateStr: string,
+): PausePeriod | undefined {
+  return periods.find((period) => isDateInPausePeriod(period, dateStr));
+}
+
+export function isDatePaused(periods: PausePeriod[], dateStr: string): boolean {
+  return pausePeriodOnDate(periods, dateStr) !== undefined;
+}
+
+/** Paused dates from `from` through `to`, in order. */
+export function pausedDatesBetween(periods: PausePeriod[], from: string, to: string): string[] {
+  const dates: string[] = [];
+  if (periods.length === 0) return dates;
+  for (let date = from; date <= to; date = shiftDateString(date, 1)) {
+    if (isDatePaused(periods, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/** Pauses that have not ended before `today`, soonest first. */
+export function currentAndUpcomingPauses(periods: PausePeriod[], today: string): PausePeriod[] {
+  return periods
+    .filter((period) => !period.endDate || period.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/** `2025-07-01 – 2025-07-14`, or `Since 2025-07-01` while open-ended. */
+export function formatPausePeriod(period: PausePeriod): string {
+  if (!period.endDate) return `Since ${period.startDate}`;
+  if (period.endDate === period.startDate) return period.startDate;
+  return `${period.startDate} – ${period.endDate}`;
+}
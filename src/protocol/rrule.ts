@@ -0,0 +1,365 @@
+/**
+ * The subset of iCalendar RRULE (RFC 5545) habit schedules understand: FREQ,
+ * INTERVAL, BYDAY (with ordinals for monthly and yearly rules), BYMONTHDAY,
+ * BYMONTH, UNTIL and COUNT. Rules are stored as text and evaluated per date
+ * against the schedule's start date (DTSTART).
+ */
+
+export const RRULE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RRuleFrequency = (typeof RRULE_FREQUENCIES)[number];
+
+/** iCalendar day codes, indexed like `Date.getDay()` (0 = Sunday). */
+export const RRULE_WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export interface RRuleWeekday {
+  weekday: number;
+  /** `1MO` is the first Monday, `-1FR` the last Friday of the month (or year). */
+  ordinal?: number;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleWeekday[];
+  /** 1–31, or -1 for the last day, -2 for the one before, … */
+  byMonthDay: number[];
+  /** 1–12. */
+  byMonth: number[];
+  /** Last date (inclusive) the rule can match. */
+  until?: string;
+  /** Number of occurrences from the start date. */
+  count?: number;
+}
+
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'UNTIL', 'COUNT']);
+const BYDAY_RE = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const UNTIL_RE = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/;
+
+function parsePositiveInt(name: string, raw: string): number {
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || value < 1) {
+    throw new Error(`${name} must be a whole number of 1 or more`);
+  }
+  return value;
+}
+
+function parseIntList(name: string, raw: string, min: number, max: number): number[] {
+  return raw.split(',').map((item) => {
+    const value = Number(item);
+    if (!/^[+-]?\d{1,2}$/.test(item) || value === 0 || value < min || value > max) {
+      throw new Error(`${name} has an invalid value: ${item}`);
+    }
+    return value;
+  });
+}
+
+/** Parses `FREQ=MONTHLY;BYDAY=1MO` (an `RRULE:` prefix is allowed). Throws on anything outside the subset. */
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, value, extra] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    if (value === undefined || extra !== undefined || !value.trim()) {
+      throw new Error(`Cannot read "${part}"`);
+    }
+    if (!SUPPORTED_PARTS.has(key)) throw new Error(`${key} is not supported`);
+    if (parts.has(key)) throw new Error(`${key} appears twice`);
+    parts.set(key, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) throw new Error('FREQ is required');
+  if (!(RRULE_FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new Error(`FREQ must be one of ${RRULE_FREQUENCIES.join(', ')}`);
+  }
+  const frequency = freq as RRuleFrequency;
+
+  const interval = parts.has('INTERVAL') ? parsePositiveInt('INTERVAL', parts.get('INTERVAL')!) : 1;
+
+  const ordinalLimit = frequency === 'MONTHLY' ? 5 : frequency === 'YEARLY' ? 53 : 0;
+  const byDay = parts.has('BYDAY')
+    ? parts.get('BYDAY')!.split(',').map((item): RRuleWeekday => {
+        const match = BYDAY_RE.exec(item);
+        if (!match) throw new Error(`BYDAY has an invalid value: ${item}`);
+        const weekday = (RRULE_WEEKDAY_CODES as readonly string[]).indexOf(match[2]);
+        if (match[1] === undefined) return { weekday };
+        const ordinal = Number(match[1]);
+        if (ordinalLimit === 0) {
+          throw new Error(`BYDAY cannot number weekdays in a ${frequency} rule`);
+        }
+        if (ordinal === 0 || Math.abs(ordinal) > ordinalLimit) {
+          throw new Error(`BYDAY has an invalid value: ${item}`);
+        }
+        return { weekday, ordinal };
+      })
+    : [];
+
+  const byMonthDay = parts.has('BYMONTHDAY')
+    ? parseIntList('BYMONTHDAY', parts.get('BYMONTHDAY')!, -31, 31)
+    : [];
+  const byMonth = parts.has('BYMONTH') ? parseIntList('BYMONTH', parts.get('BYMONTH')!, 1, 12) : [];
+
+  let until: string | undefined;
+  if (parts.has('UNTIL')) {
+    const match = UNTIL_RE.exec(parts.get('UNTIL')!);
+    if (!match) throw new Error('UNTIL must be a date like 20251231');
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  const count = parts.has('COUNT') ? parsePositiveInt('COUNT', parts.get('COUNT')!) : undefined;
+  if (until && count !== undefined) throw new Error('Use UNTIL or COUNT, not both');
+
+  return {
+    freq: frequency,
+    interval,
+    byDay,
+    byMonthDay,
+    byMonth,
+    ...(until ? { until } : {}),
+    ...(count !== undefined ? { count } : {}),
+  };
+}
+
+export function isValidRRule(text: string): boolean {
+  try {
+    parseRRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Canonical text for a rule, with parts in a fixed order. */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(
+      ({ weekday, ordinal }) => `${ordinal ?? ''}${RRULE_WEEKDAY_CODES[weekday]}`,
+    );
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateParts(dateStr: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return { year, month, day };
+}
+
+/** Days since the epoch; calendar arithmetic without time zones. */
+function dayNumber(dateStr: string): number {
+  const { year, month, day } = dateParts(dateStr);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function dateFromDayNumber(value: number): string {
+  return new Date(value * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(dateStr: string): number {
+  return new Date(dayNumber(dateStr) * DAY_MS).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Position of the date's weekday in its month or year: 1 for the first, -1 for the last. */
+function weekdayPosition(
+  dateStr: string,
+  scope: 'month' | 'year',
+): { fromStart: number; fromEnd: number } {
+  const { year, month, day } = dateParts(dateStr);
+  const yearStart = dayNumber(`${year}-01-01`);
+  const index = scope === 'month' ? day : dayNumber(dateStr) - yearStart + 1;
+  const length =
+    scope === 'month' ? daysInMonth(year, month) : dayNumber(`${year + 1}-01-01`) - yearStart;
+  return {
+    fromStart: Math.floor((index - 1) / 7) + 1,
+    fromEnd: -(Math.floor((length - index) / 7) + 1),
+  };
+}
+
+/** Whether the date falls in the pattern, ignoring UNTIL and COUNT. */
+function matchesPattern(rule: RRule, anchorDate: string, dateStr: string): boolean {
+  const elapsedDays = dayNumber(dateStr) - dayNumber(anchorDate);
+  if (elapsedDays < 0) return false;
+
+  const anchor = dateParts(anchorDate);
+  const date = dateParts(dateStr);
+
+  let elapsedPeriods: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      elapsedPeriods = elapsedDays;
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday (the RRULE default WKST).
+      const mondayOf = (value: string) => dayNumber(value) - ((weekdayOf(value) + 6) % 7);
+      elapsedPeriods = (mondayOf(dateStr) - mondayOf(anchorDate)) / 7;
+      break;
+    }
+    case 'MONTHLY':
+      elapsedPeriods = (date.year - anchor.year) * 12 + date.month - anchor.month;
+      break;
+    case 'YEARLY':
+      elapsedPeriods = date.year - anchor.year;
+      break;
+  }
+  if (elapsedPeriods % rule.interval !== 0) return false;
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.month)) return false;
+
+  if (rule.byMonthDay.length > 0) {
+    const monthLength = daysInMonth(date.year, date.month);
+    const matchesDay = rule.byMonthDay.some((monthDay) =>
+      monthDay > 0 ? monthDay === date.day : monthLength + monthDay + 1 === date.day,
+    );
+    if (!matchesDay) return false;
+  }
+
+  if (rule.byDay.length > 0) {
+    const weekday = weekdayOf(dateStr);
+    const scope = rule.freq === 'YEARLY' && rule.byMonth.length === 0 ? 'year' : 'month';
+    const matchesWeekday = rule.byDay.some((byDay) => {
+      if (byDay.weekday !== weekday) return false;
+      if (byDay.ordinal === undefined) return true;
+      const position = weekdayPosition(dateStr, scope);
+      return byDay.ordinal > 0
+        ? position.fromStart === byDay.ordinal
+        : position.fromEnd === byDay.ordinal;
+    });
+    if (!matchesWeekday) return false;
+  }
+
+  // Without BYDAY or BYMONTHDAY, the start date supplies the missing day.
+  if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+    switch (rule.freq) {
+      case 'WEEKLY':
+        return weekdayOf(dateStr) === weekdayOf(anchorDate);
+      case 'MONTHLY':
+        return date.day === anchor.day;
+      case 'YEARLY':
+        return date.day === anchor.day && (rule.byMonth.length > 0 || date.month === anchor.month);
+      default:
+        return true;
+    }
+  }
+
+  return true;
+}
+
+/** How far ahead to look for the last COUNT occurrence of a rule that rarely matches. */
+const COUNT_SEARCH_DAYS = 100 * 366;
+
+/** Last occurrence per rule and start date, so COUNT is not rescanned for every date. */
+const lastOccurrenceCache = new WeakMap<RRule, Map<string, string | null>>();
+
+/** The date of the COUNT-th occurrence; null if it lies beyond the search horizon. */
+function lastCountedOccurrence(rule: RRule, count: number, anchorDate: string): string | null {
+  let byAnchor = lastOccurrenceCache.get(rule);
+  if (!byAnchor) {
+    byAnchor = new Map();
+    lastOccurrenceCache.set(rule, byAnchor);
+  }
+  const cached = byAnchor.get(anchorDate);
+  if (cached !== undefined) return cached;
+
+  let last: string | null = null;
+  let seen = 0;
+  const start = dayNumber(anchorDate);
+  for (let day = start; day < start + COUNT_SEARCH_DAYS; day++) {
+    const date = dateFromDayNumber(day);
+    if (matchesPattern(rule, anchorDate, date) && ++seen >= count) {
+      last = date;
+      break;
+    }
+  }
+  byAnchor.set(anchorDate, last);
+  return last;
+}
+
+/** Whether the rule, started on `anchorDate`, has an occurrence on `dateStr`. */
+export function isRRuleActiveOnDate(rule: RRule, anchorDate: string, dateStr: string): boolean {
+  if (rule.until && dateStr > rule.until) return false;
+  if (!matchesPattern(rule, anchorDate, dateStr)) return false;
+  if (rule.count === undefined) return true;
+
+  const last = lastCountedOccurrence(rule, rule.count, anchorDate);
+  return last === null || dateStr <= last;
+}
+
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function formatOrdinal(value: number): string {
+  const tens = value % 100;
+  if (tens >= 11 && tens <= 13) return `${value}th`;
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+}
+
+/** `1st`, `last`, `2nd to last`. */
+function formatPosition(value: number): string {
+  if (value > 0) return formatOrdinal(value);
+  return value === -1 ? 'last' : `${formatOrdinal(-value)} to last`;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/** Plain-language summary, e.g. `Every 2 weeks on Tue and Thu`. */
+export function describeRRule(rule: RRule): string {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const parts = [rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`];
+
+  if (rule.byMonth.length > 0) {
+    parts.push(`in ${joinList(rule.byMonth.map((month) => MONTH_NAMES[month - 1]))}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay.map((day) =>
+      day > 0 ? formatOrdinal(day) : `${formatPosition(day)} day`,
+    );
+    parts.push(`on the ${joinList(days)}`);
+  }
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(({ weekday, ordinal }) =>
+      ordinal === undefined
+        ? WEEKDAY_NAMES[weekday]
+        : `the ${formatPosition(ordinal)} ${WEEKDAY_NAMES[weekday]}`,
+    );
+    parts.push(`on ${joinList(days)}`);
+  }
+
+  let text = parts.join(' ');
+  if (rule.until) text += `, until ${rule.until}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return text;
+}
@@ -1,11 +1,25 @@
 import { z } from 'zod';
 import { timeToMinutes } from '../utils/time';
+import { shiftDateString } from './event';
+import {
+  describeRRule,
+  isRRuleActiveOnDate,
+  isValidRRule,
+  parseRRule,
+  type RRule,
+} from './rrule';
 import type { HabitTimeRange } from './kinds/habit';
 
 const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
 export const WeekdaySchema = z.number().int().min(0).max(6);
 
+export const QUOTA_PERIODS = ['week', 'month'] as const;
+export type QuotaPeriod = (typeof QUOTA_PERIODS)[number];
+
+/** Most days a quota can ask for in one period. */
+export const QUOTA_PERIOD_MAX_DAYS: Record<QuotaPeriod, number> = { week: 7, month: 28 };
+
 export const HabitScheduleSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('daily') }),
   z.object({
@@ -17,9 +31,33 @@ export const HabitScheduleSchema = z.discriminatedUnion('type', [
     interval: z.number().int().min(1),
     anchorDate: z.string().regex(DATE_RE),
   }),
-]);
+  z.object({
+    type: z.literal('quota'),
+    /** Days to complete per period, on any days. */
+    count: z.number().int().min(1),
+    period: z.enum(QUOTA_PERIODS),
+    /** First day of a `week` period (0 = Sunday). */
+    weekStartsOn: WeekdaySchema.default(1),
+  }),
+  z.object({
+    type: z.literal('rrule'),
+    /** iCalendar RRULE text in the subset `parseRRule` reads. */
+    rule: z.string().refine(isValidRRule, 'Unsupported recurrence rule'),
+    /** DTSTART: first possible occurrence; INTERVAL and COUNT count from here. */
+    anchorDate: z.string().regex(DATE_RE),
+  }),
+]).superRefine((schedule, ctx) => {
+  if (schedule.type === 'quota' && schedule.count > QUOTA_PERIOD_MAX_DAYS[schedule.period]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['count'],
+      message: `At most ${QUOTA_PERIOD_MAX_DAYS[schedule.period]} days per ${schedule.period}`,
+    });
+  }
+});
 
 export type HabitSchedule = z.infer<typeof HabitScheduleSchema>;
+export type QuotaSchedule = Extract<HabitSchedule, { type: 'quota' }>;
 
 function dateFromString(dateStr: string): Date {
   return new Date(`${dateStr}T12:00:00`);
@@ -32,7 +70,54 @@ export function daysBetween(startDate: string, endDate: string): number {
   return Math.floor(ms / (24 * 60 * 60 * 1000));
 }
 
-export function isScheduleActiveOnDate(schedule: HabitSchedule, dateStr: string): boolean {
+/** First date of the week or month that holds `dateStr`. */
+export function quotaPeriodStart(
+  schedule: Pick<QuotaSchedule, 'period' | 'weekStartsOn'>,
+  dateStr: string,
+): string {
+  if (schedule.period === 'month') {
+    return `${dateStr.slice(0, 8)}01`;
+  }
+  const offset = (dateFromString(dateStr).getDay() - schedule.weekStartsOn + 7) % 7;
+  return shiftDateString(dateStr, -offset);
+}
+
+/** Completed days in the period of `dateStr`, counting only days before it. */
+export function quotaCompletionsBefore(
+  schedule: QuotaSchedule,
+  dateStr: string,
+  completedDates: Iterable<string>,
+): number {
+  const start = quotaPeriodStart(schedule, dateStr);
+  let count = 0;
+  for (const date of new Set(completedDates)) {
+    if (date >= start && date < dateStr) count += 1;
+  }
+  return count;
+}
+
+/** Parsed rules by text; streak walks ask about hundreds of dates per habit. */
+const parsedRRules = new Map<string, RRule>();
+
+function parseRRuleOnce(text: string): RRule {
+  let rule = parsedRRules.get(text);
+  if (!rule) {
+    rule = parseRRule(text);
+    if (parsedRRules.size >= 100) parsedRRules.clear();
+    parsedRRules.set(text, rule);
+  }
+  return rule;
+}
+
+/**
+ * Whether the habit is due on `dateStr`. Quotas stay due every day of a period
+ * until enough earlier days in it were completed, so they need `completedDates`.
+ */
+export function isScheduleActiveOnDate(
+  schedule: HabitSchedule,
+  dateStr: string,
+  completedDates: Iterable<string> = [],
+): boolean {
   const date = dateFromString(dateStr);
 
   switch (schedule.type) {
@@ -45,6 +130,10 @@ export function isScheduleActiveOnDate(schedule: HabitSchedule, dateStr: string)
       if (elapsed < 0) return false;
       return elapsed % schedule.interval === 0;
     }
+    case 'quota':
+      return quotaCompletionsBefore(schedule, dateStr, completedDates) < schedule.count;
+    case 'rrule':
+      return isRRuleActiveOnDate(parseRRuleOnce(schedule.rule), schedule.anchorDate, dateStr);
     default:
       return true;
   }
@@ -78,6 +167,10 @@ export function formatScheduleDescription(schedule: HabitSchedule): string {
       return schedule.interval === 1
         ? 'Every day'
         : `Every ${schedule.interval} days`;
+    case 'quota':
+      return `${schedule.count}× per ${schedule.period}`;
+    case 'rrule':
+      return describeRRule(parseRRule(schedule.rule));
     default:
       return 'Every day';
   }
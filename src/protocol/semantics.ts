@@ -1,38 +1,91 @@
 import type { ElementDefinition } from './element';
+import type { LifeEvent } from './event';
+import { ChecklistConfigSchema, isChecklistDayComplete } from './kinds/checklist';
 import { CounterConfigSchema } from './kinds/counter';
 import { HabitConfigSchema, isHabitDayComplete } from './kinds/habit';
+import {
+  aggregateMeasurements,
+  hasMeasurementTarget,
+  isMeasurementInTarget,
+  MeasurementConfigSchema,
+  type MeasurementAggregation,
+} from './kinds/measurement';
+import { RatingConfigSchema } from './kinds/rating';
 
 /**
- * Life Protocol v1 — how to read `event.value` for daily aggregation (SUM per element per date).
+ * Life Protocol — how to read `event.value` for daily aggregation.
  *
- * | kind    | config              | event.value meaning      | meta.source (typical)   |
- * |---------|---------------------|--------------------------|-------------------------|
- * | counter | —                   | increment or set total   | quick_button, manual    |
- * | habit   | trackingMode boolean| 1 = checked off          | habit_tick              |
- * | habit   | trackingMode timer  | session length (seconds) | timer_session           |
+ * | kind        | config              | event.value meaning      | meta.source (typical)   |
+ * |-------------|---------------------|--------------------------|-------------------------|
+ * | counter     | —                   | increment or set total   | quick_button, manual    |
+ * | habit       | trackingMode boolean| 1 = checked off          | habit_tick              |
+ * | habit       | trackingMode timer  | session length (seconds) | timer_session           |
+ * | habit       | any                 | 0 = day skipped          | habit_skip              |
+ * | measurement | aggregation         | one reading in `unit`    | reading                 |
+ * | rating      | min, max            | one score on the scale   | rating                  |
+ * | checklist   | items               | 1 = one step ticked      | checklist_tick          |
+ * | abstinence  | startDate           | 1 = one relapse          | relapse                 |
+ * | group       | —                   | (no events)              | —                       |
  *
- * Daily total = SUM(events.value) for that element on that calendar date.
- * Completion rules live in kind config (e.g. dailyTarget, dailyTargetSeconds).
+ * Daily total = SUM(events.value) for that element on that calendar date, except
+ * measurements, which take the last / avg / min / max reading per `aggregation`,
+ * and ratings, which average the day's scores.
+ * Completion rules live in kind config (e.g. dailyTarget, dailyTargetSeconds);
+ * abstinence days are complete when nothing was logged. Groups are never complete
+ * on their own; see `groupProgress` for member completion.
  */
 
-export type DailyValueUnit = 'count' | 'seconds' | 'done';
+export type DailyValueUnit = 'count' | 'seconds' | 'done' | 'reading' | 'score';
+
+/** How one day's events collapse into the day value. */
+export type DailyAggregation = 'sum' | MeasurementAggregation;
 
 export interface DailyValueSemantics {
   unit: DailyValueUnit;
   displayUnit: string;
+  aggregation: DailyAggregation;
 }
 
 export function getDailyValueSemantics(element: ElementDefinition): DailyValueSemantics {
   if (element.kind === 'counter') {
     const config = CounterConfigSchema.parse(element.config);
-    return { unit: 'count', displayUnit: config.unit };
+    return { unit: 'count', displayUnit: config.unit, aggregation: 'sum' };
+  }
+  if (element.kind === 'measurement') {
+    const config = MeasurementConfigSchema.parse(element.config);
+    return { unit: 'reading', displayUnit: config.unit, aggregation: config.aggregation };
+  }
+  if (element.kind === 'rating') {
+    const config = RatingConfigSchema.parse(element.config);
+    return { unit: 'score', displayUnit: `of ${config.max}`, aggregation: 'avg' };
+  }
+  if (element.kind === 'checklist') {
+    return { unit: 'count', displayUnit: 'steps', aggregation: 'sum' };
+  }
+  if (element.kind === 'abstinence') {
+    return { unit: 'count', displayUnit: 'relapses', aggregation: 'sum' };
+  }
+  if (element.kind === 'group') {
+    return { unit: 'done', displayUnit: 'done', aggregation: 'sum' };
   }
 
   const config = HabitConfigSchema.parse(element.config);
   if (config.trackingMode === 'timer') {
-    return { unit: 'seconds', displayUnit: 'seconds' };
+    return { unit: 'seconds', displayUnit: 'seconds', aggregation: 'sum' };
+  }
+  return { unit: 'done', displayUnit: 'done', aggregation: 'sum' };
+}
+
+/** One day's value for an element from that day's events (0 when empty). */
+export function aggregateDailyValue(
+  element: ElementDefinition,
+  events: Pick<LifeEvent, 'timestamp' | 'value'>[],
+): number {
+  const { aggregation } = getDailyValueSemantics(element);
+  if (aggregation !== 'sum') {
+    return aggregateMeasurements(events, aggregation) ?? 0;
   }
-  return { unit: 'done', displayUnit: 'done' };
+  return events.reduce((sum, event) => sum + event.value, 0);
 }
 
 export function isElementDayComplete(element: ElementDefinition, dailyTotal: number): boolean {
@@ -43,6 +96,25 @@ export function isElementDayComplete(element: ElementDefinition, dailyTotal: num
     }
     return dailyTotal > 0;
   }
+  if (element.kind === 'measurement') {
+    const config = MeasurementConfigSchema.parse(element.config);
+    if (hasMeasurementTarget(config)) {
+      return dailyTotal > 0 && isMeasurementInTarget(dailyTotal, config);
+    }
+    return dailyTotal > 0;
+  }
+  if (element.kind === 'rating') {
+    return dailyTotal > 0;
+  }
+  if (element.kind === 'checklist') {
+    return isChecklistDayComplete(dailyTotal, ChecklistConfigSchema.parse(element.config));
+  }
+  if (element.kind === 'abstinence') {
+    return dailyTotal === 0;
+  }
+  if (element.kind === 'group') {
+    return false;
+  }
 
   const config = HabitConfigSchema.parse(element.config);
   return isHabitDayComplete(dailyTotal, config);
@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { IntervalProgramSchema } from './intervalProgram';
+import type { HabitConfig } from './kinds/habit';
+
+/** One stretch of active (unpaused) timer time. */
+export const TimerSegmentSchema = z.object({
+  startedAt: z.string().datetime(),
+  endedAt: z.string().datetime(),
+});
+
+export type TimerSegment = z.infer<typeof TimerSegmentSchema>;
+
+/**
+ * In-flight timer persisted across restarts (not a protocol event until stopped).
+ *
+ * A plain `{ startedAt }` is a session running since `startedAt`. Pausing moves the
+ * running stretch into `segments` and sets `pausedAt`; resuming starts a new stretch
+ * at `resumedAt`.
+ */
+export const ActiveTimerSessionSchema = z.object({
+  startedAt: z.string().datetime(),
+  /** Closed active stretches, oldest first. */
+  segments: z.array(TimerSegmentSchema).optional(),
+  /** Start of the running stretch after a resume. */
+  resumedAt: z.string().datetime().optional(),
+  /** Set while paused — nothing is running. */
+  pausedAt: z.string().datetime().optional(),
+  /** Countdown sessions: active seconds to run before auto-stopping. */
+  targetSeconds: z.number().int().positive().optional(),
+  /** Program snapshot when started, so edits to the habit don't shift a running session. */
+  intervalProgram: IntervalProgramSchema.optional(),
+});
+
+export type ActiveTimerSession = z.infer<typeof ActiveTimerSessionSchema>;
+
+export const ActiveTimerSessionsSchema = z.record(z.string().uuid(), ActiveTimerSessionSchema);
+
+export function parseActiveTimerSessions(raw: unknown): Record<string, ActiveTimerSession> {
+  return ActiveTimerSessionsSchema.parse(raw);
+}
+
+/** Sessions running longer than this (or twice the daily goal) were probably forgotten. */
+export const STALE_TIMER_SESSION_SECONDS = 2 * 60 * 60;
+
+function segmentMs(segment: TimerSegment): number {
+  return Math.max(0, Date.parse(segment.endedAt) - Date.parse(segment.startedAt));
+}
+
+export function isTimerSessionPaused(session: ActiveTimerSession): boolean {
+  return session.pausedAt !== undefined;
+}
+
+/** Active stretches so far, with a running stretch closed at `nowMs`. */
+export function timerSessionSegments(
+  session: ActiveTimerSession,
+  nowMs = Date.now(),
+): TimerSegment[] {
+  const closed = session.segments ?? [];
+  if (isTimerSessionPaused(session)) {
+    return closed;
+  }
+  const runningSince = session.resumedAt ?? session.startedAt;
+  const endMs = Math.max(nowMs, Date.parse(runningSince));
+  return [...closed, { startedAt: runningSince, endedAt: new Date(endMs).toISOString() }];
+}
+
+/** Active (unpaused) seconds in the session. */
+export function activeTimerElapsedSeconds(
+  session: ActiveTimerSession,
+  nowMs = Date.now(),
+): number {
+  const totalMs = timerSessionSegments(session, nowMs).reduce(
+    (sum, segment) => sum + segmentMs(segment),
+    0,
+  );
+  return Math.floor(totalMs / 1000);
+}
+
+/** Fields fixed at start that pause/resume carry over unchanged. */
+function sessionPlan(
+  session: ActiveTimerSession,
+): Pick<ActiveTimerSession, 'targetSeconds' | 'intervalProgram'> {
+  return {
+    ...(session.targetSeconds ? { targetSeconds: session.targetSeconds } : {}),
+    ...(session.intervalProgram ? { intervalProgram: session.intervalProgram } : {}),
+  };
+}
+
+export function pauseTimerSession(
+  session: ActiveTimerSession,
+  now = new Date(),
+): ActiveTimerSession {
+  if (isTimerSessionPaused(session)) {
+    return session;
+  }
+  return {
+    startedAt: session.startedAt,
+    segments: timerSessionSegments(session, now.getTime()),
+    pausedAt: now.toISOString(),
+    ...sessionPlan(session),
+  };
+}
+
+export function resumeTimerSession(
+  session: ActiveTimerSession,
+  now = new Date(),
+): ActiveTimerSession {
+  if (!isTimerSessionPaused(session)) {
+    return session;
+  }
+  return {
+    startedAt: session.startedAt,
+    segments: session.segments ?? [],
+    resumedAt: now.toISOString(),
+    ...sessionPlan(session),
+  };
+}
+
+/** Countdown seconds left, or null for count-up sessions. */
+export function timerSessionRemainingSeconds(
+  session: ActiveTimerSession,
+  nowMs = Date.now(),
+): number | null {
+  if (!session.targetSeconds) {
+    return null;
+  }
+  return Math.max(0, session.targetSeconds - activeTimerElapsedSeconds(session, nowMs));
+}
+
+/**
+ * Wall-clock moment a running session reaches `activeSeconds` of active time
+ * (clamped to now-or-earlier stretches), or null while paused.
+ */
+export function timerSessionTimeAtActiveSeconds(
+  session: ActiveTimerSession,
+  activeSeconds: number,
+): Date | null {
+  if (isTimerSessionPaused(session)) {
+    return null;
+  }
+  const closedMs = (session.segments ?? []).reduce((sum, segment) => sum + segmentMs(segment), 0);
+  const runningSince = Date.parse(session.resumedAt ?? session.startedAt);
+  return new Date(runningSince + Math.max(0, activeSeconds * 1000 - closedMs));
+}
+
+/** When a running countdown reaches zero, or null if paused or count-up. */
+export function countdownEndTime(session: ActiveTimerSession): Date | null {
+  if (!session.targetSeconds) {
+    return null;
+  }
+  return timerSessionTimeAtActiveSeconds(session, session.targetSeconds);
+}
+
+/** Active stretches up to `endedAt`, dropping or truncating anything after it. */
+export function closeTimerSession(
+  session: ActiveTimerSession,
+  endedAt: Date,
+): TimerSegment[] {
+  const endMs = endedAt.getTime();
+  const segments = timerSessionSegments(session, endMs)
+    .filter((segment) => Date.parse(segment.startedAt) < endMs)
+    .map((segment) =>
+      Date.parse(segment.endedAt) > endMs
+        ? { ...segment, endedAt: endedAt.toISOString() }
+        : segment,
+    );
+  if (segments.length === 0) {
+    return [{ startedAt: session.startedAt, endedAt: session.startedAt }];
+  }
+  return segments;
+}
+
+export function isTimerSessionStale(
+  session: ActiveTimerSession,
+  config: HabitConfig,
+  nowMs = Date.now(),
+): boolean {
+  const bound = Math.max(STALE_TIMER_SESSION_SECONDS, (config.dailyTargetSeconds ?? 0) * 2);
+  return activeTimerElapsedSeconds(session, nowMs) > bound;
+}
+
+/**
+ * End time when trimming a forgotten session: the moment active time reached the
+ * daily goal length (else the stale bound), or now if it never did.
+ */
+export function trimmedTimerSessionEnd(
+  session: ActiveTimerSession,
+  config: HabitConfig,
+  nowMs = Date.now(),
+): Date {
+  let remainingMs = (config.dailyTargetSeconds ?? STALE_TIMER_SESSION_SECONDS) * 1000;
+  const segments = timerSessionSegments(session, nowMs);
+  for (const segment of segments) {
+    const length = segmentMs(segment);
+    if (length >= remainingMs) {
+      return new Date(Date.parse(segment.startedAt) + remainingMs);
+    }
+    remainingMs -= length;
+  }
+  const last = segments[segments.length - 1];
+  return last ? new Date(Math.min(nowMs, Date.parse(last.endedAt))) : new Date(nowMs);
+}
@@ -0,0 +1,510 @@
+import React, { useCallback, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  IconButton,
+  List,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  backupFileName,
+  pickTextFile,
+  shareBackupFile,
+  writeBackupFile,
+} from '../backup/backupFiles';
+import { SNAPSHOT_REASON_LABELS } from '../backup/snapshotRetention';
+import {
+  listSnapshots,
+  restoreSnapshot,
+  snapshotBeforeDestructive,
+  type SnapshotFile,
+} from '../backup/snapshots';
+import CsvImportDialog, { type CsvImportFile } from '../components/CsvImportDialog';
+import { exportDailyTotalsCsv, exportEventsCsv, importEventsCsv } from '../db/csv';
+import {
+  exportProtocolBundle,
+  importProtocolBundle,
+  mergeProtocolBundle,
+  previewProtocolBundleMerge,
+  serializeBundle,
+} from '../db/export';
+import {
+  describeBundleError,
+  parseProtocolBundle,
+  summarizeProtocolBundle,
+  type BundleMergeReport,
+  type CsvColumnMapping,
+  type ElementMergeResolution,
+  type ProtocolBundleSummary,
+} from '../protocol';
+import { useElementStore } from '../store/elementStore';
+import { useEventStore } from '../store/eventStore';
+import { usePauseStore } from '../store/pauseStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { useSoundLibraryStore } from '../store/soundLibraryStore';
+import { parseCsvLines } from '../utils/csv';
+import { formatFullDate } from '../utils/dates';
+
+type PendingImport =
+  | { fileName: string; raw: unknown; summary: ProtocolBundleSummary; merge: BundleMergeReport }
+  | { fileName: string; errors: string[] };
+
+function formatMergeReport(report: BundleMergeReport): string {
+  const { elements, events, categories, pauses } = report;
+  return [
+    `Elements: ${elements.added} added, ${elements.updated} updated, ${elements.skipped} unchanged`,
+    `Events: ${events.added} added, ${events.skipped} already present`,
+    ...(categories.added > 0 ? [`Categories: ${categories.added} added`] : []),
+    ...(pauses.added > 0 ? [`Pauses: ${pauses.added} added`] : []),
+  ].join('\n');
+}
+
+function formatKindCounts(summary: ProtocolBundleSummary): string {
+  const parts = Object.entries(summary.kindCounts)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${kind}${count === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function formatDateRange(summary: ProtocolBundleSummary): string {
+  if (!summary.firstDate || !summary.lastDate) return 'No events';
+  return `${formatFullDate(summary.firstDate)} – ${formatFullDate(summary.lastDate)}`;
+}
+
+export default function BackupScreen() {
+  const theme = useTheme();
+  const elements = useElementStore((s) => s.elements);
+  const loadElements = useElementStore((s) => s.load);
+  const loadSounds = useSoundLibraryStore((s) => s.load);
+  const loadSettings = useSettingsStore((s) => s.load);
+  const loadPauses = usePauseStore((s) => s.load);
+  const clearUndoHistory = useEventStore((s) => s.clearUndoHistory);
+  const pruneTimerSessions = useEventStore((s) => s.pruneTimerSessions);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ElementMergeResolution>>({});
+  const [snapshots, setSnapshots] = useState<SnapshotFile[]>([]);
+  const [csvFile, setCsvFile] = useState<CsvImportFile | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (error) {
+      console.warn('Could not list snapshots', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void loadSnapshots();
+    }, [loadSnapshots]),
+  );
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const json = serializeBundle(await exportProtocolBundle());
+      const uri = await writeBackupFile(json);
+      await shareBackupFile(uri, json);
+    } catch (error) {
+      Alert.alert('Export failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCsvExport = async (kind: 'events' | 'daily-totals') => {
+    setBusy(true);
+    try {
+      const csv = kind === 'events' ? await exportEventsCsv() : await exportDailyTotalsCsv();
+      const uri = await writeBackupFile(
+        csv,
+        backupFileName(new Date(), `life-${kind}`, 'csv'),
+      );
+      await shareBackupFile(uri, csv, 'text/csv');
+    } catch (error) {
+      Alert.alert('Export failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCsvPick = async () => {
+    setBusy(true);
+    try {
+      const file = await pickTextFile(['text/csv', 'text/comma-separated-values', '*/*']);
+      if (!file) return;
+      const lines = parseCsvLines(file.text);
+      if (lines.length === 0) {
+        Alert.alert('Nothing to import', 'The file has no rows.');
+        return;
+      }
+      setCsvFile({
+        name: file.name,
+        rows: lines.map((row) => row.cells),
+        lineNumbers: lines.map((row) => row.line),
+      });
+    } catch (error) {
+      Alert.alert('Could not open file', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCsvImport = async (elementId: string, mapping: CsvColumnMapping) => {
+    if (!csvFile) return;
+    setBusy(true);
+    try {
+      await snapshotBeforeDestructive('pre-import');
+      const report = await importEventsCsv(csvFile.rows, elementId, mapping);
+      await loadSnapshots();
+      setCsvFile(null);
+      Alert.alert(
+        'CSV imported',
+        `${report.imported} events added, ${report.duplicates} already logged, ` +
+          `${report.errors.length} rows skipped.`,
+      );
+    } catch (error) {
+      Alert.alert('Import failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePick = async () => {
+    setBusy(true);
+    try {
+      const file = await pickTextFile();
+      if (!file) return;
+
+      let raw: unknown = null;
+      try {
+        raw = JSON.parse(file.text);
+        const summary = summarizeProtocolBundle(parseProtocolBundle(raw));
+        const merge = await previewProtocolBundleMerge(raw);
+        setResolutions(
+          Object.fromEntries(merge.conflicts.map((conflict) => [conflict.id, conflict.suggested])),
+        );
+        setPending({ fileName: file.name, raw, summary, merge });
+      } catch (error) {
+        setPending({ fileName: file.name, errors: describeBundleError(raw, error) });
+      }
+    } catch (error) {
+      Alert.alert('Could not open file', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reloadStores = async () => {
+    // Undo entries and running timers point at the data the import just replaced.
+    clearUndoHistory();
+    await loadElements();
+    await pruneTimerSessions(useElementStore.getState().elements.map((element) => element.id));
+    await loadSounds();
+    await loadSettings();
+    await loadPauses();
+    await loadSnapshots();
+  };
+
+  const handleMerge = async (raw: unknown) => {
+    setBusy(true);
+    try {
+      await snapshotBeforeDestructive('pre-import');
+      const report = await mergeProtocolBundle(raw, resolutions);
+      await reloadStores();
+      setPending(null);
+      Alert.alert('Backup merged', formatMergeReport(report));
+    } catch (error) {
+      Alert.alert('Import failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replaceAll = async (raw: unknown) => {
+    setBusy(true);
+    try {
+      await snapshotBeforeDestructive('pre-import');
+      await importProtocolBundle(raw);
+      await reloadStores();
+      setPending(null);
+      Alert.alert('Backup restored', 'Your data now matches the backup.');
+    } catch (error) {
+      Alert.alert('Import failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmReplace = (raw: unknown) => {
+    Alert.alert(
+      'Replace all data?',
+      'Every element and event on this device is deleted and replaced by the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => void replaceAll(raw) },
+      ],
+    );
+  };
+
+  const restore = async (snapshot: SnapshotFile) => {
+    setBusy(true);
+    try {
+      await restoreSnapshot(snapshot);
+      await reloadStores();
+      Alert.alert('Snapshot restored', 'Your data now matches the snapshot.');
+    } catch (error) {
+      Alert.alert('Restore failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRestore = (snapshot: SnapshotFile) => {
+    Alert.alert(
+      'Restore this snapshot?',
+      'Current data is replaced. A snapshot of it is saved first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', style: 'destructive', onPress: () => void restore(snapshot) },
+      ],
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <List.Section>
+        <List.Subheader>Export</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Saves elements, events and sound track names as a JSON file. Audio files are not
+          included.
+        </Text>
+        <View style={styles.buttonRow}>
+          <Button
+            mode="contained"
+            icon="export-variant"
+            onPress={() => void handleExport()}
+            disabled={busy}
+          >
+            Export backup
+          </Button>
+        </View>
+      </List.Section>
+
+      <List.Section>
+        <List.Subheader>Import</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Pick a backup to preview it. Nothing changes until you confirm.
+        </Text>
+        <View style={styles.buttonRow}>
+          <Button
+            mode="outlined"
+            icon="file-import-outline"
+            onPress={() => void handlePick()}
+            disabled={busy}
+          >
+            Choose backup file
+          </Button>
+        </View>
+      </List.Section>
+
+      {pending ? (
+        <Card style={styles.card} mode="outlined">
+          <Card.Title
+            title={pending.fileName}
+            subtitle={'errors' in pending ? 'Cannot import' : 'Preview'}
+          />
+          <Card.Content style={styles.cardContent}>
+            {'errors' in pending ? (
+              pending.errors.map((line) => (
+                <Text key={line} variant="bodySmall" style={{ color: theme.colors.error }}>
+                  {line}
+                </Text>
+              ))
+            ) : (
+              <>
+                <Text variant="bodyMedium">
+                  {pending.summary.elementCount} elements ({formatKindCounts(pending.summary)}) ·{' '}
+                  {pending.summary.eventCount} events
+                </Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  {formatDateRange(pending.summary)}
+                </Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  Protocol v{pending.summary.protocolVersion} · exported{' '}
+                  {new Date(pending.summary.exportedAt).toLocaleString()}
+                </Text>
+                <Text variant="bodySmall" style={styles.mergeSummary}>
+                  Merging would add {pending.merge.elements.added} elements and{' '}
+                  {pending.merge.events.added} events.
+                </Text>
+                {pending.merge.conflicts.map((conflict) => (
+                  <View key={conflict.id} style={styles.conflict}>
+                    <Text variant="labelMedium">
+                      {conflict.local.name === conflict.incoming.name
+                        ? conflict.local.name
+                        : `${conflict.local.name} → ${conflict.incoming.name}`}{' '}
+                      differs
+                    </Text>
+                    <SegmentedButtons
+                      value={resolutions[conflict.id] ?? conflict.suggested}
+                      onValueChange={(value) =>
+                        setResolutions((current) => ({
+                          ...current,
+                          [conflict.id]: value as ElementMergeResolution,
+                        }))
+                      }
+                      buttons={[
+                        { value: 'local', label: 'Keep mine' },
+                        { value: 'incoming', label: 'Use backup' },
+                      ]}
+                      density="small"
+                    />
+                  </View>
+                ))}
+              </>
+            )}
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => setPending(null)} disabled={busy}>
+              Cancel
+            </Button>
+            {'raw' in pending ? (
+              <>
+                <Button onPress={() => confirmReplace(pending.raw)} disabled={busy}>
+                  Replace all
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={() => void handleMerge(pending.raw)}
+                  disabled={busy}
+                >
+                  Merge
+                </Button>
+              </>
+            ) : null}
+          </Card.Actions>
+        </Card>
+      ) : null}
+
+      <List.Section>
+        <List.Subheader>Spreadsheets (CSV)</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Export every event or the daily total per element. Import adds rows from a CSV to one
+          element; timer values are seconds unless you say they are minutes.
+        </Text>
+        <View style={styles.buttonRow}>
+          <Button
+            mode="outlined"
+            icon="table-arrow-right"
+            onPress={() => void handleCsvExport('events')}
+            disabled={busy}
+          >
+            Events
+          </Button>
+          <Button
+            mode="outlined"
+            icon="table-arrow-right"
+            onPress={() => void handleCsvExport('daily-totals')}
+            disabled={busy}
+          >
+            Daily totals
+          </Button>
+          <Button
+            mode="outlined"
+            icon="table-arrow-left"
+            onPress={() => void handleCsvPick()}
+            disabled={busy}
+          >
+            Import
+          </Button>
+        </View>
+      </List.Section>
+
+      <List.Section>
+        <List.Subheader>Automatic snapshots</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Taken daily on first launch and before imports or deletes. The last 7 days, 4 weeks
+          and 3 safety snapshots are kept on this device.
+        </Text>
+        {snapshots.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptySnapshots}>
+            No snapshots yet.
+          </Text>
+        ) : (
+          snapshots.map((snapshot) => (
+            <List.Item
+              key={snapshot.name}
+              title={new Date(snapshot.createdAt).toLocaleString()}
+              description={SNAPSHOT_REASON_LABELS[snapshot.reason]}
+              left={(props) => <List.Icon {...props} icon="history" />}
+              right={() => (
+                <IconButton
+                  icon="backup-restore"
+                  onPress={() => confirmRestore(snapshot)}
+                  disabled={busy}
+                  accessibilityLabel="Restore snapshot"
+                />
+              )}
+            />
+          ))
+        )}
+      </List.Section>
+
+      <CsvImportDialog
+        file={csvFile}
+        elements={elements.filter((element) => element.kind !== 'group')}
+        importing={busy}
+        onDismiss={() => setCsvFile(null)}
+        onImport={(elementId, mapping) => void handleCsvImport(elementId, mapping)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+    flexGrow: 1,
+  },
+  sectionNote: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    opacity: 0.6,
+    lineHeight: 20,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  cardContent: {
+    gap: 6,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  mergeSummary: {
+    marginTop: 6,
+  },
+  conflict: {
+    gap: 6,
+    marginTop: 6,
+  },
+  emptySnapshots: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    opacity: 0.6,
+  },
+});
@@ -1,14 +1,36 @@
 import React, { useCallback, useMemo, useState } from 'react';
-import { RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
 import { ActivityIndicator, Button, Text, useTheme } from 'react-native-paper';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { CounterConfigSchema } from '../protocol';
+import CategoryFilterChips from '../components/CategoryFilterChips';
+import DashboardItemActions from '../components/DashboardItemActions';
+import DashboardReorderList from '../components/DashboardReorderList';
+import GroupCard from '../components/GroupCard';
+import {
+  activeElements,
+  groupProgress,
+  isElementDayComplete,
+  validateElementConfig,
+  type ElementDefinition,
+} from '../protocol';
+import { useCategoryFilter } from '../hooks/useCategoryFilter';
 import { getKindHandler } from '../kinds/registry';
 import type { RootStackParamList } from '../navigation/types';
 import { useElementStore } from '../store/elementStore';
 import { useEventStore } from '../store/eventStore';
-import { getPinnedElements } from '../utils/dashboardElements';
+import {
+  dashboardOverridesByElement,
+  getPinnedElements,
+  groupDashboardElements,
+  withDashboardOverrides,
+} from '../utils/dashboardElements';
+
+/** Kinds logged from this tab; habits live on the Daily tab. */
+const TRACKED_KINDS = new Set(['counter', 'measurement', 'rating', 'abstinence']);
+
+/** Tracked kinds whose widget reads the latest event; their day value may not be a plain sum. */
+const READING_KINDS = new Set(['measurement', 'rating', 'abstinence']);
 
 export default function CountersScreen() {
   const theme = useTheme();
@@ -18,25 +40,55 @@ export default function CountersScreen() {
   const isLoading = useElementStore((s) => s.isLoading);
   const error = useElementStore((s) => s.error);
   const load = useElementStore((s) => s.load);
-  const { dailyTotals, yesterdayTotals, loadCounterTotals, logEvent, setDailyTotal } = useEventStore();
+  const setDashboardOverrides = useElementStore((s) => s.setDashboardOverrides);
+  const unpinFromDashboard = useElementStore((s) => s.unpinFromDashboard);
+  const reorderDashboard = useElementStore((s) => s.reorderDashboard);
+  const pinToTop = useElementStore((s) => s.pinToTop);
+  const {
+    dailyTotals,
+    yesterdayTotals,
+    latestEvents,
+    loadCounterTotals,
+    loadReadingState,
+    logEvent,
+    logReading,
+    setDailyTotal,
+  } = useEventStore();
   const [refreshing, setRefreshing] = useState(false);
+  const [actionElementId, setActionElementId] = useState<string | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const [dragging, setDragging] = useState(false);
 
-  const counters = useMemo(() => {
-    const all = elements.filter((e) => e.kind === 'counter');
+  const pinned = useMemo(() => {
+    const all = activeElements(elements).filter((e) => TRACKED_KINDS.has(e.kind));
     return getPinnedElements(all, dashboard);
   }, [elements, dashboard]);
+  const categoryFilter = useCategoryFilter(pinned);
+  const applyCategoryFilter = categoryFilter.apply;
+  const counters = useMemo(() => applyCategoryFilter(pinned), [applyCategoryFilter, pinned]);
+
+  const overridesById = useMemo(() => dashboardOverridesByElement(dashboard), [dashboard]);
+
+  const sections = useMemo(
+    () => groupDashboardElements(counters, elements.filter((e) => e.kind === 'group')),
+    [counters, elements],
+  );
 
   const refresh = useCallback(async () => {
     await load();
-    const counterIds = useElementStore.getState().dashboard
-      .map((item) => item.elementId)
-      .filter((id) =>
-        useElementStore.getState().elements.some((e) => e.id === id && e.kind === 'counter'),
-      );
+    const { dashboard: pinned, elements } = useElementStore.getState();
+    const all = activeElements(elements);
+    const pinnedIds = pinned.map((item) => item.elementId);
+    const counterIds = pinnedIds.filter((id) =>
+      all.some((e) => e.id === id && e.kind === 'counter'),
+    );
     if (counterIds.length > 0) {
       await loadCounterTotals(counterIds);
     }
-  }, [load, loadCounterTotals]);
+    await loadReadingState(
+      all.filter((e) => READING_KINDS.has(e.kind) && pinnedIds.includes(e.id)),
+    );
+  }, [load, loadCounterTotals, loadReadingState]);
 
   useFocusEffect(
     useCallback(() => {
@@ -53,6 +105,44 @@ export default function CountersScreen() {
     }
   }, [refresh]);
 
+  const showMoveError = (error: unknown) =>
+    Alert.alert('Could not move', error instanceof Error ? error.message : 'Try again');
+
+  const openDetails = (element: ElementDefinition) =>
+    navigation.navigate('ElementHistory', { elementId: element.id });
+
+  const renderWidget = (element: ElementDefinition) => {
+    const handler = getKindHandler(element.kind);
+    if (!handler) return null;
+
+    const Widget = handler.DashboardWidget;
+    const overrides = overridesById.get(element.id) ?? {};
+    const shown = withDashboardOverrides(element, overridesById);
+    const config = validateElementConfig(shown.kind, shown.config);
+    const isReading = READING_KINDS.has(element.kind);
+
+    return (
+      <Widget
+        key={element.id}
+        element={shown}
+        config={config}
+        accentColor={overrides.accentColor}
+        compact={overrides.size === 'compact'}
+        todayTotal={dailyTotals[element.id] ?? 0}
+        yesterdayTotal={yesterdayTotals[element.id] ?? 0}
+        latestEvent={latestEvents[element.id]}
+        onLog={(value, meta) =>
+          isReading ? logReading(element, value, meta) : logEvent(element.id, value, meta)
+        }
+        onSetDailyTotal={
+          isReading ? undefined : (total) => setDailyTotal(element.id, total)
+        }
+        onOpenDetails={() => openDetails(element)}
+        onLongPress={() => setActionElementId(element.id)}
+      />
+    );
+  };
+
   if (isLoading && elements.length === 0 && !error) {
     return (
       <View style={styles.centered}>
@@ -64,6 +154,7 @@ export default function CountersScreen() {
   return (
     <ScrollView
       contentContainerStyle={styles.container}
+      scrollEnabled={!dragging}
       refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => void onRefresh()} />}
     >
       {error ? (
@@ -75,36 +166,61 @@ export default function CountersScreen() {
         </View>
       ) : null}
 
+      <CategoryFilterChips
+        categories={categoryFilter.categories}
+        selected={categoryFilter.selected}
+        onSelect={categoryFilter.select}
+      />
+
+      {counters.length > 1 && !reordering ? (
+        <View style={styles.toolbar}>
+          <Button compact icon="swap-vertical" onPress={() => setReordering(true)}>
+            Reorder
+          </Button>
+        </View>
+      ) : null}
+
       {counters.length === 0 ? (
         <Text variant="bodyLarge" style={styles.empty}>
-          {elements.some((e) => e.kind === 'counter')
-            ? 'No counters pinned. Open Settings and pin counters to show them here.'
-            : 'No counters yet. Open Settings to add one.'}
+          {activeElements(elements).some((e) => TRACKED_KINDS.has(e.kind))
+            ? 'Nothing pinned. Open Settings and pin counters, measurements, ratings or abstinence trackers to show them here.'
+            : 'No counters, measurements, ratings or abstinence trackers yet. Open Settings to add one.'}
         </Text>
+      ) : reordering ? (
+        <DashboardReorderList
+          elements={counters}
+          onReorder={(ids) => void reorderDashboard(ids).catch(showMoveError)}
+          onPinToTop={(element) => void pinToTop(element.id).catch(showMoveError)}
+          onDone={() => setReordering(false)}
+          onDraggingChange={setDragging}
+        />
       ) : (
-        counters.map((element) => {
-          const handler = getKindHandler(element.kind);
-          if (!handler) return null;
-
-          const Widget = handler.DashboardWidget;
-          const config = CounterConfigSchema.parse(element.config);
-
+        sections.map(({ group, elements: members }) => {
+          if (!group) return renderWidget(members[0]);
+          const progress = groupProgress(members, (member) =>
+            isElementDayComplete(
+              withDashboardOverrides(member, overridesById),
+              dailyTotals[member.id] ?? 0,
+            ),
+          );
           return (
-            <Widget
-              key={element.id}
-              element={element}
-              config={config}
-              todayTotal={dailyTotals[element.id] ?? 0}
-              yesterdayTotal={yesterdayTotals[element.id] ?? 0}
-              onLog={(value, meta) => logEvent(element.id, value, meta)}
-              onSetDailyTotal={(total) => setDailyTotal(element.id, total)}
-              onOpenDetails={() =>
-                navigation.navigate('ElementHistory', { elementId: element.id })
-              }
-            />
+            <GroupCard key={group.id} name={group.name} progress={progress}>
+              {members.map(renderWidget)}
+            </GroupCard>
           );
         })
       )}
+
+      <DashboardItemActions
+        element={elements.find((e) => e.id === actionElementId) ?? null}
+        item={dashboard.find((item) => item.elementId === actionElementId)}
+        onDismiss={() => setActionElementId(null)}
+        onOpenDetails={openDetails}
+        onSaveOverrides={(item, overrides) => setDashboardOverrides(item.id, overrides)}
+        onUnpin={(item) => unpinFromDashboard(item.id)}
+        onPinToTop={(item) => pinToTop(item.elementId)}
+        onReorder={() => setReordering(true)}
+      />
     </ScrollView>
   );
 }
@@ -125,6 +241,12 @@ const styles = StyleSheet.create({
     marginTop: 48,
     paddingHorizontal: 24,
   },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: -8,
+    marginBottom: 4,
+  },
   errorBox: {
     marginBottom: 16,
     gap: 8,
@@ -1,28 +1,52 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
-import { ActivityIndicator, Chip, Text, useTheme } from 'react-native-paper';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Banner, Button, Chip, Text, useTheme } from 'react-native-paper';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { playLoopingHabitSound, stopLoopingHabitSound } from '../audio/habitTimerSound';
+import CategoryFilterChips from '../components/CategoryFilterChips';
+import DashboardItemActions from '../components/DashboardItemActions';
+import DashboardReorderList from '../components/DashboardReorderList';
+import GroupCard from '../components/GroupCard';
+import SkipDayDialog from '../components/SkipDayDialog';
 import { useAppTheme } from '../hooks/useAppTheme';
+import { useCategoryFilter } from '../hooks/useCategoryFilter';
 import { getKindHandler } from '../kinds/registry';
 import type { RootStackParamList } from '../navigation/types';
 import {
+  activeElements,
+  ChecklistConfigSchema,
   DAILY_VIEW_FILTER_LABELS,
   DAILY_VIEW_FILTERS,
+  DAILY_VIEW_KINDS,
+  countdownTargetSeconds,
+  dailyViewTimeSlot,
   filterHabitsForDailyView,
+  groupProgress,
   HABIT_TIME_SLOT_LABELS,
   HABIT_TIME_SLOT_ORDER,
   HabitConfigSchema,
   type HabitConfig,
+  type ElementDefinition,
   type HabitTimeSlot,
+  pausePeriodOnDate,
   toDateString,
 } from '../protocol';
 import { useElementStore } from '../store/elementStore';
-import { habitStreakInputsFromElements, useEventStore } from '../store/eventStore';
+import {
+  checklistInputsFromElements,
+  habitStreakInputsFromElements,
+  useEventStore,
+} from '../store/eventStore';
+import { usePauseStore } from '../store/pauseStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { useSoundLibraryStore } from '../store/soundLibraryStore';
-import { getPinnedElements } from '../utils/dashboardElements';
+import {
+  dashboardOverridesByElement,
+  getPinnedElements,
+  groupDashboardElements,
+  withDashboardOverrides,
+} from '../utils/dashboardElements';
 
 export default function DailyScreen() {
   const theme = useTheme();
@@ -32,45 +56,77 @@ export default function DailyScreen() {
   const dashboard = useElementStore((s) => s.dashboard);
   const isLoading = useElementStore((s) => s.isLoading);
   const load = useElementStore((s) => s.load);
+  const setDashboardOverrides = useElementStore((s) => s.setDashboardOverrides);
+  const unpinFromDashboard = useElementStore((s) => s.unpinFromDashboard);
+  const reorderDashboard = useElementStore((s) => s.reorderDashboard);
+  const pinToTop = useElementStore((s) => s.pinToTop);
   const {
     dailyTotals,
     habitDoneToday,
     habitStreaks,
+    habitPeriodDates,
+    habitSkippedToday,
+    checklistChecked,
     activeTimerSessions,
     loadHabitDayState,
     loadHabitStreaks,
+    loadChecklistDayState,
     toggleHabit,
+    toggleHabitSkip,
+    toggleChecklistItem,
     startHabitTimer,
+    pauseHabitTimer,
+    resumeHabitTimer,
     stopHabitTimer,
   } = useEventStore();
   const loadSounds = useSoundLibraryStore((s) => s.load);
   const getSoundById = useSoundLibraryStore((s) => s.getById);
   const dailyViewFilter = useSettingsStore((s) => s.dailyViewFilter);
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
   const setDailyViewFilter = useSettingsStore((s) => s.setDailyViewFilter);
+  const pausePeriods = usePauseStore((s) => s.periods);
+  const loadPauses = usePauseStore((s) => s.load);
+  const endPause = usePauseStore((s) => s.endPause);
   const [refreshing, setRefreshing] = useState(false);
   const [now, setNow] = useState(() => new Date());
+  const [actionElementId, setActionElementId] = useState<string | null>(null);
+  const [skipElement, setSkipElement] = useState<ElementDefinition | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const [dragging, setDragging] = useState(false);
 
-  const allHabits = useMemo(
+  const pinnedHabits = useMemo(
     () => getPinnedElements(
-      elements.filter((e) => e.kind === 'habit'),
+      activeElements(elements).filter((e) => DAILY_VIEW_KINDS.has(e.kind)),
       dashboard,
     ),
     [elements, dashboard],
   );
+  const categoryFilter = useCategoryFilter(pinnedHabits);
+  const applyCategoryFilter = categoryFilter.apply;
+  const allHabits = useMemo(
+    () => applyCategoryFilter(pinnedHabits),
+    [applyCategoryFilter, pinnedHabits],
+  );
+
+  const overridesById = useMemo(() => dashboardOverridesByElement(dashboard), [dashboard]);
 
   const totalHabitCount = useMemo(
-    () => elements.filter((e) => e.kind === 'habit').length,
+    () => activeElements(elements).filter((e) => DAILY_VIEW_KINDS.has(e.kind)).length,
     [elements],
   );
 
   const filterContext = useMemo(
     () => ({
       now,
-      today: toDateString(now),
+      today: toDateString(now, dayStartHour),
       habitDoneToday,
+      habitPeriodDates,
+      habitSkippedToday,
+      pausePeriods,
     }),
-    [now, habitDoneToday],
+    [now, habitDoneToday, habitPeriodDates, habitSkippedToday, pausePeriods, dayStartHour],
   );
+  const activePause = pausePeriodOnDate(pausePeriods, filterContext.today);
 
   const habits = useMemo(
     () => filterHabitsForDailyView(allHabits, dailyViewFilter, filterContext),
@@ -83,6 +139,7 @@ export default function DailyScreen() {
   );
 
   const habitHandler = getKindHandler('habit');
+  const checklistHandler = getKindHandler('checklist');
 
   useEffect(() => {
     const timer = setInterval(() => setNow(new Date()), 60_000);
@@ -98,17 +155,19 @@ export default function DailyScreen() {
   const refresh = useCallback(async () => {
     await load();
     await loadSounds();
+    await loadPauses();
     const { elements, dashboard } = useElementStore.getState();
-    const habitElements = getPinnedElements(
-      elements.filter((e) => e.kind === 'habit'),
+    const dailyElements = getPinnedElements(
+      activeElements(elements).filter((e) => DAILY_VIEW_KINDS.has(e.kind)),
       dashboard,
     );
-    const inputs = habitStreakInputsFromElements(habitElements);
+    const inputs = habitStreakInputsFromElements(dailyElements);
     if (inputs.length > 0) {
       await loadHabitDayState(inputs);
       await loadHabitStreaks(inputs);
     }
-  }, [load, loadHabitDayState, loadHabitStreaks, loadSounds]);
+    await loadChecklistDayState(checklistInputsFromElements(dailyElements));
+  }, [load, loadChecklistDayState, loadHabitDayState, loadHabitStreaks, loadPauses, loadSounds]);
 
   useFocusEffect(
     useCallback(() => {
@@ -116,9 +175,8 @@ export default function DailyScreen() {
     }, [refresh]),
   );
 
-  const handleStartTimer = useCallback(
-    async (elementId: string, config: HabitConfig) => {
-      startHabitTimer(elementId);
+  const playTimerSound = useCallback(
+    async (config: HabitConfig) => {
       const sound = config.soundId ? getSoundById(config.soundId) : undefined;
       if (sound?.source === 'file') {
         try {
@@ -128,7 +186,37 @@ export default function DailyScreen() {
         }
       }
     },
-    [getSoundById, startHabitTimer],
+    [getSoundById],
+  );
+
+  const handleStartTimer = useCallback(
+    async (elementId: string, config: HabitConfig) => {
+      if (config.intervalProgram) {
+        await startHabitTimer(elementId, { intervalProgram: config.intervalProgram });
+      } else {
+        const loggedToday = useEventStore.getState().dailyTotals[elementId] ?? 0;
+        const targetSeconds = countdownTargetSeconds(config, loggedToday);
+        await startHabitTimer(elementId, targetSeconds > 0 ? { targetSeconds } : undefined);
+      }
+      await playTimerSound(config);
+    },
+    [playTimerSound, startHabitTimer],
+  );
+
+  const handlePauseTimer = useCallback(
+    async (elementId: string) => {
+      await stopLoopingHabitSound();
+      await pauseHabitTimer(elementId);
+    },
+    [pauseHabitTimer],
+  );
+
+  const handleResumeTimer = useCallback(
+    async (elementId: string, config: HabitConfig) => {
+      await resumeHabitTimer(elementId);
+      await playTimerSound(config);
+    },
+    [playTimerSound, resumeHabitTimer],
   );
 
   const handleStopTimer = useCallback(
@@ -139,6 +227,94 @@ export default function DailyScreen() {
     [stopHabitTimer],
   );
 
+  const showMoveError = (error: unknown) =>
+    Alert.alert('Could not move', error instanceof Error ? error.message : 'Try again');
+
+  const skipHabit = (element: ElementDefinition, reason?: string) =>
+    toggleHabitSkip(element.id, HabitConfigSchema.parse(element.config), reason);
+
+  const toggleSkip = async (element: ElementDefinition) => {
+    if (!habitSkippedToday[element.id]) {
+      setSkipElement(element);
+      return;
+    }
+    try {
+      await skipHabit(element);
+    } catch (error) {
+      Alert.alert('Could not undo skip', error instanceof Error ? error.message : 'Try again');
+    }
+  };
+
+  const resumeHabits = async (pauseId: string) => {
+    try {
+      await endPause(pauseId);
+      await refresh();
+    } catch (error) {
+      Alert.alert('Could not end pause', error instanceof Error ? error.message : 'Try again');
+    }
+  };
+
+  const openDetails = (element: ElementDefinition) =>
+    navigation.navigate('ElementHistory', { elementId: element.id });
+
+  const renderHabit = (habit: ElementDefinition) => {
+    if (!habitHandler || !checklistHandler) return null;
+
+    // Habits and checklists take the display overrides only: label, accent and size.
+    const overrides = overridesById.get(habit.id) ?? {};
+    const display = {
+      element: withDashboardOverrides(habit, overridesById),
+      accentColor: overrides.accentColor,
+      compact: overrides.size === 'compact',
+      onOpenDetails: () => openDetails(habit),
+      onLongPress: () => setActionElementId(habit.id),
+    };
+
+    if (habit.kind === 'checklist') {
+      const checklist = {
+        id: habit.id,
+        config: ChecklistConfigSchema.parse(habit.config),
+      };
+      const ChecklistWidget = checklistHandler.DashboardWidget;
+      return (
+        <ChecklistWidget
+          key={habit.id}
+          {...display}
+          config={checklist.config}
+          todayTotal={dailyTotals[habit.id] ?? 0}
+          isDone={habitDoneToday[habit.id] ?? false}
+          streak={habitStreaks[habit.id] ?? 0}
+          checkedItemIds={checklistChecked[habit.id] ?? []}
+          onLog={async () => {}}
+          onToggleItem={(itemId) => toggleChecklistItem(checklist, itemId)}
+        />
+      );
+    }
+
+    const config = HabitConfigSchema.parse(habit.config);
+    const Widget = habitHandler.DashboardWidget;
+
+    return (
+      <Widget
+        key={habit.id}
+        {...display}
+        config={config}
+        todayTotal={dailyTotals[habit.id] ?? 0}
+        isDone={habitDoneToday[habit.id] ?? false}
+        streak={habitStreaks[habit.id] ?? 0}
+        periodCompletions={habitPeriodDates[habit.id]?.length ?? 0}
+        isSkipped={habitSkippedToday[habit.id] ?? false}
+        activeTimerSession={activeTimerSessions[habit.id] ?? null}
+        onLog={async () => {}}
+        onToggle={() => toggleHabit(habit.id, config)}
+        onStartTimer={() => handleStartTimer(habit.id, config)}
+        onPauseTimer={() => handlePauseTimer(habit.id)}
+        onResumeTimer={() => handleResumeTimer(habit.id, config)}
+        onStopTimer={() => handleStopTimer(habit.id, config)}
+      />
+    );
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     try {
@@ -156,13 +332,15 @@ export default function DailyScreen() {
     );
   }
 
+  // A group sits in the slot of its first visible member and keeps all its members together.
+  const groupedHabits = groupDashboardElements(
+    habits,
+    elements.filter((e) => e.kind === 'group'),
+  );
   const habitsBySlot = HABIT_TIME_SLOT_ORDER.map((slot) => ({
     slot,
-    items: habits.filter((h) => {
-      const config = HabitConfigSchema.parse(h.config);
-      return config.timeSlot === slot;
-    }),
-  })).filter((group) => group.items.length > 0);
+    sections: groupedHabits.filter((section) => dailyViewTimeSlot(section.elements[0]) === slot),
+  })).filter((group) => group.sections.length > 0);
 
   const doneCount = dueTodayHabits.filter((h) => habitDoneToday[h.id]).length;
 
@@ -184,24 +362,57 @@ export default function DailyScreen() {
   return (
     <ScrollView
       contentContainerStyle={styles.container}
+      scrollEnabled={!dragging}
       refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => void onRefresh()} />}
     >
+      {activePause ? (
+        <Banner
+          visible
+          icon="pause-circle-outline"
+          actions={[{ label: 'End pause', onPress: () => void resumeHabits(activePause.id) }]}
+          style={styles.pauseBanner}
+        >
+          Habits are paused{activePause.endDate ? ` until ${activePause.endDate}` : ''}
+          {activePause.reason ? ` · ${activePause.reason}` : ''}. Nothing is due and streaks are
+          kept.
+        </Banner>
+      ) : null}
       {filterChips}
+      <CategoryFilterChips
+        categories={categoryFilter.categories}
+        selected={categoryFilter.selected}
+        onSelect={categoryFilter.select}
+      />
+      {allHabits.length > 1 && !reordering ? (
+        <View style={styles.toolbar}>
+          <Button compact icon="swap-vertical" onPress={() => setReordering(true)}>
+            Reorder
+          </Button>
+        </View>
+      ) : null}
       {totalHabitCount === 0 ? (
         <Text variant="bodyLarge" style={styles.empty}>
-          No habits yet. Open Settings to add one.
+          No habits or checklists yet. Open Settings to add one.
         </Text>
       ) : allHabits.length === 0 ? (
         <Text variant="bodyLarge" style={styles.empty}>
-          No habits pinned. Open Settings and pin habits to show them here.
+          Nothing pinned. Open Settings and pin habits or checklists to show them here.
         </Text>
+      ) : reordering ? (
+        <DashboardReorderList
+          elements={allHabits}
+          onReorder={(ids) => void reorderDashboard(ids).catch(showMoveError)}
+          onPinToTop={(element) => void pinToTop(element.id).catch(showMoveError)}
+          onDone={() => setReordering(false)}
+          onDraggingChange={setDragging}
+        />
       ) : habits.length === 0 ? (
         <Text variant="bodyLarge" style={styles.empty}>
           {dailyViewFilter === 'all'
             ? 'No habits match this filter.'
             : 'Nothing due right now for this filter.'}
         </Text>
-      ) : !habitHandler ? null : (
+      ) : !habitHandler || !checklistHandler ? null : (
         <>
           {dueTodayHabits.length > 0 ? (
             <Text
@@ -214,7 +425,7 @@ export default function DailyScreen() {
               {doneCount} of {dueTodayHabits.length} done today
             </Text>
           ) : null}
-          {habitsBySlot.map(({ slot, items }) => (
+          {habitsBySlot.map(({ slot, sections }) => (
             <View key={slot} style={styles.section}>
               <Text
                 variant="titleSmall"
@@ -225,33 +436,44 @@ export default function DailyScreen() {
               >
                 {HABIT_TIME_SLOT_LABELS[slot as HabitTimeSlot]}
               </Text>
-              {items.map((habit) => {
-                const config = HabitConfigSchema.parse(habit.config);
-                const Widget = habitHandler.DashboardWidget;
-
-                return (
-                  <Widget
-                    key={habit.id}
-                    element={habit}
-                    config={config}
-                    todayTotal={dailyTotals[habit.id] ?? 0}
-                    isDone={habitDoneToday[habit.id] ?? false}
-                    streak={habitStreaks[habit.id] ?? 0}
-                    activeTimerSession={activeTimerSessions[habit.id] ?? null}
-                    onLog={async () => {}}
-                    onToggle={() => toggleHabit(habit.id, config)}
-                    onStartTimer={() => handleStartTimer(habit.id, config)}
-                    onStopTimer={() => handleStopTimer(habit.id, config)}
-                    onOpenDetails={() =>
-                      navigation.navigate('ElementHistory', { elementId: habit.id })
-                    }
-                  />
-                );
-              })}
+              {sections.map(({ group, elements: members }) =>
+                group ? (
+                  <GroupCard
+                    key={group.id}
+                    name={group.name}
+                    progress={groupProgress(
+                      dueTodayHabits.filter((h) => h.parentId === group.id),
+                      (member) => habitDoneToday[member.id] ?? false,
+                    )}
+                  >
+                    {members.map(renderHabit)}
+                  </GroupCard>
+                ) : (
+                  renderHabit(members[0])
+                ),
+              )}
             </View>
           ))}
         </>
       )}
+
+      <DashboardItemActions
+        element={elements.find((e) => e.id === actionElementId) ?? null}
+        item={dashboard.find((item) => item.elementId === actionElementId)}
+        onDismiss={() => setActionElementId(null)}
+        onOpenDetails={openDetails}
+        onSaveOverrides={(item, overrides) => setDashboardOverrides(item.id, overrides)}
+        onUnpin={(item) => unpinFromDashboard(item.id)}
+        onPinToTop={(item) => pinToTop(item.elementId)}
+        onReorder={() => setReordering(true)}
+        onToggleSkip={(element) => void toggleSkip(element)}
+        isSkippedToday={actionElementId ? habitSkippedToday[actionElementId] ?? false : false}
+      />
+      <SkipDayDialog
+        element={skipElement}
+        onDismiss={() => setSkipElement(null)}
+        onSkip={(element, reason) => skipHabit(element, reason)}
+      />
     </ScrollView>
   );
 }
@@ -261,6 +483,10 @@ const styles = StyleSheet.create({
     padding: 16,
     flexGrow: 1,
   },
+  pauseBanner: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
   centered: {
     flex: 1,
     justifyContent: 'center',
@@ -276,6 +502,12 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     opacity: 0.8,
   },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: -8,
+    marginBottom: 4,
+  },
   filterRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
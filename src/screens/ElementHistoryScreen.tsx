@@ -1,25 +1,69 @@
-import React, { useCallback, useLayoutEffect, useState } from 'react';
-import { ScrollView, StyleSheet, View } from 'react-native';
-import { ActivityIndicator, Card, Text, useTheme } from 'react-native-paper';
+import React, { useCallback, useLayoutEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Banner, Card, Icon, Text, useTheme } from 'react-native-paper';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { SQLiteDatabase } from 'expo-sqlite';
 import { useFocusEffect } from '@react-navigation/native';
 import { DailyBarChart } from '../components/DailyBarChart';
+import { TrendLineChart } from '../components/TrendLineChart';
 import { useAppTheme } from '../hooks/useAppTheme';
 import { getDatabase } from '../db/client';
 import * as elementRepo from '../db/repositories/elementRepository';
 import * as eventRepo from '../db/repositories/eventRepository';
 import type { RootStackParamList } from '../navigation/types';
 import {
+  AbstinenceConfigSchema,
+  ChecklistConfigSchema,
   CounterConfigSchema,
   HabitConfigSchema,
+  MeasurementConfigSchema,
+  RatingConfigSchema,
+  RatingEventMetaSchema,
+  abstinenceStartDate,
+  averageRating,
+  categoryCompletion,
+  checklistCheckedCountsByDate,
+  completedChecklistDates,
+  currentCleanDays,
+  dailyMeasurementValues,
   formatHabitTimerDuration,
+  formatMeasurement,
+  formatMeasurementValue,
+  formatCategoryCompletion,
+  formatChecklistProgress,
+  formatHabitStreak,
+  formatRating,
+  habitSkipReasons,
+  formatRelapseFrequency,
+  isChecklistDayComplete,
   isHabitDayComplete,
-  isHabitScheduledOnDate,
+  linearTrend,
+  longestCleanStreakDays,
+  pausedDatesBetween,
+  ratingDistribution,
+  ratingLabel,
+  relapseDates,
+  relapseFrequency,
+  resolveCategory,
   toDateString,
+  type CategoryDayCompletion,
+  type CategoryDefinition,
   type ElementDefinition,
+  type LifeEvent,
+  type MeasurementConfig,
+  type PausePeriod,
 } from '../protocol';
-import { formatChartLabel, formatFullDate, lastNDates } from '../utils/dates';
-import { completedDatesFromDailyTotals, computeStreak } from '../utils/streak';
+import { useElementStore } from '../store/elementStore';
+import { usePauseStore } from '../store/pauseStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { formatChartLabel, formatFullDate, lastNDates, todayDate } from '../utils/dates';
+import {
+  completedDatesFromDailyTotals,
+  computeStreak,
+  computeStreakDetails,
+  habitStreakOptions,
+  habitStreakSchedule,
+} from '../utils/streak';
 
 const CHART_DAYS = 14;
 
@@ -29,20 +73,107 @@ interface DayRow {
   date: string;
   total: number;
   label: string;
+  /** Measurements and ratings only: false on days without an entry. */
+  hasReading?: boolean;
+  /** Habits only: excused with "Skip today". */
+  skipped?: boolean;
+  skipReason?: string;
+  /** Habits only: a missed day covered by a streak freeze. */
+  frozen?: boolean;
+  /** Habits and checklists: inside a vacation / sick pause. */
+  paused?: boolean;
+}
+
+interface AbstinenceStats {
+  currentDays: number;
+  longestDays: number;
+  frequency: string;
+  lastRelapse: string | null;
+}
+
+interface CategoryStats {
+  category: CategoryDefinition;
+  memberCount: number;
+  days: CategoryDayCompletion[];
+}
+
+/** Completion across every element sharing this element's category. */
+async function loadCategoryStats(
+  db: SQLiteDatabase,
+  element: ElementDefinition,
+  customCategories: CategoryDefinition[],
+  dates: string[],
+  pausePeriods: PausePeriod[],
+): Promise<CategoryStats> {
+  const category = resolveCategory(element.category, customCategories);
+  const members = (await elementRepo.getAllElements(db)).filter(
+    (candidate) =>
+      candidate.kind !== 'group' &&
+      (!candidate.archivedAt || candidate.id === element.id) &&
+      resolveCategory(candidate.category, customCategories).id === category.id,
+  );
+  const events = (
+    await Promise.all(
+      members.map((member) => eventRepo.getEventsForElementSince(db, member.id, dates[0])),
+    )
+  ).flat();
+  return {
+    category,
+    memberCount: members.length,
+    days: categoryCompletion(members, events, dates, pausePeriods),
+  };
+}
+
+function formatDays(days: number): string {
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+/** Trend slope per week, e.g. `-0.4 kg/week`; null without enough readings. */
+function formatWeeklyTrend(days: DayRow[], config: MeasurementConfig): string | null {
+  const points = days.flatMap((d, index) => (d.hasReading ? [{ x: index, y: d.total }] : []));
+  const trend = linearTrend(points);
+  if (!trend) return null;
+  const perWeek = trend.slope * 7;
+  const sign = perWeek > 0 ? '+' : '';
+  return `${sign}${formatMeasurementValue(perWeek, config)} ${config.unit}/week`;
 }
 
 function formatDayValue(
   element: ElementDefinition | null,
-  total: number,
+  day: Pick<DayRow, 'date' | 'total' | 'hasReading' | 'skipped' | 'skipReason' | 'frozen' | 'paused'>,
 ): string {
+  const total = day.total;
   if (!element) return String(total);
 
+  if (element.kind === 'measurement') {
+    const config = MeasurementConfigSchema.parse(element.config);
+    return day.hasReading ? formatMeasurement(total, config) : '—';
+  }
+  if (element.kind === 'rating') {
+    const config = RatingConfigSchema.parse(element.config);
+    return day.hasReading ? formatRating(total, config) : '—';
+  }
+  if (element.kind === 'checklist') {
+    const config = ChecklistConfigSchema.parse(element.config);
+    if (total > 0) return formatChecklistProgress(total, config);
+    return day.paused ? 'Paused' : '—';
+  }
+  if (element.kind === 'abstinence') {
+    const config = AbstinenceConfigSchema.parse(element.config);
+    if (total > 0) return `${total} relapse${total === 1 ? '' : 's'}`;
+    return day.date < abstinenceStartDate(config, element.createdAt) ? '—' : 'Clean';
+  }
+
   if (element.kind === 'habit') {
     const config = HabitConfigSchema.parse(element.config);
-    if (config.trackingMode === 'timer') {
-      return total > 0 ? formatHabitTimerDuration(total) : '—';
+    if (config.trackingMode === 'timer' && total > 0) {
+      return formatHabitTimerDuration(total);
     }
-    return isHabitDayComplete(total, config) ? 'Done' : '—';
+    if (isHabitDayComplete(total, config)) return 'Done';
+    if (day.skipped) return day.skipReason ? `Skipped · ${day.skipReason}` : 'Skipped';
+    if (day.paused) return 'Paused';
+    if (day.frozen) return 'Streak freeze';
+    return '—';
   }
 
   const unit = CounterConfigSchema.parse(element.config).unit;
@@ -56,6 +187,14 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
   const [element, setElement] = useState<ElementDefinition | null>(null);
   const [days, setDays] = useState<DayRow[]>([]);
   const [streak, setStreak] = useState(0);
+  /** Streak freezes spent this calendar month. */
+  const [freezesUsed, setFreezesUsed] = useState(0);
+  const [ratingEvents, setRatingEvents] = useState<LifeEvent[]>([]);
+  const [abstinenceStats, setAbstinenceStats] = useState<AbstinenceStats | null>(null);
+  const [categoryStats, setCategoryStats] = useState<CategoryStats | null>(null);
+  const customCategories = useSettingsStore((s) => s.customCategories);
+  const pausePeriods = usePauseStore((s) => s.periods);
+  const restoreElement = useElementStore((s) => s.restoreElement);
   const [loading, setLoading] = useState(true);
 
   const load = useCallback(async () => {
@@ -74,6 +213,73 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
 
       const range = lastNDates(CHART_DAYS);
       const since = range[0];
+      setCategoryStats(
+        loaded.kind === 'group'
+          ? null
+          : await loadCategoryStats(db, loaded, customCategories, range, pausePeriods),
+      );
+
+      if (loaded.kind === 'measurement') {
+        const config = MeasurementConfigSchema.parse(loaded.config);
+        const events = await eventRepo.getEventsForElementSince(db, elementId, since);
+        const byDate = new Map(
+          dailyMeasurementValues(events, config).map((r) => [r.date, r.value]),
+        );
+        setDays(
+          range.map((date) => ({
+            date,
+            total: byDate.get(date) ?? 0,
+            label: formatChartLabel(date),
+            hasReading: byDate.has(date),
+          })),
+        );
+        setStreak(0);
+        return;
+      }
+
+      if (loaded.kind === 'rating') {
+        const events = await eventRepo.getEventsForElementSince(db, elementId, since);
+        setRatingEvents(events);
+        setDays(
+          range.map((date) => {
+            const dayEvents = events.filter((event) => event.date === date);
+            return {
+              date,
+              total: averageRating(dayEvents),
+              label: formatChartLabel(date),
+              hasReading: dayEvents.length > 0,
+            };
+          }),
+        );
+        setStreak(0);
+        return;
+      }
+
+      if (loaded.kind === 'abstinence') {
+        const config = AbstinenceConfigSchema.parse(loaded.config);
+        const events = await eventRepo.getEventsForElement(db, elementId);
+        const today = todayDate();
+        const startDate = abstinenceStartDate(config, loaded.createdAt);
+        const relapses = relapseDates(events, startDate);
+        setAbstinenceStats({
+          currentDays: currentCleanDays(startDate, relapses, today),
+          longestDays: longestCleanStreakDays(startDate, relapses, today),
+          frequency: formatRelapseFrequency(relapseFrequency(events, startDate, today)),
+          lastRelapse: relapses[relapses.length - 1] ?? null,
+        });
+        setDays(
+          range.map((date) => ({
+            date,
+            total: events
+              .filter((event) => event.date === date)
+              .reduce((sum, event) => sum + event.value, 0),
+            label: formatChartLabel(date),
+          })),
+        );
+        setStreak(0);
+        return;
+      }
+
       const rows = await eventRepo.getDailyTotalsByElement(db, elementId, since);
       const byDate = new Map(rows.map((r) => [r.date, r.total]));
 
@@ -91,20 +297,57 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
         const completed = completedDatesFromDailyTotals(yearRows, (total) =>
           isHabitDayComplete(total, config),
         );
-        setStreak(
-          computeStreak(
-            completed,
-            toDateString(new Date()),
-            (date) => isHabitScheduledOnDate(config, date),
-          ),
+        const skips = habitSkipReasons(
+          await eventRepo.getEventsForElementSince(db, elementId, lastNDates(365)[0]),
         );
+        const today = todayDate();
+        const paused = new Set(pausedDatesBetween(pausePeriods, lastNDates(365)[0], today));
+        const details = computeStreakDetails(
+          completed,
+          today,
+          habitStreakSchedule(config),
+          habitStreakOptions(config, [...skips.keys(), ...paused]),
+        );
+        const frozen = new Set(details.frozenDates);
+        setDays(
+          range.map((date) => ({
+            date,
+            total: byDate.get(date) ?? 0,
+            label: formatChartLabel(date),
+            skipped: skips.has(date),
+            skipReason: skips.get(date),
+            frozen: frozen.has(date),
+            paused: paused.has(date) && !isHabitDayComplete(byDate.get(date) ?? 0, config),
+          })),
+        );
+        setStreak(details.streak);
+        setFreezesUsed(
+          details.frozenDates.filter((date) => date.slice(0, 7) === today.slice(0, 7)).length,
+        );
+      } else if (loaded.kind === 'checklist') {
+        const config = ChecklistConfigSchema.parse(loaded.config);
+        // Ticks of steps since removed from the checklist do not count.
+        const events = await eventRepo.getEventsForElementSince(db, elementId, lastNDates(365)[0]);
+        const checkedCounts = checklistCheckedCountsByDate(events, config);
+        const completed = completedChecklistDates(events, config);
+        const today = todayDate();
+        const paused = new Set(pausedDatesBetween(pausePeriods, lastNDates(365)[0], today));
+        setDays(
+          range.map((date) => ({
+            date,
+            total: checkedCounts.get(date) ?? 0,
+            label: formatChartLabel(date),
+            paused: paused.has(date) && !checkedCounts.get(date),
+          })),
+        );
+        setStreak(computeStreak(completed, today, () => true, { skippedDates: paused }));
       } else {
         setStreak(0);
       }
     } finally {
       setLoading(false);
     }
-  }, [elementId]);
+  }, [customCategories, elementId, pausePeriods]);
 
   useFocusEffect(
     useCallback(() => {
@@ -118,6 +361,26 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
     }
   }, [element?.name, navigation]);
 
+  const restore = async () => {
+    try {
+      await restoreElement(elementId);
+      await load();
+    } catch (error) {
+      Alert.alert('Could not restore', error instanceof Error ? error.message : 'Try again');
+    }
+  };
+
+  const ratingNotes = useMemo(
+    () =>
+      ratingEvents
+        .flatMap((event) => {
+          const note = RatingEventMetaSchema.safeParse(event.meta ?? {}).data?.note;
+          return note ? [{ id: event.id, date: event.date, value: event.value, note }] : [];
+        })
+        .reverse(),
+    [ratingEvents],
+  );
+
   if (loading) {
     return (
       <View style={styles.centered}>
@@ -137,11 +400,29 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
   const isHabit = element.kind === 'habit';
   const habitConfig = isHabit ? HabitConfigSchema.parse(element.config) : null;
   const isTimerHabit = habitConfig?.trackingMode === 'timer';
+  const measurementConfig =
+    element.kind === 'measurement' ? MeasurementConfigSchema.parse(element.config) : null;
+  const ratingConfig =
+    element.kind === 'rating' ? RatingConfigSchema.parse(element.config) : null;
+  const checklistConfig =
+    element.kind === 'checklist' ? ChecklistConfigSchema.parse(element.config) : null;
+  const isAbstinence = element.kind === 'abstinence';
   const chartUnit = isHabit
     ? isTimerHabit
       ? 'min'
       : 'done'
-    : CounterConfigSchema.parse(element.config).unit;
+    : measurementConfig
+      ? measurementConfig.unit
+      : ratingConfig
+        ? `of ${ratingConfig.max}`
+        : checklistConfig
+          ? 'steps'
+          : isAbstinence
+            ? 'relapses'
+            : CounterConfigSchema.parse(element.config).unit;
+
+  const latestReading = days.filter((d) => d.hasReading).pop();
+  const weeklyTrend = measurementConfig ? formatWeeklyTrend(days, measurementConfig) : null;
 
   const chartData = days.map((d) => ({
     label: d.label,
@@ -151,7 +432,9 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
   const completedDays = days.filter((d) =>
     isHabit && habitConfig
       ? isHabitDayComplete(d.total, habitConfig)
-      : d.total > 0,
+      : checklistConfig
+        ? isChecklistDayComplete(d.total, checklistConfig)
+        : d.total > 0,
   );
   const best = completedDays.reduce<DayRow | null>(
     (max, d) => (!max || d.total > max.total ? d : max),
@@ -160,12 +443,62 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
 
   return (
     <ScrollView contentContainerStyle={styles.container}>
-      {isHabit && streak > 0 ? (
+      {element.archivedAt ? (
+        <Banner
+          visible
+          icon="archive-outline"
+          actions={[{ label: 'Restore', onPress: () => void restore() }]}
+          style={styles.archivedBanner}
+        >
+          Archived on {formatFullDate(toDateString(new Date(element.archivedAt)))}. Its history is kept, but it
+          is hidden from Daily, Counter and reminders.
+        </Banner>
+      ) : null}
+
+      {(isHabit || checklistConfig) && streak > 0 ? (
         <Text variant="bodyMedium" style={styles.streak}>
-          Current streak: {streak} day{streak === 1 ? '' : 's'}
+          Current streak:{' '}
+          {habitConfig
+            ? formatHabitStreak(habitConfig, streak)
+            : `${streak} day${streak === 1 ? '' : 's'}`}
+          {habitConfig?.streakFreezes
+            ? ` · ${Math.max(0, habitConfig.streakFreezes.perMonth - freezesUsed)} of ${habitConfig.streakFreezes.perMonth} freezes left this month`
+            : ''}
         </Text>
       ) : null}
 
+      {isAbstinence && abstinenceStats ? (
+        <Card
+          style={[
+            styles.card,
+            isCartoon && {
+              borderWidth: deco.cardBorderWidth,
+              borderColor: theme.colors.outline,
+              borderRadius: deco.radius.md,
+              backgroundColor: theme.colors.surface,
+            },
+          ]}
+        >
+          <Card.Content style={styles.stats}>
+            <View style={styles.row}>
+              <Text variant="bodyMedium">Current clean streak</Text>
+              <Text variant="bodyMedium" style={styles.rowTotal}>
+                {formatDays(abstinenceStats.currentDays)}
+              </Text>
+            </View>
+            <View style={styles.row}>
+              <Text variant="bodyMedium">Longest clean streak</Text>
+              <Text variant="bodyMedium" style={styles.rowTotal}>
+                {formatDays(abstinenceStats.longestDays)}
+              </Text>
+            </View>
+            <Text variant="bodySmall" style={styles.hint}>
+              {abstinenceStats.frequency}
+            </Text>
+          </Card.Content>
+        </Card>
+      ) : null}
+
       <Card
         style={[
           styles.card,
@@ -179,23 +512,152 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
       >
         <Card.Content>
           <Text variant="titleMedium">Last {CHART_DAYS} days</Text>
-          <DailyBarChart data={chartData} unit={chartUnit} />
-          {best && (isHabit ? isHabitDayComplete(best.total, habitConfig!) : best.total > 0) ? (
+          {measurementConfig ? (
+            <TrendLineChart
+              data={days.map((d) => ({ label: d.label, value: d.hasReading ? d.total : null }))}
+              unit={measurementConfig.unit}
+              targetMin={measurementConfig.targetMin}
+              targetMax={measurementConfig.targetMax}
+            />
+          ) : ratingConfig ? (
+            <TrendLineChart
+              data={days.map((d) => ({ label: d.label, value: d.hasReading ? d.total : null }))}
+              unit={chartUnit}
+              caption={`Daily average (${ratingConfig.min}–${ratingConfig.max})`}
+            />
+          ) : isAbstinence ? (
+            <DailyBarChart data={chartData} unit={chartUnit} caption="Relapses per day" />
+          ) : (
+            <DailyBarChart data={chartData} unit={chartUnit} />
+          )}
+          {measurementConfig ? (
+            <Text variant="bodySmall" style={styles.hint}>
+              {latestReading
+                ? `Latest: ${formatDayValue(element, latestReading)} on ${formatFullDate(latestReading.date)}${weeklyTrend ? ` · Trend: ${weeklyTrend}` : ''}`
+                : 'No readings yet — log from the Counter tab.'}
+            </Text>
+          ) : ratingConfig ? (
             <Text variant="bodySmall" style={styles.hint}>
-              {isHabit && !isTimerHabit
+              {latestReading
+                ? `Rated on ${days.filter((d) => d.hasReading).length} of ${CHART_DAYS} days`
+                : 'No ratings yet — rate from the Counter tab.'}
+            </Text>
+          ) : isAbstinence ? (
+            <Text variant="bodySmall" style={styles.hint}>
+              {abstinenceStats?.lastRelapse
+                ? `Last relapse: ${formatFullDate(abstinenceStats.lastRelapse)}`
+                : 'No relapses logged.'}
+            </Text>
+          ) : best && (isHabit ? isHabitDayComplete(best.total, habitConfig!) : best.total > 0) ? (
+            <Text variant="bodySmall" style={styles.hint}>
+              {(isHabit && !isTimerHabit) || checklistConfig
                 ? `Last completed: ${formatFullDate(best.date)}`
                 : isTimerHabit
                   ? `Best day: ${formatHabitTimerDuration(best.total)} on ${formatFullDate(best.date)}`
-                  : `Best day: ${formatDayValue(element, best.total)} on ${formatFullDate(best.date)}`}
+                  : `Best day: ${formatDayValue(element, best)} on ${formatFullDate(best.date)}`}
             </Text>
           ) : (
             <Text variant="bodySmall" style={styles.hint}>
-              {isHabit ? 'No completions yet — check in from the Daily tab.' : 'No data yet — log from the Counter tab.'}
+              {isHabit || checklistConfig
+                ? 'No completions yet — check in from the Daily tab.'
+                : 'No data yet — log from the Counter tab.'}
             </Text>
           )}
         </Card.Content>
       </Card>
 
+      {ratingConfig && ratingEvents.length > 0 ? (
+        <Card
+          style={[
+            styles.card,
+            isCartoon && {
+              borderWidth: deco.cardBorderWidth,
+              borderColor: theme.colors.outline,
+              borderRadius: deco.radius.md,
+              backgroundColor: theme.colors.surface,
+            },
+          ]}
+        >
+          <Card.Content>
+            <Text variant="titleMedium">Distribution</Text>
+            <DailyBarChart
+              data={ratingDistribution(ratingEvents, ratingConfig).map(({ value, count }) => ({
+                label: ratingLabel(value, ratingConfig) ?? String(value),
+                value: count,
+              }))}
+              unit="ratings"
+              caption={`Ratings per score, last ${CHART_DAYS} days`}
+            />
+          </Card.Content>
+        </Card>
+      ) : null}
+
+      {ratingConfig && ratingNotes.length > 0 ? (
+        <>
+          <Text variant="titleSmall" style={styles.listTitle}>
+            Notes
+          </Text>
+          {ratingNotes.map((entry) => (
+            <View
+              key={entry.id}
+              style={[
+                styles.noteRow,
+                {
+                  borderBottomColor: theme.colors.outlineVariant,
+                  borderBottomWidth: isCartoon ? deco.borderWidth : StyleSheet.hairlineWidth,
+                },
+              ]}
+            >
+              <View style={styles.row}>
+                <Text variant="bodySmall">{formatFullDate(entry.date)}</Text>
+                <Text variant="bodySmall" style={styles.rowTotal}>
+                  {formatRating(entry.value, ratingConfig)}
+                </Text>
+              </View>
+              <Text variant="bodyMedium">{entry.note}</Text>
+            </View>
+          ))}
+          <View style={styles.sectionGap} />
+        </>
+      ) : null}
+
+      {categoryStats ? (
+        <Card
+          style={[
+            styles.card,
+            isCartoon && {
+              borderWidth: deco.cardBorderWidth,
+              borderColor: theme.colors.outline,
+              borderRadius: deco.radius.md,
+              backgroundColor: theme.colors.surface,
+            },
+          ]}
+        >
+          <Card.Content>
+            <View style={styles.categoryTitle}>
+              <Icon
+                source={categoryStats.category.icon}
+                size={20}
+                color={categoryStats.category.color}
+              />
+              <Text variant="titleMedium">{categoryStats.category.label}</Text>
+            </View>
+            <DailyBarChart
+              data={categoryStats.days.map((day) => ({
+                label: formatChartLabel(day.date),
+                value: day.total > 0 ? Math.round((day.done / day.total) * 100) : 0,
+              }))}
+              unit="%"
+              caption={`Share of the category done per day (${categoryStats.memberCount} element${categoryStats.memberCount === 1 ? '' : 's'})`}
+            />
+            <Text variant="bodySmall" style={styles.hint}>
+              {formatCategoryCompletion(categoryStats.days) ??
+                'Nothing in this category was due yet.'}
+            </Text>
+          </Card.Content>
+        </Card>
+      ) : null}
+
       <Text variant="titleSmall" style={styles.listTitle}>
         Daily breakdown
       </Text>
@@ -214,9 +676,30 @@ export default function ElementHistoryScreen({ route, navigation }: Props) {
             ]}
           >
             <Text variant="bodyMedium">{formatFullDate(day.date)}</Text>
-            <Text variant="bodyMedium" style={styles.rowTotal}>
-              {formatDayValue(element, day.total)}
-            </Text>
+            <View style={styles.rowValue}>
+              {day.frozen || day.skipped || day.paused ? (
+                <Icon
+                  source={
+                    day.frozen ? 'snowflake' : day.skipped ? 'debug-step-over' : 'pause-circle-outline'
+                  }
+                  size={16}
+                  color={theme.colors.onSurfaceVariant}
+                />
+              ) : null}
+              <Text
+                variant="bodyMedium"
+                numberOfLines={1}
+                style={[
+                  styles.rowTotal,
+                  (day.frozen || day.skipped || day.paused) && {
+                    color: theme.colors.onSurfaceVariant,
+                    fontStyle: 'italic',
+                  },
+                ]}
+              >
+                {formatDayValue(element, day)}
+              </Text>
+            </View>
           </View>
         ))}
     </ScrollView>
@@ -228,6 +711,10 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 32,
   },
+  archivedBanner: {
+    marginBottom: 12,
+    borderRadius: 12,
+  },
   centered: {
     flex: 1,
     justifyContent: 'center',
@@ -257,4 +744,25 @@ const styles = StyleSheet.create({
   rowTotal: {
     fontWeight: '600',
   },
+  rowValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+  },
+  stats: {
+    gap: 2,
+  },
+  categoryTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  noteRow: {
+    paddingVertical: 8,
+    gap: 2,
+  },
+  sectionGap: {
+    height: 16,
+  },
 });
@@ -1,29 +1,66 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ScrollView, StyleSheet, View, Alert } from 'react-native';
 import {
   ActivityIndicator,
+  Button,
   Chip,
   FAB,
+  Surface,
   Text,
+  useTheme,
 } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import CategoryFilterChips from '../components/CategoryFilterChips';
+import DashboardReorderList from '../components/DashboardReorderList';
+import DragHandle, { type DragPoint } from '../components/DragHandle';
 import ElementEditorDialog from '../components/ElementEditorDialog';
 import ElementLibraryCard from '../components/ElementLibraryCard';
 import {
+  editorSessionFromAbstinence,
+  editorSessionFromChecklist,
   editorSessionFromCounter,
+  editorSessionFromGroup,
   editorSessionFromHabit,
+  editorSessionFromMeasurement,
+  editorSessionFromRating,
   newEditorSession,
   type ElementEditorSaveData,
   type ElementEditorSession,
 } from '../components/elementEditor';
 import {
+  AbstinenceConfigSchema,
+  abstinenceStartDate,
+  allCategories,
+  ChecklistConfigSchema,
+  checklistRequiredCount,
   CounterConfigSchema,
   HABIT_TIME_SLOT_LABELS,
   HabitConfigSchema,
   formatHabitDescription,
+  formatHabitActiveWindow,
   formatScheduleDescription,
+  groupMembers,
+  isElementArchived,
+  MEASUREMENT_AGGREGATION_LABELS,
+  MeasurementConfigSchema,
+  RatingConfigSchema,
+  ratingLabel,
+  ratingScale,
+  resolveCategory,
+  toDateString,
+  activeElements,
+  type ElementDefinition,
+  type ElementKind,
 } from '../protocol';
+import { useCategoryFilter } from '../hooks/useCategoryFilter';
+import { useDropTargets } from '../hooks/useDropTargets';
+import type { RootStackParamList } from '../navigation/types';
 import { useElementStore } from '../store/elementStore';
+import { useSettingsStore } from '../store/settingsStore';
 import { useSoundLibraryStore } from '../store/soundLibraryStore';
+import { getPinnedElements } from '../utils/dashboardElements';
+import { formatFullDate } from '../utils/dates';
 import { parseElementEditorSave } from '../utils/parseElementEditorSave';
 
 function counterMetaLines(config: ReturnType<typeof CounterConfigSchema.parse>): string[] {
@@ -32,6 +69,45 @@ function counterMetaLines(config: ReturnType<typeof CounterConfigSchema.parse>):
   return [`Buttons: ${buttons}${goal}`];
 }
 
+function measurementMetaLines(config: ReturnType<typeof MeasurementConfigSchema.parse>): string[] {
+  const lines = [`Unit: ${config.unit} · ${MEASUREMENT_AGGREGATION_LABELS[config.aggregation]} per day`];
+  if (config.targetMin !== undefined || config.targetMax !== undefined) {
+    lines.push(`Target: ${config.targetMin ?? '…'} – ${config.targetMax ?? '…'} ${config.unit}`);
+  }
+  if (config.secondaryLabel) {
+    lines.push(`Second value: ${config.secondaryLabel}`);
+  }
+  return lines;
+}
+
+function ratingMetaLines(config: ReturnType<typeof RatingConfigSchema.parse>): string[] {
+  const lines = [`Scale: ${config.min}–${config.max} · Average per day`];
+  if (config.labels.length > 0) {
+    lines.push(
+      `Labels: ${ratingScale(config)
+        .map((value) => ratingLabel(value, config) ?? String(value))
+        .join(' ')}`,
+    );
+  }
+  return lines;
+}
+
+function checklistMetaLines(config: ReturnType<typeof ChecklistConfigSchema.parse>): string[] {
+  const required = checklistRequiredCount(config);
+  const needed = required < config.items.length ? ` · ${required} needed` : '';
+  return [
+    `${config.items.length} steps${needed} · ${HABIT_TIME_SLOT_LABELS[config.timeSlot]}`,
+    config.items.map((item) => item.label).join(' → '),
+  ];
+}
+
+function abstinenceMetaLines(
+  config: ReturnType<typeof AbstinenceConfigSchema.parse>,
+  createdAt: string,
+): string[] {
+  return [`Quit date: ${formatFullDate(abstinenceStartDate(config, createdAt))} · Resets on relapse`];
+}
+
 function habitMetaLines(
   config: ReturnType<typeof HabitConfigSchema.parse>,
   soundLabel?: string,
@@ -40,6 +116,8 @@ function habitMetaLines(
   const description = formatHabitDescription(config);
   if (description) lines.push(description);
   lines.push(formatScheduleDescription(config.schedule));
+  const activeWindow = formatHabitActiveWindow(config);
+  if (activeWindow) lines.push(activeWindow);
   if (config.trackingMode === 'timer' && config.dailyTargetSeconds) {
     lines.push(`Goal: ${Math.round(config.dailyTargetSeconds / 60)} min/day`);
   }
@@ -54,7 +132,24 @@ function habitMetaLines(
   return lines;
 }
 
+const KIND_LABELS: Record<ElementKind, string> = {
+  counter: 'Counter',
+  habit: 'Habit',
+  measurement: 'Measurement',
+  rating: 'Rating',
+  checklist: 'Checklist',
+  abstinence: 'Abstinence',
+  group: 'Group',
+};
+
+/** Drop target key for taking an element out of its group. */
+const NO_GROUP = 'no-group';
+
+type DragState = { element: ElementDefinition; point: DragPoint };
+
 export default function ElementsScreen() {
+  const theme = useTheme();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const elements = useElementStore((s) => s.elements);
   const dashboard = useElementStore((s) => s.dashboard);
   const isLoading = useElementStore((s) => s.isLoading);
@@ -63,16 +158,39 @@ export default function ElementsScreen() {
   const updateCounter = useElementStore((s) => s.updateCounter);
   const createHabit = useElementStore((s) => s.createHabit);
   const updateHabit = useElementStore((s) => s.updateHabit);
+  const createMeasurement = useElementStore((s) => s.createMeasurement);
+  const updateMeasurement = useElementStore((s) => s.updateMeasurement);
+  const createRating = useElementStore((s) => s.createRating);
+  const updateRating = useElementStore((s) => s.updateRating);
+  const createChecklist = useElementStore((s) => s.createChecklist);
+  const updateChecklist = useElementStore((s) => s.updateChecklist);
+  const createAbstinence = useElementStore((s) => s.createAbstinence);
+  const updateAbstinence = useElementStore((s) => s.updateAbstinence);
+  const createGroup = useElementStore((s) => s.createGroup);
+  const updateGroup = useElementStore((s) => s.updateGroup);
+  const moveToGroup = useElementStore((s) => s.moveToGroup);
   const deleteElement = useElementStore((s) => s.deleteElement);
+  const archiveElement = useElementStore((s) => s.archiveElement);
+  const restoreElement = useElementStore((s) => s.restoreElement);
   const pinToDashboard = useElementStore((s) => s.pinToDashboard);
   const unpinFromDashboard = useElementStore((s) => s.unpinFromDashboard);
+  const reorderDashboard = useElementStore((s) => s.reorderDashboard);
+  const pinToTop = useElementStore((s) => s.pinToTop);
   const sounds = useSoundLibraryStore((s) => s.sounds);
   const loadSounds = useSoundLibraryStore((s) => s.load);
+  const customCategories = useSettingsStore((s) => s.customCategories);
 
   const [editorSession, setEditorSession] = useState<ElementEditorSession | null>(null);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [fabOpen, setFabOpen] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | undefined>(undefined);
+  const dropTargets = useDropTargets<string>();
+  const [reordering, setReordering] = useState(false);
+  const [reorderDragging, setReorderDragging] = useState(false);
+  const rootRef = useRef<View>(null);
+  const rootTop = useRef(0);
 
   useEffect(() => {
     void load();
@@ -83,12 +201,54 @@ export default function ElementsScreen() {
     () => new Set(dashboard.map((d) => d.elementId)),
     [dashboard],
   );
-  const counters = useMemo(
-    () => elements.filter((e) => e.kind === 'counter'),
+  const trackedElements = useMemo(
+    () => activeElements(elements).filter((e) => e.kind !== 'group'),
     [elements],
   );
+  const archivedElements = useMemo(() => elements.filter(isElementArchived), [elements]);
+  const categoryFilter = useCategoryFilter(trackedElements);
+  const applyCategoryFilter = categoryFilter.apply;
+  const visibleElements = useMemo(
+    () => applyCategoryFilter(trackedElements),
+    [applyCategoryFilter, trackedElements],
+  );
+  const isFiltered = categoryFilter.selected !== null;
+  const visibleArchived = useMemo(
+    () => applyCategoryFilter(archivedElements),
+    [applyCategoryFilter, archivedElements],
+  );
+  const pinnedElements = useMemo(
+    () => getPinnedElements(visibleElements, dashboard),
+    [visibleElements, dashboard],
+  );
+  const categoryOptions = useMemo(() => allCategories(customCategories), [customCategories]);
+
+  const counters = useMemo(
+    () => visibleElements.filter((e) => e.kind === 'counter'),
+    [visibleElements],
+  );
   const habits = useMemo(
-    () => elements.filter((e) => e.kind === 'habit'),
+    () => visibleElements.filter((e) => e.kind === 'habit'),
+    [visibleElements],
+  );
+  const measurements = useMemo(
+    () => visibleElements.filter((e) => e.kind === 'measurement'),
+    [visibleElements],
+  );
+  const ratings = useMemo(
+    () => visibleElements.filter((e) => e.kind === 'rating'),
+    [visibleElements],
+  );
+  const checklists = useMemo(
+    () => visibleElements.filter((e) => e.kind === 'checklist'),
+    [visibleElements],
+  );
+  const abstinences = useMemo(
+    () => visibleElements.filter((e) => e.kind === 'abstinence'),
+    [visibleElements],
+  );
+  const groups = useMemo(
+    () => elements.filter((e) => e.kind === 'group'),
     [elements],
   );
 
@@ -104,14 +264,44 @@ export default function ElementsScreen() {
       const parsed = parseElementEditorSave(data);
       if (parsed.kind === 'counter') {
         if (editingId) {
-          await updateCounter(editingId, parsed.input);
+          await updateCounter(editingId, parsed.input, data.category);
+        } else {
+          await createCounter(parsed.input, data.category);
+        }
+      } else if (parsed.kind === 'measurement') {
+        if (editingId) {
+          await updateMeasurement(editingId, parsed.input, data.category);
+        } else {
+          await createMeasurement(parsed.input, data.category);
+        }
+      } else if (parsed.kind === 'rating') {
+        if (editingId) {
+          await updateRating(editingId, parsed.input, data.category);
+        } else {
+          await createRating(parsed.input, data.category);
+        }
+      } else if (parsed.kind === 'checklist') {
+        if (editingId) {
+          await updateChecklist(editingId, parsed.input, data.category);
+        } else {
+          await createChecklist(parsed.input, data.category);
+        }
+      } else if (parsed.kind === 'group') {
+        if (editingId) {
+          await updateGroup(editingId, parsed.input);
+        } else {
+          await createGroup(parsed.input);
+        }
+      } else if (parsed.kind === 'abstinence') {
+        if (editingId) {
+          await updateAbstinence(editingId, parsed.input, data.category);
         } else {
-          await createCounter(parsed.input);
+          await createAbstinence(parsed.input, data.category);
         }
       } else if (editingId) {
-        await updateHabit(editingId, parsed.input);
+        await updateHabit(editingId, parsed.input, data.category);
       } else {
-        await createHabit(parsed.input);
+        await createHabit(parsed.input, data.category);
       }
       setEditorSession(null);
     } catch (error) {
@@ -122,13 +312,37 @@ export default function ElementsScreen() {
     }
   };
 
+  const archive = useCallback(
+    (element: ElementDefinition) => {
+      void archiveElement(element.id).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Failed to archive';
+        Alert.alert('Could not archive', message);
+      });
+    },
+    [archiveElement],
+  );
+
+  const restore = (element: ElementDefinition) => {
+    void restoreElement(element.id).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Failed to restore';
+      Alert.alert('Could not restore', message);
+    });
+  };
+
   const confirmDelete = useCallback(
     (elementId: string, elementName: string, kindLabel: string) => {
+      const element = elements.find((e) => e.id === elementId);
+      const canArchive = element !== undefined && kindLabel !== 'group' && !element.archivedAt;
       Alert.alert(
         `Delete ${kindLabel}?`,
-        `"${elementName}" and all its history will be removed permanently.`,
+        kindLabel === 'group'
+          ? `"${elementName}" will be removed. Its members stay, outside any group.`
+          : canArchive
+            ? `"${elementName}" and all its history will be removed permanently. Archive it instead to hide it and keep the history.`
+            : `"${elementName}" and all its history will be removed permanently.`,
         [
           { text: 'Cancel', style: 'cancel' },
+          ...(canArchive ? [{ text: 'Archive', onPress: () => archive(element) }] : []),
           {
             text: 'Delete',
             style: 'destructive',
@@ -150,9 +364,49 @@ export default function ElementsScreen() {
         ],
       );
     },
-    [deleteElement],
+    [archive, deleteElement, elements],
   );
 
+  const showMoveError = (error: unknown) =>
+    Alert.alert('Could not move', error instanceof Error ? error.message : 'Try again');
+
+  const endDrag = (point?: DragPoint) => {
+    const dragged = drag?.element;
+    const target = point ? dropTargets.hitTest(point) : undefined;
+    setDrag(null);
+    setDropTarget(undefined);
+    if (!dragged || target === undefined) return;
+    void moveToGroup(dragged.id, target === NO_GROUP ? null : target).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Failed to move';
+      Alert.alert('Could not move', message);
+    });
+  };
+
+  /** Group chip and drag handle for an element card; nothing while there are no groups. */
+  const groupProps = (element: ElementDefinition) => {
+    if (groups.length === 0) return {};
+    return {
+      groupName: groups.find((group) => group.id === element.parentId)?.name,
+      dragHandle: (
+        <DragHandle
+          accessibilityLabel={`Move ${element.name} to a group`}
+          onDragStart={(point) => {
+            rootRef.current?.measureInWindow((_x, y) => {
+              rootTop.current = y;
+            });
+            setDrag({ element, point });
+          }}
+          onDragMove={(point) => {
+            setDrag((current) => (current ? { ...current, point } : current));
+            setDropTarget(dropTargets.hitTest(point));
+          }}
+          onDragEnd={endDrag}
+          onDragCancel={() => endDrag()}
+        />
+      ),
+    };
+  };
+
   const editingElement = editorSession?.editingId
     ? elements.find((element) => element.id === editorSession.editingId)
     : undefined;
@@ -166,85 +420,370 @@ export default function ElementsScreen() {
   }
 
   return (
-    <View style={styles.flex}>
-      <ScrollView contentContainerStyle={styles.container}>
+    <View ref={rootRef} style={styles.flex}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        scrollEnabled={!drag && !reorderDragging}
+      >
         <Text variant="bodyMedium" style={styles.intro}>
-          Create counters and habits here. Pin items to show them on Home.
+          Create counters, measurements, ratings, habits, checklists and abstinence trackers here. Pin items to show them on Home.
         </Text>
+        <CategoryFilterChips
+          categories={categoryFilter.categories}
+          selected={categoryFilter.selected}
+          onSelect={categoryFilter.select}
+        />
 
-        <Text variant="titleSmall" style={styles.sectionHeader}>
-          Counters
-        </Text>
-        {counters.length === 0 ? (
-          <Text variant="bodySmall" style={styles.sectionEmpty}>
-            No counters yet. Tap + to add one.
-          </Text>
-        ) : null}
-        {counters.map((element) => {
-          const config = CounterConfigSchema.parse(element.config);
-          const isPinned = pinnedElementIds.has(element.id);
-          const dashboardItemId = getDashboardItemId(element.id);
-
-          return (
-            <ElementLibraryCard
-              key={element.id}
-              name={element.name}
-              chips={<Chip compact>Counter</Chip>}
-              metaLines={counterMetaLines(config)}
-              isPinned={isPinned}
-              deleteLabel="Delete"
-              dashboardItemId={dashboardItemId}
-              onEdit={() =>
-                setEditorSession(editorSessionFromCounter(element.id, element.name, config))
-              }
-              onDelete={() => confirmDelete(element.id, element.name, 'counter')}
-              onPin={() => void pinToDashboard(element.id)}
-              onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
-            />
-          );
-        })}
-
-        <Text variant="titleSmall" style={styles.sectionHeader}>
-          Habits
-        </Text>
-        {habits.length === 0 ? (
-          <Text variant="bodySmall" style={styles.sectionEmpty}>
-            No habits yet. Tap + to add one.
-          </Text>
+        {pinnedElements.length > 1 && !reordering ? (
+          <View style={styles.toolbar}>
+            <Button compact icon="swap-vertical" onPress={() => setReordering(true)}>
+              Reorder pinned
+            </Button>
+          </View>
         ) : null}
-        {habits.map((element) => {
-          const config = HabitConfigSchema.parse(element.config);
-          const isPinned = pinnedElementIds.has(element.id);
-          const dashboardItemId = getDashboardItemId(element.id);
-          const soundLabel = config.soundId
-            ? sounds.find((s) => s.id === config.soundId)?.label
-            : undefined;
-
-          return (
-            <ElementLibraryCard
-              key={element.id}
-              name={element.name}
-              chips={
-                <>
-                  <Chip compact>{config.trackingMode === 'timer' ? 'Timer' : 'Check off'}</Chip>
-                  <Chip compact>{HABIT_TIME_SLOT_LABELS[config.timeSlot]}</Chip>
-                </>
-              }
-              metaLines={habitMetaLines(config, soundLabel)}
-              isPinned={isPinned}
-              deleteLabel="Delete"
-              dashboardItemId={dashboardItemId}
-              onEdit={() =>
-                setEditorSession(editorSessionFromHabit(element.id, element.name, config))
-              }
-              onDelete={() => confirmDelete(element.id, element.name, 'habit')}
-              onPin={() => void pinToDashboard(element.id)}
-              onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
-            />
-          );
-        })}
+
+        {reordering ? (
+          <DashboardReorderList
+            elements={pinnedElements}
+            onReorder={(ids) => void reorderDashboard(ids).catch(showMoveError)}
+            onPinToTop={(element) => void pinToTop(element.id).catch(showMoveError)}
+            onDone={() => setReordering(false)}
+            onDraggingChange={setReorderDragging}
+          />
+        ) : (
+          <>
+            {groups.length > 0 ? (
+              <>
+                <Text variant="titleSmall" style={styles.sectionHeader}>
+                  Groups
+                </Text>
+                {groups.map((group) => {
+                  const members = groupMembers(group.id, activeElements(elements));
+                  return (
+                    <ElementLibraryCard
+                      key={group.id}
+                      name={group.name}
+                      chips={<Chip compact>Group</Chip>}
+                      metaLines={[
+                        members.length > 0
+                          ? members.map((member) => member.name).join(', ')
+                          : 'No members yet. Drag an element here by its handle.',
+                      ]}
+                      isPinned={false}
+                      deleteLabel="Delete"
+                      onEdit={() => setEditorSession(editorSessionFromGroup(group.id, group.name))}
+                      onDelete={() => confirmDelete(group.id, group.name, 'group')}
+                    />
+                  );
+                })}
+              </>
+            ) : null}
+
+            {!isFiltered || counters.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Counters
+              </Text>
+            ) : null}
+            {counters.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                No counters yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {counters.map((element) => {
+              const config = CounterConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={<Chip compact>Counter</Chip>}
+                  metaLines={counterMetaLines(config)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() =>
+                    setEditorSession(editorSessionFromCounter(element.id, element.name, config, element.category))
+                  }
+                  onDelete={() => confirmDelete(element.id, element.name, 'counter')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {!isFiltered || measurements.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Measurements
+              </Text>
+            ) : null}
+            {measurements.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                No measurements yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {measurements.map((element) => {
+              const config = MeasurementConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={<Chip compact>Measurement</Chip>}
+                  metaLines={measurementMetaLines(config)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() =>
+                    setEditorSession(editorSessionFromMeasurement(element.id, element.name, config, element.category))
+                  }
+                  onDelete={() => confirmDelete(element.id, element.name, 'measurement')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {!isFiltered || ratings.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Ratings
+              </Text>
+            ) : null}
+            {ratings.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                No ratings yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {ratings.map((element) => {
+              const config = RatingConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={<Chip compact>Rating</Chip>}
+                  metaLines={ratingMetaLines(config)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() => setEditorSession(editorSessionFromRating(element.id, element.name, config, element.category))}
+                  onDelete={() => confirmDelete(element.id, element.name, 'rating')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {!isFiltered || habits.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Habits
+              </Text>
+            ) : null}
+            {habits.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                No habits yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {habits.map((element) => {
+              const config = HabitConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+              const soundLabel = config.soundId
+                ? sounds.find((s) => s.id === config.soundId)?.label
+                : undefined;
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={
+                    <>
+                      <Chip compact>{config.trackingMode === 'timer' ? 'Timer' : 'Check off'}</Chip>
+                      <Chip compact>{HABIT_TIME_SLOT_LABELS[config.timeSlot]}</Chip>
+                    </>
+                  }
+                  metaLines={habitMetaLines(config, soundLabel)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() =>
+                    setEditorSession(editorSessionFromHabit(element.id, element.name, config, element.category))
+                  }
+                  onDelete={() => confirmDelete(element.id, element.name, 'habit')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {!isFiltered || checklists.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Checklists
+              </Text>
+            ) : null}
+            {checklists.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                No checklists yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {checklists.map((element) => {
+              const config = ChecklistConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={<Chip compact>Checklist</Chip>}
+                  metaLines={checklistMetaLines(config)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() =>
+                    setEditorSession(editorSessionFromChecklist(element.id, element.name, config, element.category))
+                  }
+                  onDelete={() => confirmDelete(element.id, element.name, 'checklist')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {!isFiltered || abstinences.length > 0 ? (
+              <Text variant="titleSmall" style={styles.sectionHeader}>
+                Abstinence
+              </Text>
+            ) : null}
+            {abstinences.length === 0 && !isFiltered ? (
+              <Text variant="bodySmall" style={styles.sectionEmpty}>
+                Nothing to stay away from yet. Tap + to add one.
+              </Text>
+            ) : null}
+            {abstinences.map((element) => {
+              const config = AbstinenceConfigSchema.parse(element.config);
+              const isPinned = pinnedElementIds.has(element.id);
+              const dashboardItemId = getDashboardItemId(element.id);
+
+              return (
+                <ElementLibraryCard
+                  key={element.id}
+                  name={element.name}
+                  {...groupProps(element)}
+                  category={resolveCategory(element.category, customCategories)}
+                  chips={<Chip compact>Abstinence</Chip>}
+                  metaLines={abstinenceMetaLines(config, element.createdAt)}
+                  isPinned={isPinned}
+                  deleteLabel="Delete"
+                  dashboardItemId={dashboardItemId}
+                  onEdit={() =>
+                    setEditorSession(editorSessionFromAbstinence(element.id, element.name, config, element.category))
+                  }
+                  onDelete={() => confirmDelete(element.id, element.name, 'abstinence tracker')}
+                  onArchive={() => archive(element)}
+                  onPin={() => void pinToDashboard(element.id)}
+                  onUnpin={() => dashboardItemId && void unpinFromDashboard(dashboardItemId)}
+                />
+              );
+            })}
+
+            {visibleArchived.length > 0 ? (
+              <>
+                <Text variant="titleSmall" style={styles.sectionHeader}>
+                  Archived
+                </Text>
+                <Text variant="bodySmall" style={styles.sectionEmpty}>
+                  Hidden from Daily, Counter and reminders. History is kept until you delete them.
+                </Text>
+                {visibleArchived.map((element) => (
+                  <ElementLibraryCard
+                    key={element.id}
+                    name={element.name}
+                    category={resolveCategory(element.category, customCategories)}
+                    chips={<Chip compact>{KIND_LABELS[element.kind]}</Chip>}
+                    metaLines={[
+                      `Archived ${formatFullDate(toDateString(new Date(element.archivedAt ?? element.updatedAt)))}`,
+                    ]}
+                    isPinned={false}
+                    deleteLabel="Delete"
+                    onDelete={() =>
+                      confirmDelete(element.id, element.name, KIND_LABELS[element.kind].toLowerCase())
+                    }
+                    onRestore={() => restore(element)}
+                    onOpenHistory={() =>
+                      navigation.navigate('ElementHistory', { elementId: element.id })
+                    }
+                  />
+                ))}
+              </>
+            ) : null}
+          </>
+        )}
       </ScrollView>
 
+      {drag ? (
+        <>
+          <Surface style={styles.dropTray} elevation={3} onLayout={dropTargets.measure}>
+            <Text variant="labelLarge" style={styles.dropTrayTitle}>
+              Drop on a group
+            </Text>
+            <View style={styles.dropTargets}>
+              {groups.map((group) => (
+                <View key={group.id} ref={dropTargets.register(group.id)} collapsable={false}>
+                  <Chip
+                    compact
+                    icon="folder-outline"
+                    selected={dropTarget === group.id}
+                    style={dropTarget === group.id && { backgroundColor: theme.colors.primaryContainer }}
+                  >
+                    {group.name}
+                  </Chip>
+                </View>
+              ))}
+              {drag.element.parentId ? (
+                <View ref={dropTargets.register(NO_GROUP)} collapsable={false}>
+                  <Chip
+                    compact
+                    icon="folder-remove-outline"
+                    selected={dropTarget === NO_GROUP}
+                    style={dropTarget === NO_GROUP && { backgroundColor: theme.colors.primaryContainer }}
+                  >
+                    No group
+                  </Chip>
+                </View>
+              ) : null}
+            </View>
+          </Surface>
+          <Chip
+            icon="drag"
+            pointerEvents="none"
+            style={[styles.dragGhost, { top: drag.point.y - rootTop.current - 16 }]}
+          >
+            {drag.element.name}
+          </Chip>
+        </>
+      ) : null}
+
       <FAB.Group
         open={fabOpen}
         visible
@@ -258,6 +797,22 @@ export default function ElementsScreen() {
               setEditorSession(newEditorSession({ mode: 'counter' }));
             },
           },
+          {
+            icon: 'scale-bathroom',
+            label: 'New measurement',
+            onPress: () => {
+              setFabOpen(false);
+              setEditorSession(newEditorSession({ mode: 'measurement' }));
+            },
+          },
+          {
+            icon: 'emoticon-happy-outline',
+            label: 'New rating',
+            onPress: () => {
+              setFabOpen(false);
+              setEditorSession(newEditorSession({ mode: 'rating' }));
+            },
+          },
           {
             icon: 'checkbox-marked-circle-outline',
             label: 'New habit',
@@ -266,6 +821,30 @@ export default function ElementsScreen() {
               setEditorSession(newEditorSession({ mode: 'habit' }));
             },
           },
+          {
+            icon: 'format-list-checks',
+            label: 'New checklist',
+            onPress: () => {
+              setFabOpen(false);
+              setEditorSession(newEditorSession({ mode: 'checklist' }));
+            },
+          },
+          {
+            icon: 'folder-outline',
+            label: 'New group',
+            onPress: () => {
+              setFabOpen(false);
+              setEditorSession(newEditorSession({ mode: 'group' }));
+            },
+          },
+          {
+            icon: 'smoking-off',
+            label: 'New abstinence tracker',
+            onPress: () => {
+              setFabOpen(false);
+              setEditorSession(newEditorSession({ mode: 'abstinence' }));
+            },
+          },
         ]}
         onStateChange={({ open }) => setFabOpen(open)}
         style={styles.fab}
@@ -276,6 +855,7 @@ export default function ElementsScreen() {
         saving={saving}
         deleting={deleting}
         soundOptions={sounds}
+        categoryOptions={categoryOptions}
         onDismiss={() => setEditorSession(null)}
         onSave={(data) => void handleSave(data)}
         onDelete={
@@ -284,7 +864,7 @@ export default function ElementsScreen() {
                 confirmDelete(
                   editingElement.id,
                   editingElement.name,
-                  editingElement.kind === 'counter' ? 'counter' : 'habit',
+                  editingElement.kind,
                 )
             : undefined
         }
@@ -302,6 +882,11 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     lineHeight: 20,
   },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 4,
+  },
   sectionHeader: {
     marginTop: 16,
     marginBottom: 8,
@@ -310,6 +895,21 @@ const styles = StyleSheet.create({
     letterSpacing: 1,
   },
   sectionEmpty: { marginBottom: 12, opacity: 0.5 },
+  dropTray: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    right: 8,
+    padding: 12,
+    borderRadius: 12,
+  },
+  dropTrayTitle: { marginBottom: 8, opacity: 0.7 },
+  dropTargets: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  dragGhost: {
+    position: 'absolute',
+    left: 24,
+    opacity: 0.9,
+  },
   fab: {
     position: 'absolute',
     right: 16,
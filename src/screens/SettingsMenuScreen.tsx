@@ -25,6 +25,13 @@ export default function SettingsMenuScreen() {
           right={(props) => <List.Icon {...props} icon="chevron-right" />}
           onPress={() => navigation.navigate('AppSettings')}
         />
+        <List.Item
+          title="Backup & restore"
+          description="Export to a file or import a backup"
+          left={(props) => <List.Icon {...props} icon="backup-restore" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => navigation.navigate('Backup')}
+        />
       </List.Section>
     </ScrollView>
   );
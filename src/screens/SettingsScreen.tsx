@@ -1,11 +1,26 @@
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Alert, ScrollView, StyleSheet, View } from 'react-native';
-import { Button, IconButton, List, Switch, Text, useTheme } from 'react-native-paper';
+import { Button, Chip, IconButton, List, Switch, Text, useTheme } from 'react-native-paper';
 import { useFocusEffect } from '@react-navigation/native';
+import CategoryEditorDialog from '../components/CategoryEditorDialog';
+import PauseDialog, { type PauseDialogMode } from '../components/PauseDialog';
 import { requestNotificationPermissions, isNotificationsNativeAvailable } from '../notifications/habitReminders';
+import {
+  BUILT_IN_CATEGORIES,
+  CATEGORY_COLOR_OPTIONS,
+  CATEGORY_ICON_OPTIONS,
+  currentAndUpcomingPauses,
+  formatPausePeriod,
+  isDateInPausePeriod,
+  type CategoryDefinition,
+  type PausePeriod,
+} from '../protocol';
+import { usePauseStore } from '../store/pauseStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { useSoundLibraryStore } from '../store/soundLibraryStore';
 import { THEME_MODE_OPTIONS } from '../theme';
+import { DAY_START_HOUR_OPTIONS, formatDayStartHour, todayDate } from '../utils/dates';
+import { newId } from '../utils/id';
 
 const APP_VERSION = '1.0.0';
 
@@ -15,15 +30,30 @@ export default function SettingsScreen() {
   const setThemeMode = useSettingsStore((s) => s.setThemeMode);
   const habitRemindersEnabled = useSettingsStore((s) => s.habitRemindersEnabled);
   const setHabitRemindersEnabled = useSettingsStore((s) => s.setHabitRemindersEnabled);
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
+  const setDayStartHour = useSettingsStore((s) => s.setDayStartHour);
+  const customCategories = useSettingsStore((s) => s.customCategories);
+  const saveCustomCategory = useSettingsStore((s) => s.saveCustomCategory);
+  const removeCustomCategory = useSettingsStore((s) => s.removeCustomCategory);
   const sounds = useSoundLibraryStore((s) => s.sounds);
   const loadSounds = useSoundLibraryStore((s) => s.load);
   const addFromFile = useSoundLibraryStore((s) => s.addFromFile);
   const removeSound = useSoundLibraryStore((s) => s.remove);
+  const [editingCategory, setEditingCategory] = useState<CategoryDefinition | null>(null);
+  const [savingCategory, setSavingCategory] = useState(false);
+  const pausePeriods = usePauseStore((s) => s.periods);
+  const loadPauses = usePauseStore((s) => s.load);
+  const startPause = usePauseStore((s) => s.startPause);
+  const schedulePause = usePauseStore((s) => s.schedulePause);
+  const endPause = usePauseStore((s) => s.endPause);
+  const removePause = usePauseStore((s) => s.removePause);
+  const [pauseDialogMode, setPauseDialogMode] = useState<PauseDialogMode | null>(null);
 
   useFocusEffect(
     useCallback(() => {
       void loadSounds();
-    }, [loadSounds]),
+      void loadPauses();
+    }, [loadPauses, loadSounds]),
   );
 
   useEffect(() => {
@@ -41,6 +71,69 @@ export default function SettingsScreen() {
     ]);
   };
 
+  const startNewCategory = () =>
+    setEditingCategory({
+      id: newId(),
+      label: '',
+      color: CATEGORY_COLOR_OPTIONS[customCategories.length % CATEGORY_COLOR_OPTIONS.length],
+      icon: CATEGORY_ICON_OPTIONS[0],
+    });
+
+  const handleSaveCategory = async (category: CategoryDefinition) => {
+    setSavingCategory(true);
+    try {
+      await saveCustomCategory(category);
+      setEditingCategory(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save';
+      Alert.alert('Could not save', message);
+    } finally {
+      setSavingCategory(false);
+    }
+  };
+
+  const confirmRemoveCategory = (category: CategoryDefinition) => {
+    Alert.alert(
+      'Delete category?',
+      `Elements in "${category.label}" will show under Other.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => void removeCustomCategory(category.id),
+        },
+      ],
+    );
+  };
+
+  const today = todayDate();
+  const pauses = currentAndUpcomingPauses(pausePeriods, today);
+
+  const confirmEndPause = (period: PausePeriod) => {
+    const running = isDateInPausePeriod(period, today);
+    Alert.alert(
+      running ? 'End pause?' : 'Cancel pause?',
+      running
+        ? 'Habits are due again from today. Paused days so far stay excused.'
+        : formatPausePeriod(period),
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: running ? 'End' : 'Cancel pause',
+          style: 'destructive',
+          onPress: () =>
+            void (running ? endPause(period.id) : removePause(period.id)).catch((error) =>
+              Alert.alert(
+                'Could not update pause',
+                error instanceof Error ? error.message : 'Try again',
+              ),
+            ),
+        },
+      ],
+    );
+  };
+
   const handleRemindersToggle = async (enabled: boolean) => {
     if (enabled && !isNotificationsNativeAvailable()) {
       Alert.alert(
@@ -82,6 +175,59 @@ export default function SettingsScreen() {
         ))}
       </List.Section>
 
+      <List.Section>
+        <List.Subheader>Day boundary</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Check-ins before this hour count toward the previous day. Applies to new entries.
+        </Text>
+        <View style={styles.chipRow}>
+          {DAY_START_HOUR_OPTIONS.map((hour) => (
+            <Chip
+              key={hour}
+              selected={dayStartHour === hour}
+              onPress={() => void setDayStartHour(hour)}
+              compact
+            >
+              {formatDayStartHour(hour)}
+            </Chip>
+          ))}
+        </View>
+      </List.Section>
+
+      <List.Section>
+        <List.Subheader>Categories</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Pick a category when editing an element, then filter the Counter, Daily and Elements
+          tabs by it.
+        </Text>
+        {[...BUILT_IN_CATEGORIES, ...customCategories].map((category) => {
+          const isCustom = customCategories.includes(category);
+          return (
+            <List.Item
+              key={category.id}
+              title={category.label}
+              description={isCustom ? undefined : 'Built in'}
+              left={(props) => <List.Icon {...props} icon={category.icon} color={category.color} />}
+              onPress={isCustom ? () => setEditingCategory(category) : undefined}
+              right={() =>
+                isCustom ? (
+                  <IconButton
+                    icon="delete-outline"
+                    onPress={() => confirmRemoveCategory(category)}
+                    accessibilityLabel={`Delete ${category.label}`}
+                  />
+                ) : null
+              }
+            />
+          );
+        })}
+        <View style={styles.addButtonRow}>
+          <Button mode="outlined" icon="tag-plus-outline" onPress={startNewCategory}>
+            Add category
+          </Button>
+        </View>
+      </List.Section>
+
       <List.Section>
         <List.Subheader>Notifications</List.Subheader>
         <List.Item
@@ -97,6 +243,53 @@ export default function SettingsScreen() {
         />
       </List.Section>
 
+      <List.Section>
+        <List.Subheader>Vacation / sick mode</List.Subheader>
+        <Text variant="bodySmall" style={styles.sectionNote}>
+          Pause every habit for a while. Paused days are not due, send no reminders and do not
+          break streaks.
+        </Text>
+        {pauses.map((period) => {
+          const running = isDateInPausePeriod(period, today);
+          return (
+            <List.Item
+              key={period.id}
+              title={formatPausePeriod(period)}
+              description={[running ? 'Paused now' : 'Scheduled', period.reason]
+                .filter(Boolean)
+                .join(' · ')}
+              left={(props) => (
+                <List.Icon {...props} icon={running ? 'pause-circle' : 'calendar-clock'} />
+              )}
+              right={() => (
+                <IconButton
+                  icon={running ? 'play-circle-outline' : 'delete-outline'}
+                  onPress={() => confirmEndPause(period)}
+                  accessibilityLabel={running ? 'End pause' : 'Cancel pause'}
+                />
+              )}
+            />
+          );
+        })}
+        <View style={[styles.addButtonRow, styles.buttonRow]}>
+          <Button
+            mode="outlined"
+            icon="pause"
+            onPress={() => setPauseDialogMode('now')}
+            disabled={pauses.some((period) => isDateInPausePeriod(period, today))}
+          >
+            Pause now
+          </Button>
+          <Button
+            mode="outlined"
+            icon="calendar-plus"
+            onPress={() => setPauseDialogMode('schedule')}
+          >
+            Schedule
+          </Button>
+        </View>
+      </List.Section>
+
       <List.Section>
         <List.Subheader>Sound tracks</List.Subheader>
         <Text variant="bodySmall" style={styles.sectionNote}>
@@ -123,7 +316,7 @@ export default function SettingsScreen() {
             />
           ))
         )}
-        <View style={styles.addSoundRow}>
+        <View style={styles.addButtonRow}>
           <Button mode="outlined" icon="file-music-outline" onPress={() => void addFromFile()}>
             Add from files
           </Button>
@@ -141,9 +334,23 @@ export default function SettingsScreen() {
 
       <View style={styles.note}>
         <Text variant="bodySmall" style={styles.noteText}>
-          Your data stays on this device. Export and backup options are coming soon.
+          Your data stays on this device. Export it from Settings → Backup & restore.
         </Text>
       </View>
+
+      <CategoryEditorDialog
+        category={editingCategory}
+        isNew={!customCategories.some((c) => c.id === editingCategory?.id)}
+        saving={savingCategory}
+        onDismiss={() => setEditingCategory(null)}
+        onSave={(category) => void handleSaveCategory(category)}
+      />
+      <PauseDialog
+        mode={pauseDialogMode}
+        onDismiss={() => setPauseDialogMode(null)}
+        onStart={(reason) => startPause(reason)}
+        onSchedule={(startDate, endDate, reason) => schedulePause(startDate, endDate, reason)}
+      />
     </ScrollView>
   );
 }
@@ -159,16 +366,27 @@ const styles = StyleSheet.create({
     opacity: 0.6,
     lineHeight: 20,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
   emptySounds: {
     paddingHorizontal: 16,
     paddingBottom: 8,
     opacity: 0.6,
   },
-  addSoundRow: {
+  addButtonRow: {
     paddingHorizontal: 16,
     paddingTop: 8,
     paddingBottom: 4,
   },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   note: {
     paddingHorizontal: 16,
     paddingTop: 8,
@@ -1,14 +1,29 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 import { create } from 'zustand';
+import { snapshotBeforeDestructive } from '../backup/snapshots';
 import { getDatabase } from '../db/client';
 import { newId } from '../utils/id';
-import type { DashboardItem, ElementDefinition, ElementKind, ElementCategory } from '../protocol';
-import { PROTOCOL_VERSION } from '../protocol';
+import type {
+  DashboardItem,
+  DashboardOverrides,
+  ElementDefinition,
+  ElementKind,
+  ElementCategory,
+} from '../protocol';
+import { FALLBACK_CATEGORY_ID, PROTOCOL_VERSION, normalizeDashboardOverrides } from '../protocol';
 import * as elementRepo from '../db/repositories/elementRepository';
 import * as dashboardRepo from '../db/repositories/dashboardRepository';
+import * as eventRepo from '../db/repositories/eventRepository';
+import { useEventStore } from './eventStore';
 import { buildCounterConfig, type CounterConfig, type CounterInput } from '../protocol/kinds/counter';
 import { buildHabitConfig, type HabitInput } from '../protocol/kinds/habit';
+import { buildMeasurementConfig, type MeasurementInput } from '../protocol/kinds/measurement';
+import { buildRatingConfig, type RatingInput } from '../protocol/kinds/rating';
+import { buildChecklistConfig, type ChecklistInput } from '../protocol/kinds/checklist';
+import { buildAbstinenceConfig, type AbstinenceInput } from '../protocol/kinds/abstinence';
+import { DEFAULT_GROUP_CONFIG, type GroupInput } from '../protocol/kinds/group';
 import { counterHandler } from '../kinds/registry';
+import { dashboardOrderAfterReorder, moveElementTo } from '../utils/dashboardElements';
 
 async function insertElementPinnedToDashboard(
   db: SQLiteDatabase,
@@ -28,12 +43,30 @@ interface ElementState {
   isLoading: boolean;
   error: string | null;
   load: () => Promise<void>;
-  createCounter: (input: CounterInput) => Promise<void>;
-  updateCounter: (id: string, input: CounterInput) => Promise<void>;
-  createHabit: (input: HabitInput) => Promise<void>;
-  updateHabit: (id: string, input: HabitInput) => Promise<void>;
+  createCounter: (input: CounterInput, category: ElementCategory) => Promise<void>;
+  updateCounter: (id: string, input: CounterInput, category: ElementCategory) => Promise<void>;
+  createHabit: (input: HabitInput, category: ElementCategory) => Promise<void>;
+  updateHabit: (id: string, input: HabitInput, category: ElementCategory) => Promise<void>;
+  createMeasurement: (input: MeasurementInput, category: ElementCategory) => Promise<void>;
+  updateMeasurement: (id: string, input: MeasurementInput, category: ElementCategory) => Promise<void>;
+  createRating: (input: RatingInput, category: ElementCategory) => Promise<void>;
+  updateRating: (id: string, input: RatingInput, category: ElementCategory) => Promise<void>;
+  createChecklist: (input: ChecklistInput, category: ElementCategory) => Promise<void>;
+  updateChecklist: (id: string, input: ChecklistInput, category: ElementCategory) => Promise<void>;
+  createAbstinence: (input: AbstinenceInput, category: ElementCategory) => Promise<void>;
+  updateAbstinence: (id: string, input: AbstinenceInput, category: ElementCategory) => Promise<void>;
+  createGroup: (input: GroupInput) => Promise<void>;
+  updateGroup: (id: string, input: GroupInput) => Promise<void>;
+  moveToGroup: (elementId: string, groupId: string | null) => Promise<void>;
   pinToDashboard: (elementId: string) => Promise<void>;
   unpinFromDashboard: (dashboardItemId: string) => Promise<void>;
+  setDashboardOverrides: (dashboardItemId: string, overrides: DashboardOverrides) => Promise<void>;
+  /** Rearrange these pinned elements among themselves; other pinned items keep their places. */
+  reorderDashboard: (orderedElementIds: string[]) => Promise<void>;
+  pinToTop: (elementId: string) => Promise<void>;
+  /** Hide from Daily, Counter and reminders while keeping history and pin. */
+  archiveElement: (id: string) => Promise<void>;
+  restoreElement: (id: string) => Promise<void>;
   deleteElement: (id: string) => Promise<void>;
 }
 
@@ -60,25 +93,27 @@ export const useElementStore = create<ElementState>((set, get) => ({
     }
   },
 
-  createCounter: async (input) => {
+  createCounter: async (input, category) => {
     const db = await getDatabase();
     const config = buildCounterConfig(counterHandler.defaultConfig, input);
 
+    const now = new Date().toISOString();
     const element: ElementDefinition = {
       id: newId(),
       kind: 'counter' as ElementKind,
       name: input.name.trim(),
-      category: 'exercise' as ElementCategory,
+      category,
       config,
       protocolVersion: PROTOCOL_VERSION,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
     };
 
     await insertElementPinnedToDashboard(db, element);
     await get().load();
   },
 
-  updateCounter: async (id, input) => {
+  updateCounter: async (id, input, category) => {
     const db = await getDatabase();
     const existing = get().elements.find((e) => e.id === id);
     if (!existing || existing.kind !== 'counter') {
@@ -92,6 +127,7 @@ export const useElementStore = create<ElementState>((set, get) => ({
       id,
       {
         name: input.name.trim(),
+        category,
         config,
       },
       'counter',
@@ -99,25 +135,27 @@ export const useElementStore = create<ElementState>((set, get) => ({
     await get().load();
   },
 
-  createHabit: async (input) => {
+  createHabit: async (input, category) => {
     const db = await getDatabase();
     const config = buildHabitConfig(input);
 
+    const now = new Date().toISOString();
     const element: ElementDefinition = {
       id: newId(),
       kind: 'habit' as ElementKind,
       name: input.name.trim(),
-      category: 'habit' as ElementCategory,
+      category,
       config,
       protocolVersion: PROTOCOL_VERSION,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
     };
 
     await insertElementPinnedToDashboard(db, element);
     await get().load();
   },
 
-  updateHabit: async (id, input) => {
+  updateHabit: async (id, input, category) => {
     const db = await getDatabase();
     const existing = get().elements.find((e) => e.id === id);
     if (!existing || existing.kind !== 'habit') {
@@ -129,12 +167,199 @@ export const useElementStore = create<ElementState>((set, get) => ({
     await elementRepo.updateElement(
       db,
       id,
-      { name: input.name.trim(), config },
+      { name: input.name.trim(), category, config },
       'habit',
     );
     await get().load();
   },
 
+  createMeasurement: async (input, category) => {
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+    const element: ElementDefinition = {
+      id: newId(),
+      kind: 'measurement' as ElementKind,
+      name: input.name.trim(),
+      category,
+      config: buildMeasurementConfig(input),
+      protocolVersion: PROTOCOL_VERSION,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await insertElementPinnedToDashboard(db, element);
+    await get().load();
+  },
+
+  updateMeasurement: async (id, input, category) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing || existing.kind !== 'measurement') {
+      throw new Error('Measurement not found');
+    }
+
+    await elementRepo.updateElement(
+      db,
+      id,
+      { name: input.name.trim(), category, config: buildMeasurementConfig(input) },
+      'measurement',
+    );
+    await get().load();
+  },
+
+  createRating: async (input, category) => {
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+    const element: ElementDefinition = {
+      id: newId(),
+      kind: 'rating' as ElementKind,
+      name: input.name.trim(),
+      category,
+      config: buildRatingConfig(input),
+      protocolVersion: PROTOCOL_VERSION,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await insertElementPinnedToDashboard(db, element);
+    await get().load();
+  },
+
+  updateRating: async (id, input, category) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing || existing.kind !== 'rating') {
+      throw new Error('Rating not found');
+    }
+
+    await elementRepo.updateElement(
+      db,
+      id,
+      { name: input.name.trim(), category, config: buildRatingConfig(input) },
+      'rating',
+    );
+    await get().load();
+  },
+
+  createChecklist: async (input, category) => {
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+    const element: ElementDefinition = {
+      id: newId(),
+      kind: 'checklist' as ElementKind,
+      name: input.name.trim(),
+      category,
+      config: buildChecklistConfig(input),
+      protocolVersion: PROTOCOL_VERSION,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await insertElementPinnedToDashboard(db, element);
+    await get().load();
+  },
+
+  updateChecklist: async (id, input, category) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing || existing.kind !== 'checklist') {
+      throw new Error('Checklist not found');
+    }
+
+    await elementRepo.updateElement(
+      db,
+      id,
+      { name: input.name.trim(), category, config: buildChecklistConfig(input) },
+      'checklist',
+    );
+    await get().load();
+  },
+
+  createAbstinence: async (input, category) => {
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+    const element: ElementDefinition = {
+      id: newId(),
+      kind: 'abstinence' as ElementKind,
+      name: input.name.trim(),
+      category,
+      config: buildAbstinenceConfig(input),
+      protocolVersion: PROTOCOL_VERSION,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await insertElementPinnedToDashboard(db, element);
+    await get().load();
+  },
+
+  updateAbstinence: async (id, input, category) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing || existing.kind !== 'abstinence') {
+      throw new Error('Abstinence tracker not found');
+    }
+
+    await elementRepo.updateElement(
+      db,
+      id,
+      { name: input.name.trim(), category, config: buildAbstinenceConfig(input) },
+      'abstinence',
+    );
+    await get().load();
+  },
+
+  createGroup: async (input) => {
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+    const element: ElementDefinition = {
+      id: newId(),
+      kind: 'group' as ElementKind,
+      name: input.name.trim(),
+      category: FALLBACK_CATEGORY_ID,
+      config: DEFAULT_GROUP_CONFIG,
+      protocolVersion: PROTOCOL_VERSION,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Groups show up through their pinned members, so they are not pinned themselves.
+    await elementRepo.insertElement(db, element);
+    await get().load();
+  },
+
+  updateGroup: async (id, input) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing || existing.kind !== 'group') {
+      throw new Error('Group not found');
+    }
+
+    await elementRepo.updateElement(
+      db,
+      id,
+      { name: input.name.trim(), category: existing.category, config: DEFAULT_GROUP_CONFIG },
+      'group',
+    );
+    await get().load();
+  },
+
+  moveToGroup: async (elementId, groupId) => {
+    const db = await getDatabase();
+    const { elements } = get();
+    const element = elements.find((e) => e.id === elementId);
+    if (!element || element.kind === 'group') {
+      throw new Error('Only elements can be moved into a group');
+    }
+    if (groupId !== null && !elements.some((e) => e.id === groupId && e.kind === 'group')) {
+      throw new Error('Group not found');
+    }
+    if ((element.parentId ?? null) === groupId) return;
+
+    await elementRepo.updateElementParent(db, elementId, groupId);
+    await get().load();
+  },
+
   pinToDashboard: async (elementId) => {
     const db = await getDatabase();
     const alreadyPinned = await dashboardRepo.isElementOnDashboard(db, elementId);
@@ -155,13 +380,84 @@ export const useElementStore = create<ElementState>((set, get) => ({
     await get().load();
   },
 
+  setDashboardOverrides: async (dashboardItemId, overrides) => {
+    const db = await getDatabase();
+    await dashboardRepo.updateDashboardItemOverrides(
+      db,
+      dashboardItemId,
+      normalizeDashboardOverrides(overrides),
+    );
+    await get().load();
+  },
+
+  reorderDashboard: async (orderedElementIds) => {
+    const db = await getDatabase();
+    await dashboardRepo.reorderDashboardItems(
+      db,
+      dashboardOrderAfterReorder(get().dashboard, orderedElementIds),
+    );
+    await get().load();
+  },
+
+  pinToTop: async (elementId) => {
+    const ids = get().dashboard.map((item) => item.elementId);
+    if (ids.length === 0 || ids[0] === elementId) return;
+    await get().reorderDashboard(moveElementTo(ids, elementId, ids[0]));
+  },
+
+  archiveElement: async (id) => {
+    const db = await getDatabase();
+    const existing = get().elements.find((e) => e.id === id);
+    if (!existing) {
+      throw new Error('Element not found');
+    }
+    if (existing.kind === 'group') {
+      throw new Error('Groups cannot be archived');
+    }
+    if (existing.archivedAt) return;
+
+    await elementRepo.updateElementArchived(db, id, new Date().toISOString());
+    await get().load();
+  },
+
+  restoreElement: async (id) => {
+    const db = await getDatabase();
+    await elementRepo.updateElementArchived(db, id, null);
+    await get().load();
+  },
+
   deleteElement: async (id) => {
     const db = await getDatabase();
     const existing = get().elements.find((e) => e.id === id);
     if (!existing) {
       throw new Error('Element not found');
     }
-    await elementRepo.deleteElement(db, id);
+    await snapshotBeforeDestructive('pre-delete');
+    // Events and dashboard rows go with the element (ON DELETE CASCADE); keep them for undo.
+    const [events, dashboard] = await Promise.all([
+      eventRepo.getEventsForElement(db, id),
+      dashboardRepo.getDashboardItems(db),
+    ]);
+    const memberIds = get()
+      .elements.filter((element) => element.parentId === id)
+      .map((element) => element.id);
+    await db.withTransactionAsync(async () => {
+      if (existing.kind === 'group') {
+        await elementRepo.clearElementParent(db, id);
+      }
+      await elementRepo.deleteElement(db, id);
+    });
     await get().load();
+    useEventStore.getState().recordChange({
+      label: `Deleted ${existing.name}`,
+      inserted: [],
+      deleted: events,
+      deletedElement: {
+        element: existing,
+        dashboard: dashboard.filter((item) => item.elementId === id),
+        memberIds,
+      },
+      refresh: () => get().load(),
+    });
   },
 }));
@@ -1,51 +1,152 @@
 import { create } from 'zustand';
 import { newId } from '../utils/id';
 import {
-  buildTimerSessionPayload,
+  aggregateDailyValue,
+  buildIntervalTimerSessionPayload,
+  buildSegmentedTimerSessionPayload,
+  ChecklistConfigSchema,
+  ChecklistEventMetaSchema,
+  checkedChecklistItemIds,
+  completedChecklistDates,
+  closeTimerSession,
   HabitConfigSchema,
+  habitSkipReasons,
+  intervalProgramTotalSeconds,
+  isChecklistDayComplete,
   isHabitDayComplete,
-  isHabitScheduledOnDate,
+  isHabitSkipEvent,
+  localEventTime,
+  pausedDatesBetween,
+  pauseTimerSession,
   PROTOCOL_VERSION,
-  toDateString,
+  quotaPeriodStart,
+  resumeTimerSession,
+  type ActiveTimerSession,
+  type ChecklistConfig,
+  type DashboardItem,
+  type ElementDefinition,
   type HabitConfig,
+  type IntervalProgram,
+  type LifeEvent,
 } from '../protocol';
-import { dateDaysAgo } from '../utils/dates';
-import { completedDatesFromDailyTotals, computeStreak } from '../utils/streak';
+import { dateDaysAgo, getDayStartHour, todayDate } from '../utils/dates';
+import {
+  completedDatesFromDailyTotals,
+  computeStreak,
+  habitStreakOptions,
+  habitStreakSchedule,
+} from '../utils/streak';
+import {
+  emptyUndoStacks,
+  recordUndo,
+  takeRedo,
+  takeUndo,
+  type UndoStacks,
+} from '../utils/undoStack';
 import { getDatabase } from '../db/client';
+import * as activeTimerRepo from '../db/repositories/activeTimerRepository';
+import * as dashboardRepo from '../db/repositories/dashboardRepository';
+import * as elementRepo from '../db/repositories/elementRepository';
 import * as eventRepo from '../db/repositories/eventRepository';
+import { usePauseStore } from './pauseStore';
 
 export interface HabitStreakInput {
   id: string;
   config: HabitConfig;
 }
 
-interface ActiveTimerSession {
-  startedAt: string;
+export interface ChecklistStateInput {
+  id: string;
+  config: ChecklistConfig;
+}
+
+/** Rows an element delete removed, so undo can put the element back as it was. */
+export interface DeletedElementSnapshot {
+  element: ElementDefinition;
+  dashboard: DashboardItem[];
+  /** Members of a deleted group, ungrouped by the delete. */
+  memberIds: string[];
+}
+
+/** One undoable mutation: the exact events it removed and added. */
+export interface UndoEntry {
+  label: string;
+  inserted: LifeEvent[];
+  deleted: LifeEvent[];
+  deletedElement?: DeletedElementSnapshot;
+  /** Reloads the store state that shows the touched rows. */
+  refresh: () => Promise<void>;
+}
+
+/** Snackbar message for the latest change; `action` is what its button does. */
+export interface UndoNotice {
+  id: number;
+  text: string;
+  action: 'undo' | 'redo';
 }
 
 interface EventState {
   dailyTotals: Record<string, number>;
   yesterdayTotals: Record<string, number>;
+  /** Habits and checklists; a checklist is done once enough steps are ticked. */
   habitDoneToday: Record<string, boolean>;
   habitStreaks: Record<string, number>;
+  /** Habits excused for the day with "Skip today". */
+  habitSkippedToday: Record<string, boolean>;
+  /** Quota habits: completed dates so far in the current week or month. */
+  habitPeriodDates: Record<string, string[]>;
+  /** Step ids ticked today, per checklist element. */
+  checklistChecked: Record<string, string[]>;
+  /** Newest event per measurement or rating element, whatever its day. */
+  latestEvents: Record<string, LifeEvent | null>;
   activeTimerSessions: Record<string, ActiveTimerSession>;
+  /** True once persisted timer sessions have been read back from SQLite. */
+  timerSessionsRestored: boolean;
+  undoStacks: UndoStacks<UndoEntry>;
+  undoNotice: UndoNotice | null;
+  recordChange: (entry: UndoEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissUndoNotice: () => void;
+  /** Forgets every undo and redo entry, e.g. once an import has replaced the data they point at. */
+  clearUndoHistory: () => void;
   loadDailyTotals: (elementIds: string[], date?: string) => Promise<void>;
   loadCounterTotals: (elementIds: string[]) => Promise<void>;
   loadHabitDayState: (habits: HabitStreakInput[], date?: string) => Promise<void>;
   loadHabitStreaks: (habits: HabitStreakInput[]) => Promise<void>;
+  loadReadingState: (elements: ElementDefinition[]) => Promise<void>;
+  loadChecklistDayState: (checklists: ChecklistStateInput[]) => Promise<void>;
   logEvent: (
     elementId: string,
     value: number,
     meta?: Record<string, unknown>,
   ) => Promise<void>;
   setDailyTotal: (elementId: string, total: number, date?: string) => Promise<void>;
+  logReading: (
+    element: ElementDefinition,
+    value: number,
+    meta?: Record<string, unknown>,
+  ) => Promise<void>;
   toggleHabit: (elementId: string, config: HabitConfig, date?: string) => Promise<void>;
-  startHabitTimer: (elementId: string) => void;
-  stopHabitTimer: (elementId: string, config: HabitConfig, date?: string) => Promise<void>;
-}
-
-function todayDate(): string {
-  return toDateString(new Date());
+  /** Skips the day (excusing it from the streak), or takes an existing skip back. */
+  toggleHabitSkip: (
+    elementId: string,
+    config: HabitConfig,
+    reason?: string,
+    date?: string,
+  ) => Promise<void>;
+  toggleChecklistItem: (checklist: ChecklistStateInput, itemId: string) => Promise<void>;
+  restoreTimerSessions: () => Promise<void>;
+  startHabitTimer: (
+    elementId: string,
+    options?: { targetSeconds?: number; intervalProgram?: IntervalProgram },
+  ) => Promise<void>;
+  pauseHabitTimer: (elementId: string) => Promise<void>;
+  resumeHabitTimer: (elementId: string) => Promise<void>;
+  stopHabitTimer: (elementId: string, config: HabitConfig, endedAt?: Date) => Promise<void>;
+  discardHabitTimer: (elementId: string) => Promise<void>;
+  /** Drops running timers whose element is not in `elementIds`. */
+  pruneTimerSessions: (elementIds: string[]) => Promise<void>;
 }
 
 async function refreshTotal(
@@ -59,21 +160,156 @@ async function refreshTotal(
   set({ dailyTotals: { ...get().dailyTotals, [elementId]: total } });
 }
 
+/** Today's value for kinds that do not sum (measurements, ratings) plus the newest event. */
+async function refreshReading(
+  element: ElementDefinition,
+  set: (partial: Partial<EventState>) => void,
+  get: () => EventState,
+): Promise<void> {
+  const db = await getDatabase();
+  const [events, latest] = await Promise.all([
+    eventRepo.getEventsForElementSince(db, element.id, todayDate()),
+    eventRepo.getLatestEvent(db, element.id),
+  ]);
+  set({
+    dailyTotals: { ...get().dailyTotals, [element.id]: aggregateDailyValue(element, events) },
+    latestEvents: { ...get().latestEvents, [element.id]: latest },
+  });
+}
+
+/** Vacation / sick mode days since `since`; streaks treat them like skipped days. */
+function pausedDatesSince(since: string): string[] {
+  return pausedDatesBetween(usePauseStore.getState().periods, since, todayDate());
+}
+
+async function refreshChecklist(
+  { id, config }: ChecklistStateInput,
+  set: (partial: Partial<EventState>) => void,
+  get: () => EventState,
+): Promise<void> {
+  const db = await getDatabase();
+  const today = todayDate();
+  const since = dateDaysAgo(365);
+  const events = await eventRepo.getEventsForElementSince(db, id, since);
+  const checked = checkedChecklistItemIds(
+    events.filter((event) => event.date === today),
+    config,
+  );
+  const streak = computeStreak(
+    completedChecklistDates(events, config),
+    today,
+    undefined,
+    { skippedDates: pausedDatesSince(since) },
+  );
+  set({
+    checklistChecked: { ...get().checklistChecked, [id]: checked },
+    dailyTotals: { ...get().dailyTotals, [id]: checked.length },
+    habitDoneToday: {
+      ...get().habitDoneToday,
+      [id]: isChecklistDayComplete(checked.length, config),
+    },
+    habitStreaks: { ...get().habitStreaks, [id]: streak },
+  });
+}
+
+const READING_LOG_LABELS: Partial<Record<ElementDefinition['kind'], string>> = {
+  measurement: 'Reading saved',
+  rating: 'Rating saved',
+  abstinence: 'Relapse logged',
+};
+
+let noticeCount = 0;
+
+function nextUndoNotice(text: string, action: UndoNotice['action']): UndoNotice {
+  noticeCount += 1;
+  return { id: noticeCount, text, action };
+}
+
+/** Puts back what `entry` removed and removes what it added, in one transaction. */
+async function revertChange(entry: UndoEntry): Promise<void> {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    if (entry.deletedElement) {
+      const { element, dashboard, memberIds } = entry.deletedElement;
+      await elementRepo.insertElement(db, element);
+      for (const item of dashboard) {
+        await dashboardRepo.insertDashboardItem(db, item);
+      }
+      for (const memberId of memberIds) {
+        await elementRepo.updateElementParent(db, memberId, element.id);
+      }
+    }
+    for (const event of entry.inserted) {
+      await eventRepo.deleteEvent(db, event.id);
+    }
+    for (const event of entry.deleted) {
+      await eventRepo.insertEvent(db, event);
+    }
+  });
+  await entry.refresh();
+}
+
+/** Applies `entry` again after it was undone. */
+async function reapplyChange(entry: UndoEntry): Promise<void> {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    for (const event of entry.deleted) {
+      await eventRepo.deleteEvent(db, event.id);
+    }
+    for (const event of entry.inserted) {
+      await eventRepo.insertEvent(db, event);
+    }
+    if (entry.deletedElement) {
+      const { element } = entry.deletedElement;
+      if (element.kind === 'group') {
+        await elementRepo.clearElementParent(db, element.id);
+      }
+      await elementRepo.deleteElement(db, element.id);
+    }
+  });
+  await entry.refresh();
+}
+
+async function persistTimerSessions(sessions: Record<string, ActiveTimerSession>): Promise<void> {
+  const db = await getDatabase();
+  await activeTimerRepo.setActiveTimerSessions(db, sessions);
+}
+
 async function computeHabitStreak(
   elementId: string,
   config: HabitConfig,
 ): Promise<number> {
   const db = await getDatabase();
   const since = dateDaysAgo(365);
-  const rows = await eventRepo.getDailyTotalsByElement(db, elementId, since);
+  const [rows, events] = await Promise.all([
+    eventRepo.getDailyTotalsByElement(db, elementId, since),
+    eventRepo.getEventsForElementSince(db, elementId, since),
+  ]);
   const completed = completedDatesFromDailyTotals(rows, (total) =>
     isHabitDayComplete(total, config),
   );
   return computeStreak(
     completed,
     todayDate(),
-    (date) => isHabitScheduledOnDate(config, date),
+    habitStreakSchedule(config),
+    habitStreakOptions(config, [...habitSkipReasons(events).keys(), ...pausedDatesSince(since)]),
+  );
+}
+
+/** Completed dates in the quota period holding `date`; empty for other schedules. */
+async function loadQuotaPeriodDates(
+  elementId: string,
+  config: HabitConfig,
+  date: string,
+): Promise<string[]> {
+  if (config.schedule.type !== 'quota') return [];
+  const db = await getDatabase();
+  const rows = await eventRepo.getDailyTotalsByElement(
+    db,
+    elementId,
+    quotaPeriodStart(config.schedule, date),
   );
+  return completedDatesFromDailyTotals(rows, (total) => isHabitDayComplete(total, config));
 }
 
 async function refreshHabitStatus(
@@ -85,12 +321,16 @@ async function refreshHabitStatus(
 ): Promise<void> {
   const db = await getDatabase();
   const total = await eventRepo.getDailyTotal(db, elementId, date);
+  const periodDates = await loadQuotaPeriodDates(elementId, config, date);
+  const events = await eventRepo.getEventsForElementOnDate(db, elementId, date);
   set({
     dailyTotals: { ...get().dailyTotals, [elementId]: total },
     habitDoneToday: {
       ...get().habitDoneToday,
       [elementId]: isHabitDayComplete(total, config),
     },
+    habitSkippedToday: { ...get().habitSkippedToday, [elementId]: events.some(isHabitSkipEvent) },
+    habitPeriodDates: { ...get().habitPeriodDates, [elementId]: periodDates },
   });
 }
 
@@ -99,7 +339,52 @@ export const useEventStore = create<EventState>((set, get) => ({
   yesterdayTotals: {},
   habitDoneToday: {},
   habitStreaks: {},
+  habitSkippedToday: {},
+  habitPeriodDates: {},
+  checklistChecked: {},
+  latestEvents: {},
   activeTimerSessions: {},
+  timerSessionsRestored: false,
+  undoStacks: emptyUndoStacks(),
+  undoNotice: null,
+
+  recordChange: (entry) => {
+    set({
+      undoStacks: recordUndo(get().undoStacks, entry),
+      undoNotice: nextUndoNotice(entry.label, 'undo'),
+    });
+  },
+
+  undo: async () => {
+    const taken = takeUndo(get().undoStacks);
+    if (!taken) return;
+    set({ undoStacks: taken.stacks, undoNotice: null });
+    try {
+      await revertChange(taken.entry);
+    } catch (error) {
+      // A change that cannot be reverted cannot be redone either.
+      set({ undoStacks: { ...get().undoStacks, redo: get().undoStacks.redo.slice(0, -1) } });
+      throw error;
+    }
+    set({ undoNotice: nextUndoNotice(`Undone: ${taken.entry.label}`, 'redo') });
+  },
+
+  redo: async () => {
+    const taken = takeRedo(get().undoStacks);
+    if (!taken) return;
+    set({ undoStacks: taken.stacks, undoNotice: null });
+    try {
+      await reapplyChange(taken.entry);
+    } catch (error) {
+      set({ undoStacks: { ...get().undoStacks, undo: get().undoStacks.undo.slice(0, -1) } });
+      throw error;
+    }
+    set({ undoNotice: nextUndoNotice(taken.entry.label, 'undo') });
+  },
+
+  dismissUndoNotice: () => set({ undoNotice: null }),
+
+  clearUndoHistory: () => set({ undoStacks: emptyUndoStacks(), undoNotice: null }),
 
   loadDailyTotals: async (elementIds, date = todayDate()) => {
     const db = await getDatabase();
@@ -146,18 +431,25 @@ export const useEventStore = create<EventState>((set, get) => ({
     const db = await getDatabase();
     const totals: Record<string, number> = {};
     const status: Record<string, boolean> = {};
+    const skipped: Record<string, boolean> = {};
+    const periodDates: Record<string, string[]> = {};
 
     await Promise.all(
       habits.map(async ({ id, config }) => {
         const total = await eventRepo.getDailyTotal(db, id, date);
         totals[id] = total;
         status[id] = isHabitDayComplete(total, config);
+        const events = await eventRepo.getEventsForElementOnDate(db, id, date);
+        skipped[id] = events.some(isHabitSkipEvent);
+        periodDates[id] = await loadQuotaPeriodDates(id, config, date);
       }),
     );
 
     set({
       dailyTotals: { ...get().dailyTotals, ...totals },
       habitDoneToday: { ...get().habitDoneToday, ...status },
+      habitSkippedToday: { ...get().habitSkippedToday, ...skipped },
+      habitPeriodDates: { ...get().habitPeriodDates, ...periodDates },
     });
   },
 
@@ -174,22 +466,36 @@ export const useEventStore = create<EventState>((set, get) => ({
     set({ habitStreaks: { ...get().habitStreaks, ...streaks } });
   },
 
+  loadReadingState: async (elements) => {
+    await Promise.all(elements.map((element) => refreshReading(element, set, get)));
+  },
+
+  loadChecklistDayState: async (checklists) => {
+    await Promise.all(checklists.map((checklist) => refreshChecklist(checklist, set, get)));
+  },
+
   logEvent: async (elementId, value, meta) => {
     const db = await getDatabase();
-    const now = new Date();
-    const date = toDateString(now);
-
-    await eventRepo.insertEvent(db, {
+    const time = localEventTime(new Date(), getDayStartHour());
+    const event: LifeEvent = {
       id: newId(),
       elementId,
-      timestamp: now.toISOString(),
-      date,
+      ...time,
       value,
       meta,
       protocolVersion: PROTOCOL_VERSION,
-    });
+    };
+
+    await eventRepo.insertEvent(db, event);
 
-    await refreshTotal(elementId, date, set, get);
+    const refresh = () => refreshTotal(elementId, time.date, set, get);
+    await refresh();
+    get().recordChange({
+      label: `Logged ${value < 0 ? value : `+${value}`}`,
+      inserted: [event],
+      deleted: [],
+      refresh,
+    });
   },
 
   setDailyTotal: async (elementId, total, date = todayDate()) => {
@@ -198,93 +504,318 @@ export const useEventStore = create<EventState>((set, get) => ({
     }
 
     const db = await getDatabase();
-    await eventRepo.deleteEventsForElementOnDate(db, elementId, date);
+    const deleted = await eventRepo.getEventsForElementOnDate(db, elementId, date);
+    const inserted: LifeEvent[] =
+      total > 0
+        ? [
+            {
+              id: newId(),
+              elementId,
+              ...localEventTime(new Date(), getDayStartHour()),
+              date,
+              value: total,
+              meta: { source: 'manual' },
+              protocolVersion: PROTOCOL_VERSION,
+            },
+          ]
+        : [];
+
+    await db.withTransactionAsync(async () => {
+      await eventRepo.deleteEventsForElementOnDate(db, elementId, date);
+      for (const event of inserted) {
+        await eventRepo.insertEvent(db, event);
+      }
+    });
 
-    if (total > 0) {
-      const now = new Date();
-      await eventRepo.insertEvent(db, {
-        id: newId(),
-        elementId,
-        timestamp: now.toISOString(),
-        date,
-        value: total,
-        meta: { source: 'manual' },
-        protocolVersion: PROTOCOL_VERSION,
-      });
-    }
+    const refresh = () => refreshTotal(elementId, date, set, get);
+    await refresh();
+    get().recordChange({ label: `Total set to ${total}`, inserted, deleted, refresh });
+  },
 
-    await refreshTotal(elementId, date, set, get);
+  logReading: async (element, value, meta) => {
+    const db = await getDatabase();
+    const event: LifeEvent = {
+      id: newId(),
+      elementId: element.id,
+      ...localEventTime(new Date(), getDayStartHour()),
+      value,
+      meta,
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    await eventRepo.insertEvent(db, event);
+
+    const refresh = () => refreshReading(element, set, get);
+    await refresh();
+    get().recordChange({
+      label: READING_LOG_LABELS[element.kind] ?? 'Logged',
+      inserted: [event],
+      deleted: [],
+      refresh,
+    });
   },
 
   toggleHabit: async (elementId, config, date = todayDate()) => {
     const db = await getDatabase();
     const done = get().habitDoneToday[elementId] ?? false;
+    let inserted: LifeEvent[] = [];
+    let deleted: LifeEvent[] = [];
 
     if (done) {
-      await eventRepo.deleteEventsForElementOnDate(db, elementId, date);
-    } else {
-      const now = new Date();
-      await eventRepo.insertEvent(db, {
-        id: newId(),
-        elementId,
-        timestamp: now.toISOString(),
-        date,
-        value: 1,
-        meta: { source: 'habit_tick' },
-        protocolVersion: PROTOCOL_VERSION,
+      // A skip stays in place when the tick is taken back.
+      deleted = (await eventRepo.getEventsForElementOnDate(db, elementId, date)).filter(
+        (event) => !isHabitSkipEvent(event),
+      );
+      await db.withTransactionAsync(async () => {
+        for (const event of deleted) {
+          await eventRepo.deleteEvent(db, event.id);
+        }
       });
+    } else {
+      inserted = [
+        {
+          id: newId(),
+          elementId,
+          ...localEventTime(new Date(), getDayStartHour()),
+          date,
+          value: 1,
+          meta: { source: 'habit_tick' },
+          protocolVersion: PROTOCOL_VERSION,
+        },
+      ];
+      await eventRepo.insertEvent(db, inserted[0]);
     }
 
     const streak = await computeHabitStreak(elementId, config);
+    const periodDates = await loadQuotaPeriodDates(elementId, config, date);
 
     set({
       habitDoneToday: { ...get().habitDoneToday, [elementId]: !done },
       habitStreaks: { ...get().habitStreaks, [elementId]: streak },
+      habitPeriodDates: { ...get().habitPeriodDates, [elementId]: periodDates },
       dailyTotals: {
         ...get().dailyTotals,
         [elementId]: done ? 0 : 1,
       },
     });
+    get().recordChange({
+      label: done ? 'Marked not done' : 'Marked done',
+      inserted,
+      deleted,
+      refresh: async () => {
+        await refreshHabitStatus(elementId, config, date, set, get);
+        const next = await computeHabitStreak(elementId, config);
+        set({ habitStreaks: { ...get().habitStreaks, [elementId]: next } });
+      },
+    });
   },
 
-  startHabitTimer: (elementId) => {
-    set({
-      activeTimerSessions: {
-        ...get().activeTimerSessions,
-        [elementId]: { startedAt: new Date().toISOString() },
-      },
+  toggleHabitSkip: async (elementId, config, reason, date = todayDate()) => {
+    const db = await getDatabase();
+    const skips = (await eventRepo.getEventsForElementOnDate(db, elementId, date)).filter(
+      isHabitSkipEvent,
+    );
+    const inserted: LifeEvent[] = [];
+
+    if (skips.length > 0) {
+      await db.withTransactionAsync(async () => {
+        for (const skip of skips) {
+          await eventRepo.deleteEvent(db, skip.id);
+        }
+      });
+    } else {
+      const trimmed = reason?.trim();
+      const event: LifeEvent = {
+        id: newId(),
+        elementId,
+        ...localEventTime(new Date(), getDayStartHour()),
+        date,
+        value: 0,
+        meta: { source: 'habit_skip', ...(trimmed ? { reason: trimmed } : {}) },
+        protocolVersion: PROTOCOL_VERSION,
+      };
+      await eventRepo.insertEvent(db, event);
+      inserted.push(event);
+    }
+
+    const refresh = async () => {
+      await refreshHabitStatus(elementId, config, date, set, get);
+      const streak = await computeHabitStreak(elementId, config);
+      set({ habitStreaks: { ...get().habitStreaks, [elementId]: streak } });
+    };
+    await refresh();
+    get().recordChange({
+      label: skips.length > 0 ? 'Skip removed' : 'Day skipped',
+      inserted,
+      deleted: skips,
+      refresh,
+    });
+  },
+
+  toggleChecklistItem: async (checklist, itemId) => {
+    const db = await getDatabase();
+    const today = todayDate();
+    const events = await eventRepo.getEventsForElementSince(db, checklist.id, today);
+    const ticks = events.filter(
+      (event) =>
+        event.date === today &&
+        ChecklistEventMetaSchema.safeParse(event.meta ?? {}).data?.itemId === itemId,
+    );
+
+    const inserted: LifeEvent[] = [];
+
+    if (ticks.length > 0) {
+      await db.withTransactionAsync(async () => {
+        for (const tick of ticks) {
+          await eventRepo.deleteEvent(db, tick.id);
+        }
+      });
+    } else {
+      const event: LifeEvent = {
+        id: newId(),
+        elementId: checklist.id,
+        ...localEventTime(new Date(), getDayStartHour()),
+        date: today,
+        value: 1,
+        meta: { source: 'checklist_tick', itemId },
+        protocolVersion: PROTOCOL_VERSION,
+      };
+      await eventRepo.insertEvent(db, event);
+      inserted.push(event);
+    }
+
+    const refresh = () => refreshChecklist(checklist, set, get);
+    await refresh();
+    get().recordChange({
+      label: ticks.length > 0 ? 'Step unticked' : 'Step ticked',
+      inserted,
+      deleted: ticks,
+      refresh,
     });
   },
 
-  stopHabitTimer: async (elementId, config, date = todayDate()) => {
+  restoreTimerSessions: async () => {
+    try {
+      const db = await getDatabase();
+      const sessions = await activeTimerRepo.getActiveTimerSessions(db);
+      set({
+        activeTimerSessions: { ...sessions, ...get().activeTimerSessions },
+        timerSessionsRestored: true,
+      });
+    } catch (error) {
+      console.warn('Could not restore running timers', error);
+      set({ timerSessionsRestored: true });
+    }
+  },
+
+  startHabitTimer: async (elementId, options) => {
+    const intervalProgram = options?.intervalProgram;
+    const targetSeconds = intervalProgram
+      ? intervalProgramTotalSeconds(intervalProgram)
+      : options?.targetSeconds;
+    const nextSessions = {
+      ...get().activeTimerSessions,
+      [elementId]: {
+        startedAt: new Date().toISOString(),
+        ...(targetSeconds && targetSeconds > 0 ? { targetSeconds } : {}),
+        ...(intervalProgram ? { intervalProgram } : {}),
+      },
+    };
+    set({ activeTimerSessions: nextSessions });
+    await persistTimerSessions(nextSessions);
+  },
+
+  pauseHabitTimer: async (elementId) => {
     const session = get().activeTimerSessions[elementId];
     if (!session) return;
 
-    const startedAt = new Date(session.startedAt);
-    const endedAt = new Date();
-    const { value, meta } = buildTimerSessionPayload(startedAt, endedAt);
+    const nextSessions = {
+      ...get().activeTimerSessions,
+      [elementId]: pauseTimerSession(session),
+    };
+    set({ activeTimerSessions: nextSessions });
+    await persistTimerSessions(nextSessions);
+  },
 
-    const db = await getDatabase();
-    await eventRepo.insertEvent(db, {
+  resumeHabitTimer: async (elementId) => {
+    const session = get().activeTimerSessions[elementId];
+    if (!session) return;
+
+    const nextSessions = {
+      ...get().activeTimerSessions,
+      [elementId]: resumeTimerSession(session),
+    };
+    set({ activeTimerSessions: nextSessions });
+    await persistTimerSessions(nextSessions);
+  },
+
+  stopHabitTimer: async (elementId, config, endedAt = new Date()) => {
+    const session = get().activeTimerSessions[elementId];
+    if (!session) return;
+
+    const segments = closeTimerSession(session, endedAt);
+    const { value, meta } = session.intervalProgram
+      ? buildIntervalTimerSessionPayload(segments, session.intervalProgram)
+      : buildSegmentedTimerSessionPayload(segments);
+    const time = localEventTime(endedAt, getDayStartHour());
+
+    // Drop the session before any await so a second stop (the countdown firing while
+    // the user taps Stop) finds nothing and cannot log the session twice.
+    const nextSessions = { ...get().activeTimerSessions };
+    delete nextSessions[elementId];
+    set({ activeTimerSessions: nextSessions });
+
+    const event: LifeEvent = {
       id: newId(),
       elementId,
-      timestamp: endedAt.toISOString(),
-      date,
+      ...time,
       value,
       meta,
       protocolVersion: PROTOCOL_VERSION,
-    });
+    };
+    try {
+      await persistTimerSessions(nextSessions);
+      const db = await getDatabase();
+      await eventRepo.insertEvent(db, event);
+    } catch (error) {
+      const restoredSessions = { ...get().activeTimerSessions, [elementId]: session };
+      set({ activeTimerSessions: restoredSessions });
+      await persistTimerSessions(restoredSessions);
+      throw error;
+    }
+
+    const refresh = async () => {
+      const streak = await computeHabitStreak(elementId, config);
+      if (time.date === todayDate()) {
+        await refreshHabitStatus(elementId, config, time.date, set, get);
+      }
+
+      set({
+        habitStreaks: { ...get().habitStreaks, [elementId]: streak },
+      });
+    };
+    await refresh();
+    get().recordChange({ label: 'Timer session saved', inserted: [event], deleted: [], refresh });
+  },
+
+  discardHabitTimer: async (elementId) => {
+    if (!get().activeTimerSessions[elementId]) return;
 
-    const streak = await computeHabitStreak(elementId, config);
     const nextSessions = { ...get().activeTimerSessions };
     delete nextSessions[elementId];
+    set({ activeTimerSessions: nextSessions });
+    await persistTimerSessions(nextSessions);
+  },
 
-    await refreshHabitStatus(elementId, config, date, set, get);
+  pruneTimerSessions: async (elementIds) => {
+    const known = new Set(elementIds);
+    const sessions = get().activeTimerSessions;
+    if (Object.keys(sessions).every((elementId) => known.has(elementId))) return;
 
-    set({
-      activeTimerSessions: nextSessions,
-      habitStreaks: { ...get().habitStreaks, [elementId]: streak },
-    });
+    const nextSessions = Object.fromEntries(
+      Object.entries(sessions).filter(([elementId]) => known.has(elementId)),
+    );
+    set({ activeTimerSessions: nextSessions });
+    await persistTimerSessions(nextSessions);
   },
 }));
 
@@ -298,3 +829,14 @@ export function habitStreakInputsFromElements(
       config: HabitConfigSchema.parse(e.config),
     }));
 }
+
+export function checklistInputsFromElements(
+  elements: { id: string; kind: string; config: unknown }[],
+): ChecklistStateInput[] {
+  return elements
+    .filter((e) => e.kind === 'checklist')
+    .map((e) => ({
+      id: e.id,
+      config: ChecklistConfigSchema.parse(e.config),
+    }));
+}
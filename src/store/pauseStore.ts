@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { isDateInPausePeriod, isDatePaused, type PausePeriod } from '../protocol';
+import { getDatabase } from '../db/client';
+import * as pausePeriodRepo from '../db/repositories/pausePeriodRepository';
+import { dateDaysAgo, todayDate } from '../utils/dates';
+import { newId } from '../utils/id';
+
+interface PauseState {
+  periods: PausePeriod[];
+  isLoaded: boolean;
+  load: () => Promise<void>;
+  /** Pauses from today until ended. */
+  startPause: (reason?: string) => Promise<void>;
+  /** Pauses a fixed range, e.g. an upcoming trip. */
+  schedulePause: (startDate: string, endDate: string, reason?: string) => Promise<void>;
+  /** Resumes today: the pause keeps its past days, or goes away if it had none. */
+  endPause: (id: string) => Promise<void>;
+  removePause: (id: string) => Promise<void>;
+}
+
+function newPausePeriod(startDate: string, endDate?: string, reason?: string): PausePeriod {
+  const trimmed = reason?.trim();
+  return {
+    id: newId(),
+    startDate,
+    ...(endDate ? { endDate } : {}),
+    ...(trimmed ? { reason: trimmed } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export const usePauseStore = create<PauseState>((set, get) => ({
+  periods: [],
+  isLoaded: false,
+
+  load: async () => {
+    const db = await getDatabase();
+    const periods = await pausePeriodRepo.getPausePeriods(db);
+    set({ periods, isLoaded: true });
+  },
+
+  startPause: async (reason) => {
+    const today = todayDate();
+    if (isDatePaused(get().periods, today)) {
+      throw new Error('Habits are already paused today');
+    }
+    const db = await getDatabase();
+    await pausePeriodRepo.insertPausePeriod(db, newPausePeriod(today, undefined, reason));
+    await get().load();
+  },
+
+  schedulePause: async (startDate, endDate, reason) => {
+    if (endDate < startDate) {
+      throw new Error('The pause must end on or after its first day');
+    }
+    const db = await getDatabase();
+    await pausePeriodRepo.insertPausePeriod(db, newPausePeriod(startDate, endDate, reason));
+    await get().load();
+  },
+
+  endPause: async (id) => {
+    const period = get().periods.find((candidate) => candidate.id === id);
+    if (!period) return;
+    const today = todayDate();
+    const db = await getDatabase();
+    if (period.startDate >= today) {
+      await pausePeriodRepo.deletePausePeriod(db, id);
+    } else if (isDateInPausePeriod(period, today)) {
+      await pausePeriodRepo.updatePausePeriodEnd(db, id, dateDaysAgo(1));
+    }
+    await get().load();
+  },
+
+  removePause: async (id) => {
+    const db = await getDatabase();
+    await pausePeriodRepo.deletePausePeriod(db, id);
+    await get().load();
+  },
+}));
@@ -2,31 +2,64 @@ import { create } from 'zustand';
 import { getDatabase } from '../db/client';
 import * as settingsRepo from '../db/repositories/settingsRepository';
 import {
+  buildCustomCategory,
   isDailyViewFilter,
+  parseCustomCategories,
+  type CategoryDefinition,
   type DailyViewFilter,
 } from '../protocol';
 import { isThemeMode, type ThemeMode } from '../theme/types';
+import { isDayStartHour, setDayStartHour as applyDayStartHour } from '../utils/dates';
 
 const THEME_MODE_KEY = 'theme_mode';
 const LEGACY_DARK_MODE_KEY = 'dark_mode';
 const DAILY_VIEW_FILTER_KEY = 'daily_view_filter';
 const HABIT_REMINDERS_KEY = 'habit_reminders_enabled';
+const DAY_START_HOUR_KEY = 'day_start_hour';
+const CATEGORY_FILTER_KEY = 'category_filter';
+
+function parseStoredCategories(stored: string | null): CategoryDefinition[] {
+  if (!stored) return [];
+  try {
+    return parseCustomCategories(JSON.parse(stored));
+  } catch {
+    return [];
+  }
+}
 
 interface SettingsState {
   themeMode: ThemeMode;
   dailyViewFilter: DailyViewFilter;
   habitRemindersEnabled: boolean;
+  /** Local hour when a new day begins (0 = midnight). */
+  dayStartHour: number;
+  /** User-defined categories; built-ins come from `BUILT_IN_CATEGORIES`. */
+  customCategories: CategoryDefinition[];
+  /** Category shown on the Counter, Daily and Elements tabs; null shows all. */
+  categoryFilter: string | null;
   isLoaded: boolean;
   load: () => Promise<void>;
   setThemeMode: (mode: ThemeMode) => Promise<void>;
   setDailyViewFilter: (filter: DailyViewFilter) => Promise<void>;
   setHabitRemindersEnabled: (enabled: boolean) => Promise<void>;
+  setDayStartHour: (hour: number) => Promise<void>;
+  saveCustomCategory: (category: CategoryDefinition) => Promise<void>;
+  removeCustomCategory: (id: string) => Promise<void>;
+  setCategoryFilter: (categoryId: string | null) => Promise<void>;
 }
 
-export const useSettingsStore = create<SettingsState>((set) => ({
+async function persistCustomCategories(categories: CategoryDefinition[]): Promise<void> {
+  const db = await getDatabase();
+  await settingsRepo.setSetting(db, settingsRepo.CUSTOM_CATEGORIES_KEY, JSON.stringify(categories));
+}
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
   themeMode: 'light',
   dailyViewFilter: 'all_due',
   habitRemindersEnabled: false,
+  dayStartHour: 0,
+  customCategories: [],
+  categoryFilter: null,
   isLoaded: false,
 
   load: async () => {
@@ -35,6 +68,9 @@ export const useSettingsStore = create<SettingsState>((set) => ({
       const storedMode = await settingsRepo.getSetting(db, THEME_MODE_KEY);
       const storedFilter = await settingsRepo.getSetting(db, DAILY_VIEW_FILTER_KEY);
       const storedReminders = await settingsRepo.getSetting(db, HABIT_REMINDERS_KEY);
+      const storedDayStart = await settingsRepo.getSetting(db, DAY_START_HOUR_KEY);
+      const storedCategories = await settingsRepo.getSetting(db, settingsRepo.CUSTOM_CATEGORIES_KEY);
+      const storedCategoryFilter = await settingsRepo.getSetting(db, CATEGORY_FILTER_KEY);
 
       let themeMode: ThemeMode = 'light';
       if (storedMode && isThemeMode(storedMode)) {
@@ -44,11 +80,18 @@ export const useSettingsStore = create<SettingsState>((set) => ({
         themeMode = legacyDark === 'true' ? 'dark' : 'light';
       }
 
+      const parsedDayStart = storedDayStart ? parseInt(storedDayStart, 10) : 0;
+      const dayStartHour = isDayStartHour(parsedDayStart) ? parsedDayStart : 0;
+      applyDayStartHour(dayStartHour);
+
       set({
         themeMode,
         dailyViewFilter:
           storedFilter && isDailyViewFilter(storedFilter) ? storedFilter : 'all_due',
         habitRemindersEnabled: storedReminders === 'true',
+        dayStartHour,
+        customCategories: parseStoredCategories(storedCategories),
+        categoryFilter: storedCategoryFilter || null,
         isLoaded: true,
       });
     } catch (error) {
@@ -74,4 +117,39 @@ export const useSettingsStore = create<SettingsState>((set) => ({
     await settingsRepo.setSetting(db, HABIT_REMINDERS_KEY, enabled ? 'true' : 'false');
     set({ habitRemindersEnabled: enabled });
   },
+
+  setDayStartHour: async (hour) => {
+    if (!isDayStartHour(hour)) {
+      throw new Error('Day start hour must be between 0 and 12');
+    }
+    const db = await getDatabase();
+    await settingsRepo.setSetting(db, DAY_START_HOUR_KEY, String(hour));
+    applyDayStartHour(hour);
+    set({ dayStartHour: hour });
+  },
+
+  saveCustomCategory: async (category) => {
+    const current = get().customCategories;
+    const saved = buildCustomCategory(category, current);
+    const next = current.some((c) => c.id === saved.id)
+      ? current.map((c) => (c.id === saved.id ? saved : c))
+      : [...current, saved];
+    await persistCustomCategories(next);
+    set({ customCategories: next });
+  },
+
+  removeCustomCategory: async (id) => {
+    const next = get().customCategories.filter((c) => c.id !== id);
+    await persistCustomCategories(next);
+    set({ customCategories: next });
+    if (get().categoryFilter === id) {
+      await get().setCategoryFilter(null);
+    }
+  },
+
+  setCategoryFilter: async (categoryId) => {
+    const db = await getDatabase();
+    await settingsRepo.setSetting(db, CATEGORY_FILTER_KEY, categoryId ?? '');
+    set({ categoryFilter: categoryId });
+  },
 }));
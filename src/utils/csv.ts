@@ -0,0 +1,70 @@
+export type CsvCell = string | number | null | undefined;
+
+function escapeCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with CRLF line endings (what spreadsheet apps expect). */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/** A parsed row and the 1-based file line it starts on. */
+export interface CsvLine {
+  line: number;
+  cells: string[];
+}
+
+/** Parse RFC 4180 CSV (quoted fields, embedded newlines). Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  return parseCsvLines(text).map((row) => row.cells);
+}
+
+/** Like `parseCsv`, keeping each row's line so errors can point into the file. */
+export function parseCsvLines(text: string): CsvLine[] {
+  const rows: CsvLine[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // Newlines inside quotes still advance the file line.
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: rowLine, cells: row });
+  }
+  return rows.filter((r) => r.cells.some((value) => value.trim() !== ''));
+}
@@ -1,12 +1,117 @@
-import type { DashboardItem, ElementDefinition } from '../protocol';
+import {
+  applyDashboardOverrides,
+  parseDashboardOverrides,
+  type DashboardItem,
+  type DashboardOverrides,
+  type ElementDefinition,
+} from '../protocol';
 
-/** Elements pinned to Home, ordered by dashboard sort_order. */
+/**
+ * Elements pinned to Home, ordered by dashboard sort_order. Members of the same
+ * group are kept together at the position of the group's first pinned member.
+ */
 export function getPinnedElements(
   elements: ElementDefinition[],
   dashboard: DashboardItem[],
 ): ElementDefinition[] {
   const order = new Map(dashboard.map((item, index) => [item.elementId, index]));
-  return elements
+  const pinned = elements
     .filter((element) => order.has(element.id))
     .sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  const clusters = new Map<string, ElementDefinition[]>();
+  const ordered: (ElementDefinition | ElementDefinition[])[] = [];
+  for (const element of pinned) {
+    if (!element.parentId) {
+      ordered.push(element);
+      continue;
+    }
+    const cluster = clusters.get(element.parentId);
+    if (cluster) {
+      cluster.push(element);
+    } else {
+      const created = [element];
+      clusters.set(element.parentId, created);
+      ordered.push(created);
+    }
+  }
+  return ordered.flat();
+}
+
+/**
+ * Move `elementId` into `targetId`'s place: dragging down lands after the target,
+ * dragging up lands before it.
+ */
+export function moveElementTo(ids: string[], elementId: string, targetId: string): string[] {
+  const to = ids.indexOf(targetId);
+  if (to < 0 || !ids.includes(elementId) || elementId === targetId) return ids;
+  const moved = ids.filter((id) => id !== elementId);
+  moved.splice(to, 0, elementId);
+  return moved;
+}
+
+/**
+ * Dashboard item ids in their new order after the elements in `orderedElementIds`
+ * are rearranged. They reuse their own slots, so items hidden on the current
+ * screen (other tabs, category filter) keep their positions.
+ */
+export function dashboardOrderAfterReorder(
+  dashboard: DashboardItem[],
+  orderedElementIds: string[],
+): string[] {
+  const sorted = [...dashboard].sort((a, b) => a.sortOrder - b.sortOrder);
+  const byElement = new Map(sorted.map((item) => [item.elementId, item]));
+  const reordered = orderedElementIds
+    .map((elementId) => byElement.get(elementId))
+    .filter((item): item is DashboardItem => item !== undefined);
+  const moving = new Set(reordered.map((item) => item.id));
+
+  let next = 0;
+  return sorted.map((item) => (moving.has(item.id) ? reordered[next++].id : item.id));
+}
+
+export interface DashboardSection {
+  /** Null for elements outside any group. */
+  group: ElementDefinition | null;
+  elements: ElementDefinition[];
+}
+
+/**
+ * Split an ordered list (see `getPinnedElements`) into group sections.
+ * Members whose group no longer exists are shown on their own.
+ */
+export function groupDashboardElements(
+  elements: ElementDefinition[],
+  groups: ElementDefinition[],
+): DashboardSection[] {
+  const groupById = new Map(groups.map((group) => [group.id, group]));
+  const sections: DashboardSection[] = [];
+  for (const element of elements) {
+    const group = element.parentId ? groupById.get(element.parentId) ?? null : null;
+    const last = sections[sections.length - 1];
+    if (group && last?.group?.id === group.id) {
+      last.elements.push(element);
+    } else {
+      sections.push({ group, elements: [element] });
+    }
+  }
+  return sections;
+}
+
+/** Each pinned element's stored overrides, keyed by element id. */
+export function dashboardOverridesByElement(
+  dashboard: DashboardItem[],
+): Map<string, DashboardOverrides> {
+  return new Map(
+    dashboard.map((item) => [item.elementId, parseDashboardOverrides(item.overrides)]),
+  );
+}
+
+/** The element as its pinned widget shows it; unpinned elements come back unchanged. */
+export function withDashboardOverrides(
+  element: ElementDefinition,
+  overridesById: Map<string, DashboardOverrides>,
+): ElementDefinition {
+  const overrides = overridesById.get(element.id);
+  return overrides ? applyDashboardOverrides(element, overrides) : element;
 }
@@ -1,21 +1,49 @@
-import { toDateString } from '../protocol';
+import { shiftDateString, toDateString } from '../protocol';
+
+/** Hours after midnight that still count toward the previous day. */
+export const DAY_START_HOUR_OPTIONS = [0, 2, 3, 4, 5, 6] as const;
+
+export const MAX_DAY_START_HOUR = 12;
+
+let dayStartHour = 0;
+
+export function isDayStartHour(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_DAY_START_HOUR;
+}
+
+/** Set from settings at load so every "today" agrees with the user's day boundary. */
+export function setDayStartHour(hour: number): void {
+  dayStartHour = isDayStartHour(hour) ? hour : 0;
+}
+
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+export function todayDate(now = new Date()): string {
+  return toDateString(now, dayStartHour);
+}
 
 export function dateDaysAgo(days: number): string {
-  const d = new Date();
-  d.setDate(d.getDate() - days);
-  return toDateString(d);
+  return shiftDateString(todayDate(), -days);
 }
 
 export function lastNDates(count: number): string[] {
+  const today = todayDate();
   const dates: string[] = [];
   for (let i = count - 1; i >= 0; i--) {
-    const d = new Date();
-    d.setDate(d.getDate() - i);
-    dates.push(toDateString(d));
+    dates.push(shiftDateString(today, -i));
   }
   return dates;
 }
 
+export function formatDayStartHour(hour: number): string {
+  if (hour === 0) return 'Midnight';
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const display = hour % 12 === 0 ? 12 : hour % 12;
+  return `${display}:00 ${suffix}`;
+}
+
 export function formatChartLabel(dateStr: string): string {
   const d = new Date(`${dateStr}T12:00:00`);
   return d.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
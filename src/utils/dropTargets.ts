@@ -0,0 +1,26 @@
+import type { DragPoint } from '../components/DragHandle';
+
+export interface DropTargetRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Key of the target under `point`, or undefined when the point is over none of them. */
+export function findDropTarget<K>(
+  rects: ReadonlyMap<K, DropTargetRect>,
+  point: DragPoint,
+): K | undefined {
+  for (const [key, rect] of rects) {
+    if (
+      point.x >= rect.x &&
+      point.x <= rect.x + rect.width &&
+      point.y >= rect.y &&
+      point.y <= rect.y + rect.height
+    ) {
+      return key;
+    }
+  }
+  return undefined;
+}
@@ -1,11 +1,24 @@
 import type { ElementEditorSaveData } from '../components/elementEditor/types';
 import {
+  formatRRule,
   isScheduleSupportedForReminders,
+  parseRRule,
+  QUOTA_PERIOD_MAX_DAYS,
+  type AbstinenceInput,
+  type ChecklistInput,
+  type GroupInput,
   type CounterInput,
   type HabitInput,
   type HabitSchedule,
+  type HabitStreakFreezes,
+  type IntervalProgram,
+  type MeasurementInput,
+  type RatingInput,
+  type RRule,
+  RATING_SCALE_MAX,
 } from '../protocol';
-import { parseTimeHHmm } from './time';
+import { todayDate } from './dates';
+import { parseDurationSeconds, parseTimeHHmm } from './time';
 
 function parseIncrements(raw: string): number[] {
   const values = raw
@@ -38,6 +51,49 @@ function parseDailyGoalSeconds(raw: string): number | undefined {
   return minutes * 60;
 }
 
+function parseCountdownSeconds(raw: string): number | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  const minutes = parseInt(trimmed, 10);
+  if (Number.isNaN(minutes) || minutes <= 0) {
+    throw new Error('Session length must be a positive number of minutes');
+  }
+  return minutes * 60;
+}
+
+function parseIntervalProgram(
+  data: Extract<ElementEditorSaveData, { mode: 'habit' }>,
+): IntervalProgram {
+  const workSeconds = parseDurationSeconds(data.habitIntervalWork);
+  if (!workSeconds) {
+    throw new Error('Work length must be minutes (25) or minutes:seconds (0:20)');
+  }
+  const restSeconds = data.habitIntervalRest.trim()
+    ? parseDurationSeconds(data.habitIntervalRest)
+    : 0;
+  if (restSeconds === null) {
+    throw new Error('Rest length must be minutes (5) or minutes:seconds (0:10)');
+  }
+  const rounds = parseInt(data.habitIntervalRounds.trim(), 10);
+  if (Number.isNaN(rounds) || rounds < 1 || rounds > 99) {
+    throw new Error('Rounds must be between 1 and 99');
+  }
+
+  const program: IntervalProgram = { workSeconds, restSeconds, rounds };
+  if (!data.habitIntervalLongBreak.trim()) {
+    return program;
+  }
+  const longBreakSeconds = parseDurationSeconds(data.habitIntervalLongBreak);
+  const longBreakEvery = parseInt(data.habitIntervalLongBreakEvery.trim(), 10);
+  if (!longBreakSeconds) {
+    throw new Error('Long break must be minutes (15) or minutes:seconds (1:30)');
+  }
+  if (Number.isNaN(longBreakEvery) || longBreakEvery < 2) {
+    throw new Error('Long break must come every 2 or more rounds');
+  }
+  return { ...program, longBreakSeconds, longBreakEvery };
+}
+
 function parseSchedule(data: Extract<ElementEditorSaveData, { mode: 'habit' }>): HabitSchedule {
   if (data.scheduleType === 'daily') {
     return { type: 'daily' };
@@ -48,17 +104,83 @@ function parseSchedule(data: Extract<ElementEditorSaveData, { mode: 'habit' }>):
     }
     return { type: 'weekdays', days: [...data.scheduleWeekdays].sort() };
   }
-  const interval = parseInt(data.scheduleInterval.trim(), 10);
-  if (Number.isNaN(interval) || interval < 1) {
-    throw new Error('Interval must be at least 1 day');
+  if (data.scheduleType === 'quota') {
+    const count = parseInt(data.scheduleQuotaCount.trim(), 10);
+    const maxDays = QUOTA_PERIOD_MAX_DAYS[data.scheduleQuotaPeriod];
+    if (Number.isNaN(count) || count < 1 || count > maxDays) {
+      throw new Error(`Times per ${data.scheduleQuotaPeriod} must be 1 to ${maxDays}`);
+    }
+    return {
+      type: 'quota',
+      count,
+      period: data.scheduleQuotaPeriod,
+      weekStartsOn: data.scheduleWeekStartsOn,
+    };
   }
   const anchorDate = data.scheduleAnchorDate.trim();
   if (!/^\d{4}-\d{2}-\d{2}$/.test(anchorDate)) {
-    throw new Error('Anchor date must be YYYY-MM-DD');
+    throw new Error(
+      data.scheduleType === 'rrule'
+        ? 'Start date must be YYYY-MM-DD'
+        : 'Anchor date must be YYYY-MM-DD',
+    );
+  }
+  if (data.scheduleType === 'rrule') {
+    let rule: RRule;
+    try {
+      rule = parseRRule(data.scheduleRRule);
+    } catch (error) {
+      throw new Error(`Custom repeat: ${error instanceof Error ? error.message : 'invalid rule'}`);
+    }
+    return { type: 'rrule', rule: formatRRule(rule), anchorDate };
+  }
+  const interval = parseInt(data.scheduleInterval.trim(), 10);
+  if (Number.isNaN(interval) || interval < 1) {
+    throw new Error('Interval must be at least 1 day');
   }
   return { type: 'every_n_days', interval, anchorDate };
 }
 
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_RE = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function parseActiveWindow(
+  data: Extract<ElementEditorSaveData, { mode: 'habit' }>,
+): Pick<HabitInput, 'startDate' | 'endDate' | 'season'> {
+  const startDate = data.habitStartDate.trim() || undefined;
+  const endDate = data.habitEndDate.trim() || undefined;
+  if ((startDate && !DATE_RE.test(startDate)) || (endDate && !DATE_RE.test(endDate))) {
+    throw new Error('Start and end dates must be YYYY-MM-DD');
+  }
+  if (startDate && endDate && endDate < startDate) {
+    throw new Error('End date must be on or after the start date');
+  }
+  if (!data.habitUseSeason) {
+    return { startDate, endDate };
+  }
+  const start = data.habitSeasonStart.trim();
+  const end = data.habitSeasonEnd.trim();
+  if (!MONTH_DAY_RE.test(start) || !MONTH_DAY_RE.test(end)) {
+    throw new Error('Season dates must be MM-DD, e.g. 06-01');
+  }
+  return { startDate, endDate, season: { start, end } };
+}
+
+function parseStreakFreezes(
+  data: Extract<ElementEditorSaveData, { mode: 'habit' }>,
+): HabitStreakFreezes | undefined {
+  if (!data.habitUseStreakFreezes) return undefined;
+  const perMonth = parseInt(data.habitFreezesPerMonth.trim(), 10);
+  if (Number.isNaN(perMonth) || perMonth < 1 || perMonth > 10) {
+    throw new Error('Freezes per month must be 1 to 10');
+  }
+  const earnedAfter = parseInt(data.habitFreezeEarnedAfter.trim(), 10);
+  if (Number.isNaN(earnedAfter) || earnedAfter < 1 || earnedAfter > 365) {
+    throw new Error('Freezes must be earned after a streak of 1 to 365');
+  }
+  return { perMonth, earnedAfter };
+}
+
 function parseRemindMinutes(
   data: Extract<ElementEditorSaveData, { mode: 'habit' }>,
   hasTimeRange: boolean,
@@ -75,9 +197,117 @@ function parseRemindMinutes(
   return minutes;
 }
 
+function parseOptionalNumber(raw: string, label: string): number | undefined {
+  const trimmed = raw.trim().replace(',', '.');
+  if (!trimmed) return undefined;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${label} must be a number`);
+  }
+  return value;
+}
+
+function parseMeasurement(
+  data: Extract<ElementEditorSaveData, { mode: 'measurement' }>,
+): MeasurementInput {
+  const unit = data.measurementUnit.trim();
+  if (!unit) {
+    throw new Error('Enter a unit (e.g. kg)');
+  }
+  const decimals = parseInt(data.measurementDecimals.trim() || '0', 10);
+  if (Number.isNaN(decimals) || decimals < 0 || decimals > 3) {
+    throw new Error('Decimals must be between 0 and 3');
+  }
+  const targetMin = parseOptionalNumber(data.measurementTargetMin, 'Target min');
+  const targetMax = parseOptionalNumber(data.measurementTargetMax, 'Target max');
+  if (targetMin !== undefined && targetMax !== undefined && targetMin > targetMax) {
+    throw new Error('Target min must not be above target max');
+  }
+  return {
+    name: data.name,
+    unit,
+    decimals,
+    aggregation: data.measurementAggregation,
+    targetMin,
+    targetMax,
+    secondaryLabel: data.measurementSecondaryLabel.trim() || undefined,
+  };
+}
+
+function parseRating(data: Extract<ElementEditorSaveData, { mode: 'rating' }>): RatingInput {
+  const min = parseInt(data.ratingMin.trim(), 10);
+  const max = parseInt(data.ratingMax.trim(), 10);
+  if (Number.isNaN(min) || Number.isNaN(max) || min < 1 || max > RATING_SCALE_MAX || min >= max) {
+    throw new Error(`Scale must run from 1 or more up to at most ${RATING_SCALE_MAX}, e.g. 1–5`);
+  }
+  const labels = data.ratingLabels.trim() ? data.ratingLabels.split(',') : [];
+  if (labels.length > max - min + 1) {
+    throw new Error(`Enter at most ${max - min + 1} labels, one per score`);
+  }
+  return { name: data.name, min, max, labels };
+}
+
+function parseChecklist(
+  data: Extract<ElementEditorSaveData, { mode: 'checklist' }>,
+): ChecklistInput {
+  const items = data.checklistItems
+    .map((item) => ({ id: item.id, label: item.label.trim() }))
+    .filter((item) => item.label);
+  if (items.length === 0) {
+    throw new Error('Add at least one step');
+  }
+  const rawRequired = data.checklistRequiredCount.trim();
+  let requiredCount: number | undefined;
+  if (rawRequired) {
+    requiredCount = parseInt(rawRequired, 10);
+    if (Number.isNaN(requiredCount) || requiredCount < 1 || requiredCount > items.length) {
+      throw new Error(`Steps needed must be between 1 and ${items.length}`);
+    }
+  }
+  return { name: data.name, items, requiredCount, timeSlot: data.checklistTimeSlot };
+}
+
+function parseAbstinence(
+  data: Extract<ElementEditorSaveData, { mode: 'abstinence' }>,
+): AbstinenceInput {
+  const startDate = data.abstinenceStartDate.trim();
+  if (!startDate) {
+    return { name: data.name };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+    throw new Error('Start date must be YYYY-MM-DD');
+  }
+  if (startDate > todayDate()) {
+    throw new Error('Start date cannot be in the future');
+  }
+  return { name: data.name, startDate };
+}
+
 export function parseElementEditorSave(
   data: ElementEditorSaveData,
-): { kind: 'counter'; input: CounterInput } | { kind: 'habit'; input: HabitInput } {
+):
+  | { kind: 'counter'; input: CounterInput }
+  | { kind: 'habit'; input: HabitInput }
+  | { kind: 'measurement'; input: MeasurementInput }
+  | { kind: 'rating'; input: RatingInput }
+  | { kind: 'checklist'; input: ChecklistInput }
+  | { kind: 'abstinence'; input: AbstinenceInput }
+  | { kind: 'group'; input: GroupInput } {
+  if (data.mode === 'measurement') {
+    return { kind: 'measurement', input: parseMeasurement(data) };
+  }
+  if (data.mode === 'rating') {
+    return { kind: 'rating', input: parseRating(data) };
+  }
+  if (data.mode === 'checklist') {
+    return { kind: 'checklist', input: parseChecklist(data) };
+  }
+  if (data.mode === 'abstinence') {
+    return { kind: 'abstinence', input: parseAbstinence(data) };
+  }
+  if (data.mode === 'group') {
+    return { kind: 'group', input: { name: data.name } };
+  }
   if (data.mode === 'counter') {
     return {
       kind: 'counter',
@@ -104,6 +334,18 @@ export function parseElementEditorSave(
 
   const schedule = parseSchedule(data);
 
+  const isTimer = data.habitTrackingMode === 'timer';
+  const dailyTargetSeconds = isTimer ? parseDailyGoalSeconds(data.habitDailyGoalMinutes) : undefined;
+  const intervalProgram =
+    isTimer && data.habitUseIntervals ? parseIntervalProgram(data) : undefined;
+  const isCountdown = isTimer && !intervalProgram && data.habitTimerStyle === 'countdown';
+  const countdownSeconds = isCountdown
+    ? parseCountdownSeconds(data.habitCountdownMinutes)
+    : undefined;
+  if (isCountdown && !dailyTargetSeconds && !countdownSeconds) {
+    throw new Error('Countdown needs a daily goal or session length');
+  }
+
   return {
     kind: 'habit',
     input: {
@@ -112,16 +354,19 @@ export function parseElementEditorSave(
       timeSlot: data.timeSlot,
       targetLabel:
         data.habitTrackingMode === 'boolean' ? data.targetLabel || undefined : undefined,
-      dailyTargetSeconds:
-        data.habitTrackingMode === 'timer'
-          ? parseDailyGoalSeconds(data.habitDailyGoalMinutes)
-          : undefined,
+      dailyTargetSeconds,
+      timerStyle: isCountdown ? 'countdown' : undefined,
+      countdownSeconds,
+      intervalProgram,
+      cueSoundId: intervalProgram && data.habitCueSoundId ? data.habitCueSoundId : undefined,
       soundId:
         data.habitTrackingMode === 'timer' && data.habitSoundId ? data.habitSoundId : undefined,
       timeRange,
       visibleOnlyInTimeRange: data.visibleOnlyInTimeRange,
       schedule,
       remindMinutesBefore: parseRemindMinutes(data, Boolean(timeRange), schedule),
+      ...parseActiveWindow(data),
+      streakFreezes: parseStreakFreezes(data),
     },
   };
 }
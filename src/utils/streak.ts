@@ -1,46 +1,165 @@
-import { toDateString } from '../protocol';
+import {
+  hasHabitActiveWindow,
+  isHabitActiveOnDate,
+  isHabitScheduledOnDate,
+  quotaPeriodStart,
+  shiftDateString,
+  type HabitConfig,
+  type HabitStreakFreezes,
+} from '../protocol';
 
-function dateFromString(dateStr: string): Date {
-  return new Date(`${dateStr}T12:00:00`);
+function previousDateString(dateStr: string): string {
+  return shiftDateString(dateStr, -1);
 }
 
-function previousDateString(dateStr: string): string {
-  const d = dateFromString(dateStr);
-  d.setDate(d.getDate() - 1);
-  return toDateString(d);
+function nextDateString(dateStr: string): string {
+  return shiftDateString(dateStr, 1);
+}
+
+/** Quota habits: a period succeeds once `count` of its days are completed. */
+export interface StreakQuota {
+  count: number;
+  /** First date of the period holding `date`. */
+  periodStart: (date: string) => string;
+  /** Days the habit runs at all; periods with none of them are skipped, not missed. */
+  isActive?: (date: string) => boolean;
+}
+
+/** Which days a streak counts: a per-day schedule, or a per-period quota. */
+export type StreakSchedule = ((date: string) => boolean) | StreakQuota;
+
+export interface StreakOptions {
+  /**
+   * Excused days: never missed, but still counted when done. A quota period holding
+   * one is excused.
+   */
+  skippedDates?: Iterable<string>;
+  /** Missed days (or periods) the streak may absorb per calendar month. */
+  freezes?: HabitStreakFreezes;
+  maxLookback?: number;
+}
+
+export interface StreakDetails {
+  streak: number;
+  /** Missed days covered by a freeze; for quotas, the first day of each frozen period. */
+  frozenDates: string[];
 }
 
 /**
  * Consecutive scheduled days completed, ending today (if done) or yesterday.
+ * With a quota, consecutive periods that met it, ending with the current period
+ * (if already met) or the one before; an unfinished current period does not break it.
  */
 export function computeStreak(
   completedDates: Iterable<string>,
   today: string,
-  isScheduledOnDate: (date: string) => boolean = () => true,
-  maxLookback = 365,
+  schedule: StreakSchedule = () => true,
+  options: StreakOptions = {},
 ): number {
+  return computeStreakDetails(completedDates, today, schedule, options).streak;
+}
+
+/**
+ * Like `computeStreak`, walking forward so freezes go to the gaps a long enough
+ * streak reached first, at most `perMonth` in each calendar month.
+ */
+export function computeStreakDetails(
+  completedDates: Iterable<string>,
+  today: string,
+  schedule: StreakSchedule = () => true,
+  options: StreakOptions = {},
+): StreakDetails {
   const completed = new Set(completedDates);
-  let cursor = today;
+  const skipped = new Set(options.skippedDates ?? []);
+  const earliest = shiftDateString(today, -(options.maxLookback ?? 365));
+  const freezesUsed = new Map<string, number>();
+  const frozenDates: string[] = [];
+  let streak = 0;
 
-  if (!completed.has(today)) {
-    cursor = previousDateString(today);
-  }
+  const tryFreeze = (date: string) => {
+    const { freezes } = options;
+    const month = date.slice(0, 7);
+    const used = freezesUsed.get(month) ?? 0;
+    if (!freezes || streak < freezes.earnedAfter || used >= freezes.perMonth) return false;
+    freezesUsed.set(month, used + 1);
+    frozenDates.push(date);
+    return true;
+  };
 
-  let streak = 0;
-  for (let i = 0; i < maxLookback; i++) {
-    if (!isScheduledOnDate(cursor)) {
-      cursor = previousDateString(cursor);
-      continue;
+  if (typeof schedule !== 'function') {
+    for (const [start, end] of quotaPeriods(today, schedule, earliest)) {
+      const done = [...completed].filter((date) => date >= start && date <= end).length;
+      if (done >= schedule.count) {
+        streak++;
+        continue;
+      }
+      if (end === today) continue;
+      if (!isActivePeriod(start, end, schedule.isActive)) continue;
+      if ([...skipped].some((date) => date >= start && date <= end)) continue;
+      if (!tryFreeze(start)) streak = 0;
     }
-    if (completed.has(cursor)) {
+    return { streak, frozenDates };
+  }
+
+  for (let date = nextDateString(earliest); date <= today; date = nextDateString(date)) {
+    if (!schedule(date)) continue;
+    if (completed.has(date)) {
       streak++;
-      cursor = previousDateString(cursor);
-    } else {
-      break;
+      continue;
     }
+    if (date === today || skipped.has(date)) continue;
+    if (!tryFreeze(date)) streak = 0;
+  }
+
+  return { streak, frozenDates };
+}
+
+/** Quota periods back to `earliest`, oldest first; the last one ends today. */
+function quotaPeriods(today: string, quota: StreakQuota, earliest: string): [string, string][] {
+  const periods: [string, string][] = [[quota.periodStart(today), today]];
+  while (true) {
+    const end = previousDateString(periods[0][0]);
+    if (end < earliest) break;
+    periods.unshift([quota.periodStart(end), end]);
+  }
+  return periods;
+}
+
+function isActivePeriod(
+  start: string,
+  end: string,
+  isActive: ((date: string) => boolean) | undefined,
+): boolean {
+  if (!isActive) return true;
+  for (let date = start; date <= end; date = nextDateString(date)) {
+    if (isActive(date)) return true;
   }
+  return false;
+}
+
+/** The streak schedule for a habit: its scheduled days, or its quota periods. */
+export function habitStreakSchedule(config: HabitConfig): StreakSchedule {
+  const { schedule } = config;
+  if (schedule.type === 'quota') {
+    return {
+      count: schedule.count,
+      periodStart: (date) => quotaPeriodStart(schedule, date),
+      ...(hasHabitActiveWindow(config)
+        ? { isActive: (date: string) => isHabitActiveOnDate(config, date) }
+        : {}),
+    };
+  }
+  return (date) => isHabitScheduledOnDate(config, date);
+}
 
-  return streak;
+export function habitStreakOptions(
+  config: HabitConfig,
+  skippedDates: Iterable<string>,
+): StreakOptions {
+  return {
+    skippedDates,
+    ...(config.streakFreezes ? { freezes: config.streakFreezes } : {}),
+  };
 }
 
 export function completedDatesFromDailyTotals(
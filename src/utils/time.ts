@@ -17,6 +17,23 @@ export function parseTimeHHmm(raw: string): string | null {
   return TIME_HHMM.test(normalized) ? normalized : null;
 }
 
+/** Parse a duration as whole minutes (`25`) or minutes and seconds (`0:20`). */
+export function parseDurationSeconds(raw: string): number | null {
+  const trimmed = raw.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 60;
+  }
+  const match = /^(\d+):([0-5]\d)$/.exec(trimmed);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/** Inverse of `parseDurationSeconds`, preferring whole minutes. */
+export function formatDurationInput(seconds: number): string {
+  if (seconds % 60 === 0) return String(seconds / 60);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
 export function timeToMinutes(hhmm: string): number {
   const [hours, minutes] = hhmm.split(':').map(Number);
   return hours * 60 + minutes;
@@ -0,0 +1,36 @@
+/** Most recent changes kept for undo; older ones fall off the bottom. */
+export const UNDO_LIMIT = 50;
+
+export interface UndoStacks<T> {
+  undo: T[];
+  redo: T[];
+}
+
+export function emptyUndoStacks<T>(): UndoStacks<T> {
+  return { undo: [], redo: [] };
+}
+
+/** A fresh change: it becomes the next undo and anything undone can no longer be redone. */
+export function recordUndo<T>(stacks: UndoStacks<T>, entry: T): UndoStacks<T> {
+  return { undo: [...stacks.undo, entry].slice(-UNDO_LIMIT), redo: [] };
+}
+
+/** Newest undoable entry and the stacks once it has been undone; null when there is none. */
+export function takeUndo<T>(stacks: UndoStacks<T>): { entry: T; stacks: UndoStacks<T> } | null {
+  const entry = stacks.undo[stacks.undo.length - 1];
+  if (entry === undefined) return null;
+  return {
+    entry,
+    stacks: { undo: stacks.undo.slice(0, -1), redo: [...stacks.redo, entry] },
+  };
+}
+
+/** Newest undone entry and the stacks once it has been redone; null when there is none. */
+export function takeRedo<T>(stacks: UndoStacks<T>): { entry: T; stacks: UndoStacks<T> } | null {
+  const entry = stacks.redo[stacks.redo.length - 1];
+  if (entry === undefined) return null;
+  return {
+    entry,
+    stacks: { undo: [...stacks.undo, entry], redo: stacks.redo.slice(0, -1) },
+  };
+}